@@ -1,28 +1,159 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { ConfigPanel } from './components/ConfigPanel';
-import { DataInput } from './components/DataInput';
+import { DataInput, InputMode } from './components/DataInput';
 import { SolutionView } from './components/SolutionView';
-import { Constraint, OptimizationType, SolveResult, SolverMethod } from './types';
+import { HistorySidebar } from './components/HistorySidebar';
+import { TransportationInput } from './components/TransportationInput';
+import { TransportationView } from './components/TransportationView';
+import { AssignmentInput } from './components/AssignmentInput';
+import { AssignmentView } from './components/AssignmentView';
+import { GoalInput, emptyGoalConstraint } from './components/GoalInput';
+import { GoalView } from './components/GoalView';
+import { downloadTextFile } from './components/download';
+import {
+  AssignmentProblem, AssignmentResult, Constraint, GoalProgram, GoalResult, IntegerStrategy, OptimizationType, PivotRule, ProblemType,
+  SolveResult, SolverMethod, TransportInitialMethod, TransportationProblem, TransportationResult, VariableBound,
+  VariableKind
+} from './types';
 import { solveLinearProgram } from './services/solver';
-import { INITIAL_VARS, INITIAL_CONSTRAINTS } from './constants';
-import { BrainCircuit } from 'lucide-react';
+import { solveIntegerProgram } from './services/integer';
+import { DualityReport, analyzeDuality } from './services/duality';
+import { farkasCertificate } from './services/certificates';
+import { DEFAULT_BOUND, hasCustomBounds } from './services/bounds';
+import { effectiveMethod, fitsDenseTableau } from './services/revised';
+import { solveTransportation } from './services/transportation';
+import { solveAssignment } from './services/assignment';
+import { solveGoalProgram } from './services/goals';
+import { ParsedModel, defaultVariableNames } from './services/modelParser';
+import { importModelFile } from './services/modelFormats';
+import {
+  SavedProblem, createProblem, deleteProblem, duplicateProblem, exportLibrary, importLibrary, loadLibrary,
+  nextProblemName, renameProblem, storeLibrary, summarizeResult, updateProblem
+} from './services/library';
+import { AppStep, PermalinkState, SharedProblem, decodePermalink, encodePermalink } from './services/permalink';
+import {
+  INITIAL_VARS, INITIAL_CONSTRAINTS, INITIAL_ORIGINS, INITIAL_DESTINATIONS, INITIAL_ASSIGNMENT_SIZE,
+  MAX_GRID_SIZE, PROBLEM_TYPE_LABELS
+} from './constants';
+import { BrainCircuit, AlertTriangle, X, History } from 'lucide-react';
+
+const emptyTransportation = (): TransportationProblem => ({
+  costs: Array.from({ length: INITIAL_ORIGINS }, () => Array(INITIAL_DESTINATIONS).fill(0)),
+  supply: Array(INITIAL_ORIGINS).fill(0),
+  demand: Array(INITIAL_DESTINATIONS).fill(0)
+});
+
+const emptyAssignment = (): AssignmentProblem => ({
+  type: 'MIN',
+  costs: Array.from({ length: INITIAL_ASSIGNMENT_SIZE }, () => Array(INITIAL_ASSIGNMENT_SIZE).fill(0))
+});
+
+const emptyGoalProgram = (): GoalProgram => ({
+  mode: 'PREEMPTIVE',
+  method: 'TWO_PHASE',
+  numVars: INITIAL_VARS,
+  constraints: Array.from({ length: INITIAL_CONSTRAINTS }, (_, i) => emptyGoalConstraint(i, INITIAL_VARS))
+});
+
+const solveProblem = (problem: SharedProblem) => {
+  const { pivotRule, integerStrategy, exact, model, variableKinds } = problem;
+  const { type, objCoeffs, constraints, variableBounds } = model;
+  const options = { exact, pivotRule, bounds: variableBounds };
+  const isInteger = variableKinds.some(k => k !== 'continuous');
+  // The certificate and the dual are written for x ≥ 0
+  const bounded = hasCustomBounds(variableBounds);
+  const method = effectiveMethod(problem.method, objCoeffs.length, constraints.length);
+  const solved = isInteger
+    ? solveIntegerProgram(method, type, objCoeffs, constraints, variableKinds, options, integerStrategy)
+    : solveLinearProgram(method, type, objCoeffs, constraints, options);
+  // Evidence of infeasibility, when the LP relaxation itself is infeasible
+  // (the certificate LP runs on exact fractions, so only for models of tableau size)
+  const result = solved.status === 'INFEASIBLE' && !bounded && fitsDenseTableau(objCoeffs.length, constraints.length)
+    ? { ...solved, farkas: farkasCertificate(constraints, objCoeffs.length) ?? undefined }
+    : solved;
+  // Duality only holds for the continuous LP
+  const duality = isInteger || bounded ? null : analyzeDuality(type, objCoeffs, constraints, result, options);
+  return { result, duality };
+};
+
+// Setup dimensions from a link are held to the range the ConfigPanel inputs accept
+const readLink = (hash: string): PermalinkState | null => {
+  const link = decodePermalink(hash);
+  if (!link?.dimensions) return link;
+  const [vars, rows] = link.dimensions;
+  return { ...link, dimensions: [Math.min(vars, MAX_GRID_SIZE), Math.min(rows, MAX_GRID_SIZE)] };
+};
+
+// Models past the grid size are edited as text
+const inputModeFor = (numVars: number, numConstraints: number): InputMode =>
+  numVars <= MAX_GRID_SIZE && numConstraints <= MAX_GRID_SIZE ? 'GRID' : 'TEXT';
+
+// A permalink opened directly starts at its step, already solved when it points to RESULT
+const readInitialLink = () => {
+  const link = readLink(window.location.hash);
+  return { link, solution: link?.step === 'RESULT' ? solveProblem(link.problem) : null };
+};
 
 function App() {
+  const [initial] = useState(readInitialLink);
+  const link = initial.link;
+  const linkModel = link && link.step !== 'SETUP' ? link.problem.model : null;
+
+  // General LPs go through the steps below; specialized models have their own screens
+  const [problemType, setProblemType] = useState<ProblemType>('LP');
+
   // State Machine: 'SETUP' -> 'INPUT' -> 'RESULT'
-  const [step, setStep] = useState<'SETUP' | 'INPUT' | 'RESULT'>('SETUP');
+  const [step, setStep] = useState<AppStep>(link?.step ?? 'SETUP');
 
   // Configuration State
-  const [numVars, setNumVars] = useState(INITIAL_VARS);
-  const [numConstraints, setNumConstraints] = useState(INITIAL_CONSTRAINTS);
-  const [optType, setOptType] = useState<OptimizationType>('MAX');
-  const [method, setMethod] = useState<SolverMethod>('SIMPLEX');
+  const [numVars, setNumVars] = useState(linkModel?.objCoeffs.length ?? link?.dimensions?.[0] ?? INITIAL_VARS);
+  const [numConstraints, setNumConstraints] = useState(linkModel?.constraints.length ?? link?.dimensions?.[1] ?? INITIAL_CONSTRAINTS);
+  const [optType, setOptType] = useState<OptimizationType>(link?.problem.model.type ?? 'MAX');
+  const [method, setMethod] = useState<SolverMethod>(link?.problem.method ?? 'SIMPLEX');
+  const [pivotRule, setPivotRule] = useState<PivotRule>(link?.problem.pivotRule ?? 'DANTZIG');
+  const [integerStrategy, setIntegerStrategy] = useState<IntegerStrategy>(link?.problem.integerStrategy ?? 'BRANCH_AND_BOUND');
+  const [exact, setExact] = useState(link?.problem.exact ?? false);
+  const [inputMode, setInputMode] = useState<InputMode>(
+    linkModel ? inputModeFor(linkModel.objCoeffs.length, linkModel.constraints.length) : 'GRID'
+  );
 
   // Data State
-  const [objCoeffs, setObjCoeffs] = useState<number[]>([]);
-  const [constraints, setConstraints] = useState<Constraint[]>([]);
+  const [objCoeffs, setObjCoeffs] = useState<number[]>(linkModel?.objCoeffs ?? []);
+  const [variableKinds, setVariableKinds] = useState<VariableKind[]>(linkModel ? link.problem.variableKinds : []);
+  const [variableNames, setVariableNames] = useState<string[]>(linkModel?.variableNames ?? []);
+  const [variableBounds, setVariableBounds] = useState<VariableBound[]>(linkModel?.variableBounds ?? []);
+  const [constraints, setConstraints] = useState<Constraint[]>(linkModel?.constraints ?? []);
 
   // Result State
-  const [result, setResult] = useState<SolveResult | null>(null);
+  const [result, setResult] = useState<SolveResult | null>(initial.solution?.result ?? null);
+  const [duality, setDuality] = useState<DualityReport | null>(initial.solution?.duality ?? null);
+
+  // Transportation model
+  const [transportProblem, setTransportProblem] = useState<TransportationProblem>(emptyTransportation);
+  const [transportMethod, setTransportMethod] = useState<TransportInitialMethod>('VOGEL');
+  const [transportResult, setTransportResult] = useState<TransportationResult | null>(null);
+
+  // Assignment model
+  const [assignmentProblem, setAssignmentProblem] = useState<AssignmentProblem>(emptyAssignment);
+  const [assignmentResult, setAssignmentResult] = useState<AssignmentResult | null>(null);
+
+  // Goal programming model
+  const [goalProgram, setGoalProgram] = useState<GoalProgram>(emptyGoalProgram);
+  const [goalResult, setGoalResult] = useState<GoalResult | null>(null);
+
+  // Messages from the last .lp / .mps import
+  const [importError, setImportError] = useState<string | null>(null);
+  const [importWarnings, setImportWarnings] = useState<string[]>([]);
+
+  // Saved problems; the one being edited is updated in place when solved again
+  const [library, setLibrary] = useState<SavedProblem[]>(loadLibrary);
+  const [currentProblemId, setCurrentProblemId] = useState<string | null>(null);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [libraryImportError, setLibraryImportError] = useState<string | null>(null);
+
+  useEffect(() => {
+    storeLibrary(library);
+  }, [library]);
 
   // Initialize data structures when config changes
   useEffect(() => {
@@ -32,6 +163,69 @@ function App() {
     }
   }, [step]);
 
+  const currentProblem = (): SharedProblem => ({
+    method, pivotRule, integerStrategy, exact,
+    model: { type: optType, objCoeffs, constraints, variableNames, variableBounds },
+    variableKinds
+  });
+
+  // Keep the URL hash in sync: a new step adds a history entry, edits within a step replace it
+  const hashStep = useRef<AppStep | null>(null);
+  const restoringFromHistory = useRef(false);
+  useEffect(() => {
+    const hash = `#${encodePermalink({ step, problem: currentProblem(), dimensions: [numVars, numConstraints] })}`;
+    const push = hashStep.current !== null && hashStep.current !== step && !restoringFromHistory.current;
+    if (hash !== window.location.hash) {
+      if (push) window.history.pushState(null, '', hash);
+      else window.history.replaceState(null, '', hash);
+    }
+    hashStep.current = step;
+    restoringFromHistory.current = false;
+  }, [step, numVars, numConstraints, optType, method, pivotRule, integerStrategy, exact, objCoeffs, constraints, variableKinds, variableNames, variableBounds]);
+
+  const applyLink = (target: PermalinkState) => {
+    const { problem } = target;
+    setOptType(problem.model.type);
+    setMethod(problem.method);
+    setPivotRule(problem.pivotRule);
+    setIntegerStrategy(problem.integerStrategy);
+    setExact(problem.exact);
+    if (target.step === 'SETUP') {
+      if (target.dimensions) {
+        setNumVars(target.dimensions[0]);
+        setNumConstraints(target.dimensions[1]);
+      }
+      setResult(null);
+      setDuality(null);
+    } else {
+      handleModelParsed({
+        ...problem.model,
+        variableNames: problem.model.variableNames ?? defaultVariableNames(problem.model.objCoeffs.length),
+        variableKinds: problem.variableKinds,
+        variableBounds: problem.model.variableBounds ?? Array(problem.model.objCoeffs.length).fill(DEFAULT_BOUND)
+      });
+      if (inputModeFor(problem.model.objCoeffs.length, problem.model.constraints.length) === 'TEXT') setInputMode('TEXT');
+      const solution = target.step === 'RESULT' ? solveProblem(problem) : null;
+      setResult(solution?.result ?? null);
+      setDuality(solution?.duality ?? null);
+    }
+    setStep(target.step);
+  };
+
+  // Browser back/forward. The listener is registered once and calls the latest applyLink through a ref.
+  const applyLinkRef = useRef(applyLink);
+  applyLinkRef.current = applyLink;
+  useEffect(() => {
+    const onPopState = () => {
+      const target = readLink(window.location.hash);
+      restoringFromHistory.current = true;
+      if (target) applyLinkRef.current(target);
+      else setStep('SETUP');
+    };
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, []);
+
   const handleSetupNext = () => {
     // Initialize arrays
     const newObjCoeffs = Array(numVars).fill(0);
@@ -45,21 +239,131 @@ function App() {
     // Preserve existing values if resizing (optional enhancement, simplified here to reset or simplistic slice)
     // For better UX, we could map old values. For now, fresh start on dimension change is safer.
     setObjCoeffs(newObjCoeffs);
+    setVariableKinds(Array(numVars).fill('continuous'));
+    setVariableNames(defaultVariableNames(numVars));
+    setVariableBounds(Array(numVars).fill(DEFAULT_BOUND));
     setConstraints(newConstraints);
+    setCurrentProblemId(null);
     setStep('INPUT');
   };
 
+  // Skip the dimension fields: the text parser infers them
+  const handleTextInput = () => {
+    setInputMode('TEXT');
+    handleSetupNext();
+  };
+
+  const handleModelParsed = (m: ParsedModel) => {
+    setOptType(m.type);
+    setNumVars(m.objCoeffs.length);
+    setNumConstraints(m.constraints.length);
+    setObjCoeffs(m.objCoeffs);
+    setVariableKinds(m.variableKinds);
+    setVariableNames(m.variableNames);
+    setVariableBounds(m.variableBounds);
+    setConstraints(m.constraints);
+  };
+
+  const handleImportFile = async (file: File) => {
+    try {
+      const imported = importModelFile(file.name, await file.text());
+      handleModelParsed(imported);
+      setCurrentProblemId(null);
+      setImportError(null);
+      setImportWarnings(imported.warnings);
+      setInputMode(inputModeFor(imported.objCoeffs.length, imported.constraints.length));
+      setStep('INPUT');
+    } catch (e) {
+      // Parse errors carry line and column; anything else (unreadable file, parser bug) is still reported
+      setImportError(`${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+      setImportWarnings([]);
+    }
+  };
+
   const handleSolve = () => {
-    const res = solveLinearProgram(method, optType, objCoeffs, constraints);
-    setResult(res);
+    const solution = solveProblem(currentProblem());
+    setResult(solution.result);
+    setDuality(solution.duality);
+    saveToLibrary(solution.result);
     setStep('RESULT');
   };
 
+  const saveToLibrary = (res: SolveResult) => {
+    const fields = { ...currentProblem(), summary: summarizeResult(res) };
+    if (currentProblemId && library.some(p => p.id === currentProblemId)) {
+      setLibrary(updateProblem(library, currentProblemId, fields));
+    } else {
+      const saved = createProblem(nextProblemName(library), fields);
+      setLibrary([...library, saved]);
+      setCurrentProblemId(saved.id);
+    }
+  };
+
+  const handleOpenProblem = (id: string) => {
+    const saved = library.find(p => p.id === id);
+    if (!saved) return;
+    setMethod(saved.method);
+    setPivotRule(saved.pivotRule);
+    setIntegerStrategy(saved.integerStrategy);
+    setExact(saved.exact);
+    handleModelParsed({
+      ...saved.model,
+      variableNames: saved.model.variableNames ?? defaultVariableNames(saved.model.objCoeffs.length),
+      variableKinds: saved.variableKinds,
+      variableBounds: saved.model.variableBounds ?? Array(saved.model.objCoeffs.length).fill(DEFAULT_BOUND)
+    });
+    setCurrentProblemId(id);
+    setInputMode(inputModeFor(saved.model.objCoeffs.length, saved.model.constraints.length));
+    setResult(null);
+    setDuality(null);
+    setHistoryOpen(false);
+    setStep('INPUT');
+  };
+
+  const handleDeleteProblem = (id: string) => {
+    setLibrary(deleteProblem(library, id));
+    if (id === currentProblemId) setCurrentProblemId(null);
+  };
+
+  const handleImportLibrary = async (file: File) => {
+    const text = await file.text();
+    try {
+      setLibrary(importLibrary(library, text));
+      setLibraryImportError(null);
+    } catch (e) {
+      setLibraryImportError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleTransportReset = () => {
+    setTransportProblem(emptyTransportation());
+    setTransportResult(null);
+  };
+
+  const handleAssignmentReset = () => {
+    setAssignmentProblem(emptyAssignment());
+    setAssignmentResult(null);
+  };
+
+  const handleGoalReset = () => {
+    setGoalProgram(emptyGoalProgram());
+    setGoalResult(null);
+  };
+
   const handleReset = () => {
     setStep('SETUP');
     setResult(null);
+    setDuality(null);
+    setImportError(null);
+    setImportWarnings([]);
+    setCurrentProblemId(null);
   };
 
+  // The model tabs stay visible until the current model is solved
+  const onInputScreen = problemType === 'LP'
+    ? step === 'SETUP'
+    : !{ TRANSPORTATION: transportResult, ASSIGNMENT: assignmentResult, GOAL: goalResult }[problemType];
+
   return (
     <div className="min-h-screen bg-slate-50 flex flex-col">
       {/* Header */}
@@ -74,18 +378,129 @@ function App() {
               <p className="text-xs text-slate-500 font-medium">Calculadora de Programación Lineal</p>
             </div>
           </div>
-          <div className="hidden sm:block text-right">
-            <span className="text-xs bg-slate-100 text-slate-600 px-2 py-1 rounded font-medium border border-slate-200">
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => setHistoryOpen(true)}
+              className="flex items-center gap-1.5 text-sm font-medium text-slate-600 hover:text-blue-600 px-3 py-1.5 rounded-lg border border-slate-200 hover:border-blue-300 transition"
+            >
+              <History className="w-4 h-4" />
+              Historial
+              {library.length > 0 && (
+                <span className="bg-blue-100 text-blue-700 text-xs font-bold px-1.5 rounded">{library.length}</span>
+              )}
+            </button>
+            <span className="hidden sm:inline text-xs bg-slate-100 text-slate-600 px-2 py-1 rounded font-medium border border-slate-200">
               v1.0.0
             </span>
           </div>
         </div>
       </header>
 
+      <HistorySidebar
+        open={historyOpen}
+        onClose={() => setHistoryOpen(false)}
+        problems={library}
+        currentId={currentProblemId}
+        onOpen={handleOpenProblem}
+        onDuplicate={(id) => setLibrary(duplicateProblem(library, id))}
+        onRename={(id, name) => setLibrary(renameProblem(library, id, name))}
+        onDelete={handleDeleteProblem}
+        onExport={() => downloadTextFile('calcupl-biblioteca.json', exportLibrary(library), 'application/json')}
+        onImport={handleImportLibrary}
+        importError={libraryImportError}
+      />
+
       {/* Main Content */}
       <main className="flex-1 w-full max-w-4xl mx-auto p-4 md:p-8">
+
+        {onInputScreen && (
+          <div className="mb-6 inline-flex rounded-lg border border-slate-200 bg-white p-1 text-sm font-medium">
+            {(['LP', 'TRANSPORTATION', 'ASSIGNMENT', 'GOAL'] as ProblemType[]).map(type => (
+              <button
+                key={type}
+                onClick={() => setProblemType(type)}
+                className={`px-4 py-1.5 rounded ${problemType === type ? 'bg-blue-600 text-white' : 'text-slate-600 hover:bg-slate-50'}`}
+              >
+                {PROBLEM_TYPE_LABELS[type]}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {problemType === 'TRANSPORTATION' && !transportResult && (
+          <TransportationInput
+            problem={transportProblem}
+            setProblem={setTransportProblem}
+            initialMethod={transportMethod}
+            setInitialMethod={setTransportMethod}
+            onSolve={() => setTransportResult(solveTransportation(transportProblem, transportMethod))}
+          />
+        )}
+
+        {problemType === 'TRANSPORTATION' && transportResult && (
+          <TransportationView
+            result={transportResult}
+            onEdit={() => setTransportResult(null)}
+            onReset={handleTransportReset}
+          />
+        )}
+
+        {problemType === 'ASSIGNMENT' && !assignmentResult && (
+          <AssignmentInput
+            problem={assignmentProblem}
+            setProblem={setAssignmentProblem}
+            onSolve={() => setAssignmentResult(solveAssignment(assignmentProblem))}
+          />
+        )}
+
+        {problemType === 'ASSIGNMENT' && assignmentResult && (
+          <AssignmentView
+            result={assignmentResult}
+            onEdit={() => setAssignmentResult(null)}
+            onReset={handleAssignmentReset}
+          />
+        )}
+
+        {problemType === 'GOAL' && !goalResult && (
+          <GoalInput
+            program={goalProgram}
+            setProgram={setGoalProgram}
+            onSolve={() => setGoalResult(solveGoalProgram(goalProgram))}
+          />
+        )}
+
+        {problemType === 'GOAL' && goalResult && (
+          <GoalView
+            program={goalProgram}
+            result={goalResult}
+            onEdit={() => setGoalResult(null)}
+            onReset={handleGoalReset}
+          />
+        )}
+
+        {(importError || importWarnings.length > 0) && problemType === 'LP' && step !== 'RESULT' && (
+          <div className={`mb-6 p-4 rounded-xl border flex items-start gap-3 text-sm ${
+            importError ? 'bg-red-50 border-red-200 text-red-900' : 'bg-yellow-50 border-yellow-200 text-yellow-900'
+          }`}>
+            <AlertTriangle className={`w-5 h-5 shrink-0 ${importError ? 'text-red-600' : 'text-yellow-600'}`} />
+            <div className="flex-1">
+              <p className="font-semibold mb-1">{importError ? 'No se pudo importar el archivo' : 'Archivo importado con advertencias'}</p>
+              {importError && <p>{importError}</p>}
+              <ul className="list-disc ml-4 space-y-0.5">
+                {importWarnings.map((w, i) => <li key={i}>{w}</li>)}
+              </ul>
+            </div>
+            <button
+              onClick={() => { setImportError(null); setImportWarnings([]); }}
+              className="opacity-60 hover:opacity-100"
+              aria-label="Cerrar"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
         
-        {step === 'SETUP' && (
+        {problemType === 'LP' && step === 'SETUP' && (
           <ConfigPanel
             numVars={numVars}
             setNumVars={setNumVars}
@@ -95,27 +510,48 @@ function App() {
             setOptType={setOptType}
             method={method}
             setMethod={setMethod}
+            pivotRule={pivotRule}
+            setPivotRule={setPivotRule}
+            integerStrategy={integerStrategy}
+            setIntegerStrategy={setIntegerStrategy}
+            exact={exact}
+            setExact={setExact}
             onNext={handleSetupNext}
+            onTextInput={handleTextInput}
+            onImportFile={handleImportFile}
           />
         )}
 
-        {step === 'INPUT' && (
+        {problemType === 'LP' && step === 'INPUT' && (
           <DataInput
             numVars={numVars}
             numConstraints={numConstraints}
             optType={optType}
             objCoeffs={objCoeffs}
             setObjCoeffs={setObjCoeffs}
+            variableKinds={variableKinds}
+            setVariableKinds={setVariableKinds}
+            variableNames={variableNames}
+            variableBounds={variableBounds}
+            setVariableBounds={setVariableBounds}
             constraints={constraints}
             setConstraints={setConstraints}
+            mode={inputMode}
+            setMode={setInputMode}
+            onModelParsed={handleModelParsed}
             onBack={() => setStep('SETUP')}
             onSolve={handleSolve}
           />
         )}
 
-        {step === 'RESULT' && result && (
+        {problemType === 'LP' && step === 'RESULT' && result && (
           <SolutionView 
             result={result} 
+            model={{ type: optType, objCoeffs, constraints, variableNames, variableBounds }}
+            variableKinds={variableKinds}
+            method={effectiveMethod(method, numVars, numConstraints)}
+            pivotRule={pivotRule}
+            duality={duality}
             onReset={handleReset} 
           />
         )}
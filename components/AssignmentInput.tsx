@@ -0,0 +1,132 @@
+import React from 'react';
+import { AssignmentProblem } from '../types';
+import { MAX_GRID_SIZE } from '../constants';
+import { Users, Calculator } from 'lucide-react';
+
+interface AssignmentInputProps {
+  problem: AssignmentProblem;
+  setProblem: (p: AssignmentProblem) => void;
+  onSolve: () => void;
+}
+
+// Keeps the values already typed when the matrix is resized
+const resize = (p: AssignmentProblem, rows: number, cols: number): AssignmentProblem => ({
+  ...p,
+  costs: Array.from({ length: rows }, (_, i) => Array.from({ length: cols }, (_, j) => p.costs[i]?.[j] ?? 0))
+});
+
+export const AssignmentInput: React.FC<AssignmentInputProps> = ({ problem, setProblem, onSolve }) => {
+  const { type, costs } = problem;
+  const rows = costs.length;
+  const cols = costs[0]?.length ?? 0;
+  const clampSize = (value: string) => Math.min(MAX_GRID_SIZE, Math.max(1, parseInt(value) || 1));
+
+  const handleCostChange = (i: number, j: number, val: string) => {
+    const newCosts = costs.map(row => [...row]);
+    newCosts[i][j] = parseFloat(val) || 0;
+    setProblem({ ...problem, costs: newCosts });
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+      <div className="flex items-center gap-2 mb-6 text-slate-800">
+        <Users className="w-5 h-5 text-blue-600" />
+        <h2 className="text-lg font-semibold">Problema de Asignación</h2>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">Filas (agentes)</label>
+          <input
+            type="number"
+            min="1"
+            max={MAX_GRID_SIZE}
+            value={rows}
+            onChange={(e) => setProblem(resize(problem, clampSize(e.target.value), cols))}
+            className="w-full p-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none transition"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">Columnas (tareas)</label>
+          <input
+            type="number"
+            min="1"
+            max={MAX_GRID_SIZE}
+            value={cols}
+            onChange={(e) => setProblem(resize(problem, rows, clampSize(e.target.value)))}
+            className="w-full p-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none transition"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">Objetivo</label>
+          <div className="flex gap-4">
+            <button
+              onClick={() => setProblem({ ...problem, type: 'MIN' })}
+              className={`flex-1 py-2 px-4 rounded-lg border transition ${type === 'MIN' ? 'bg-blue-50 border-blue-500 text-blue-700 font-medium' : 'border-slate-200 hover:bg-slate-50'}`}
+            >
+              Minimizar costo
+            </button>
+            <button
+              onClick={() => setProblem({ ...problem, type: 'MAX' })}
+              className={`flex-1 py-2 px-4 rounded-lg border transition ${type === 'MAX' ? 'bg-blue-50 border-blue-500 text-blue-700 font-medium' : 'border-slate-200 hover:bg-slate-50'}`}
+            >
+              Maximizar beneficio
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <h3 className="text-sm font-medium text-slate-700 mt-8 mb-4">
+        {type === 'MAX' ? 'Beneficio' : 'Costo'} de asignar cada fila a cada columna
+      </h3>
+      <div className="overflow-x-auto">
+        <table className="text-sm border-collapse">
+          <thead>
+            <tr>
+              <th className="p-2"></th>
+              {costs[0]?.map((_, j) => (
+                <th key={j} className="p-2 font-semibold text-slate-600">C{j + 1}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {costs.map((row, i) => (
+              <tr key={i}>
+                <td className="p-2 font-semibold text-slate-600">F{i + 1}</td>
+                {row.map((c, j) => (
+                  <td key={j} className="p-1">
+                    <input
+                      type="number"
+                      step="any"
+                      value={c || ''}
+                      placeholder="0"
+                      onChange={(e) => handleCostChange(i, j, e.target.value)}
+                      className="w-16 p-1.5 border border-slate-300 rounded text-center text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {rows !== cols && (
+        <p className="text-xs text-slate-500 mt-3">
+          La matriz no es cuadrada: se {rows < cols ? 'agregarán filas ficticias' : 'agregarán columnas ficticias'} con valor 0
+          y {rows < cols ? `${cols - rows} tarea(s)` : `${rows - cols} agente(s)`} quedarán sin asignar.
+        </p>
+      )}
+
+      <div className="mt-8 flex justify-end">
+        <button
+          onClick={onSolve}
+          className="flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white px-8 py-2.5 rounded-lg font-medium transition shadow-sm shadow-green-200"
+        >
+          <Calculator className="w-4 h-4" />
+          Resolver
+        </button>
+      </div>
+    </div>
+  );
+};
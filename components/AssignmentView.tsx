@@ -0,0 +1,128 @@
+import React from 'react';
+import { AssignmentResult, HungarianStep } from '../types';
+import { CheckCircle, RefreshCw, Edit3 } from 'lucide-react';
+import { formatNumber } from './format';
+
+interface AssignmentViewProps {
+  result: AssignmentResult;
+  onEdit: () => void;
+  onReset: () => void;
+}
+
+const STEP_TITLES: Record<HungarianStep['kind'], string> = {
+  INITIAL: 'Matriz inicial',
+  MAX_CONVERSION: 'Conversión a minimización',
+  ROW_REDUCTION: 'Reducción por filas',
+  COLUMN_REDUCTION: 'Reducción por columnas',
+  COVER: 'Cubrir los ceros',
+  ADJUSTMENT: 'Ajuste de la matriz',
+  ASSIGNMENT: 'Asignación óptima'
+};
+
+const th = 'bg-slate-100 border border-slate-300 p-2 font-semibold text-slate-700';
+
+// Covered lines are shaded (darker where two cross); zeros stand out; assigned cells are boxed.
+const HungarianMatrix: React.FC<{ step: HungarianStep; result: AssignmentResult }> = ({ step, result }) => {
+  const n = step.matrix.length;
+  const dummyRow = (i: number) => i >= n - result.dummyRows;
+  const dummyCol = (j: number) => j >= n - result.dummyCols;
+  return (
+    <table className="text-sm border-collapse">
+      <thead>
+        <tr>
+          <th className={th}></th>
+          {step.matrix[0].map((_, j) => (
+            <th key={j} className={`${th} ${step.coveredCols?.[j] ? 'bg-blue-200' : ''}`}>
+              C{j + 1}{dummyCol(j) && <span className="font-normal text-slate-500"> (ficticia)</span>}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {step.matrix.map((row, i) => (
+          <tr key={i}>
+            <td className={`${th} text-left ${step.coveredRows?.[i] ? 'bg-blue-200' : ''}`}>
+              F{i + 1}{dummyRow(i) && <span className="font-normal text-slate-500"> (ficticia)</span>}
+            </td>
+            {row.map((v, j) => {
+              const lines = (step.coveredRows?.[i] ? 1 : 0) + (step.coveredCols?.[j] ? 1 : 0);
+              const assigned = step.assignment?.[i] === j;
+              return (
+                <td
+                  key={j}
+                  className={`border border-slate-300 p-2 text-center ${
+                    lines === 2 ? 'bg-blue-200' : lines === 1 ? 'bg-blue-50' : ''
+                  } ${v === 0 ? 'font-bold text-green-700' : 'text-slate-700'} ${
+                    assigned ? 'ring-2 ring-inset ring-green-600 bg-green-100' : ''
+                  }`}
+                >
+                  {formatNumber(v)}
+                </td>
+              );
+            })}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+export const AssignmentView: React.FC<AssignmentViewProps> = ({ result, onEdit, onReset }) => {
+  const n = result.costs.length;
+  const pairs = result.assignment.map((j, i) => ({ i, j }));
+  const isDummy = (i: number, j: number) => i >= n - result.dummyRows || j >= n - result.dummyCols;
+
+  return (
+    <div className="space-y-8 pb-20">
+      {/* Header Status */}
+      <div className="p-6 rounded-xl border flex items-start gap-4 bg-green-50 border-green-200 text-green-900">
+        <CheckCircle className="w-6 h-6 shrink-0 text-green-600" />
+        <div>
+          <h2 className="text-lg font-bold mb-1">Asignación Óptima Encontrada</h2>
+          <p className="text-sm opacity-90">
+            {result.type === 'MAX' ? 'Beneficio total máximo' : 'Costo total mínimo'} = {formatNumber(result.total)}
+          </p>
+        </div>
+      </div>
+
+      {/* Hungarian method steps */}
+      {result.steps.map((step, idx) => (
+        <div key={idx} className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="bg-slate-50 px-6 py-3 border-b border-slate-200">
+            <h3 className="font-semibold text-slate-800">Paso {idx + 1}: {STEP_TITLES[step.kind]}</h3>
+            <p className="text-xs text-slate-500 mt-0.5">{step.description}</p>
+          </div>
+          <div className="overflow-x-auto p-4">
+            <HungarianMatrix step={step} result={result} />
+          </div>
+        </div>
+      ))}
+
+      {/* Final assignment */}
+      <div className="bg-blue-900 text-white rounded-xl p-6 shadow-lg">
+        <h3 className="text-xl font-bold mb-4">Asignación</h3>
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+          {pairs.map(({ i, j }) => (
+            <div key={i} className="bg-blue-800/50 p-3 rounded-lg border border-blue-700">
+              <span className="text-blue-200 text-sm block mb-1">F{i + 1} → C{j + 1}</span>
+              <span className="text-xl font-semibold">
+                {isDummy(i, j) ? 'sin asignar' : formatNumber(result.costs[i][j])}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-col items-center gap-4 pt-8">
+        <button onClick={onEdit} className="flex items-center gap-2 text-slate-500 hover:text-blue-600 font-medium transition">
+          <Edit3 className="w-4 h-4" />
+          Editar datos
+        </button>
+        <button onClick={onReset} className="flex items-center gap-2 text-slate-500 hover:text-blue-600 font-medium transition">
+          <RefreshCw className="w-4 h-4" />
+          Resolver otro problema
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import React from 'react';
+import { BranchAndBoundNode, PruneReason } from '../types';
+import { GitBranch } from 'lucide-react';
+import { formatNumber } from './format';
+
+interface BranchAndBoundTreeProps {
+  nodes: BranchAndBoundNode[];
+  selectedId: number | null;
+  onSelect: (id: number) => void;
+}
+
+const PRUNE_LABELS: Record<PruneReason, string> = {
+  INFEASIBLE: 'Podado: infactible',
+  UNBOUNDED: 'LP no acotado',
+  BOUND: 'Podado por cota',
+  INTEGER: 'Solución entera',
+  NODE_LIMIT: 'Límite de nodos',
+  INCOMPLETE: 'LP sin terminar'
+};
+
+const describeBound = (node: BranchAndBoundNode) => {
+  const last = node.bounds[node.bounds.length - 1];
+  if (!last) return 'Relajación LP';
+  return `x${last.varIndex + 1} ${last.relation === '<=' ? '≤' : '≥'} ${formatNumber(last.value)}`;
+};
+
+export const BranchAndBoundTree: React.FC<BranchAndBoundTreeProps> = ({ nodes, selectedId, onSelect }) => {
+  const renderNode = (node: BranchAndBoundNode): React.ReactNode => {
+    const children = nodes.filter(n => n.parentId === node.id);
+    const selected = node.id === selectedId;
+    return (
+      <li key={node.id} className="mt-2">
+        <button
+          onClick={() => onSelect(node.id)}
+          className={`w-full text-left px-3 py-2 rounded-lg border text-sm transition ${
+            selected ? 'border-blue-500 bg-blue-50' :
+            node.isIncumbent ? 'border-green-400 bg-green-50' :
+            'border-slate-200 hover:bg-slate-50'
+          }`}
+        >
+          <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+            <span className="font-semibold text-slate-800">Nodo {node.id}</span>
+            <span className="font-mono text-xs text-slate-600">{describeBound(node)}</span>
+            <span className="text-xs text-slate-500">
+              Z<sub>LP</sub> = {node.lpBound !== undefined ? formatNumber(node.lpBound) : '—'}
+            </span>
+            {node.branchVar && (
+              <span className="text-xs text-blue-700">
+                Ramifica en {node.branchVar} = {formatNumber(node.branchValue ?? 0)}
+              </span>
+            )}
+            {node.pruned && (
+              <span className={`text-xs font-medium px-2 py-0.5 rounded ${node.pruned === 'INTEGER' ? 'bg-green-100 text-green-700' : 'bg-slate-100 text-slate-600'}`}>
+                {PRUNE_LABELS[node.pruned]}
+              </span>
+            )}
+            {node.isIncumbent && (
+              <span className="text-xs font-bold px-2 py-0.5 rounded bg-green-600 text-white">Óptimo entero</span>
+            )}
+          </div>
+          {node.solution && (
+            <div className="text-xs text-slate-500 mt-1">
+              {Object.entries(node.solution).map(([k, v]) => `${k} = ${formatNumber(v)}`).join(', ')}
+            </div>
+          )}
+        </button>
+        {children.length > 0 && (
+          <ul className="ml-6 pl-3 border-l border-slate-200">
+            {children.map(renderNode)}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="bg-slate-50 px-6 py-3 border-b border-slate-200 flex items-center gap-2">
+        <GitBranch className="w-4 h-4 text-blue-600" />
+        <div>
+          <h3 className="font-semibold text-slate-800">Árbol de Ramificación y Acotamiento</h3>
+          <p className="text-xs text-slate-500 mt-0.5">Seleccione un nodo para ver los tableaux de su relajación LP.</p>
+        </div>
+      </div>
+      <ul className="p-4">
+        {nodes.filter(n => n.parentId === undefined).map(renderNode)}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+import React from 'react';
+import { LinearModel, SolveResult } from '../types';
+import { ShieldAlert, MoveUpRight } from 'lucide-react';
+import { RELATION_SYMBOLS, formatLinearExpression, formatNumber } from './format';
+import { defaultVariableNames } from '../services/modelParser';
+
+interface CertificatePanelProps {
+  result: SolveResult;
+  model: LinearModel;
+}
+
+const dot = (a: number[], b: number[]) => a.reduce((sum, v, j) => sum + v * b[j], 0);
+
+// Mathematical evidence behind an UNBOUNDED or INFEASIBLE status.
+export const CertificatePanel: React.FC<CertificatePanelProps> = ({ result, model }) => {
+  const names = model.variableNames ?? defaultVariableNames(model.objCoeffs.length);
+  const decisionVars = model.objCoeffs.map((_, j) => `x${j + 1}`);
+  const vector = (values: Record<string, number>) => `(${decisionVars.map(x => formatNumber(values[x] ?? 0)).join(', ')})`;
+  const rowText = (i: number) => {
+    const c = model.constraints[i];
+    return `${formatLinearExpression(c.coefficients, names)} ${RELATION_SYMBOLS[c.relation]} ${formatNumber(c.rhs)}`;
+  };
+
+  const ray = result.unboundedRay;
+  if (result.status === 'UNBOUNDED' && ray) {
+    const point = decisionVars.map(x => ray.point[x] ?? 0);
+    const direction = decisionVars.map(x => ray.direction[x] ?? 0);
+    const z0 = dot(model.objCoeffs, point);
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-yellow-200 p-6">
+        <h3 className="font-bold text-slate-800 flex items-center gap-2 mb-2">
+          <MoveUpRight className="w-5 h-5 text-yellow-600" />
+          Rayo de No Acotamiento
+        </h3>
+        <p className="text-sm text-slate-600">
+          En el último tableau la columna de <strong>{ray.enteringVar}</strong> mejora Z pero no tiene coeficientes positivos,
+          así que ninguna restricción limita su aumento.
+        </p>
+        <div className="mt-3 font-mono text-sm text-slate-800 space-y-1">
+          <p>x⁰ = {vector(ray.point)} <span className="text-slate-500">(punto factible)</span></p>
+          <p>d = {vector(ray.direction)} <span className="text-slate-500">(dirección del rayo)</span></p>
+          <p>
+            Z(x⁰ + t·d) = {formatNumber(z0)} {ray.zRate < 0 ? '−' : '+'} {formatNumber(Math.abs(ray.zRate))}·t
+            {' → '}{model.type === 'MAX' ? '+∞' : '−∞'} cuando t → ∞
+          </p>
+        </div>
+        <div className="overflow-x-auto mt-4">
+          <table className="text-sm border-collapse">
+            <thead>
+              <tr>
+                <th className="bg-slate-100 border border-slate-300 p-2 text-left">Restricción</th>
+                <th className="bg-slate-100 border border-slate-300 p-2">aᵢ·x⁰</th>
+                <th className="bg-slate-100 border border-slate-300 p-2">aᵢ·d</th>
+              </tr>
+            </thead>
+            <tbody>
+              {model.constraints.map((c, i) => (
+                <tr key={c.id}>
+                  <td className="border border-slate-300 p-2">R{i + 1}: {rowText(i)}</td>
+                  <td className="border border-slate-300 p-2 text-center">{formatNumber(dot(c.coefficients, point))}</td>
+                  <td className="border border-slate-300 p-2 text-center">{formatNumber(dot(c.coefficients, direction))}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-slate-500 mt-2">
+          Con d ≥ 0 (o con el signo que admita cada variable), aᵢ·d ≤ 0 en las filas ≤, aᵢ·d ≥ 0 en las filas ≥ y aᵢ·d = 0 en las igualdades, x⁰ + t·d sigue
+          siendo factible para todo t ≥ 0.
+        </p>
+      </div>
+    );
+  }
+
+  const farkas = result.farkas;
+  if (result.status === 'INFEASIBLE' && farkas) {
+    const used = model.constraints.map((_, i) => i).filter(i => farkas.multipliers[i] !== 0);
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-red-200 p-6">
+        <h3 className="font-bold text-slate-800 flex items-center gap-2 mb-2">
+          <ShieldAlert className="w-5 h-5 text-red-600" />
+          Certificado de Infactibilidad (Farkas)
+        </h3>
+        <p className="text-sm text-slate-600">
+          Las restricciones <strong>{farkas.conflict.map(i => `R${i + 1}`).join(', ')}</strong> no pueden cumplirse a la vez,
+          y quitando cualquiera de ellas el resto sí es factible.
+        </p>
+        <div className="overflow-x-auto mt-4">
+          <table className="text-sm border-collapse">
+            <thead>
+              <tr>
+                <th className="bg-slate-100 border border-slate-300 p-2 text-left">Restricción</th>
+                <th className="bg-slate-100 border border-slate-300 p-2">Multiplicador yᵢ</th>
+              </tr>
+            </thead>
+            <tbody>
+              {model.constraints.map((c, i) => (
+                <tr key={c.id} className={farkas.conflict.includes(i) ? 'bg-red-50' : 'text-slate-400'}>
+                  <td className="border border-slate-300 p-2">R{i + 1}: {rowText(i)}</td>
+                  <td className="border border-slate-300 p-2 text-center font-medium">{formatNumber(farkas.multipliers[i])}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="mt-4 text-sm text-slate-700 space-y-1">
+          <p>
+            Sumando {used.map(i => `${formatNumber(farkas.multipliers[i])}·R${i + 1}`).join(' + ').replace(/\+ -/g, '− ')}
+            {' '}(las filas ≥ con multiplicador negativo cambian de sentido):
+          </p>
+          <p className="font-mono bg-slate-50 border border-slate-200 rounded px-3 py-2">
+            {formatLinearExpression(farkas.combination, names)} ≤ {formatNumber(farkas.rhs)}
+          </p>
+          <p>
+            Con x ≥ 0 el lado izquierdo nunca es negativo (sus coeficientes son ≥ 0), pero el lado derecho vale{' '}
+            {formatNumber(farkas.rhs)} &lt; 0: ninguna solución cumple todas las restricciones.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return null;
+};
@@ -1,7 +1,8 @@
 import React from 'react';
-import { OptimizationType, SolverMethod } from '../types';
-import { METHOD_LABELS } from '../constants';
-import { Settings, ArrowRight } from 'lucide-react';
+import { IntegerStrategy, OptimizationType, PivotRule, SolverMethod } from '../types';
+import { INTEGER_STRATEGY_LABELS, MAX_GRID_SIZE, METHOD_LABELS, PIVOT_RULE_LABELS } from '../constants';
+import { effectiveMethod, revisedIgnores } from '../services/revised';
+import { Settings, ArrowRight, Type, Upload } from 'lucide-react';
 
 interface ConfigPanelProps {
   numVars: number;
@@ -12,7 +13,15 @@ interface ConfigPanelProps {
   setOptType: (t: OptimizationType) => void;
   method: SolverMethod;
   setMethod: (m: SolverMethod) => void;
+  pivotRule: PivotRule;
+  setPivotRule: (r: PivotRule) => void;
+  integerStrategy: IntegerStrategy;
+  setIntegerStrategy: (s: IntegerStrategy) => void;
+  exact: boolean;
+  setExact: (e: boolean) => void;
   onNext: () => void;
+  onTextInput: () => void;
+  onImportFile: (file: File) => void;
 }
 
 export const ConfigPanel: React.FC<ConfigPanelProps> = ({
@@ -20,8 +29,17 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({
   numConstraints, setNumConstraints,
   optType, setOptType,
   method, setMethod,
-  onNext
+  pivotRule, setPivotRule,
+  integerStrategy, setIntegerStrategy,
+  exact, setExact,
+  onNext,
+  onTextInput,
+  onImportFile
 }) => {
+  const solvedWith = effectiveMethod(method, numVars, numConstraints);
+  const forcedRevised = solvedWith !== method;
+  const clampSize = (value: string) => Math.min(MAX_GRID_SIZE, Math.max(1, parseInt(value) || 1));
+
   return (
     <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
       <div className="flex items-center gap-2 mb-6 text-slate-800">
@@ -36,9 +54,9 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({
           <input 
             type="number" 
             min="1" 
-            max="10"
+            max={MAX_GRID_SIZE}
             value={numVars}
-            onChange={(e) => setNumVars(Math.max(1, parseInt(e.target.value) || 1))}
+            onChange={(e) => setNumVars(clampSize(e.target.value))}
             className="w-full p-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none transition"
           />
         </div>
@@ -49,13 +67,18 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({
           <input 
             type="number" 
             min="1" 
-            max="10"
+            max={MAX_GRID_SIZE}
             value={numConstraints}
-            onChange={(e) => setNumConstraints(Math.max(1, parseInt(e.target.value) || 1))}
+            onChange={(e) => setNumConstraints(clampSize(e.target.value))}
             className="w-full p-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none transition"
           />
         </div>
 
+        <p className="md:col-span-2 -mt-4 text-xs text-slate-500">
+          La cuadrícula llega hasta {MAX_GRID_SIZE} × {MAX_GRID_SIZE}. Los modelos más grandes se escriben como texto o se
+          importan desde un archivo .lp / .mps.
+        </p>
+
         {/* Optimization Type */}
         <div>
           <label className="block text-sm font-medium text-slate-700 mb-2">Objetivo</label>
@@ -79,18 +102,100 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({
         <div>
           <label className="block text-sm font-medium text-slate-700 mb-2">Método de Resolución</label>
           <select 
-            value={method} 
+            value={solvedWith} 
             onChange={(e) => setMethod(e.target.value as SolverMethod)}
-            className="w-full p-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+            disabled={forcedRevised}
+            className="w-full p-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none bg-white disabled:bg-slate-100 disabled:text-slate-500"
           >
             <option value="SIMPLEX">{METHOD_LABELS.SIMPLEX}</option>
             <option value="BIG_M">{METHOD_LABELS.BIG_M}</option>
             <option value="TWO_PHASE">{METHOD_LABELS.TWO_PHASE}</option>
+            <option value="DUAL_SIMPLEX">{METHOD_LABELS.DUAL_SIMPLEX}</option>
+            <option value="REVISED">{METHOD_LABELS.REVISED}</option>
+          </select>
+          {forcedRevised && (
+            <p className="text-xs text-slate-500 mt-1">
+              Con más de 10 variables o restricciones se usa el simplex revisado: el tableau completo solo se muestra hasta 10 × 10.
+            </p>
+          )}
+        </div>
+
+        {/* Pivot Rule */}
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">Regla de Pivoteo</label>
+          <select 
+            value={pivotRule} 
+            onChange={(e) => setPivotRule(e.target.value as PivotRule)}
+            className="w-full p-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+          >
+            <option value="DANTZIG">{PIVOT_RULE_LABELS.DANTZIG}</option>
+            <option value="BLAND">{PIVOT_RULE_LABELS.BLAND}</option>
+            <option value="LEXICOGRAPHIC">{PIVOT_RULE_LABELS.LEXICOGRAPHIC}</option>
+            <option value="STEEPEST_EDGE">{PIVOT_RULE_LABELS.STEEPEST_EDGE}</option>
+          </select>
+          {solvedWith === 'REVISED' && revisedIgnores(pivotRule).length > 0 && (
+            <p className="text-xs text-slate-500 mt-1">
+              El simplex revisado no implementa esta regla: usará la de Dantzig (salvo con cortes de Gomory).
+            </p>
+          )}
+        </div>
+
+        {/* Integer Strategy */}
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">Variables Enteras</label>
+          <select 
+            value={integerStrategy} 
+            onChange={(e) => setIntegerStrategy(e.target.value as IntegerStrategy)}
+            className="w-full p-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+          >
+            <option value="BRANCH_AND_BOUND">{INTEGER_STRATEGY_LABELS.BRANCH_AND_BOUND}</option>
+            <option value="GOMORY">{INTEGER_STRATEGY_LABELS.GOMORY}</option>
           </select>
         </div>
+
+        {/* Arithmetic */}
+        <div className="md:self-end">
+          <label className="flex items-center gap-2 text-sm font-medium text-slate-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={exact && solvedWith !== 'REVISED'}
+              disabled={solvedWith === 'REVISED'}
+              onChange={(e) => setExact(e.target.checked)}
+              className="w-4 h-4 accent-blue-600"
+            />
+            Aritmética exacta (fracciones)
+          </label>
+          <p className="text-xs text-slate-500 mt-1 ml-6">
+            {solvedWith === 'REVISED'
+              ? 'No disponible con el simplex revisado, que trabaja con decimales.'
+              : 'Pivotea con fracciones exactas en lugar de decimales: 1/3 en vez de 0.33.'}
+          </p>
+        </div>
       </div>
 
-      <div className="mt-8 flex justify-end">
+      <div className="mt-8 flex justify-between items-center">
+        <button
+          onClick={onTextInput}
+          className="flex items-center gap-2 text-slate-600 hover:text-blue-600 px-4 py-2 text-sm font-medium transition"
+        >
+          <Type className="w-4 h-4" />
+          Escribir el modelo como texto
+        </button>
+        <label className="flex items-center gap-2 text-slate-600 hover:text-blue-600 px-4 py-2 text-sm font-medium transition cursor-pointer mr-auto">
+          <Upload className="w-4 h-4" />
+          Importar .lp / .mps
+          <input
+            type="file"
+            accept=".lp,.mps,.fixmps,.freemps"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImportFile(file);
+              // Allow picking the same file again after fixing it
+              e.target.value = '';
+            }}
+          />
+        </label>
         <button 
           onClick={onNext}
           className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-6 py-2.5 rounded-lg font-medium transition shadow-sm"
@@ -1,6 +1,33 @@
-import React from 'react';
-import { Constraint, OptimizationType, Relation } from '../types';
-import { Calculator, ArrowRight, ArrowLeft } from 'lucide-react';
+import React, { useState } from 'react';
+import { Constraint, OptimizationType, Relation, VariableBound, VariableKind } from '../types';
+import { Calculator, ArrowRight, ArrowLeft, Grid3x3, Type } from 'lucide-react';
+import { ModelParseError, ParsedModel, formatModel, parseModel } from '../services/modelParser';
+import { DEFAULT_BOUND, isDefaultBound } from '../services/bounds';
+import { MAX_GRID_SIZE } from '../constants';
+
+export type InputMode = 'GRID' | 'TEXT';
+
+// Sign presets of the domain select; BOUNDED shows the lower/upper fields
+type SignMode = 'NONNEGATIVE' | 'NONPOSITIVE' | 'FREE' | 'BOUNDED';
+
+const SIGN_PRESETS: Record<Exclude<SignMode, 'BOUNDED'>, VariableBound> = {
+  NONNEGATIVE: DEFAULT_BOUND,
+  NONPOSITIVE: { lower: null, upper: 0 },
+  FREE: { lower: null, upper: null }
+};
+
+const signModeOf = (b: VariableBound | undefined): SignMode => {
+  if (isDefaultBound(b)) return 'NONNEGATIVE';
+  if (b!.lower === null && b!.upper === 0) return 'NONPOSITIVE';
+  if (b!.lower === null && b!.upper === null) return 'FREE';
+  return 'BOUNDED';
+};
+
+const TEXT_PLACEHOLDER = `max z = 3x1 + 5x2
+s.t.
+x1 <= 4
+2x2 <= 12
+3x1 + 2x2 <= 18`;
 
 interface DataInputProps {
   numVars: number;
@@ -8,8 +35,16 @@ interface DataInputProps {
   optType: OptimizationType;
   objCoeffs: number[];
   setObjCoeffs: (c: number[]) => void;
+  variableKinds: VariableKind[];
+  setVariableKinds: (k: VariableKind[]) => void;
+  variableNames: string[];
+  variableBounds: VariableBound[];
+  setVariableBounds: (b: VariableBound[]) => void;
   constraints: Constraint[];
   setConstraints: (c: Constraint[]) => void;
+  mode: InputMode;
+  setMode: (m: InputMode) => void;
+  onModelParsed: (m: ParsedModel) => void; // Text mode: replaces the whole model, dimensions included
   onBack: () => void;
   onSolve: () => void;
 }
@@ -19,10 +54,54 @@ export const DataInput: React.FC<DataInputProps> = ({
   numConstraints,
   optType,
   objCoeffs, setObjCoeffs,
+  variableKinds, setVariableKinds,
+  variableNames,
+  variableBounds, setVariableBounds,
   constraints, setConstraints,
+  mode, setMode,
+  onModelParsed,
   onBack,
   onSolve
 }) => {
+  const isBlank = objCoeffs.every(c => c === 0) && constraints.every(c => c.rhs === 0 && c.coefficients.every(v => v === 0));
+  const currentText = () => isBlank ? '' : formatModel({ type: optType, objCoeffs, constraints, variableNames, variableBounds }, variableKinds);
+
+  const [text, setText] = useState(() => (mode === 'TEXT' ? currentText() : ''));
+  const [parseError, setParseError] = useState<ModelParseError | null>(null);
+  // Variables switched to "Cotas" whose bounds still read as another preset
+  const [boundedVars, setBoundedVars] = useState<Set<number>>(new Set());
+
+  // x1..xn keep the subscript style; names typed in text mode are shown as written
+  const renderName = (i: number) => {
+    const name = variableNames[i] ?? `x${i + 1}`;
+    return name === `x${i + 1}` ? <>x<sub>{i + 1}</sub></> : name;
+  };
+
+  const switchMode = (next: InputMode) => {
+    if (next === mode) return;
+    if (next === 'TEXT') {
+      // The grid is the source of truth until the user edits the text
+      setText(currentText());
+      setParseError(null);
+    }
+    setMode(next);
+  };
+
+  const handleTextChange = (value: string) => {
+    setText(value);
+    try {
+      onModelParsed(parseModel(value));
+      setParseError(null);
+    } catch (e) {
+      if (!(e instanceof ModelParseError)) throw e;
+      setParseError(e);
+    }
+  };
+
+  // A model imported or typed past the grid size can only be edited as text
+  const gridAvailable = numVars <= MAX_GRID_SIZE && numConstraints <= MAX_GRID_SIZE;
+
+  const textInvalid = mode === 'TEXT' && (parseError !== null || text.trim() === '');
 
   const handleObjChange = (idx: number, val: string) => {
     const newCoeffs = [...objCoeffs];
@@ -30,6 +109,34 @@ export const DataInput: React.FC<DataInputProps> = ({
     setObjCoeffs(newCoeffs);
   };
 
+  const handleKindChange = (idx: number, kind: VariableKind) => {
+    const newKinds = [...variableKinds];
+    newKinds[idx] = kind;
+    setVariableKinds(newKinds);
+  };
+
+  const signMode = (idx: number) => (boundedVars.has(idx) ? 'BOUNDED' : signModeOf(variableBounds[idx]));
+
+  const handleSignChange = (idx: number, mode: SignMode) => {
+    const next = new Set(boundedVars);
+    if (mode === 'BOUNDED') next.add(idx);
+    else next.delete(idx);
+    setBoundedVars(next);
+    const newBounds = [...variableBounds];
+    newBounds[idx] = mode === 'BOUNDED' ? variableBounds[idx] ?? DEFAULT_BOUND : SIGN_PRESETS[mode];
+    setVariableBounds(newBounds);
+  };
+
+  // An empty field is an infinite bound
+  const handleBoundChange = (idx: number, side: keyof VariableBound, val: string) => {
+    const value = parseFloat(val);
+    const newBounds = [...variableBounds];
+    newBounds[idx] = { ...(variableBounds[idx] ?? DEFAULT_BOUND), [side]: Number.isNaN(value) ? null : value };
+    setVariableBounds(newBounds);
+  };
+
+  const invalidBound = variableBounds.some(b => b && b.lower !== null && b.upper !== null && b.lower > b.upper);
+
   const handleConstraintChange = (rowIdx: number, field: 'coef' | 'rhs' | 'rel', colIdxOrVal: number | string | Relation, val?: string) => {
     const newConstraints = [...constraints];
     const constraint = { ...newConstraints[rowIdx] };
@@ -53,8 +160,53 @@ export const DataInput: React.FC<DataInputProps> = ({
       <div className="flex items-center gap-2 mb-6 text-slate-800">
         <Calculator className="w-5 h-5 text-blue-600" />
         <h2 className="text-lg font-semibold">Ingreso de Datos</h2>
+        <div className="ml-auto inline-flex rounded-lg border border-slate-200 bg-white p-1 text-xs font-medium">
+          <button
+            onClick={() => switchMode('GRID')}
+            disabled={!gridAvailable}
+            title={gridAvailable ? undefined : `La cuadrícula admite hasta ${MAX_GRID_SIZE} variables y ${MAX_GRID_SIZE} restricciones`}
+            className={`flex items-center gap-1 px-3 py-1 rounded disabled:opacity-40 disabled:cursor-not-allowed ${mode === 'GRID' ? 'bg-blue-600 text-white' : 'text-slate-600 hover:bg-slate-50'}`}
+          >
+            <Grid3x3 className="w-3.5 h-3.5" />
+            Cuadrícula
+          </button>
+          <button
+            onClick={() => switchMode('TEXT')}
+            className={`flex items-center gap-1 px-3 py-1 rounded ${mode === 'TEXT' ? 'bg-blue-600 text-white' : 'text-slate-600 hover:bg-slate-50'}`}
+          >
+            <Type className="w-3.5 h-3.5" />
+            Texto
+          </button>
+        </div>
       </div>
 
+      {mode === 'TEXT' && (
+        <div className="space-y-3">
+          <p className="text-xs text-slate-500">
+            Escriba el modelo en forma algebraica. Las dimensiones se deducen del texto; puede usar nombres de variable
+            propios y declarar dominios con <code className="font-mono">int x1, x2</code> o <code className="font-mono">bin y</code>.
+          </p>
+          <textarea
+            value={text}
+            onChange={(e) => handleTextChange(e.target.value)}
+            placeholder={TEXT_PLACEHOLDER}
+            spellCheck={false}
+            rows={Math.max(8, text.split('\n').length + 1)}
+            className={`w-full p-3 border rounded-lg font-mono text-sm focus:ring-2 outline-none ${
+              parseError ? 'border-red-400 focus:ring-red-400' : 'border-slate-300 focus:ring-blue-500'
+            }`}
+          />
+          {parseError ? (
+            <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg px-3 py-2">{parseError.message}</p>
+          ) : text.trim() !== '' && (
+            <p className="text-xs text-slate-500">
+              {optType === 'MAX' ? 'Maximizar' : 'Minimizar'} · {numVars} variables ({variableNames.join(', ')}) · {numConstraints} restricciones
+            </p>
+          )}
+        </div>
+      )}
+
+      {mode === 'GRID' && (
       <div className="space-y-8">
         {/* Objective Function */}
         <div>
@@ -74,17 +226,75 @@ export const DataInput: React.FC<DataInputProps> = ({
                   onChange={(e) => handleObjChange(i, e.target.value)}
                   className="w-20 p-2 border border-slate-300 rounded text-center focus:ring-2 focus:ring-blue-500 outline-none"
                 />
-                <span className="font-medium text-slate-600">x<sub>{i + 1}</sub></span>
+                <span className="font-medium text-slate-600">{renderName(i)}</span>
                 {i < numVars - 1 && <span className="text-slate-400">+</span>}
               </div>
             ))}
           </div>
         </div>
 
+        {/* Variable Domains */}
+        <div>
+          <h3 className="text-sm font-medium text-slate-700 mb-4 flex items-center gap-2">
+            <span className="bg-blue-100 text-blue-700 px-2 py-0.5 rounded text-xs font-bold">2</span>
+            Tipo y Signo de Variables
+          </h3>
+          <div className="flex flex-wrap items-center gap-4">
+            {Array.from({ length: numVars }).map((_, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <span className="font-medium text-slate-600">{renderName(i)}</span>
+                <select
+                  value={variableKinds[i] ?? 'continuous'}
+                  onChange={(e) => handleKindChange(i, e.target.value as VariableKind)}
+                  className="p-1.5 border border-slate-300 rounded bg-white text-sm focus:ring-2 focus:ring-blue-500 outline-none cursor-pointer"
+                >
+                  <option value="continuous">Continua</option>
+                  <option value="integer">Entera</option>
+                  <option value="binary">Binaria (0/1)</option>
+                </select>
+                <select
+                  value={signMode(i)}
+                  onChange={(e) => handleSignChange(i, e.target.value as SignMode)}
+                  className="p-1.5 border border-slate-300 rounded bg-white text-sm focus:ring-2 focus:ring-blue-500 outline-none cursor-pointer"
+                >
+                  <option value="NONNEGATIVE">≥ 0</option>
+                  <option value="NONPOSITIVE">≤ 0</option>
+                  <option value="FREE">Libre</option>
+                  <option value="BOUNDED">Cotas</option>
+                </select>
+                {signMode(i) === 'BOUNDED' && (
+                  <span className="flex items-center gap-1 text-sm text-slate-500">
+                    <input
+                      type="number"
+                      step="any"
+                      value={variableBounds[i]?.lower ?? ''}
+                      placeholder="−∞"
+                      onChange={(e) => handleBoundChange(i, 'lower', e.target.value)}
+                      className="w-16 p-1.5 border border-slate-300 rounded text-center text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                    />
+                    ≤ {renderName(i)} ≤
+                    <input
+                      type="number"
+                      step="any"
+                      value={variableBounds[i]?.upper ?? ''}
+                      placeholder="+∞"
+                      onChange={(e) => handleBoundChange(i, 'upper', e.target.value)}
+                      className="w-16 p-1.5 border border-slate-300 rounded text-center text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                    />
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+          {invalidBound && (
+            <p className="text-xs text-red-600 mt-2">Hay una variable con cota inferior mayor que la superior: el problema será infactible.</p>
+          )}
+        </div>
+
         {/* Constraints */}
         <div>
           <h3 className="text-sm font-medium text-slate-700 mb-4 flex items-center gap-2">
-             <span className="bg-blue-100 text-blue-700 px-2 py-0.5 rounded text-xs font-bold">2</span>
+             <span className="bg-blue-100 text-blue-700 px-2 py-0.5 rounded text-xs font-bold">3</span>
              Restricciones
           </h3>
           <div className="space-y-4">
@@ -103,7 +313,7 @@ export const DataInput: React.FC<DataInputProps> = ({
                       onChange={(e) => handleConstraintChange(rowIdx, 'coef', colIdx, e.target.value)}
                       className="w-16 p-1.5 border border-slate-300 rounded text-center text-sm focus:ring-2 focus:ring-blue-500 outline-none"
                     />
-                    <span className="text-sm text-slate-600">x<sub>{colIdx + 1}</sub></span>
+                    <span className="text-sm text-slate-600">{renderName(colIdx)}</span>
                     {colIdx < numVars - 1 && <span className="text-slate-400">+</span>}
                   </div>
                 ))}
@@ -133,6 +343,7 @@ export const DataInput: React.FC<DataInputProps> = ({
           </div>
         </div>
       </div>
+      )}
 
       <div className="mt-8 flex justify-between">
         <button 
@@ -144,7 +355,8 @@ export const DataInput: React.FC<DataInputProps> = ({
         </button>
         <button 
           onClick={onSolve}
-          className="flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white px-8 py-2.5 rounded-lg font-medium transition shadow-sm shadow-green-200"
+          disabled={textInvalid}
+          className="flex items-center gap-2 bg-green-600 hover:bg-green-700 disabled:bg-slate-300 disabled:shadow-none disabled:cursor-not-allowed text-white px-8 py-2.5 rounded-lg font-medium transition shadow-sm shadow-green-200"
         >
           <Calculator className="w-4 h-4" />
           Resolver
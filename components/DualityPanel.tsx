@@ -0,0 +1,127 @@
+import React from 'react';
+import { LinearModel } from '../types';
+import { DualityReport, VariableSign } from '../services/duality';
+import { ArrowLeftRight, CheckCircle, XCircle } from 'lucide-react';
+import { RELATION_SYMBOLS, formatLinearExpression, formatNumber } from './format';
+
+interface DualityPanelProps {
+  report: DualityReport;
+  primalValues: Record<string, number>;
+}
+
+const SIGN_LABELS: Record<VariableSign, string> = {
+  '>=0': '≥ 0',
+  '<=0': '≤ 0',
+  free: 'libre'
+};
+
+const ModelFormula: React.FC<{
+  model: LinearModel;
+  varPrefix: string;
+  objName: string;
+  signs: string[];
+}> = ({ model, varPrefix, objName, signs }) => {
+  const names = model.objCoeffs.map((_, i) => `${varPrefix}${i + 1}`);
+  return (
+    <div className="font-mono text-sm text-slate-700 space-y-1">
+      <p className="font-semibold">
+        {model.type === 'MAX' ? 'Max' : 'Min'} {objName} = {formatLinearExpression(model.objCoeffs, names)}
+      </p>
+      <p className="text-xs text-slate-400">s.a.</p>
+      {model.constraints.map((c, i) => (
+        <p key={i}>
+          {formatLinearExpression(c.coefficients, names)} {RELATION_SYMBOLS[c.relation]} {formatNumber(c.rhs)}
+        </p>
+      ))}
+      <p className="text-xs text-slate-500 pt-1">{signs.join(', ')}</p>
+    </div>
+  );
+};
+
+export const DualityPanel: React.FC<DualityPanelProps> = ({ report, primalValues }) => {
+  const { primal, dual, dualResult } = report;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="bg-slate-50 px-6 py-3 border-b border-slate-200 flex items-center gap-2">
+        <ArrowLeftRight className="w-4 h-4 text-blue-600" />
+        <h3 className="font-semibold text-slate-800">Problema Primal y Dual</h3>
+      </div>
+
+      <div className="p-4 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="p-4 rounded-lg border border-slate-200">
+            <h4 className="text-sm font-semibold text-slate-800 mb-3">Primal</h4>
+            <ModelFormula
+              model={primal}
+              varPrefix="x"
+              objName="Z"
+              signs={primal.objCoeffs.map((_, j) => `x${j + 1} ≥ 0`)}
+            />
+            <div className="mt-4 text-sm">
+              <span className="text-slate-500">Z* = </span>
+              <span className="font-semibold">{report.primalZ !== undefined ? formatNumber(report.primalZ) : '—'}</span>
+              <div className="text-xs text-slate-500 mt-1">
+                {primal.objCoeffs.map((_, j) => `x${j + 1} = ${formatNumber(primalValues[`x${j + 1}`] ?? 0)}`).join(', ')}
+              </div>
+            </div>
+          </div>
+
+          <div className="p-4 rounded-lg border border-slate-200">
+            <h4 className="text-sm font-semibold text-slate-800 mb-3">Dual</h4>
+            <ModelFormula
+              model={dual}
+              varPrefix="y"
+              objName="W"
+              signs={dual.variableSigns.map((s, i) => `y${i + 1} ${SIGN_LABELS[s]}`)}
+            />
+            <div className="mt-4 text-sm">
+              <span className="text-slate-500">W* = </span>
+              <span className="font-semibold">{report.dualZ !== undefined ? formatNumber(report.dualZ) : '—'}</span>
+              {dualResult.status === 'OPTIMAL' ? (
+                <div className="text-xs text-slate-500 mt-1">
+                  {report.dualValues.map((y, i) => `y${i + 1} = ${formatNumber(y)}`).join(', ')}
+                </div>
+              ) : (
+                <div className="text-xs text-slate-500 mt-1">Estado del dual: {dualResult.status}</div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className={`flex items-center gap-2 text-sm p-3 rounded-lg border ${report.strongDuality ? 'bg-green-50 border-green-200 text-green-800' : 'bg-yellow-50 border-yellow-200 text-yellow-800'}`}>
+          {report.strongDuality ? <CheckCircle className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+          {report.strongDuality
+            ? `Dualidad fuerte: Z* = W* = ${formatNumber(report.primalZ ?? 0)}`
+            : 'No se verifica la dualidad fuerte: al menos uno de los dos problemas no tiene óptimo finito.'}
+        </div>
+
+        {report.slackness.length > 0 && (
+          <div>
+            <h4 className="text-sm font-semibold text-slate-700 mb-2">Holgura Complementaria</h4>
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr>
+                  <th className="bg-slate-100 border border-slate-300 p-2 text-left font-semibold text-slate-700">Condición</th>
+                  <th className="bg-slate-100 border border-slate-300 p-2 font-semibold text-slate-700">Producto</th>
+                  <th className="bg-slate-100 border border-slate-300 p-2 font-semibold text-slate-700">Se cumple</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.slackness.map(s => (
+                  <tr key={s.label}>
+                    <td className="border border-slate-300 p-2 font-mono text-xs">{s.label} = 0</td>
+                    <td className="border border-slate-300 p-2 text-center">{formatNumber(s.product)}</td>
+                    <td className={`border border-slate-300 p-2 text-center font-medium ${s.holds ? 'text-green-700' : 'text-red-600'}`}>
+                      {s.holds ? 'Sí' : 'No'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
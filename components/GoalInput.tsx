@@ -0,0 +1,213 @@
+import React from 'react';
+import { GoalConstraint, GoalMode, GoalProgram, Relation, SolverMethod } from '../types';
+import { GOAL_MODE_LABELS, MAX_GRID_SIZE, METHOD_LABELS } from '../constants';
+import { Target, Calculator } from 'lucide-react';
+
+interface GoalInputProps {
+  program: GoalProgram;
+  setProgram: (p: GoalProgram) => void;
+  onSolve: () => void;
+}
+
+const cellInput = 'w-16 p-1.5 border border-slate-300 rounded text-center text-sm focus:ring-2 focus:ring-blue-500 outline-none';
+
+export const emptyGoalConstraint = (i: number, numVars: number): GoalConstraint => ({
+  id: `c-${i}`,
+  coefficients: Array(numVars).fill(0),
+  relation: '>=',
+  rhs: 0,
+  isGoal: true,
+  priority: 1,
+  weight: 1
+});
+
+// Keeps the values already typed when the number of variables or rows changes
+const resize = (p: GoalProgram, numVars: number, numRows: number): GoalProgram => ({
+  ...p,
+  numVars,
+  constraints: Array.from({ length: numRows }, (_, i) => {
+    const c = p.constraints[i] ?? emptyGoalConstraint(i, numVars);
+    return { ...c, coefficients: Array.from({ length: numVars }, (_, j) => c.coefficients[j] ?? 0) };
+  })
+});
+
+// Which deviation a goal row penalizes, after its relation
+const penaltyHint: Record<Relation, string> = {
+  '>=': 'penaliza d⁻',
+  '<=': 'penaliza d⁺',
+  '=': 'penaliza d⁻ y d⁺'
+};
+
+export const GoalInput: React.FC<GoalInputProps> = ({ program, setProgram, onSolve }) => {
+  const { mode, method, numVars, constraints } = program;
+  const hasGoal = constraints.some(c => c.isGoal);
+  const clampSize = (value: string) => Math.min(MAX_GRID_SIZE, Math.max(1, parseInt(value) || 1));
+
+  const updateRow = (idx: number, patch: Partial<GoalConstraint>) => {
+    setProgram({ ...program, constraints: constraints.map((c, i) => (i === idx ? { ...c, ...patch } : c)) });
+  };
+
+  const handleCoefChange = (idx: number, col: number, val: string) => {
+    const coefficients = [...constraints[idx].coefficients];
+    coefficients[col] = parseFloat(val) || 0;
+    updateRow(idx, { coefficients });
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+      <div className="flex items-center gap-2 mb-6 text-slate-800">
+        <Target className="w-5 h-5 text-blue-600" />
+        <h2 className="text-lg font-semibold">Programación por Metas</h2>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">Variables</label>
+          <input
+            type="number"
+            min="1"
+            max={MAX_GRID_SIZE}
+            value={numVars}
+            onChange={(e) => setProgram(resize(program, clampSize(e.target.value), constraints.length))}
+            className="w-full p-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none transition"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">Restricciones y metas</label>
+          <input
+            type="number"
+            min="1"
+            max={MAX_GRID_SIZE}
+            value={constraints.length}
+            onChange={(e) => setProgram(resize(program, numVars, clampSize(e.target.value)))}
+            className="w-full p-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none transition"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">Enfoque</label>
+          <select
+            value={mode}
+            onChange={(e) => setProgram({ ...program, mode: e.target.value as GoalMode })}
+            className="w-full p-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+          >
+            <option value="PREEMPTIVE">{GOAL_MODE_LABELS.PREEMPTIVE}</option>
+            <option value="WEIGHTED">{GOAL_MODE_LABELS.WEIGHTED}</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">Método</label>
+          <select
+            value={method}
+            onChange={(e) => setProgram({ ...program, method: e.target.value as SolverMethod })}
+            className="w-full p-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+          >
+            {/* Goal rows are equalities: they need artificial variables */}
+            <option value="TWO_PHASE">{METHOD_LABELS.TWO_PHASE}</option>
+            <option value="BIG_M">{METHOD_LABELS.BIG_M}</option>
+          </select>
+        </div>
+      </div>
+
+      <h3 className="text-sm font-medium text-slate-700 mt-8 mb-2">Restricciones y metas</h3>
+      <p className="text-xs text-slate-500 mb-4">
+        Una meta admite desvíos d⁻ (por debajo) y d⁺ (por encima) de su valor objetivo; las filas que no son metas
+        se cumplen siempre. {mode === 'PREEMPTIVE'
+          ? 'Las prioridades se optimizan en orden (P1 primero) sin empeorar las anteriores; el peso pondera las metas de una misma prioridad.'
+          : 'Se minimiza la suma de los desvíos no deseados multiplicados por su peso.'}
+      </p>
+      <div className="space-y-4">
+        {constraints.map((c, rowIdx) => (
+          <div key={c.id} className={`flex flex-wrap items-center gap-2 p-3 rounded-lg border ${c.isGoal ? 'bg-blue-50/50 border-blue-100' : 'bg-slate-50 border-slate-100'}`}>
+            <span className="text-xs font-bold text-slate-400 w-6">R{rowIdx + 1}</span>
+
+            {c.coefficients.map((a, colIdx) => (
+              <div key={colIdx} className="flex items-center gap-2">
+                <input
+                  type="number"
+                  step="any"
+                  value={a || ''}
+                  placeholder="0"
+                  onChange={(e) => handleCoefChange(rowIdx, colIdx, e.target.value)}
+                  className={cellInput}
+                />
+                <span className="text-sm text-slate-600">x{colIdx + 1}</span>
+                {colIdx < numVars - 1 && <span className="text-slate-400">+</span>}
+              </div>
+            ))}
+
+            <select
+              value={c.relation}
+              onChange={(e) => updateRow(rowIdx, { relation: e.target.value as Relation })}
+              className="mx-2 p-1.5 border border-slate-300 rounded bg-white font-mono text-sm focus:ring-2 focus:ring-blue-500 outline-none cursor-pointer"
+            >
+              <option value="<=">≤</option>
+              <option value=">=">≥</option>
+              <option value="=">=</option>
+            </select>
+
+            <input
+              type="number"
+              step="any"
+              value={c.rhs || ''}
+              placeholder="0"
+              onChange={(e) => updateRow(rowIdx, { rhs: parseFloat(e.target.value) || 0 })}
+              className="w-20 p-1.5 border border-slate-300 rounded text-center text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+
+            <label className="flex items-center gap-1.5 ml-4 text-sm text-slate-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={c.isGoal}
+                onChange={(e) => updateRow(rowIdx, { isGoal: e.target.checked })}
+                className="accent-blue-600"
+              />
+              Meta
+            </label>
+
+            {c.isGoal && (
+              <span className="flex items-center gap-2 text-sm text-slate-500">
+                {mode === 'PREEMPTIVE' && (
+                  <>
+                    P
+                    <input
+                      type="number"
+                      min="1"
+                      value={c.priority}
+                      onChange={(e) => updateRow(rowIdx, { priority: Math.max(1, parseInt(e.target.value) || 1) })}
+                      className="w-12 p-1.5 border border-slate-300 rounded text-center text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                    />
+                  </>
+                )}
+                Peso
+                <input
+                  type="number"
+                  step="any"
+                  min="0"
+                  value={c.weight}
+                  onChange={(e) => updateRow(rowIdx, { weight: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  className="w-14 p-1.5 border border-slate-300 rounded text-center text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                />
+                <span className="text-xs">({penaltyHint[c.relation]})</span>
+              </span>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {!hasGoal && (
+        <p className="text-xs text-red-600 mt-3">Marque al menos una fila como meta.</p>
+      )}
+
+      <div className="mt-8 flex justify-end">
+        <button
+          onClick={onSolve}
+          disabled={!hasGoal}
+          className="flex items-center gap-2 bg-green-600 hover:bg-green-700 disabled:bg-slate-300 disabled:shadow-none disabled:cursor-not-allowed text-white px-8 py-2.5 rounded-lg font-medium transition shadow-sm shadow-green-200"
+        >
+          <Calculator className="w-4 h-4" />
+          Resolver
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { GoalProgram, GoalResult, GoalStage } from '../types';
+import { GOAL_MODE_LABELS } from '../constants';
+import { CheckCircle, AlertTriangle, XCircle, RefreshCw, Edit3, ChevronDown, ChevronRight } from 'lucide-react';
+import { TableauTable } from './TableauTable';
+import { PivotExplanation } from './PivotExplanation';
+import { RELATION_SYMBOLS, formatNumber } from './format';
+
+interface GoalViewProps {
+  program: GoalProgram;
+  result: GoalResult;
+  onEdit: () => void;
+  onReset: () => void;
+}
+
+const th = 'bg-slate-100 border border-slate-300 p-2 font-semibold text-slate-700';
+const td = 'border border-slate-300 p-2 text-center';
+
+// One LP of the sequence, with its tableaux folded away until asked for
+const StageCard: React.FC<{ stage: GoalStage; index: number }> = ({ stage, index }) => {
+  const [open, setOpen] = useState(false);
+  const solved = stage.status === 'OPTIMAL';
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="bg-slate-50 px-6 py-3 border-b border-slate-200 flex justify-between items-center">
+        <div>
+          <h3 className="font-semibold text-slate-800">
+            {stage.priority !== undefined ? `Etapa ${index + 1}: prioridad P${stage.priority}` : 'Modelo ponderado'}
+          </h3>
+          <p className="text-xs text-slate-500 mt-0.5 font-mono">min {stage.objective}</p>
+          {stage.locks.length > 0 && (
+            <p className="text-xs text-slate-500 mt-0.5">
+              Sin empeorar las prioridades anteriores: <span className="font-mono">{stage.locks.join(', ')}</span>
+            </p>
+          )}
+        </div>
+        <span className={`text-xs font-bold px-2 py-1 rounded ${solved ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
+          {solved ? `Desvío = ${formatNumber(stage.deviation)}` : stage.status}
+        </span>
+      </div>
+
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center gap-2 px-6 py-3 text-sm font-medium text-slate-600 hover:bg-slate-50 transition"
+      >
+        {open ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        {open ? 'Ocultar' : 'Ver'} tableaux ({stage.steps.length})
+      </button>
+
+      {open && stage.steps.map((step, idx) => (
+        <div key={idx} className="border-t border-slate-200">
+          <div className="px-6 pt-3">
+            <h4 className="text-sm font-semibold text-slate-700">Paso {step.stepIndex}</h4>
+            <p className="text-xs text-slate-500 mt-0.5">{step.description}</p>
+          </div>
+          <div className="overflow-x-auto p-4">
+            <TableauTable step={step} showFractions={false} />
+          </div>
+          <PivotExplanation step={step} />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export const GoalView: React.FC<GoalViewProps> = ({ program, result, onEdit, onReset }) => {
+  const solved = result.status === 'OPTIMAL';
+  const metCount = result.goals.filter(g => g.met).length;
+
+  return (
+    <div className="space-y-8 pb-20">
+      {/* Header Status */}
+      <div className={`p-6 rounded-xl border flex items-start gap-4 ${
+        solved ? 'bg-green-50 border-green-200 text-green-900' : 'bg-red-50 border-red-200 text-red-900'
+      }`}>
+        {solved
+          ? <CheckCircle className="w-6 h-6 shrink-0 text-green-600" />
+          : <AlertTriangle className="w-6 h-6 shrink-0 text-red-600" />}
+        <div>
+          <h2 className="text-lg font-bold mb-1">
+            {solved ? 'Solución de Compromiso Encontrada' : 'Sin Solución'}
+          </h2>
+          <p className="text-sm opacity-90">
+            {solved
+              ? `${GOAL_MODE_LABELS[result.mode]}: se cumplen ${metCount} de ${result.goals.length} metas.`
+              : result.errorMessage ?? `El modelo terminó con estado ${result.status}.`}
+          </p>
+        </div>
+      </div>
+
+      {/* Goal achievement */}
+      {solved && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="bg-slate-50 px-6 py-3 border-b border-slate-200">
+            <h3 className="font-semibold text-slate-800">Cumplimiento de las Metas</h3>
+          </div>
+          <div className="overflow-x-auto p-4">
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr>
+                  <th className={`${th} text-left`}>Meta</th>
+                  {result.mode === 'PREEMPTIVE' && <th className={th}>Prioridad</th>}
+                  <th className={th}>Peso</th>
+                  <th className={th}>Objetivo</th>
+                  <th className={th}>Alcanzado</th>
+                  <th className={th}>d⁻</th>
+                  <th className={th}>d⁺</th>
+                  <th className={th}>Estado</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.goals.map(g => {
+                  const c = program.constraints[g.row];
+                  return (
+                    <tr key={g.row} className={g.met ? '' : 'bg-red-50'}>
+                      <td className={`${td} text-left font-medium`}>R{g.row + 1}</td>
+                      {result.mode === 'PREEMPTIVE' && <td className={td}>P{c.priority}</td>}
+                      <td className={td}>{formatNumber(c.weight)}</td>
+                      <td className={`${td} font-mono`}>{RELATION_SYMBOLS[c.relation]} {formatNumber(g.target)}</td>
+                      <td className={td}>{formatNumber(g.value)}</td>
+                      <td className={td}>{formatNumber(g.under)}</td>
+                      <td className={td}>{formatNumber(g.over)}</td>
+                      <td className={td}>
+                        {g.met
+                          ? <span className="inline-flex items-center gap-1 text-green-700"><CheckCircle className="w-4 h-4" /> Cumplida</span>
+                          : <span className="inline-flex items-center gap-1 text-red-600"><XCircle className="w-4 h-4" /> No cumplida</span>}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* One LP per priority level, or the single weighted LP */}
+      {result.stages.map((stage, idx) => (
+        <StageCard key={idx} stage={stage} index={idx} />
+      ))}
+
+      {/* Final values */}
+      {solved && (
+        <div className="bg-blue-900 text-white rounded-xl p-6 shadow-lg">
+          <h3 className="text-xl font-bold mb-4">Resultados Finales</h3>
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+            {result.values.map((v, j) => (
+              <div key={j} className="bg-blue-800/50 p-3 rounded-lg border border-blue-700">
+                <span className="text-blue-200 text-sm block mb-1">x{j + 1}</span>
+                <span className="text-xl font-semibold">{formatNumber(v)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-col items-center gap-4 pt-8">
+        <button onClick={onEdit} className="flex items-center gap-2 text-slate-500 hover:text-blue-600 font-medium transition">
+          <Edit3 className="w-4 h-4" />
+          Editar datos
+        </button>
+        <button onClick={onReset} className="flex items-center gap-2 text-slate-500 hover:text-blue-600 font-medium transition">
+          <RefreshCw className="w-4 h-4" />
+          Resolver otro problema
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,249 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { LinearModel, TableauStep } from '../types';
+import { LineChart } from 'lucide-react';
+import { formatNumber, RELATION_SYMBOLS } from './format';
+import {
+  Point, constraintRegion, cornerPoints, feasibleRegion, lineInBox, plotBoxFor, simplexPath
+} from '../services/graphical';
+
+interface GraphicalMethodProps {
+  model: LinearModel;
+  steps: TableauStep[];
+  optimum?: Point; // Optimal (x1, x2) when the solver found one
+}
+
+const WIDTH = 520;
+const HEIGHT = 420;
+const PAD = 44;
+const TICKS = 5;
+
+const COLORS = ['#2563eb', '#db2777', '#059669', '#d97706', '#7c3aed', '#0891b2', '#dc2626', '#65a30d', '#4f46e5', '#ea580c'];
+
+const toPath = (points: { x: number; y: number }[]) =>
+  points.map((p, i) => `${i === 0 ? 'M' : 'L'}${p.x.toFixed(2)},${p.y.toFixed(2)}`).join(' ') + ' Z';
+
+export const GraphicalMethod: React.FC<GraphicalMethodProps> = ({ model, steps, optimum }) => {
+  const [c1, c2] = model.objCoeffs;
+  const box = useMemo(() => plotBoxFor(model.constraints), [model.constraints]);
+  const region = useMemo(() => feasibleRegion(model.constraints, box), [model.constraints, box]);
+  const corners = useMemo(() => cornerPoints(model, box), [model, box]);
+  const path = useMemo(() => simplexPath(steps), [steps]);
+
+  const zAt = (p: Point) => c1 * p.x + c2 * p.y;
+  const [isoZ, setIsoZ] = useState(() => (optimum ? zAt(optimum) : 0));
+  const [dragging, setDragging] = useState(false);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  // Data -> SVG coordinates
+  const sx = (x: number) => PAD + (x / box.width) * (WIDTH - 2 * PAD);
+  const sy = (y: number) => HEIGHT - PAD - (y / box.height) * (HEIGHT - 2 * PAD);
+  const toScreen = (p: Point) => ({ x: sx(p.x), y: sy(p.y) });
+
+  // Range of Z over the plotted box, for the slider
+  const boxZ = [{ x: 0, y: 0 }, { x: box.width, y: 0 }, { x: 0, y: box.height }, { x: box.width, y: box.height }].map(zAt);
+  const zMin = Math.min(...boxZ);
+  const zMax = Math.max(...boxZ);
+
+  const bestZ = corners.length > 0
+    ? (model.type === 'MAX' ? Math.max(...corners.map(c => c.z)) : Math.min(...corners.map(c => c.z)))
+    : undefined;
+  // A region touching the far edges of the box continues beyond the plot
+  const unboundedRegion = region.some(p =>
+    Math.abs(p.x - box.width) < 1e-7 * box.width || Math.abs(p.y - box.height) < 1e-7 * box.height
+  );
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!dragging || !svgRef.current) return;
+    const rect = svgRef.current.getBoundingClientRect();
+    const px = ((e.clientX - rect.left) / rect.width) * WIDTH;
+    const py = ((e.clientY - rect.top) / rect.height) * HEIGHT;
+    const x = ((px - PAD) / (WIDTH - 2 * PAD)) * box.width;
+    const y = ((HEIGHT - PAD - py) / (HEIGHT - 2 * PAD)) * box.height;
+    setIsoZ(zAt({ x, y }));
+  };
+
+  const isoLine = lineInBox([c1, c2], isoZ, box);
+  const ticks = Array.from({ length: TICKS + 1 }, (_, i) => i / TICKS);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="bg-slate-50 px-6 py-3 border-b border-slate-200 flex items-center gap-2">
+        <LineChart className="w-4 h-4 text-blue-600" />
+        <div>
+          <h3 className="font-semibold text-slate-800">Método Gráfico</h3>
+          <p className="text-xs text-slate-500 mt-0.5">Arrastre la recta de isobeneficio (roja) para desplazar Z sobre la región factible.</p>
+        </div>
+      </div>
+
+      <div className="p-4 grid grid-cols-1 lg:grid-cols-[3fr_2fr] gap-6">
+        <div>
+          <svg
+            ref={svgRef}
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            className="w-full h-auto select-none touch-none"
+            onPointerMove={handlePointerMove}
+            onPointerUp={() => setDragging(false)}
+            onPointerLeave={() => setDragging(false)}
+          >
+            {/* Grid and axes */}
+            {ticks.map(t => (
+              <g key={t}>
+                <line x1={sx(t * box.width)} y1={sy(0)} x2={sx(t * box.width)} y2={sy(box.height)} stroke="#e2e8f0" />
+                <line x1={sx(0)} y1={sy(t * box.height)} x2={sx(box.width)} y2={sy(t * box.height)} stroke="#e2e8f0" />
+                <text x={sx(t * box.width)} y={sy(0) + 16} textAnchor="middle" fontSize="10" fill="#64748b">
+                  {formatNumber(t * box.width)}
+                </text>
+                <text x={sx(0) - 6} y={sy(t * box.height) + 3} textAnchor="end" fontSize="10" fill="#64748b">
+                  {formatNumber(t * box.height)}
+                </text>
+              </g>
+            ))}
+            <line x1={sx(0)} y1={sy(0)} x2={sx(box.width)} y2={sy(0)} stroke="#334155" />
+            <line x1={sx(0)} y1={sy(0)} x2={sx(0)} y2={sy(box.height)} stroke="#334155" />
+            <text x={sx(box.width)} y={sy(0) + 30} textAnchor="end" fontSize="11" fill="#334155">x1</text>
+            <text x={sx(0) - 30} y={sy(box.height)} fontSize="11" fill="#334155">x2</text>
+
+            {/* Feasible side of each constraint */}
+            {model.constraints.map((c, i) => {
+              const side = constraintRegion(c, box);
+              return side.length >= 3 && c.relation !== '=' ? (
+                <path key={`side-${c.id}`} d={toPath(side.map(toScreen))} fill={COLORS[i % COLORS.length]} fillOpacity={0.07} />
+              ) : null;
+            })}
+
+            {/* Feasible region */}
+            {region.length >= 3 && (
+              <path d={toPath(region.map(toScreen))} fill="#3b82f6" fillOpacity={0.25} stroke="#1d4ed8" strokeWidth={1.5} />
+            )}
+
+            {/* Constraint lines */}
+            {model.constraints.map((c, i) => {
+              const segment = lineInBox([c.coefficients[0], c.coefficients[1]], c.rhs, box);
+              if (!segment) return null;
+              const [a, b] = segment.map(toScreen);
+              return (
+                <g key={`line-${c.id}`}>
+                  <line x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke={COLORS[i % COLORS.length]} strokeWidth={c.relation === '=' ? 3 : 1.5} />
+                  <text x={(a.x + b.x) / 2 + 4} y={(a.y + b.y) / 2 - 4} fontSize="10" fill={COLORS[i % COLORS.length]}>R{i + 1}</text>
+                </g>
+              );
+            })}
+
+            {/* Path followed by the simplex method */}
+            {path.length > 1 && (
+              <polyline
+                points={path.map(p => `${sx(p.x)},${sy(p.y)}`).join(' ')}
+                fill="none"
+                stroke="#f97316"
+                strokeWidth={2}
+                strokeDasharray="5 3"
+              />
+            )}
+            {path.map((p, i) => (
+              <g key={`path-${i}`}>
+                <circle cx={sx(p.x)} cy={sy(p.y)} r={8} fill="#fff7ed" stroke="#f97316" />
+                <text x={sx(p.x)} y={sy(p.y) + 3} textAnchor="middle" fontSize="9" fontWeight="bold" fill="#c2410c">{i}</text>
+              </g>
+            ))}
+
+            {/* Corner points */}
+            {corners.map((p, i) => (
+              <circle key={`corner-${i}`} cx={sx(p.x)} cy={sy(p.y)} r={3} fill="#1e3a8a" />
+            ))}
+
+            {/* Objective iso-line */}
+            {isoLine && (
+              <line
+                x1={sx(isoLine[0].x)} y1={sy(isoLine[0].y)} x2={sx(isoLine[1].x)} y2={sy(isoLine[1].y)}
+                stroke="#dc2626"
+                strokeWidth={dragging ? 3 : 2}
+                strokeDasharray="8 4"
+                className="cursor-move"
+                onPointerDown={e => {
+                  e.currentTarget.ownerSVGElement?.setPointerCapture(e.pointerId);
+                  setDragging(true);
+                }}
+              />
+            )}
+
+            {optimum && (
+              <g>
+                <circle cx={sx(optimum.x)} cy={sy(optimum.y)} r={7} fill="#16a34a" stroke="#fff" strokeWidth={2} />
+                <text x={sx(optimum.x) + 10} y={sy(optimum.y) - 10} fontSize="11" fontWeight="bold" fill="#15803d">Óptimo</text>
+              </g>
+            )}
+          </svg>
+
+          {(c1 !== 0 || c2 !== 0) && (
+            <div className="mt-2 flex items-center gap-3 text-sm">
+              <span className="text-slate-600 whitespace-nowrap">Z = {formatNumber(isoZ)}</span>
+              <input
+                type="range"
+                min={zMin}
+                max={zMax}
+                step={(zMax - zMin) / 200 || 1}
+                value={isoZ}
+                onChange={e => setIsoZ(parseFloat(e.target.value))}
+                className="w-full accent-red-600"
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-4">
+          <ul className="text-xs space-y-1">
+            {model.constraints.map((c, i) => (
+              <li key={c.id} className="flex items-center gap-2">
+                <span className="w-3 h-3 rounded-sm shrink-0" style={{ backgroundColor: COLORS[i % COLORS.length] }} />
+                <span className="font-mono text-slate-700">
+                  R{i + 1}: {formatNumber(c.coefficients[0])}x1 + {formatNumber(c.coefficients[1])}x2 {RELATION_SYMBOLS[c.relation]} {formatNumber(c.rhs)}
+                </span>
+              </li>
+            ))}
+            <li className="flex items-center gap-2">
+              <span className="w-3 h-0.5 shrink-0 border-t-2 border-dashed border-orange-500" />
+              <span className="text-slate-600">Recorrido del simplex (soluciones básicas 0, 1, 2…)</span>
+            </li>
+          </ul>
+
+          {region.length < 3 && (
+            <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-3">
+              La región factible es vacía o degenerada (un segmento o un punto).
+            </p>
+          )}
+          {unboundedRegion && (
+            <p className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+              La región factible no está acotada: continúa más allá del área graficada.
+            </p>
+          )}
+
+          {corners.length > 0 && (
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr>
+                  <th className="bg-slate-100 border border-slate-300 p-2 font-semibold text-slate-700">Vértice</th>
+                  <th className="bg-slate-100 border border-slate-300 p-2 font-semibold text-slate-700">x1</th>
+                  <th className="bg-slate-100 border border-slate-300 p-2 font-semibold text-slate-700">x2</th>
+                  <th className="bg-slate-100 border border-slate-300 p-2 font-semibold text-slate-700">Z</th>
+                </tr>
+              </thead>
+              <tbody>
+                {corners.map((p, i) => {
+                  const isBest = bestZ !== undefined && Math.abs(p.z - bestZ) < 1e-7;
+                  return (
+                    <tr key={i} className={isBest ? 'bg-green-50 font-semibold text-green-800' : ''}>
+                      <td className="border border-slate-300 p-2 text-center">{String.fromCharCode(65 + i)}</td>
+                      <td className="border border-slate-300 p-2 text-center">{formatNumber(p.x)}</td>
+                      <td className="border border-slate-300 p-2 text-center">{formatNumber(p.y)}</td>
+                      <td className="border border-slate-300 p-2 text-center">{formatNumber(p.z)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { SavedProblem } from '../services/library';
+import { METHOD_LABELS } from '../constants';
+import { History, X, FolderOpen, Copy, Pencil, Trash2, Download, Upload, Check } from 'lucide-react';
+import { formatNumber } from './format';
+
+interface HistorySidebarProps {
+  open: boolean;
+  onClose: () => void;
+  problems: SavedProblem[];
+  currentId: string | null;
+  onOpen: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  importError: string | null;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  OPTIMAL: 'Óptimo',
+  UNBOUNDED: 'No acotado',
+  INFEASIBLE: 'Infactible',
+  ITERATION_LIMIT: 'Límite de iteraciones',
+  CYCLING: 'Ciclado',
+  ERROR: 'Error'
+};
+
+const formatDate = (ms: number) =>
+  new Date(ms).toLocaleString('es', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+export const HistorySidebar: React.FC<HistorySidebarProps> = ({
+  open, onClose,
+  problems, currentId,
+  onOpen, onDuplicate, onRename, onDelete,
+  onExport, onImport, importError
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  if (!open) return null;
+
+  const sorted = [...problems].sort((a, b) => b.updatedAt - a.updatedAt);
+
+  const startRename = (p: SavedProblem) => {
+    setEditingId(p.id);
+    setDraftName(p.name);
+  };
+
+  const commitRename = () => {
+    if (editingId) onRename(editingId, draftName);
+    setEditingId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-20 flex justify-end">
+      <div className="absolute inset-0 bg-slate-900/30" onClick={onClose} />
+      <aside className="relative w-full max-w-sm h-full bg-white shadow-xl border-l border-slate-200 flex flex-col">
+        <div className="px-5 py-4 border-b border-slate-200 flex items-center gap-2">
+          <History className="w-5 h-5 text-blue-600" />
+          <h2 className="font-semibold text-slate-800">Problemas Guardados</h2>
+          <button onClick={onClose} className="ml-auto text-slate-400 hover:text-slate-700" aria-label="Cerrar">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {sorted.length === 0 && (
+            <p className="text-sm text-slate-500 text-center mt-8">
+              Aún no hay problemas guardados. Cada problema resuelto se guarda aquí automáticamente.
+            </p>
+          )}
+          {sorted.map(p => (
+            <div
+              key={p.id}
+              className={`rounded-lg border p-3 text-sm ${p.id === currentId ? 'border-blue-400 bg-blue-50' : 'border-slate-200'}`}
+            >
+              {editingId === p.id ? (
+                <form
+                  onSubmit={(e) => { e.preventDefault(); commitRename(); }}
+                  className="flex items-center gap-2"
+                >
+                  <input
+                    autoFocus
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onBlur={commitRename}
+                    className="flex-1 p-1 border border-slate-300 rounded text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                  />
+                  <button type="submit" className="text-blue-600" aria-label="Guardar nombre">
+                    <Check className="w-4 h-4" />
+                  </button>
+                </form>
+              ) : (
+                <p className="font-semibold text-slate-800 truncate">{p.name}</p>
+              )}
+              <p className="text-xs text-slate-500 mt-0.5">
+                {formatDate(p.updatedAt)} · {METHOD_LABELS[p.method]}
+              </p>
+              <p className="text-xs text-slate-600 mt-1">
+                {p.model.type === 'MAX' ? 'Max' : 'Min'} · {p.model.objCoeffs.length} var. · {p.model.constraints.length} restr.
+                {p.summary && (
+                  <> · {STATUS_LABELS[p.summary.status]}{p.summary.status === 'OPTIMAL' && <> Z = {formatNumber(p.summary.zValue)}</>}</>
+                )}
+              </p>
+              <div className="flex items-center gap-1 mt-2">
+                <button
+                  onClick={() => onOpen(p.id)}
+                  className="flex items-center gap-1 px-2 py-1 rounded bg-blue-600 hover:bg-blue-700 text-white text-xs font-medium"
+                >
+                  <FolderOpen className="w-3.5 h-3.5" />
+                  Abrir
+                </button>
+                <button onClick={() => onDuplicate(p.id)} className="p-1.5 rounded text-slate-500 hover:bg-slate-100" title="Duplicar">
+                  <Copy className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={() => startRename(p)} className="p-1.5 rounded text-slate-500 hover:bg-slate-100" title="Renombrar">
+                  <Pencil className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={() => { if (window.confirm(`¿Eliminar "${p.name}"?`)) onDelete(p.id); }}
+                  className="p-1.5 rounded text-slate-500 hover:bg-red-50 hover:text-red-600 ml-auto"
+                  title="Eliminar"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="border-t border-slate-200 p-4 space-y-2">
+          {importError && <p className="text-xs text-red-600">{importError}</p>}
+          <div className="flex gap-2">
+            <button
+              onClick={onExport}
+              disabled={problems.length === 0}
+              className="flex-1 flex items-center justify-center gap-1 px-3 py-2 rounded-lg border border-slate-200 text-sm text-slate-600 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Download className="w-4 h-4" />
+              Exportar JSON
+            </button>
+            <label className="flex-1 flex items-center justify-center gap-1 px-3 py-2 rounded-lg border border-slate-200 text-sm text-slate-600 hover:bg-slate-50 cursor-pointer">
+              <Upload className="w-4 h-4" />
+              Importar JSON
+              <input
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) onImport(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+          </div>
+        </div>
+      </aside>
+    </div>
+  );
+};
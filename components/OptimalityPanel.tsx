@@ -0,0 +1,123 @@
+import React from 'react';
+import { FractionValue, LinearModel, OptimalityAnalysis } from '../types';
+import { Layers, AlertTriangle } from 'lucide-react';
+import { formatNumber, formatValue } from './format';
+import { TableauTable } from './TableauTable';
+
+interface OptimalityPanelProps {
+  analysis: OptimalityAnalysis;
+  model: LinearModel;
+  values: Record<string, number>;
+  exactValues?: Record<string, FractionValue>;
+  showFractions: boolean;
+}
+
+// Findings on the final tableau: alternative optimal vertices (with the pivots
+// that reach them and the optimal face they span) and degeneracy.
+export const OptimalityPanel: React.FC<OptimalityPanelProps> = ({ analysis, model, values, exactValues, showFractions }) => {
+  const { zeroReducedCosts, alternatives, rays, degenerateVars } = analysis;
+  if (zeroReducedCosts.length === 0 && degenerateVars.length === 0) return null;
+
+  const decisionVars = model.objCoeffs.map((_, j) => `x${j + 1}`);
+  const label = (key: string) => {
+    const name = model.variableNames?.[parseInt(key.slice(1), 10) - 1];
+    return name && name !== key ? `${key} (${name})` : key;
+  };
+  const vertices = [
+    { values, exactValues },
+    ...alternatives.map(a => ({ values: a.values, exactValues: a.exactValues }))
+  ];
+  const multiple = alternatives.length > 0 || rays.length > 0;
+
+  return (
+    <div className="space-y-4">
+      {zeroReducedCosts.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-indigo-200 p-6">
+          <h3 className="font-bold text-slate-800 flex items-center gap-2 mb-2">
+            <Layers className="w-5 h-5 text-indigo-600" />
+            {multiple ? 'Soluciones Óptimas Múltiples' : 'Costo Reducido Cero sin Otro Vértice'}
+          </h3>
+          <p className="text-sm text-slate-600">
+            En la fila Z final, {zeroReducedCosts.length === 1 ? 'la variable no básica' : 'las variables no básicas'}{' '}
+            <strong>{zeroReducedCosts.join(', ')}</strong> {zeroReducedCosts.length === 1 ? 'tiene' : 'tienen'} costo reducido 0:
+            pueden entrar a la base sin cambiar el valor de Z.
+            {!multiple && ' Sin embargo, cada uno de esos pivotes es degenerado y llega al mismo punto con otra base, así que la solución óptima es única.'}
+          </p>
+
+          {multiple && (
+            <>
+              <div className="overflow-x-auto mt-4">
+                <table className="text-sm border-collapse">
+                  <thead>
+                    <tr>
+                      <th className="bg-slate-100 border border-slate-300 p-2 text-left">Vértice óptimo</th>
+                      {decisionVars.map(v => (
+                        <th key={v} className="bg-slate-100 border border-slate-300 p-2">{label(v)}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {vertices.map((vertex, k) => (
+                      <tr key={k}>
+                        <td className="border border-slate-300 p-2 font-medium">
+                          P{k}{k === 0 && <span className="text-xs text-slate-500 font-normal"> (solución del solver)</span>}
+                        </td>
+                        {decisionVars.map(v => (
+                          <td key={v} className="border border-slate-300 p-2 text-center">
+                            {formatValue(vertex.values[v] ?? 0, vertex.exactValues?.[v], showFractions)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <p className="text-sm text-slate-700 mt-4">
+                <span className="font-semibold">Cara óptima: </span>
+                {vertices.length > 1
+                  ? <>toda combinación convexa {vertices.map((_, k) => `λ${k}·P${k}`).join(' + ')} con λᵢ ≥ 0 y {vertices.map((_, k) => `λ${k}`).join(' + ')} = 1 es óptima</>
+                  : <>el punto P0</>}
+                {rays.length > 0 && (
+                  <>
+                    , más cualquier avance t ≥ 0 en {rays.length === 1 ? 'la dirección' : 'las direcciones'}{' '}
+                    {rays.map(ray => `d(${ray.variable}) = (${decisionVars.map(v => formatNumber(ray.direction[v] ?? 0)).join(', ')})`).join(', ')}:
+                    el conjunto óptimo no es acotado
+                  </>
+                )}
+                .
+              </p>
+
+              {alternatives.map((alt, k) => (
+                <div key={k} className="mt-6">
+                  <h4 className="text-sm font-semibold text-slate-700">P{k + 1}: {alt.steps[0].description}</h4>
+                  <div className="overflow-x-auto mt-2 space-y-3">
+                    <TableauTable step={alt.steps[0]} showFractions={showFractions} />
+                    <p className="text-xs font-mono text-slate-500">{alt.steps[0].rowOperations?.map(op => op.text).join('; ')}</p>
+                    <TableauTable step={alt.steps[1]} showFractions={showFractions} />
+                  </div>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      )}
+
+      {degenerateVars.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-amber-200 p-6">
+          <h3 className="font-bold text-slate-800 flex items-center gap-2 mb-2">
+            <AlertTriangle className="w-5 h-5 text-amber-500" />
+            Solución Degenerada
+          </h3>
+          <p className="text-sm text-slate-600">
+            {degenerateVars.length === 1 ? 'La variable básica' : 'Las variables básicas'}{' '}
+            <strong>{degenerateVars.join(', ')}</strong> {degenerateVars.length === 1 ? 'vale' : 'valen'} 0 en el tableau final.
+            El vértice óptimo satisface con igualdad más restricciones de las necesarias para definirlo, por lo que
+            varias bases describen el mismo punto. En un vértice así un pivote puede no mejorar Z, y con la regla de
+            Dantzig el método podría ciclar; las reglas de Bland y lexicográfica lo evitan.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
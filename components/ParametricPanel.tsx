@@ -0,0 +1,255 @@
+import React, { useState } from 'react';
+import { LinearModel, ParametricResult, ParametricTarget, PivotRule, SolverMethod, ThetaLinear } from '../types';
+import { TrendingUp, Play, ChevronDown, ChevronRight } from 'lucide-react';
+import { parametricAnalysis } from '../services/parametric';
+import { TableauTable } from './TableauTable';
+import { PivotExplanation } from './PivotExplanation';
+import { formatNumber } from './format';
+
+interface ParametricPanelProps {
+  model: LinearModel;
+  method: SolverMethod;
+  pivotRule: PivotRule;
+}
+
+const th = 'bg-slate-100 border border-slate-300 p-2 font-semibold text-slate-700';
+const td = 'border border-slate-300 p-2 text-center';
+const numberInput = 'w-16 p-1.5 border border-slate-300 rounded text-center text-sm focus:ring-2 focus:ring-blue-500 outline-none';
+
+const WIDTH = 520;
+const HEIGHT = 260;
+const PAD = 44;
+
+// "2 + 0.5θ", "−θ", "3"
+const formatTheta = ({ constant, slope }: ThetaLinear) => {
+  if (Math.abs(slope) < 1e-9) return formatNumber(constant);
+  const abs = Math.abs(slope);
+  const term = `${abs === 1 ? '' : formatNumber(abs)}θ`;
+  if (Math.abs(constant) < 1e-9) return slope < 0 ? `−${term}` : term;
+  return `${formatNumber(constant)} ${slope < 0 ? '−' : '+'} ${term}`;
+};
+
+const at = (l: ThetaLinear, theta: number) => l.constant + l.slope * theta;
+
+// Piecewise-linear Z(θ), with the critical values of θ marked
+const ZChart: React.FC<{ result: ParametricResult }> = ({ result }) => {
+  const { thetaMin, thetaMax } = result.spec;
+  const points = result.intervals.flatMap(i => [
+    { theta: i.from, z: at(i.z, i.from) },
+    { theta: i.to, z: at(i.z, i.to) }
+  ]);
+  if (points.length === 0) return null;
+  const zs = points.map(p => p.z);
+  const zLow = Math.min(...zs);
+  const zHigh = Math.max(...zs);
+  const zPad = (zHigh - zLow) * 0.1 || Math.abs(zHigh) * 0.1 || 1;
+  const [lo, hi] = [zLow - zPad, zHigh + zPad];
+  const span = thetaMax - thetaMin || 1;
+
+  const sx = (theta: number) => PAD + ((theta - thetaMin) / span) * (WIDTH - 2 * PAD);
+  const sy = (z: number) => HEIGHT - PAD - ((z - lo) / (hi - lo)) * (HEIGHT - 2 * PAD);
+  const ticks = [0, 0.25, 0.5, 0.75, 1];
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+      {ticks.map(t => (
+        <g key={t}>
+          <line x1={sx(thetaMin + t * span)} y1={sy(lo)} x2={sx(thetaMin + t * span)} y2={sy(hi)} stroke="#e2e8f0" />
+          <line x1={sx(thetaMin)} y1={sy(lo + t * (hi - lo))} x2={sx(thetaMax)} y2={sy(lo + t * (hi - lo))} stroke="#e2e8f0" />
+          <text x={sx(thetaMin + t * span)} y={sy(lo) + 16} textAnchor="middle" fontSize="10" fill="#64748b">
+            {formatNumber(thetaMin + t * span)}
+          </text>
+          <text x={sx(thetaMin) - 6} y={sy(lo + t * (hi - lo)) + 3} textAnchor="end" fontSize="10" fill="#64748b">
+            {formatNumber(lo + t * (hi - lo))}
+          </text>
+        </g>
+      ))}
+      <line x1={sx(thetaMin)} y1={sy(lo)} x2={sx(thetaMax)} y2={sy(lo)} stroke="#334155" />
+      <line x1={sx(thetaMin)} y1={sy(lo)} x2={sx(thetaMin)} y2={sy(hi)} stroke="#334155" />
+      <text x={sx(thetaMax)} y={sy(lo) + 30} textAnchor="end" fontSize="11" fill="#334155">θ</text>
+      <text x={sx(thetaMin) - 30} y={sy(hi)} fontSize="11" fill="#334155">Z</text>
+
+      {/* Beyond the last interval there is no optimum */}
+      {result.stop && result.stop.theta < thetaMax && (
+        <g>
+          <rect
+            x={sx(result.stop.theta)} y={sy(hi)} width={sx(thetaMax) - sx(result.stop.theta)} height={sy(lo) - sy(hi)}
+            fill="#fee2e2" fillOpacity={0.6}
+          />
+          <text x={(sx(result.stop.theta) + sx(thetaMax)) / 2} y={sy(hi) + 14} textAnchor="middle" fontSize="10" fill="#b91c1c">
+            {result.stop.status === 'UNBOUNDED' ? 'No acotado' : 'Infactible'}
+          </text>
+        </g>
+      )}
+
+      {result.criticalThetas.map(theta => (
+        <line key={theta} x1={sx(theta)} y1={sy(lo)} x2={sx(theta)} y2={sy(hi)} stroke="#f97316" strokeDasharray="4 3" />
+      ))}
+
+      <polyline
+        points={points.map(p => `${sx(p.theta)},${sy(p.z)}`).join(' ')}
+        fill="none"
+        stroke="#2563eb"
+        strokeWidth={2.5}
+      />
+      {result.criticalThetas.map(theta => {
+        const interval = result.intervals.find(i => Math.abs(i.from - theta) < 1e-9);
+        if (!interval) return null;
+        const z = at(interval.z, theta);
+        return (
+          <g key={`pt-${theta}`}>
+            <circle cx={sx(theta)} cy={sy(z)} r={4} fill="#f97316" stroke="#fff" strokeWidth={1.5} />
+            <text x={sx(theta) + 6} y={sy(z) - 8} fontSize="10" fontWeight="bold" fill="#c2410c">θ = {formatNumber(theta)}</text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export const ParametricPanel: React.FC<ParametricPanelProps> = ({ model, method, pivotRule }) => {
+  const names = model.variableNames ?? model.objCoeffs.map((_, j) => `x${j + 1}`);
+  const [target, setTarget] = useState<ParametricTarget>('OBJECTIVE');
+  const [costDirection, setCostDirection] = useState<number[]>(() => model.objCoeffs.map(() => 0));
+  const [rhsDirection, setRhsDirection] = useState<number[]>(() => model.constraints.map(() => 0));
+  const [thetaMin, setThetaMin] = useState(0);
+  const [thetaMax, setThetaMax] = useState(10);
+  const [result, setResult] = useState<ParametricResult | null>(null);
+  const [showSteps, setShowSteps] = useState(false);
+
+  const direction = target === 'OBJECTIVE' ? costDirection : rhsDirection;
+  const setDirection = target === 'OBJECTIVE' ? setCostDirection : setRhsDirection;
+  const valid = thetaMax > thetaMin && direction.some(d => d !== 0);
+
+  const run = () => {
+    setResult(parametricAnalysis(model, method, pivotRule, { target, direction, thetaMin, thetaMax }));
+    setShowSteps(false);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="bg-slate-50 px-6 py-3 border-b border-slate-200 flex items-center gap-2">
+        <TrendingUp className="w-4 h-4 text-blue-600" />
+        <div>
+          <h3 className="font-semibold text-slate-800">Programación Paramétrica</h3>
+          <p className="text-xs text-slate-500 mt-0.5">
+            Varía los datos a lo largo de una dirección y encuentra cada θ en que cambia la base óptima, pivotando desde la base anterior.
+          </p>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-4">
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          <select
+            value={target}
+            onChange={(e) => { setTarget(e.target.value as ParametricTarget); setResult(null); }}
+            className="p-1.5 border border-slate-300 rounded bg-white text-sm focus:ring-2 focus:ring-blue-500 outline-none cursor-pointer"
+          >
+            <option value="OBJECTIVE">Función objetivo: c(θ) = c + θ·Δc</option>
+            <option value="RHS">Lados derechos: b(θ) = b + θ·Δb</option>
+          </select>
+          <span className="flex items-center gap-2 text-slate-600">
+            θ de
+            <input type="number" step="any" value={thetaMin} onChange={(e) => setThetaMin(parseFloat(e.target.value) || 0)} className={numberInput} />
+            a
+            <input type="number" step="any" value={thetaMax} onChange={(e) => setThetaMax(parseFloat(e.target.value) || 0)} className={numberInput} />
+          </span>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <span className="font-medium text-slate-600">{target === 'OBJECTIVE' ? 'Δc:' : 'Δb:'}</span>
+          {direction.map((d, k) => (
+            <span key={k} className="flex items-center gap-1 text-slate-600">
+              {target === 'OBJECTIVE' ? names[k] : `R${k + 1}`}
+              <input
+                type="number"
+                step="any"
+                value={d || ''}
+                placeholder="0"
+                onChange={(e) => setDirection(direction.map((v, i) => (i === k ? parseFloat(e.target.value) || 0 : v)))}
+                className={numberInput}
+              />
+            </span>
+          ))}
+          <button
+            onClick={run}
+            disabled={!valid}
+            className="flex items-center gap-1 ml-auto px-4 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-700 disabled:bg-slate-300 disabled:cursor-not-allowed text-white font-medium transition"
+          >
+            <Play className="w-3.5 h-3.5" />
+            Analizar
+          </button>
+        </div>
+
+        {result && (
+          <>
+            {result.stop && (
+              <p className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-lg p-3">{result.stop.message}</p>
+            )}
+
+            {result.intervals.length > 0 && (
+              <>
+                <ZChart result={result} />
+                <p className="text-xs text-slate-500">
+                  {result.criticalThetas.length > 0
+                    ? `Valores críticos de θ: ${result.criticalThetas.map(formatNumber).join(', ')}.`
+                    : 'La base óptima no cambia en todo el intervalo.'}
+                  {' '}Z(θ) es lineal en cada intervalo y {result.spec.target === 'OBJECTIVE'
+                    ? (model.type === 'MAX' ? 'convexa' : 'cóncava')
+                    : (model.type === 'MAX' ? 'cóncava' : 'convexa')} en θ.
+                </p>
+
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm border-collapse">
+                    <thead>
+                      <tr>
+                        <th className={th}>θ</th>
+                        <th className={th}>Base</th>
+                        {names.map(name => <th key={name} className={th}>{name}</th>)}
+                        <th className={th}>Z(θ)</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.intervals.map((interval, k) => (
+                        <tr key={k}>
+                          <td className={`${td} font-mono text-xs whitespace-nowrap`}>
+                            [{formatNumber(interval.from)}, {formatNumber(interval.to)}]
+                          </td>
+                          <td className={`${td} font-mono text-xs`}>{interval.basis.join(', ')}</td>
+                          {names.map((_, j) => (
+                            <td key={j} className={`${td} font-mono text-xs`}>{formatTheta(interval.values[`x${j + 1}`])}</td>
+                          ))}
+                          <td className={`${td} font-mono text-xs font-semibold`}>{formatTheta(interval.z)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+
+            <button
+              onClick={() => setShowSteps(!showSteps)}
+              className="flex items-center gap-2 text-sm font-medium text-slate-600 hover:text-blue-600 transition"
+            >
+              {showSteps ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+              {showSteps ? 'Ocultar' : 'Ver'} tableaux ({result.steps.length})
+            </button>
+            {showSteps && result.steps.map((step, idx) => (
+              <div key={idx} className="border border-slate-200 rounded-lg overflow-hidden">
+                <div className="bg-slate-50 px-4 py-2 border-b border-slate-200">
+                  <h4 className="text-sm font-semibold text-slate-700">Paso {step.stepIndex}</h4>
+                  <p className="text-xs text-slate-500 mt-0.5">{step.description}</p>
+                </div>
+                <div className="overflow-x-auto p-4">
+                  <TableauTable step={step} showFractions={false} />
+                </div>
+                <PivotExplanation step={step} />
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { TableauStep } from '../types';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+
+interface PivotExplanationProps {
+  step: TableauStep;
+}
+
+// Collapsible detail under a tableau: the ratio test that picked the pivot and
+// the row operations that produce the next tableau.
+export const PivotExplanation: React.FC<PivotExplanationProps> = ({ step }) => {
+  const [open, setOpen] = useState(false);
+  const { ratioTest, rowOperations } = step;
+  if (!ratioTest && !rowOperations?.length) return null;
+  const zLabel = step.isPhase1 ? 'W' : 'Z';
+
+  return (
+    <div className="border-t border-slate-200">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center gap-1 px-6 py-2 text-xs font-medium text-slate-600 hover:bg-slate-50"
+      >
+        {open ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        ¿Cómo se obtiene el siguiente tableau?
+      </button>
+
+      {open && (
+        <div className="px-6 pb-4 grid gap-6 md:grid-cols-2 text-sm">
+          {ratioTest && (
+            <div>
+              <h4 className="font-semibold text-slate-700 mb-2">
+                {ratioTest.dual ? `Razón dual (fila de ${step.leavingVar})` : `Prueba de la razón mínima (columna ${step.enteringVar})`}
+              </h4>
+              <table className="w-full border-collapse text-xs">
+                <thead>
+                  <tr>
+                    <th className="bg-slate-100 border border-slate-300 p-1.5 text-left">{ratioTest.dual ? 'Columna' : 'Fila'}</th>
+                    <th className="bg-slate-100 border border-slate-300 p-1.5">{ratioTest.dual ? `Fila ${zLabel}` : 'LD'}</th>
+                    <th className="bg-slate-100 border border-slate-300 p-1.5">Coeficiente</th>
+                    <th className="bg-slate-100 border border-slate-300 p-1.5">{ratioTest.dual ? '|Razón|' : 'Razón'}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {ratioTest.entries.map(entry => (
+                    <tr key={entry.index} className={entry.chosen ? 'bg-yellow-100 font-semibold' : entry.excluded ? 'text-slate-400' : ''}>
+                      <td className="border border-slate-300 p-1.5">
+                        {ratioTest.dual ? entry.label : `R${entry.index} (${entry.label})`}
+                      </td>
+                      <td className="border border-slate-300 p-1.5 text-center">{entry.numerator}</td>
+                      <td className="border border-slate-300 p-1.5 text-center">{entry.denominator}</td>
+                      <td className="border border-slate-300 p-1.5 text-center">
+                        {entry.excluded ? <span className="italic">excluida: {entry.excluded}</span> : entry.ratio}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {!ratioTest.entries.some(e => e.chosen) && (
+                <p className="text-xs text-red-600 mt-2">Ningún candidato es válido.</p>
+              )}
+            </div>
+          )}
+
+          {rowOperations && rowOperations.length > 0 && (
+            <div>
+              <h4 className="font-semibold text-slate-700 mb-2">Operaciones de fila</h4>
+              <ol className="space-y-1 font-mono text-xs text-slate-700">
+                {rowOperations.map(op => (
+                  <li key={`${op.kind}-${op.target}`}>{op.text}</li>
+                ))}
+              </ol>
+              <p className="text-xs text-slate-500 mt-2">
+                R0 es la fila de {zLabel}. Las eliminaciones usan la fila pivote ya dividida.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { RevisedIteration, RevisedReport } from '../types';
+import { Cpu, RotateCcw } from 'lucide-react';
+import { formatNumber } from './format';
+
+interface RevisedPanelProps {
+  report: RevisedReport;
+}
+
+const LOG_PAGE = 100;
+
+const th = 'bg-slate-100 border border-slate-300 px-2 py-1 font-semibold text-slate-700';
+const td = 'border border-slate-300 px-2 py-1 text-center font-mono';
+
+const phaseBadge = (phase: number) => phase === 1
+  ? <span className="bg-purple-100 text-purple-700 text-xs font-bold px-2 py-1 rounded">Fase 1</span>
+  : phase === 2
+  ? <span className="bg-blue-100 text-blue-700 text-xs font-bold px-2 py-1 rounded">Fase 2</span>
+  : null;
+
+const objectiveName = (it: RevisedIteration) => (it.phase === 1 ? 'W' : 'Z');
+
+// B⁻¹, c_B·B⁻¹ and the ratio test on B⁻¹a_q of one iteration (small models)
+const IterationCard: React.FC<{ it: RevisedIteration }> = ({ it }) => {
+  const inverse = it.inverse ?? [];
+  const rowNames = inverse.map((_, r) => `R${r + 1}`);
+  const leavingRow = it.leavingVar ? it.basis.indexOf(it.leavingVar) : -1;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="bg-slate-50 px-6 py-3 border-b border-slate-200 flex justify-between items-center">
+        <div>
+          <h3 className="font-semibold text-slate-800">Iteración {it.iteration}</h3>
+          <p className="text-xs text-slate-500 mt-0.5">
+            Base {`{${it.basis.join(', ')}}`}, {objectiveName(it)} = {formatNumber(it.objective)}.{' '}
+            {it.enteringVar
+              ? it.leavingVar
+                ? `Entra ${it.enteringVar} (c_j − y·a_j = ${formatNumber(it.reducedCost ?? 0)}), Sale ${it.leavingVar} con θ = ${formatNumber(it.stepLength ?? 0)}.`
+                : `Entra ${it.enteringVar}, pero B⁻¹a_q no tiene entradas positivas: no acotado.`
+              : 'Ningún costo reducido c_j − y·a_j es positivo: la base es óptima.'}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {it.refactored && (
+            <span className="bg-amber-100 text-amber-700 text-xs font-bold px-2 py-1 rounded">B⁻¹ refactorizada</span>
+          )}
+          {phaseBadge(it.phase)}
+        </div>
+      </div>
+
+      <div className="p-4 flex flex-wrap gap-6 items-start overflow-x-auto">
+        <div>
+          <h4 className="text-xs font-semibold text-slate-600 mb-1">B⁻¹</h4>
+          <table className="text-xs border-collapse">
+            <thead>
+              <tr>
+                <th className={th}>Base</th>
+                {rowNames.map(name => <th key={name} className={th}>{name}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {inverse.map((row, r) => (
+                <tr key={r} className={r === leavingRow ? 'bg-red-50' : ''}>
+                  <td className={`${td} font-semibold`}>{it.basis[r]}</td>
+                  {row.map((v, c) => <td key={c} className={td}>{formatNumber(v)}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div>
+          <h4 className="text-xs font-semibold text-slate-600 mb-1">y = c_B·B⁻¹</h4>
+          <table className="text-xs border-collapse">
+            <thead>
+              <tr>{rowNames.map(name => <th key={name} className={th}>{name}</th>)}</tr>
+            </thead>
+            <tbody>
+              <tr>{(it.duals ?? []).map((v, i) => <td key={i} className={td}>{formatNumber(v)}</td>)}</tr>
+            </tbody>
+          </table>
+        </div>
+
+        <div>
+          <h4 className="text-xs font-semibold text-slate-600 mb-1">
+            x_B = B⁻¹b{it.enteringColumn ? `, α = B⁻¹·(columna de ${it.enteringVar})` : ''}
+          </h4>
+          <table className="text-xs border-collapse">
+            <thead>
+              <tr>
+                <th className={th}>Base</th>
+                <th className={th}>x_B</th>
+                {it.enteringColumn && <th className={th}>α</th>}
+                {it.enteringColumn && <th className={th}>x_B / α</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {(it.basisValues ?? []).map((v, r) => {
+                const a = it.enteringColumn?.[r];
+                return (
+                  <tr key={r} className={r === leavingRow ? 'bg-red-50 font-semibold' : ''}>
+                    <td className={`${td} font-semibold`}>{it.basis[r]}</td>
+                    <td className={td}>{formatNumber(v)}</td>
+                    {a !== undefined && <td className={td}>{formatNumber(a)}</td>}
+                    {a !== undefined && <td className={`${td} text-slate-500`}>{a > 1e-9 ? formatNumber(v / a) : '—'}</td>}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// The revised simplex run: per-iteration matrices for small models, a pivot log otherwise
+export const RevisedPanel: React.FC<RevisedPanelProps> = ({ report }) => {
+  const [showAll, setShowAll] = useState(false);
+  const { iterations } = report;
+  const shown = showAll ? iterations : iterations.slice(0, LOG_PAGE);
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+        <h3 className="font-bold text-slate-800 flex items-center gap-2 mb-2">
+          <Cpu className="w-5 h-5 text-blue-600" />
+          Simplex Revisado
+        </h3>
+        <p className="text-sm text-slate-600">
+          Forma estándar de {report.rows} filas × {report.columns} columnas con {report.nonzeros} coeficientes no nulos.
+          En lugar de actualizar el tableau completo, cada pivote agrega una matriz eta a B⁻¹; los costos reducidos
+          c_j − y·a_j se calculan solo cuando hacen falta y de la columna entrante solo se obtiene B⁻¹a_q.
+        </p>
+        <p className="text-sm text-slate-600 mt-2">
+          {iterations.length} iteraciones, {report.refactorizations} refactorizaciones de B⁻¹.
+          {' '}Con la regla de Bland entra el menor índice; las demás reglas usan el criterio de Dantzig
+          (y Bland tras muchos pivotes degenerados seguidos).
+        </p>
+      </div>
+
+      {report.detailed
+        ? iterations.map(it => <IterationCard key={it.iteration} it={it} />)
+        : (
+          <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+            <div className="bg-slate-50 px-6 py-3 border-b border-slate-200">
+              <h3 className="font-semibold text-slate-800">Registro de Pivotes</h3>
+            </div>
+            <div className="overflow-x-auto p-4">
+              <table className="w-full text-sm border-collapse">
+                <thead>
+                  <tr>
+                    <th className={th}>Iteración</th>
+                    <th className={th}>Fase</th>
+                    <th className={th}>Entra</th>
+                    <th className={th}>Sale</th>
+                    <th className={th}>c_j − y·a_j</th>
+                    <th className={th}>θ</th>
+                    <th className={th}>Objetivo</th>
+                    <th className={th}>Etas</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {shown.map(it => (
+                    <tr key={it.iteration}>
+                      <td className={td}>{it.iteration}</td>
+                      <td className={td}>{it.phase || '—'}</td>
+                      <td className={`${td} text-green-700`}>{it.enteringVar ?? '—'}</td>
+                      <td className={`${td} text-red-600`}>{it.leavingVar ?? '—'}</td>
+                      <td className={td}>{it.reducedCost !== undefined ? formatNumber(it.reducedCost) : '—'}</td>
+                      <td className={td}>{it.stepLength !== undefined ? formatNumber(it.stepLength) : '—'}</td>
+                      <td className={td}>{objectiveName(it)} = {formatNumber(it.objective)}</td>
+                      <td className={td}>
+                        <span className="inline-flex items-center gap-1">
+                          {it.etaCount}
+                          {it.refactored && <RotateCcw className="w-3 h-3 text-amber-600" aria-label="B⁻¹ refactorizada" />}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {iterations.length > LOG_PAGE && (
+                <button
+                  onClick={() => setShowAll(!showAll)}
+                  className="mt-3 text-sm font-medium text-blue-600 hover:text-blue-700"
+                >
+                  {showAll ? `Mostrar solo las primeras ${LOG_PAGE}` : `Mostrar las ${iterations.length} iteraciones`}
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+    </div>
+  );
+};
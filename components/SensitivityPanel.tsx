@@ -0,0 +1,104 @@
+import React from 'react';
+import { SensitivityRange, SensitivityReport } from '../types';
+import { SlidersHorizontal } from 'lucide-react';
+import { formatLimit, formatNumber } from './format';
+
+interface SensitivityPanelProps {
+  report: SensitivityReport;
+}
+
+const th = 'bg-slate-100 border border-slate-300 p-2 font-semibold text-slate-700';
+const td = 'border border-slate-300 p-2 text-center';
+
+const RangeTable: React.FC<{ title: string; label: string; ranges: SensitivityRange[] }> = ({ title, label, ranges }) => (
+  <div>
+    <h4 className="text-sm font-semibold text-slate-700 mb-2">{title}</h4>
+    <table className="w-full text-sm border-collapse">
+      <thead>
+        <tr>
+          <th className={`${th} text-left`}>{label}</th>
+          <th className={th}>Actual</th>
+          <th className={th}>Aumento permitido</th>
+          <th className={th}>Disminución permitida</th>
+          <th className={th}>Intervalo</th>
+        </tr>
+      </thead>
+      <tbody>
+        {ranges.map(r => (
+          <tr key={r.name}>
+            <td className={`${td} text-left font-medium`}>{r.name}</td>
+            <td className={td}>{formatNumber(r.current)}</td>
+            <td className={td}>{formatLimit(r.allowableIncrease)}</td>
+            <td className={td}>{formatLimit(r.allowableDecrease)}</td>
+            <td className={`${td} font-mono text-xs`}>
+              [{Number.isFinite(r.allowableDecrease) ? formatNumber(r.current - r.allowableDecrease) : '−∞'},{' '}
+              {Number.isFinite(r.allowableIncrease) ? formatNumber(r.current + r.allowableIncrease) : '∞'}]
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export const SensitivityPanel: React.FC<SensitivityPanelProps> = ({ report }) => {
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="bg-slate-50 px-6 py-3 border-b border-slate-200 flex items-center gap-2">
+        <SlidersHorizontal className="w-4 h-4 text-blue-600" />
+        <h3 className="font-semibold text-slate-800">Análisis de Sensibilidad</h3>
+      </div>
+
+      <div className="p-4 space-y-6 overflow-x-auto">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <h4 className="text-sm font-semibold text-slate-700 mb-2">Costos Reducidos</h4>
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr>
+                  <th className={`${th} text-left`}>Variable</th>
+                  <th className={th}>Valor</th>
+                  <th className={th}>Costo reducido</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.reducedCosts.map(r => (
+                  <tr key={r.variable}>
+                    <td className={`${td} text-left font-medium`}>{r.variable}</td>
+                    <td className={td}>{formatNumber(r.value)}</td>
+                    <td className={td}>{formatNumber(r.reducedCost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-semibold text-slate-700 mb-2">Precios Sombra</h4>
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr>
+                  <th className={`${th} text-left`}>Restricción</th>
+                  <th className={th}>Holgura / Excedente</th>
+                  <th className={th}>Precio sombra</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.shadowPrices.map(r => (
+                  <tr key={r.constraint}>
+                    <td className={`${td} text-left font-medium`}>{r.constraint}</td>
+                    <td className={td}>{formatNumber(r.slack)}</td>
+                    <td className={td}>{formatNumber(r.shadowPrice)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <RangeTable title="Rangos de los Coeficientes Objetivo" label="Variable" ranges={report.objectiveRanges} />
+        <RangeTable title="Rangos del Lado Derecho (la base sigue siendo óptima)" label="Restricción" ranges={report.rhsRanges} />
+      </div>
+    </div>
+  );
+};
@@ -1,19 +1,88 @@
-import React from 'react';
-import { SolveResult, TableauStep } from '../types';
-import { CheckCircle, XCircle, AlertTriangle, RefreshCw } from 'lucide-react';
+import React, { useState } from 'react';
+import { IgnoredSetting, LinearModel, PivotRule, SolveResult, SolverMethod, TableauStep, VariableKind } from '../types';
+import {
+  CheckCircle, XCircle, AlertTriangle, RefreshCw, Download, Link2, Check, FileText, Printer, GraduationCap, ArrowLeftRight
+} from 'lucide-react';
+import { formatValue } from './format';
+import { PIVOT_RULE_LABELS } from '../constants';
+import { SensitivityPanel } from './SensitivityPanel';
+import { DualityPanel } from './DualityPanel';
+import { BranchAndBoundTree } from './BranchAndBoundTree';
+import { GraphicalMethod } from './GraphicalMethod';
+import { PivotExplanation } from './PivotExplanation';
+import { TableauTable } from './TableauTable';
+import { OptimalityPanel } from './OptimalityPanel';
+import { CertificatePanel } from './CertificatePanel';
+import { ParametricPanel } from './ParametricPanel';
+import { RevisedPanel } from './RevisedPanel';
+import { TutorMode } from './TutorMode';
+import { DualityReport } from '../services/duality';
+import { ModelFileFormat, exportModelFile } from '../services/modelFormats';
+import { describeSubstitutions, hasCustomBounds } from '../services/bounds';
+import { fitsDenseTableau } from '../services/revised';
+import { downloadTextFile } from './download';
+import { buildLatexDocument } from './latexExport';
+import { buildHtmlReport } from './htmlReport';
+
+const ignoredLabel = (setting: IgnoredSetting) =>
+  setting === 'EXACT' ? 'aritmética exacta' : `regla ${PIVOT_RULE_LABELS[setting]}`;
 
 interface SolutionViewProps {
   result: SolveResult;
+  model: LinearModel;
+  variableKinds: VariableKind[];
+  method: SolverMethod;
+  pivotRule: PivotRule;
+  duality?: DualityReport | null;
   onReset: () => void;
 }
 
-const formatNumber = (num: number) => {
-  if (Math.abs(num) < 1e-9) return "0";
-  if (Number.isInteger(num)) return num.toString();
-  return num.toFixed(2).replace(/\.00$/, '');
-};
+export const SolutionView: React.FC<SolutionViewProps> = ({ result, model, variableKinds, method, pivotRule, duality, onReset }) => {
+  const hasFractions = result.steps.some(s => s.tableau.some(r => r.fractions));
+  const [showFractions, setShowFractions] = useState(true);
+  const fractionsOn = hasFractions && showFractions;
+
+  // Branch and bound: the tableaux shown are those of the selected node (the incumbent by default)
+  const bbNodes = result.branchAndBound;
+  const [selectedNodeId, setSelectedNodeId] = useState<number | null>(
+    bbNodes?.find(n => n.isIncumbent)?.id ?? null
+  );
+  const selectedNode = bbNodes?.find(n => n.id === selectedNodeId);
+  const visibleSteps = selectedNode ? selectedNode.steps : result.steps;
+
+  // Free, nonpositive or bounded variables are substituted before the first tableau
+  const bounded = hasCustomBounds(model.variableBounds);
+  const substitutions = bounded ? describeSubstitutions(model.variableBounds!, model.objCoeffs.length) : [];
+
+  // Revised simplex: small models can switch between its matrices and the equivalent tableaux
+  const revised = result.revised;
+  const [showRevised, setShowRevised] = useState(true);
+  const revisedOn = !!revised && (showRevised || !revised.detailed);
+
+  // Tutor mode replays the primal simplex from the first tableau with user-chosen pivots
+  const [tutorOpen, setTutorOpen] = useState(false);
+  const tutorStart = visibleSteps[0];
+  const tutorAvailable = tutorStart !== undefined && !tutorStart.dual && tutorStart.cutIndex === undefined;
 
-export const SolutionView: React.FC<SolutionViewProps> = ({ result, onReset }) => {
+  // The URL hash already holds the whole problem (see services/permalink)
+  // Without clipboard access (insecure origin, denied permission) the link is shown selected instead
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [manualLink, setManualLink] = useState<string | null>(null);
+  const copyLink = async () => {
+    try {
+      if (!navigator.clipboard) throw new Error('Clipboard API no disponible');
+      await navigator.clipboard.writeText(window.location.href);
+      setManualLink(null);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch {
+      setManualLink(window.location.href);
+    }
+  };
+
+  const downloadModel = (format: ModelFileFormat) => {
+    downloadTextFile(`modelo.${format.toLowerCase()}`, exportModelFile(format, model, variableKinds));
+  };
   
   return (
     <div className="space-y-8 pb-20">
@@ -25,32 +94,143 @@ export const SolutionView: React.FC<SolutionViewProps> = ({ result, onReset }) =
       }`}>
         {result.status === 'OPTIMAL' && <CheckCircle className="w-6 h-6 shrink-0 text-green-600" />}
         {result.status === 'INFEASIBLE' && <XCircle className="w-6 h-6 shrink-0 text-red-600" />}
-        {result.status === 'UNBOUNDED' && <AlertTriangle className="w-6 h-6 shrink-0 text-yellow-600" />}
+        {(result.status === 'UNBOUNDED' || result.status === 'ITERATION_LIMIT' || result.status === 'CYCLING') && <AlertTriangle className="w-6 h-6 shrink-0 text-yellow-600" />}
         
         <div>
           <h2 className="text-lg font-bold mb-1">
             {result.status === 'OPTIMAL' && 'Solución Óptima Encontrada'}
             {result.status === 'INFEASIBLE' && 'Problema Infactible'}
             {result.status === 'UNBOUNDED' && 'Solución No Acotada'}
+            {result.status === 'ITERATION_LIMIT' && 'Límite de Iteraciones Alcanzado'}
+            {result.status === 'CYCLING' && 'Ciclado Detectado'}
             {result.status === 'ERROR' && 'Error de Cálculo'}
           </h2>
           <p className="text-sm opacity-90">
             {result.errorMessage || (
                result.status === 'OPTIMAL' 
-               ? `Valor Objetivo Z = ${formatNumber(result.zValue)}`
+               ? `Valor Objetivo Z = ${formatValue(result.zValue, result.exactZValue, fractionsOn)}`
+               : result.unboundedRay
+               ? 'Z mejora sin límite a lo largo de un rayo factible; el certificado está más abajo.'
+               : result.farkas
+               ? `Las restricciones ${result.farkas.conflict.map(i => `R${i + 1}`).join(', ')} no pueden cumplirse a la vez; el certificado está más abajo.`
                : 'No se pudo encontrar una solución óptima finita.'
             )}
           </p>
         </div>
       </div>
 
+      {result.ignoredSettings && result.ignoredSettings.length > 0 && (
+        <div className="flex items-center gap-2 text-sm p-3 rounded-lg border bg-yellow-50 border-yellow-200 text-yellow-800">
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          El simplex revisado trabaja con decimales y elige la variable entrante con Dantzig (o Bland), así que no
+          aplicó: {result.ignoredSettings.map(ignoredLabel).join(', ')}.
+        </div>
+      )}
+
+      {method === 'SIMPLEX' && result.steps.some(s => s.phase === 1) && (
+        <div className="flex items-center gap-2 text-sm p-3 rounded-lg border bg-yellow-50 border-yellow-200 text-yellow-800">
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          Hay restricciones ≥ o = que necesitan variables artificiales: el Simplex estándar no tiene base inicial,
+          así que se resolvió con el Método de Dos Fases.
+        </div>
+      )}
+
+      {substitutions.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+          <h3 className="font-bold text-slate-800 flex items-center gap-2 mb-2">
+            <ArrowLeftRight className="w-5 h-5 text-blue-600" />
+            Cambio de Variables
+          </h3>
+          <p className="text-sm text-slate-600 mb-3">
+            El simplex solo trabaja con variables ≥ 0, así que antes del primer tableau se sustituyen las variables con
+            otro signo o con cotas. Los resultados finales ya están expresados en las variables originales.
+          </p>
+          <ul className="space-y-1 font-mono text-sm text-slate-800">
+            {substitutions.map(text => <li key={text}>{text}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {(hasFractions || tutorAvailable || revised?.detailed) && (
+        <div className="flex justify-end gap-2">
+          {revised?.detailed && (
+            <div className="inline-flex rounded-lg border border-slate-200 bg-white p-1 text-xs font-medium">
+              <button
+                onClick={() => setShowRevised(true)}
+                className={`px-3 py-1 rounded ${revisedOn ? 'bg-blue-600 text-white' : 'text-slate-600 hover:bg-slate-50'}`}
+              >
+                Forma revisada
+              </button>
+              <button
+                onClick={() => setShowRevised(false)}
+                className={`px-3 py-1 rounded ${!revisedOn ? 'bg-blue-600 text-white' : 'text-slate-600 hover:bg-slate-50'}`}
+              >
+                Tableau completo
+              </button>
+            </div>
+          )}
+          {tutorAvailable && !tutorOpen && (
+            <button
+              onClick={() => setTutorOpen(true)}
+              className="flex items-center gap-1 px-3 py-1 rounded-lg border border-indigo-200 bg-white text-xs font-medium text-indigo-700 hover:bg-indigo-50"
+            >
+              <GraduationCap className="w-4 h-4" />
+              Pivotear a mano (modo tutor)
+            </button>
+          )}
+          {hasFractions && (
+            <div className="inline-flex rounded-lg border border-slate-200 bg-white p-1 text-xs font-medium">
+              <button
+                onClick={() => setShowFractions(true)}
+                className={`px-3 py-1 rounded ${fractionsOn ? 'bg-blue-600 text-white' : 'text-slate-600 hover:bg-slate-50'}`}
+              >
+                Fracciones
+              </button>
+              <button
+                onClick={() => setShowFractions(false)}
+                className={`px-3 py-1 rounded ${!fractionsOn ? 'bg-blue-600 text-white' : 'text-slate-600 hover:bg-slate-50'}`}
+              >
+                Decimales
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {bbNodes && (
+        <BranchAndBoundTree nodes={bbNodes} selectedId={selectedNodeId} onSelect={setSelectedNodeId} />
+      )}
+
+      {selectedNode && (
+        <h3 className="text-sm font-semibold text-slate-600">Tableaux del Nodo {selectedNode.id}</h3>
+      )}
+
+      {tutorOpen && tutorAvailable && (
+        <TutorMode
+          key={selectedNodeId ?? 'root'}
+          initialStep={tutorStart}
+          pivotRule={pivotRule}
+          showFractions={fractionsOn}
+          onExit={() => setTutorOpen(false)}
+        />
+      )}
+
+      {!tutorOpen && revised && revisedOn && <RevisedPanel report={revised} />}
+
       {/* Iteration Steps */}
-      {result.steps.map((step, idx) => (
+      {!tutorOpen && !revisedOn && visibleSteps.map((step, idx) => (
         <div key={idx} className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
           <div className="bg-slate-50 px-6 py-3 border-b border-slate-200 flex justify-between items-center">
             <div>
               <h3 className="font-semibold text-slate-800">Paso {step.stepIndex}</h3>
               <p className="text-xs text-slate-500 mt-0.5">{step.description}</p>
+              {step.enteringVar && step.leavingVar && (
+                <p className="text-xs font-medium text-slate-600 mt-1">
+                  {step.dual
+                    ? <>1. Sale <span className="text-red-600">{step.leavingVar}</span> → 2. Entra <span className="text-green-700">{step.enteringVar}</span></>
+                    : <>1. Entra <span className="text-green-700">{step.enteringVar}</span> → 2. Sale <span className="text-red-600">{step.leavingVar}</span></>}
+                </p>
+              )}
             </div>
             {step.isPhase1 && (
               <span className="bg-purple-100 text-purple-700 text-xs font-bold px-2 py-1 rounded">Fase 1</span>
@@ -58,51 +238,19 @@ export const SolutionView: React.FC<SolutionViewProps> = ({ result, onReset }) =
              {step.phase === 2 && (
               <span className="bg-blue-100 text-blue-700 text-xs font-bold px-2 py-1 rounded">Fase 2</span>
             )}
+            {step.dual && (
+              <span className="bg-orange-100 text-orange-700 text-xs font-bold px-2 py-1 rounded">Simplex Dual</span>
+            )}
+            {step.cutIndex && (
+              <span className="bg-teal-100 text-teal-700 text-xs font-bold px-2 py-1 rounded">Corte de Gomory {step.cutIndex}</span>
+            )}
           </div>
           
           <div className="overflow-x-auto p-4">
-            <table className="w-full text-sm border-collapse">
-              <thead>
-                <tr>
-                  <th className="bg-slate-100 border border-slate-300 p-2 text-left font-semibold text-slate-700 w-20">Base</th>
-                  {step.headers.slice(0, -1).map((h, i) => (
-                    <th key={i} className={`bg-slate-100 border border-slate-300 p-2 font-semibold text-slate-700 ${h === step.enteringVar ? 'bg-green-100' : ''}`}>
-                      {h}
-                    </th>
-                  ))}
-                  <th className="bg-slate-100 border border-slate-300 p-2 font-semibold text-slate-700">LD</th>
-                </tr>
-              </thead>
-              <tbody>
-                {step.tableau.map((row, rIdx) => {
-                  const isPivotRow = rIdx === step.pivotRow;
-                  return (
-                    <tr key={rIdx} className={isPivotRow ? 'bg-blue-50' : ''}>
-                      <td className={`border border-slate-300 p-2 font-medium ${row.basicVar === step.leavingVar ? 'bg-red-50' : ''}`}>
-                        {row.basicVar}
-                      </td>
-                      {row.coefficients.slice(0, -1).map((val: number, cIdx: number) => {
-                        // Pivot column index matches matrix index, which matches coefficient index
-                        const isPivotCell = isPivotRow && cIdx === (step.pivotCol !== undefined ? step.pivotCol : -1);
-                        
-                        // Check if this column is the entering variable
-                        const isEntering = step.headers[cIdx] === step.enteringVar;
-                        
-                        return (
-                          <td key={cIdx} className={`border border-slate-300 p-2 text-center ${isPivotCell ? 'bg-yellow-200 font-bold border-yellow-400' : ''} ${isEntering ? 'bg-green-50/30' : ''}`}>
-                            {formatNumber(val)}
-                          </td>
-                        );
-                      })}
-                      <td className="border border-slate-300 p-2 text-center font-semibold bg-slate-50">
-                        {formatNumber(row.rhs)}
-                      </td>
-                    </tr>
-                  );
-                })}
-              </tbody>
-            </table>
+            <TableauTable step={step} showFractions={fractionsOn} />
           </div>
+
+          <PivotExplanation step={step} />
         </div>
       ))}
 
@@ -113,14 +261,15 @@ export const SolutionView: React.FC<SolutionViewProps> = ({ result, onReset }) =
           <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
             <div className="bg-blue-800/50 p-3 rounded-lg border border-blue-700">
               <span className="text-blue-200 text-sm block mb-1">Función Objetivo (Z)</span>
-              <span className="text-2xl font-bold">{formatNumber(result.zValue)}</span>
+              <span className="text-2xl font-bold">{formatValue(result.zValue, result.exactZValue, fractionsOn)}</span>
             </div>
             {Object.entries(result.finalValues).map(([key, val]) => {
                if (!key.startsWith('x')) return null;
+               const name = model.variableNames?.[parseInt(key.slice(1), 10) - 1];
                return (
                 <div key={key} className="bg-blue-800/50 p-3 rounded-lg border border-blue-700">
-                  <span className="text-blue-200 text-sm block mb-1">{key}</span>
-                  <span className="text-xl font-semibold">{formatNumber(val as number)}</span>
+                  <span className="text-blue-200 text-sm block mb-1">{name && name !== key ? `${key} (${name})` : key}</span>
+                  <span className="text-xl font-semibold">{formatValue(val as number, result.exactValues?.[key], fractionsOn)}</span>
                 </div>
                );
             })}
@@ -128,7 +277,93 @@ export const SolutionView: React.FC<SolutionViewProps> = ({ result, onReset }) =
         </div>
       )}
 
-      <div className="flex justify-center pt-8">
+      {/* Unbounded ray or Farkas certificate */}
+      {(result.unboundedRay || result.farkas) && (
+        <CertificatePanel result={result} model={model} />
+      )}
+
+      {/* Alternative optima and degeneracy */}
+      {result.status === 'OPTIMAL' && result.optimality && (
+        <OptimalityPanel
+          analysis={result.optimality}
+          model={model}
+          values={result.finalValues}
+          exactValues={result.exactValues}
+          showFractions={fractionsOn}
+        />
+      )}
+
+      {/* Two variables: plot the model and the vertices the simplex visited */}
+      {model.objCoeffs.length === 2 && !bounded && (
+        <GraphicalMethod
+          model={model}
+          steps={visibleSteps}
+          optimum={result.status === 'OPTIMAL' ? { x: result.finalValues.x1 ?? 0, y: result.finalValues.x2 ?? 0 } : undefined}
+        />
+      )}
+
+      {/* Primal vs Dual */}
+      {duality && (
+        <DualityPanel report={duality} primalValues={result.finalValues} />
+      )}
+
+      {/* Sensitivity Analysis */}
+      {result.status === 'OPTIMAL' && result.sensitivity && (
+        <SensitivityPanel report={result.sensitivity} />
+      )}
+
+      {/* Sweep c(θ) or b(θ) from the optimal tableau (LP relaxations, substituted bounds and large models excluded) */}
+      {result.status === 'OPTIMAL' && !bounded && variableKinds.every(k => k === 'continuous') &&
+        fitsDenseTableau(model.objCoeffs.length, model.constraints.length) && (
+        <ParametricPanel model={model} method={method} pivotRule={pivotRule} />
+      )}
+
+      <div className="flex flex-col items-center gap-4 pt-8">
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-slate-500">Descargar modelo:</span>
+          {(['LP', 'MPS'] as ModelFileFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => downloadModel(format)}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-lg border border-slate-200 bg-white text-slate-600 hover:text-blue-600 hover:border-blue-300 font-medium transition"
+            >
+              <Download className="w-3.5 h-3.5" />
+              .{format.toLowerCase()}
+            </button>
+          ))}
+          <button
+            onClick={() => downloadTextFile('solucion.tex', buildLatexDocument(model, result, visibleSteps, fractionsOn), 'application/x-tex')}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-lg border border-slate-200 bg-white text-slate-600 hover:text-blue-600 hover:border-blue-300 font-medium transition"
+          >
+            <FileText className="w-3.5 h-3.5" />
+            Exportar LaTeX
+          </button>
+          <button
+            onClick={() => downloadTextFile('reporte.html', buildHtmlReport(model, variableKinds, method, result, visibleSteps, fractionsOn), 'text/html')}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-lg border border-slate-200 bg-white text-slate-600 hover:text-blue-600 hover:border-blue-300 font-medium transition"
+          >
+            <Printer className="w-3.5 h-3.5" />
+            Reporte imprimible
+          </button>
+          <button
+            onClick={copyLink}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-lg border border-slate-200 bg-white text-slate-600 hover:text-blue-600 hover:border-blue-300 font-medium transition"
+          >
+            {linkCopied ? <Check className="w-3.5 h-3.5 text-green-600" /> : <Link2 className="w-3.5 h-3.5" />}
+            {linkCopied ? 'Enlace copiado' : 'Copiar enlace'}
+          </button>
+          {manualLink && (
+            <input
+              readOnly
+              autoFocus
+              value={manualLink}
+              onFocus={e => e.target.select()}
+              title="No se pudo copiar: copie el enlace a mano"
+              aria-label="Enlace del problema"
+              className="w-64 px-2 py-1.5 rounded-lg border border-yellow-300 bg-yellow-50 text-slate-700 font-mono"
+            />
+          )}
+        </div>
         <button 
           onClick={onReset}
           className="flex items-center gap-2 text-slate-500 hover:text-blue-600 font-medium transition"
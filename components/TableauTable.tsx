@@ -0,0 +1,55 @@
+import React from 'react';
+import { TableauStep } from '../types';
+import { formatCell } from './format';
+
+interface TableauTableProps {
+  step: TableauStep;
+  showFractions: boolean;
+}
+
+// A step's tableau with the entering column, pivot row and pivot cell highlighted.
+export const TableauTable: React.FC<TableauTableProps> = ({ step, showFractions }) => (
+  <table className="w-full text-sm border-collapse">
+    <thead>
+      <tr>
+        <th className="bg-slate-100 border border-slate-300 p-2 text-left font-semibold text-slate-700 w-20">Base</th>
+        {step.headers.slice(0, -1).map((h, i) => (
+          <th key={i} className={`bg-slate-100 border border-slate-300 p-2 font-semibold text-slate-700 ${h === step.enteringVar ? 'bg-green-100' : ''}`}>
+            {h}
+          </th>
+        ))}
+        <th className="bg-slate-100 border border-slate-300 p-2 font-semibold text-slate-700">LD</th>
+      </tr>
+    </thead>
+    <tbody>
+      {step.tableau.map((row, rIdx) => {
+        const isPivotRow = rIdx === step.pivotRow;
+        // The row a Gomory cut step has just appended
+        const isCutRow = step.cutIndex !== undefined && rIdx === step.tableau.length - 1;
+        return (
+          <tr key={rIdx} className={isPivotRow ? (step.dual ? 'bg-red-50' : 'bg-blue-50') : isCutRow ? 'bg-teal-50' : ''}>
+            <td className={`border border-slate-300 p-2 font-medium ${row.basicVar === step.leavingVar ? 'bg-red-50' : ''}`}>
+              {row.basicVar}
+            </td>
+            {row.coefficients.slice(0, -1).map((_: number, cIdx: number) => {
+              // Pivot column index matches matrix index, which matches coefficient index
+              const isPivotCell = isPivotRow && cIdx === (step.pivotCol !== undefined ? step.pivotCol : -1);
+
+              // Check if this column is the entering variable
+              const isEntering = step.headers[cIdx] === step.enteringVar;
+
+              return (
+                <td key={cIdx} className={`border border-slate-300 p-2 text-center ${isPivotCell ? 'bg-yellow-200 font-bold border-yellow-400' : ''} ${isEntering ? 'bg-green-50/30' : ''}`}>
+                  {formatCell(row, cIdx, showFractions)}
+                </td>
+              );
+            })}
+            <td className="border border-slate-300 p-2 text-center font-semibold bg-slate-50">
+              {formatCell(row, row.coefficients.length - 1, showFractions)}
+            </td>
+          </tr>
+        );
+      })}
+    </tbody>
+  </table>
+);
@@ -0,0 +1,172 @@
+import React from 'react';
+import { TransportInitialMethod, TransportationProblem } from '../types';
+import { MAX_GRID_SIZE, TRANSPORT_METHOD_LABELS } from '../constants';
+import { Truck, Calculator } from 'lucide-react';
+import { formatNumber } from './format';
+
+interface TransportationInputProps {
+  problem: TransportationProblem;
+  setProblem: (p: TransportationProblem) => void;
+  initialMethod: TransportInitialMethod;
+  setInitialMethod: (m: TransportInitialMethod) => void;
+  onSolve: () => void;
+}
+
+const cellInput = 'w-16 p-1.5 border border-slate-300 rounded text-center text-sm focus:ring-2 focus:ring-blue-500 outline-none';
+
+// Keeps the values already typed when the number of origins or destinations changes
+const resize = (p: TransportationProblem, origins: number, destinations: number): TransportationProblem => ({
+  costs: Array.from({ length: origins }, (_, i) => Array.from({ length: destinations }, (_, j) => p.costs[i]?.[j] ?? 0)),
+  supply: Array.from({ length: origins }, (_, i) => p.supply[i] ?? 0),
+  demand: Array.from({ length: destinations }, (_, j) => p.demand[j] ?? 0)
+});
+
+export const TransportationInput: React.FC<TransportationInputProps> = ({
+  problem, setProblem, initialMethod, setInitialMethod, onSolve
+}) => {
+  const { costs, supply, demand } = problem;
+  const totalSupply = supply.reduce((a, b) => a + b, 0);
+  const totalDemand = demand.reduce((a, b) => a + b, 0);
+  const clampSize = (value: string) => Math.min(MAX_GRID_SIZE, Math.max(1, parseInt(value) || 1));
+
+  const handleCostChange = (i: number, j: number, val: string) => {
+    const newCosts = costs.map(row => [...row]);
+    newCosts[i][j] = parseFloat(val) || 0;
+    setProblem({ ...problem, costs: newCosts });
+  };
+
+  const handleAmountChange = (field: 'supply' | 'demand', idx: number, val: string) => {
+    const values = [...problem[field]];
+    values[idx] = Math.max(0, parseFloat(val) || 0);
+    setProblem({ ...problem, [field]: values });
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+      <div className="flex items-center gap-2 mb-6 text-slate-800">
+        <Truck className="w-5 h-5 text-blue-600" />
+        <h2 className="text-lg font-semibold">Problema de Transporte</h2>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">Orígenes (oferta)</label>
+          <input
+            type="number"
+            min="1"
+            max={MAX_GRID_SIZE}
+            value={supply.length}
+            onChange={(e) => setProblem(resize(problem, clampSize(e.target.value), demand.length))}
+            className="w-full p-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none transition"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">Destinos (demanda)</label>
+          <input
+            type="number"
+            min="1"
+            max={MAX_GRID_SIZE}
+            value={demand.length}
+            onChange={(e) => setProblem(resize(problem, supply.length, clampSize(e.target.value)))}
+            className="w-full p-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none transition"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">Solución Inicial</label>
+          <select
+            value={initialMethod}
+            onChange={(e) => setInitialMethod(e.target.value as TransportInitialMethod)}
+            className="w-full p-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+          >
+            <option value="NORTHWEST_CORNER">{TRANSPORT_METHOD_LABELS.NORTHWEST_CORNER}</option>
+            <option value="LEAST_COST">{TRANSPORT_METHOD_LABELS.LEAST_COST}</option>
+            <option value="VOGEL">{TRANSPORT_METHOD_LABELS.VOGEL}</option>
+          </select>
+        </div>
+      </div>
+
+      <h3 className="text-sm font-medium text-slate-700 mt-8 mb-4">Costos Unitarios de Envío</h3>
+      <div className="overflow-x-auto">
+        <table className="text-sm border-collapse">
+          <thead>
+            <tr>
+              <th className="p-2"></th>
+              {demand.map((_, j) => (
+                <th key={j} className="p-2 font-semibold text-slate-600">D{j + 1}</th>
+              ))}
+              <th className="p-2 font-semibold text-slate-600">Oferta</th>
+            </tr>
+          </thead>
+          <tbody>
+            {costs.map((row, i) => (
+              <tr key={i}>
+                <td className="p-2 font-semibold text-slate-600">O{i + 1}</td>
+                {row.map((c, j) => (
+                  <td key={j} className="p-1">
+                    <input
+                      type="number"
+                      step="any"
+                      value={c || ''}
+                      placeholder="0"
+                      onChange={(e) => handleCostChange(i, j, e.target.value)}
+                      className={cellInput}
+                    />
+                  </td>
+                ))}
+                <td className="p-1 pl-4">
+                  <input
+                    type="number"
+                    step="any"
+                    min="0"
+                    value={supply[i] || ''}
+                    placeholder="0"
+                    onChange={(e) => handleAmountChange('supply', i, e.target.value)}
+                    className={`${cellInput} bg-blue-50`}
+                  />
+                </td>
+              </tr>
+            ))}
+            <tr>
+              <td className="p-2 pt-4 font-semibold text-slate-600">Demanda</td>
+              {demand.map((d, j) => (
+                <td key={j} className="p-1 pt-4">
+                  <input
+                    type="number"
+                    step="any"
+                    min="0"
+                    value={d || ''}
+                    placeholder="0"
+                    onChange={(e) => handleAmountChange('demand', j, e.target.value)}
+                    className={`${cellInput} bg-blue-50`}
+                  />
+                </td>
+              ))}
+              <td className="p-2 pt-4 pl-4 text-xs text-slate-500">
+                {formatNumber(totalSupply)} / {formatNumber(totalDemand)}
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-xs text-slate-500 mt-3">
+        {totalSupply === totalDemand
+          ? 'El problema está balanceado: la oferta total es igual a la demanda total.'
+          : totalSupply > totalDemand
+          ? `Sobran ${formatNumber(totalSupply - totalDemand)} unidades de oferta: se agregará un destino ficticio con costo 0.`
+          : `Faltan ${formatNumber(totalDemand - totalSupply)} unidades de oferta: se agregará un origen ficticio con costo 0.`}
+      </p>
+
+      <div className="mt-8 flex justify-end">
+        <button
+          onClick={onSolve}
+          disabled={totalSupply === 0 || totalDemand === 0}
+          className="flex items-center gap-2 bg-green-600 hover:bg-green-700 disabled:bg-slate-300 disabled:shadow-none disabled:cursor-not-allowed text-white px-8 py-2.5 rounded-lg font-medium transition shadow-sm shadow-green-200"
+        >
+          <Calculator className="w-4 h-4" />
+          Resolver
+        </button>
+      </div>
+    </div>
+  );
+};
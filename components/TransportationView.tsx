@@ -0,0 +1,207 @@
+import React from 'react';
+import { TransportCell, TransportIteration, TransportationResult } from '../types';
+import { TRANSPORT_METHOD_LABELS } from '../constants';
+import { CheckCircle, AlertTriangle, RefreshCw, Edit3 } from 'lucide-react';
+import { formatNumber } from './format';
+
+interface TransportationViewProps {
+  result: TransportationResult;
+  onEdit: () => void;
+  onReset: () => void;
+}
+
+const th = 'bg-slate-100 border border-slate-300 p-2 font-semibold text-slate-700';
+const td = 'border border-slate-300 p-2 text-center align-top';
+
+const sameCell = (a: TransportCell | undefined, row: number, col: number) => a?.row === row && a?.col === col;
+
+// Cost matrix with the allocation of a basic solution. With potentials, the u/v
+// margins and the reduced cost of every nonbasic cell are shown as well, and the
+// stepping-stone loop is marked with its +/− signs.
+const AllocationTable: React.FC<{
+  result: TransportationResult;
+  allocation: (number | null)[][];
+  iteration?: TransportIteration;
+}> = ({ result, allocation, iteration }) => {
+  const { costs, supply, demand } = result.problem;
+  const label = (kind: 'O' | 'D', idx: number, count: number) => {
+    const dummy = (kind === 'O' && result.dummy === 'ROW') || (kind === 'D' && result.dummy === 'COLUMN');
+    return dummy && idx === count - 1 ? `${kind}${idx + 1} (ficticio)` : `${kind}${idx + 1}`;
+  };
+  const loopSign = (row: number, col: number) => {
+    const idx = iteration?.loop?.findIndex(c => c.row === row && c.col === col) ?? -1;
+    return idx < 0 ? null : idx % 2 === 0 ? '+' : '−';
+  };
+
+  return (
+    <table className="text-sm border-collapse">
+      <thead>
+        <tr>
+          <th className={th}></th>
+          {demand.map((_, j) => <th key={j} className={th}>{label('D', j, demand.length)}</th>)}
+          <th className={th}>Oferta</th>
+          {iteration && <th className={`${th} bg-indigo-50`}>uᵢ</th>}
+        </tr>
+      </thead>
+      <tbody>
+        {costs.map((row, i) => (
+          <tr key={i}>
+            <td className={`${th} text-left`}>{label('O', i, supply.length)}</td>
+            {row.map((c, j) => {
+              const amount = allocation[i][j];
+              const reduced = iteration?.reducedCosts[i][j];
+              const sign = loopSign(i, j);
+              const highlight = sameCell(iteration?.entering, i, j)
+                ? 'bg-green-100'
+                : sameCell(iteration?.leaving, i, j)
+                ? 'bg-red-100'
+                : sign
+                ? 'bg-yellow-50'
+                : amount !== null
+                ? 'bg-blue-50'
+                : '';
+              return (
+                <td key={j} className={`${td} ${highlight} min-w-[4.5rem]`}>
+                  <div className="flex justify-between gap-2 text-xs text-slate-400">
+                    <span className="font-bold text-slate-700">{sign}</span>
+                    <span>{formatNumber(c)}</span>
+                  </div>
+                  {amount !== null ? (
+                    <div className="font-semibold text-slate-900">{formatNumber(amount)}</div>
+                  ) : reduced !== undefined && reduced !== null ? (
+                    <div className={`text-xs ${reduced < 0 ? 'text-red-600 font-semibold' : 'text-slate-400'}`}>
+                      ({formatNumber(reduced)})
+                    </div>
+                  ) : (
+                    <div className="text-slate-300">·</div>
+                  )}
+                </td>
+              );
+            })}
+            <td className={`${td} font-medium`}>{formatNumber(supply[i])}</td>
+            {iteration && <td className={`${td} bg-indigo-50 font-medium`}>{formatNumber(iteration.u[i])}</td>}
+          </tr>
+        ))}
+        <tr>
+          <td className={`${th} text-left`}>Demanda</td>
+          {demand.map((d, j) => <td key={j} className={`${td} font-medium`}>{formatNumber(d)}</td>)}
+          <td className={td}></td>
+          {iteration && <td className={td}></td>}
+        </tr>
+        {iteration && (
+          <tr>
+            <td className={`${th} text-left bg-indigo-50`}>vⱼ</td>
+            {iteration.v.map((v, j) => <td key={j} className={`${td} bg-indigo-50 font-medium`}>{formatNumber(v)}</td>)}
+            <td className={td}></td>
+            <td className={td}></td>
+          </tr>
+        )}
+      </tbody>
+    </table>
+  );
+};
+
+const penaltyText = (values: (number | null)[], prefix: string) =>
+  values.map((v, k) => (v === null ? null : `${prefix}${k + 1}: ${formatNumber(v)}`)).filter(Boolean).join(', ');
+
+export const TransportationView: React.FC<TransportationViewProps> = ({ result, onEdit, onReset }) => {
+  const initial = result.iterations[0];
+  const { costs } = result.problem;
+  const shipments = result.allocation.flatMap((row, i) => row.flatMap((x, j) => (x > 0 ? [{ i, j, x }] : [])));
+  const isDummy = (i: number, j: number) =>
+    (result.dummy === 'ROW' && i === costs.length - 1) || (result.dummy === 'COLUMN' && j === costs[0].length - 1);
+
+  return (
+    <div className="space-y-8 pb-20">
+      {/* Header Status */}
+      <div className={`p-6 rounded-xl border flex items-start gap-4 ${
+        result.status === 'OPTIMAL' ? 'bg-green-50 border-green-200 text-green-900' : 'bg-yellow-50 border-yellow-200 text-yellow-900'
+      }`}>
+        {result.status === 'OPTIMAL'
+          ? <CheckCircle className="w-6 h-6 shrink-0 text-green-600" />
+          : <AlertTriangle className="w-6 h-6 shrink-0 text-yellow-600" />}
+        <div>
+          <h2 className="text-lg font-bold mb-1">
+            {result.status === 'OPTIMAL' ? 'Solución Óptima Encontrada' : 'Límite de Iteraciones Alcanzado'}
+          </h2>
+          <p className="text-sm opacity-90">
+            Costo total {result.status === 'OPTIMAL' ? 'mínimo' : 'actual'} = {formatNumber(result.totalCost)}.
+            {result.dummy === 'COLUMN' && ' La oferta superaba a la demanda: se agregó un destino ficticio con costo 0.'}
+            {result.dummy === 'ROW' && ' La demanda superaba a la oferta: se agregó un origen ficticio con costo 0.'}
+          </p>
+        </div>
+      </div>
+
+      {/* Initial solution */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="bg-slate-50 px-6 py-3 border-b border-slate-200">
+          <h3 className="font-semibold text-slate-800">Solución Inicial: {TRANSPORT_METHOD_LABELS[result.initialMethod]}</h3>
+          <p className="text-xs text-slate-500 mt-0.5">
+            Costo inicial {formatNumber(initial.cost)}, con {costs.length + costs[0].length - 1} celdas básicas (m + n − 1).
+          </p>
+        </div>
+        <ol className="px-6 py-4 space-y-2 text-sm text-slate-700 list-decimal list-inside">
+          {result.initialSteps.map((step, k) => (
+            <li key={k}>
+              {step.description}
+              {step.rowPenalties && step.colPenalties && (
+                <span className="block ml-5 text-xs text-slate-500">
+                  Penalizaciones: {[penaltyText(step.rowPenalties, 'O'), penaltyText(step.colPenalties, 'D')].filter(Boolean).join('; ') || '—'}
+                </span>
+              )}
+            </li>
+          ))}
+        </ol>
+        <div className="overflow-x-auto px-4 pb-4">
+          <AllocationTable result={result} allocation={initial.allocation} />
+        </div>
+      </div>
+
+      {/* MODI iterations */}
+      {result.iterations.map((iteration, k) => (
+        <div key={k} className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="bg-slate-50 px-6 py-3 border-b border-slate-200">
+            <h3 className="font-semibold text-slate-800">Iteración {k + 1} (MODI)</h3>
+            <p className="text-xs text-slate-500 mt-0.5">{iteration.description}</p>
+          </div>
+          <div className="overflow-x-auto p-4">
+            <AllocationTable result={result} allocation={iteration.allocation} iteration={iteration} />
+          </div>
+          <p className="px-6 pb-4 text-xs text-slate-500">
+            uᵢ + vⱼ = cᵢⱼ en las celdas básicas (u₁ = 0); entre paréntesis, el costo reducido cᵢⱼ − uᵢ − vⱼ de cada celda no básica.
+            {iteration.loop && ' En amarillo, el circuito de salto de piedra (stepping-stone): la celda verde entra y la roja sale.'}
+          </p>
+        </div>
+      ))}
+
+      {/* Final shipments */}
+      <div className="bg-blue-900 text-white rounded-xl p-6 shadow-lg">
+        <h3 className="text-xl font-bold mb-4">Plan de Envíos</h3>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {shipments.map(({ i, j, x }) => (
+            <div key={`${i}-${j}`} className="bg-blue-800/50 p-3 rounded-lg border border-blue-700 text-sm">
+              <span className="font-semibold">O{i + 1} → D{j + 1}</span>: {formatNumber(x)} unidades × {formatNumber(costs[i][j])} = {formatNumber(x * costs[i][j])}
+              {isDummy(i, j) && <span className="text-blue-200"> ({result.dummy === 'COLUMN' ? 'oferta sin enviar' : 'demanda sin cubrir'})</span>}
+            </div>
+          ))}
+        </div>
+        {result.alternativeOptima && (
+          <p className="text-sm text-blue-200 mt-4">
+            Alguna celda no básica tiene costo reducido 0 en la tabla óptima: hay otros planes con el mismo costo total.
+          </p>
+        )}
+      </div>
+
+      <div className="flex flex-col items-center gap-4 pt-8">
+        <button onClick={onEdit} className="flex items-center gap-2 text-slate-500 hover:text-blue-600 font-medium transition">
+          <Edit3 className="w-4 h-4" />
+          Editar datos
+        </button>
+        <button onClick={onReset} className="flex items-center gap-2 text-slate-500 hover:text-blue-600 font-medium transition">
+          <RefreshCw className="w-4 h-4" />
+          Resolver otro problema
+        </button>
+      </div>
+    </div>
+  );
+};
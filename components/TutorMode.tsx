@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { PivotRule, TableauStep } from '../types';
+import { GraduationCap, RotateCcw, CheckCircle, XCircle } from 'lucide-react';
+import { formatCell } from './format';
+import { TutorState, chooseColumn, chooseRow, startTutor } from '../services/tutor';
+
+interface TutorModeProps {
+  initialStep: TableauStep;
+  pivotRule: PivotRule;
+  showFractions: boolean;
+  onExit: () => void;
+}
+
+export const TutorMode: React.FC<TutorModeProps> = ({ initialStep, pivotRule, showFractions, onExit }) => {
+  const [state, setState] = useState<TutorState>(() => startTutor(initialStep, pivotRule));
+  const step = state.steps[state.steps.length - 1];
+  const done = state.steps.slice(0, -1);
+  const picking = state.status !== 'PLAYING' ? null : state.enteringCol === null ? 'COLUMN' : 'ROW';
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-indigo-200 overflow-hidden">
+      <div className="bg-indigo-50 px-6 py-3 border-b border-indigo-200 flex flex-wrap items-center gap-3">
+        <GraduationCap className="w-5 h-5 text-indigo-600" />
+        <div>
+          <h3 className="font-semibold text-slate-800">Modo Tutor</h3>
+          <p className="text-xs text-slate-500">Usted elige el pivote; el solver revisa cada decisión.</p>
+        </div>
+        <div className="ml-auto flex items-center gap-3 text-xs font-medium">
+          <span className="text-green-700">Aciertos: {state.correct}</span>
+          <span className="text-red-600">Errores: {state.mistakes}</span>
+          <button
+            onClick={() => setState(startTutor(initialStep, pivotRule))}
+            className="flex items-center gap-1 px-2 py-1 rounded border border-slate-200 bg-white text-slate-600 hover:text-indigo-600"
+          >
+            <RotateCcw className="w-3.5 h-3.5" />
+            Reiniciar
+          </button>
+          <button onClick={onExit} className="px-2 py-1 rounded border border-slate-200 bg-white text-slate-600 hover:text-indigo-600">
+            Ver solución del solver
+          </button>
+        </div>
+      </div>
+
+      {done.length > 0 && (
+        <div className="px-6 py-3 border-b border-slate-200 space-y-1">
+          {done.map(s => (
+            <p key={s.stepIndex} className="text-xs text-slate-600">
+              <span className="font-medium">{s.description}</span>{' '}
+              <span className="font-mono text-slate-500">{s.rowOperations?.map(op => op.text).join('; ')}</span>
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="px-6 pt-4 text-sm font-medium text-slate-700">
+        {picking === 'COLUMN' && '1. Haga clic en el encabezado de la variable que entra.'}
+        {picking === 'ROW' && `2. Entra ${step.headers[state.enteringCol!]}: haga clic en la fila de la variable que sale.`}
+        {state.status === 'OPTIMAL' && (step.isPhase1 ? 'Fase 1 terminada.' : 'Tableau óptimo alcanzado.')}
+        {state.status === 'UNBOUNDED' && 'Problema no acotado.'}
+      </div>
+
+      <div className="overflow-x-auto p-4">
+        <table className="w-full text-sm border-collapse">
+          <thead>
+            <tr>
+              <th className="bg-slate-100 border border-slate-300 p-2 text-left font-semibold text-slate-700 w-20">Base</th>
+              {step.headers.slice(0, -1).map((h, i) => (
+                <th
+                  key={i}
+                  onClick={picking === 'COLUMN' && i > 0 ? () => setState(chooseColumn(state, i, pivotRule)) : undefined}
+                  className={`border border-slate-300 p-2 font-semibold text-slate-700 ${
+                    i === state.enteringCol ? 'bg-green-100' : 'bg-slate-100'
+                  } ${picking === 'COLUMN' && i > 0 ? 'cursor-pointer hover:bg-indigo-100' : ''}`}
+                >
+                  {h}
+                </th>
+              ))}
+              <th className="bg-slate-100 border border-slate-300 p-2 font-semibold text-slate-700">LD</th>
+            </tr>
+          </thead>
+          <tbody>
+            {step.tableau.map((row, rIdx) => (
+              <tr
+                key={rIdx}
+                onClick={picking === 'ROW' && rIdx > 0 ? () => setState(chooseRow(state, rIdx, pivotRule)) : undefined}
+                className={picking === 'ROW' && rIdx > 0 ? 'cursor-pointer hover:bg-indigo-50' : ''}
+              >
+                <td className="border border-slate-300 p-2 font-medium">{row.basicVar}</td>
+                {row.coefficients.slice(0, -1).map((_, cIdx) => (
+                  <td key={cIdx} className={`border border-slate-300 p-2 text-center ${cIdx === state.enteringCol ? 'bg-green-50' : ''}`}>
+                    {formatCell(row, cIdx, showFractions)}
+                  </td>
+                ))}
+                <td className="border border-slate-300 p-2 text-center font-semibold bg-slate-50">
+                  {formatCell(row, row.coefficients.length - 1, showFractions)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {state.feedback && (
+        <div className={`mx-4 mb-4 p-3 rounded-lg border flex items-start gap-2 text-sm ${
+          state.feedback.valid ? 'bg-green-50 border-green-200 text-green-900' : 'bg-red-50 border-red-200 text-red-900'
+        }`}>
+          {state.feedback.valid
+            ? <CheckCircle className="w-4 h-4 shrink-0 mt-0.5 text-green-600" />
+            : <XCircle className="w-4 h-4 shrink-0 mt-0.5 text-red-600" />}
+          {state.feedback.message}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,9 @@
+// Offers generated text (model files, reports) as a browser download.
+export const downloadTextFile = (fileName: string, content: string, mimeType = 'text/plain') => {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,49 @@
+import { FractionValue, Relation, TableauRow } from '../types';
+
+export const formatNumber = (num: number) => {
+  if (Math.abs(num) < 1e-9) return "0";
+  if (Number.isInteger(num)) return num.toString();
+  return num.toFixed(2).replace(/\.00$/, '');
+};
+
+export const formatFraction = (f: FractionValue) => f.den === '1' ? f.num : `${f.num}/${f.den}`;
+
+// Prefers the exact fraction when the solver produced one and the user asked for it.
+export const formatValue = (num: number, fraction: FractionValue | undefined, showFractions: boolean) =>
+  showFractions && fraction ? formatFraction(fraction) : formatNumber(num);
+
+// Symbolic Big M entry in textbook form: "3M − 2", "−M + 4", "(1/2)M".
+export const formatLinearM = (mText: string, constText: string) => {
+  const negative = mText.startsWith('-');
+  const abs = negative ? mText.slice(1) : mText;
+  const coef = abs === '1' ? '' : abs.includes('/') ? `(${abs})` : abs;
+  let text = `${negative ? '−' : ''}${coef}M`;
+  if (constText !== '0') text += constText.startsWith('-') ? ` − ${constText.slice(1)}` : ` + ${constText}`;
+  return text;
+};
+
+export const formatCell = (row: TableauRow, idx: number, showFractions: boolean) => {
+  const constText = formatValue(row.coefficients[idx], row.fractions?.[idx], showFractions);
+  const m = row.mCoefficients?.[idx];
+  if (m === undefined || Math.abs(m) < 1e-9) return constText;
+  return formatLinearM(formatValue(m, row.mFractions?.[idx], showFractions), constText);
+};
+
+// Ranging limits: Infinity means the value can move freely.
+export const formatLimit = (num: number) => Number.isFinite(num) ? formatNumber(num) : '∞';
+
+export const RELATION_SYMBOLS: Record<Relation, string> = { '<=': '≤', '>=': '≥', '=': '=' };
+
+// "3x1 − x2 + 0.5x3"; zero terms are skipped and a unit coefficient is implicit.
+export const formatLinearExpression = (coeffs: number[], names: string[]) => {
+  const terms = coeffs
+    .map((c, i) => ({ c, name: names[i] }))
+    .filter(t => Math.abs(t.c) > 1e-9);
+  if (terms.length === 0) return '0';
+  return terms.map((t, k) => {
+    const abs = Math.abs(t.c);
+    const body = `${abs === 1 ? '' : formatNumber(abs)}${t.name}`;
+    if (k === 0) return t.c < 0 ? `−${body}` : body;
+    return t.c < 0 ? ` − ${body}` : ` + ${body}`;
+  }).join('');
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { buildHtmlReport } from './htmlReport';
+import { solveLinearProgram } from '../services/solver';
+import { row, wyndor } from '../services/fixtures';
+
+describe('HTML report', () => {
+  const model = { type: 'MAX' as const, ...wyndor };
+  const result = solveLinearProgram('SIMPLEX', 'MAX', model.objCoeffs, model.constraints);
+  const html = buildHtmlReport(model, ['continuous', 'continuous'], 'SIMPLEX', result);
+
+  it('is a standalone page with the method and the outcome', () => {
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('Método Simplex Estándar');
+    expect(html).toContain('Solución Óptima Encontrada');
+    expect(html).not.toMatch(/<link|<script|src=/);
+  });
+
+  it('highlights the pivot of every pivot step', () => {
+    const pivots = result.steps.filter(s => s.pivotRow !== undefined && s.pivotCol !== undefined).length;
+    expect(html.match(/class="pivot"/g)).toHaveLength(pivots);
+  });
+
+  it('escapes variable names', () => {
+    const named = { type: 'MAX' as const, objCoeffs: [1], constraints: [row([1], '<=', 2)], variableNames: ['a<b'] };
+    const report = buildHtmlReport(named, ['continuous'], 'SIMPLEX', solveLinearProgram('SIMPLEX', 'MAX', [1], named.constraints));
+    expect(report).toContain('a&lt;b');
+    expect(report).not.toContain('a<b');
+  });
+});
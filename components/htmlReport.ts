@@ -0,0 +1,219 @@
+import { LinearModel, SolveResult, SolverMethod, TableauStep, VariableKind } from '../types';
+import { METHOD_LABELS } from '../constants';
+import { RELATION_SYMBOLS, formatCell, formatLinearExpression, formatValue } from './format';
+import { defaultVariableNames } from '../services/modelParser';
+import { describeBound, isDefaultBound } from '../services/bounds';
+
+// Standalone HTML report meant to be printed (or saved as PDF from the print
+// dialog): problem statement, method, an iteration summary, every tableau with
+// the same highlighting as the screen and the final result. Styles are inlined
+// so the file opens anywhere without the app.
+
+const STATUS_TITLES: Record<SolveResult['status'], string> = {
+  OPTIMAL: 'Solución Óptima Encontrada',
+  INFEASIBLE: 'Problema Infactible',
+  UNBOUNDED: 'Solución No Acotada',
+  ITERATION_LIMIT: 'Límite de Iteraciones Alcanzado',
+  CYCLING: 'Ciclado Detectado',
+  ERROR: 'Error de Cálculo'
+};
+
+const STATUS_EXPLANATIONS: Record<SolveResult['status'], string> = {
+  OPTIMAL: 'Ningún coeficiente de la fila Z puede mejorar el objetivo, así que la solución básica del último tableau es óptima.',
+  INFEASIBLE: 'No existe ningún punto que cumpla todas las restricciones a la vez.',
+  UNBOUNDED: 'La columna de la variable entrante no tiene coeficientes positivos: la variable puede crecer sin límite y el objetivo mejora indefinidamente.',
+  ITERATION_LIMIT: 'Se alcanzó el número máximo de iteraciones antes de llegar al óptimo.',
+  CYCLING: 'Se repitió una base ya visitada, por lo que el método ciclaría indefinidamente. Las reglas de Bland o lexicográfica lo evitan.',
+  ERROR: 'Ocurrió un error durante el cálculo.'
+};
+
+const STYLES = `
+  body { font-family: system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; color: #1e293b; margin: 2rem auto; max-width: 960px; padding: 0 1rem; }
+  h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+  h2 { font-size: 1.15rem; border-bottom: 2px solid #cbd5e1; padding-bottom: 0.25rem; margin-top: 2rem; }
+  h3 { font-size: 1rem; margin: 1.25rem 0 0.25rem; }
+  .meta { color: #64748b; font-size: 0.85rem; margin: 0; }
+  .model { font-family: ui-monospace, Menlo, Consolas, monospace; background: #f8fafc; border: 1px solid #e2e8f0; border-radius: 6px; padding: 0.75rem 1rem; line-height: 1.6; }
+  .model .indent { padding-left: 1.5rem; }
+  table { border-collapse: collapse; margin: 0.5rem 0; font-size: 0.85rem; }
+  th, td { border: 1px solid #cbd5e1; padding: 0.3rem 0.6rem; text-align: center; }
+  th { background: #f1f5f9; }
+  td.base { text-align: left; font-weight: 600; }
+  td.rhs { background: #f8fafc; font-weight: 600; }
+  td.desc { text-align: left; }
+  th.entering { background: #dcfce7; }
+  tr.pivot-row { background: #eff6ff; }
+  tr.pivot-row.dual { background: #fef2f2; }
+  tr.cut-row { background: #f0fdfa; }
+  td.leaving { background: #fee2e2; }
+  td.pivot { background: #fef08a; font-weight: 700; }
+  .badge { display: inline-block; font-size: 0.75rem; font-weight: 700; padding: 0.1rem 0.4rem; border-radius: 4px; margin-left: 0.5rem; background: #e2e8f0; }
+  .step { break-inside: avoid; }
+  .step p { margin: 0.15rem 0; font-size: 0.85rem; }
+  .status { border: 1px solid; border-radius: 8px; padding: 0.75rem 1rem; }
+  .status.ok { background: #f0fdf4; border-color: #bbf7d0; }
+  .status.fail { background: #fef2f2; border-color: #fecaca; }
+  .status.warn { background: #fefce8; border-color: #fef08a; }
+  .print-button { float: right; padding: 0.4rem 0.9rem; border: 1px solid #cbd5e1; border-radius: 6px; background: #fff; cursor: pointer; }
+  @media print {
+    body { margin: 0; max-width: none; }
+    * { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+    .print-button { display: none; }
+    .phase-break { break-before: page; }
+    h2, h3 { break-after: avoid; }
+  }
+`;
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch]!));
+
+// Steps of different phases are printed on separate pages
+const phaseOf = (step: TableauStep) => (step.isPhase1 ? 'Fase 1' : step.phase === 2 ? 'Fase 2' : '');
+
+const stepBadges = (step: TableauStep) => [
+  phaseOf(step),
+  step.dual ? 'Simplex Dual' : '',
+  step.cutIndex ? `Corte de Gomory ${step.cutIndex}` : ''
+].filter(Boolean).map(label => `<span class="badge">${label}</span>`).join('');
+
+const problemStatement = (model: LinearModel, variableKinds: VariableKind[]) => {
+  const names = model.variableNames ?? defaultVariableNames(model.objCoeffs.length);
+  const conditions = [
+    ...model.constraints.map(c => `${formatLinearExpression(c.coefficients, names)} ${RELATION_SYMBOLS[c.relation]} ${c.rhs}`),
+  ];
+  const bounds = model.variableBounds ?? [];
+  const nonNegative = names.filter((_, j) => isDefaultBound(bounds[j]));
+  if (nonNegative.length > 0) conditions.push(`${nonNegative.join(', ')} ≥ 0`);
+  names.forEach((name, j) => {
+    if (!isDefaultBound(bounds[j])) conditions.push(describeBound(bounds[j], name));
+  });
+  const integers = names.filter((_, j) => variableKinds[j] === 'integer');
+  const binaries = names.filter((_, j) => variableKinds[j] === 'binary');
+  if (integers.length > 0) conditions.push(`${integers.join(', ')} enteras`);
+  if (binaries.length > 0) conditions.push(`${binaries.join(', ')} binarias`);
+  return `<div class="model">
+    ${escapeHtml(`${model.type === 'MAX' ? 'Max' : 'Min'} Z = ${formatLinearExpression(model.objCoeffs, names)}`)}<br>
+    sujeto a:
+    ${conditions.map(line => `<div class="indent">${escapeHtml(line)}</div>`).join('')}
+  </div>`;
+};
+
+const summaryTable = (steps: TableauStep[], useFractions: boolean) => {
+  const rows = steps.map(step => {
+    const zRow = step.tableau[0];
+    return `<tr>
+      <td>${step.stepIndex}</td>
+      <td>${phaseOf(step) || '—'}</td>
+      <td>${escapeHtml(step.enteringVar ?? '—')}</td>
+      <td>${escapeHtml(step.leavingVar ?? '—')}</td>
+      <td>${zRow ? escapeHtml(formatCell(zRow, zRow.coefficients.length - 1, useFractions)) : '—'}</td>
+      <td class="desc">${escapeHtml(step.description)}</td>
+    </tr>`;
+  });
+  return `<table>
+    <thead><tr><th>Paso</th><th>Fase</th><th>Entra</th><th>Sale</th><th>LD fila 0</th><th>Descripción</th></tr></thead>
+    <tbody>${rows.join('')}</tbody>
+  </table>`;
+};
+
+const tableauTable = (step: TableauStep, useFractions: boolean) => {
+  const columns = step.headers.slice(0, -1);
+  const head = columns
+    .map(h => `<th${h === step.enteringVar ? ' class="entering"' : ''}>${escapeHtml(h)}</th>`)
+    .join('');
+  const body = step.tableau.map((row, rIdx) => {
+    const isPivotRow = rIdx === step.pivotRow;
+    // The row a Gomory cut step has just appended
+    const isCutRow = step.cutIndex !== undefined && rIdx === step.tableau.length - 1;
+    const rowClass = isPivotRow ? `pivot-row${step.dual ? ' dual' : ''}` : isCutRow ? 'cut-row' : '';
+    const cells = columns.map((_, cIdx) => {
+      const isPivotCell = isPivotRow && cIdx === step.pivotCol;
+      return `<td${isPivotCell ? ' class="pivot"' : ''}>${escapeHtml(formatCell(row, cIdx, useFractions))}</td>`;
+    }).join('');
+    return `<tr${rowClass ? ` class="${rowClass}"` : ''}>
+      <td class="base${row.basicVar === step.leavingVar ? ' leaving' : ''}">${escapeHtml(row.basicVar)}</td>
+      ${cells}
+      <td class="rhs">${escapeHtml(formatCell(row, row.coefficients.length - 1, useFractions))}</td>
+    </tr>`;
+  });
+  return `<table>
+    <thead><tr><th>Base</th>${head}<th>LD</th></tr></thead>
+    <tbody>${body.join('')}</tbody>
+  </table>`;
+};
+
+const stepSection = (step: TableauStep, pageBreak: boolean, useFractions: boolean) => {
+  const order = step.enteringVar && step.leavingVar
+    ? step.dual
+      ? `<p>1. Sale <strong>${escapeHtml(step.leavingVar)}</strong> → 2. Entra <strong>${escapeHtml(step.enteringVar)}</strong></p>`
+      : `<p>1. Entra <strong>${escapeHtml(step.enteringVar)}</strong> → 2. Sale <strong>${escapeHtml(step.leavingVar)}</strong></p>`
+    : '';
+  return `<section class="step${pageBreak ? ' phase-break' : ''}">
+    <h3>Paso ${step.stepIndex}${stepBadges(step)}</h3>
+    <p>${escapeHtml(step.description)}</p>
+    ${order}
+    ${tableauTable(step, useFractions)}
+  </section>`;
+};
+
+const resultSection = (model: LinearModel, result: SolveResult, useFractions: boolean) => {
+  const tone = result.status === 'OPTIMAL' ? 'ok' : result.status === 'INFEASIBLE' || result.status === 'ERROR' ? 'fail' : 'warn';
+  const parts = [
+    `<div class="status ${tone}">
+      <strong>${STATUS_TITLES[result.status]}</strong>
+      <p>${escapeHtml(STATUS_EXPLANATIONS[result.status])}</p>
+      ${result.errorMessage ? `<p>${escapeHtml(result.errorMessage)}</p>` : ''}
+    </div>`
+  ];
+  if (result.status === 'OPTIMAL') {
+    const rows = model.objCoeffs.map((_, j) => {
+      const key = `x${j + 1}`;
+      const name = model.variableNames?.[j];
+      const label = name && name !== key ? `${key} (${name})` : key;
+      return `<tr><td class="base">${escapeHtml(label)}</td><td>${escapeHtml(formatValue(result.finalValues[key] ?? 0, result.exactValues?.[key], useFractions))}</td></tr>`;
+    });
+    rows.push(`<tr><td class="base">Z</td><td class="rhs">${escapeHtml(formatValue(result.zValue, result.exactZValue, useFractions))}</td></tr>`);
+    parts.push(`<table><thead><tr><th>Variable</th><th>Valor</th></tr></thead><tbody>${rows.join('')}</tbody></table>`);
+  }
+  return parts.join('\n');
+};
+
+export const buildHtmlReport = (
+  model: LinearModel,
+  variableKinds: VariableKind[],
+  method: SolverMethod,
+  result: SolveResult,
+  steps: TableauStep[] = result.steps,
+  useFractions = false
+) => {
+  const sections = steps.map((step, idx) =>
+    stepSection(step, idx > 0 && phaseOf(step) !== phaseOf(steps[idx - 1]), useFractions)
+  );
+
+  return `<!DOCTYPE html>
+<html lang="es">
+<head>
+<meta charset="utf-8">
+<title>Reporte de solución — ${METHOD_LABELS[method]}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<button class="print-button" onclick="window.print()">Imprimir</button>
+<h1>Reporte de solución</h1>
+<p class="meta">${METHOD_LABELS[method]} · ${escapeHtml(new Date().toLocaleString('es'))}</p>
+
+<h2>Planteamiento</h2>
+${problemStatement(model, variableKinds)}
+
+<h2>Resumen de iteraciones</h2>
+${summaryTable(steps, useFractions)}
+
+<h2 class="phase-break">Iteraciones</h2>
+${sections.join('\n')}
+
+<h2>Resultado</h2>
+${resultSection(model, result, useFractions)}
+</body>
+</html>
+`;
+};
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { buildLatexDocument, escapeLatex } from './latexExport';
+import { solveLinearProgram } from '../services/solver';
+import { row, wyndor } from '../services/fixtures';
+
+describe('LaTeX export', () => {
+  it('escapes special characters and math symbols', () => {
+    expect(escapeLatex('50% & x_1 ≤ 4')).toBe('50\\% \\& x\\_1 $\\leq$ 4');
+  });
+
+  it('writes one section per tableau with the pivot boxed', () => {
+    const model = { type: 'MAX' as const, ...wyndor };
+    const result = solveLinearProgram('SIMPLEX', 'MAX', model.objCoeffs, model.constraints);
+    const doc = buildLatexDocument(model, result);
+    expect(doc.startsWith('\\documentclass')).toBe(true);
+    expect(doc.trimEnd().endsWith('\\end{document}')).toBe(true);
+    expect(doc.match(/\\subsection\*\{Paso \d+\}/g)).toHaveLength(result.steps.length);
+    expect(doc.match(/\\boxed\{/g)).toHaveLength(result.steps.filter(s => s.pivotRow !== undefined).length);
+    expect(doc.match(/\\begin\{tabular\}/g)?.length).toBe(doc.match(/\\end\{tabular\}/g)?.length);
+  });
+
+  it('prints exact values as fractions', () => {
+    const model = { type: 'MAX' as const, objCoeffs: [1, 1], constraints: [row([3, 1], '<=', 1, 0), row([1, 3], '<=', 1, 1)] };
+    const result = solveLinearProgram('SIMPLEX', 'MAX', model.objCoeffs, model.constraints, { exact: true });
+    expect(buildLatexDocument(model, result, result.steps, true)).toContain('\\frac{1}{4}');
+  });
+});
@@ -0,0 +1,277 @@
+import { FractionValue, LinearModel, SolveResult, TableauRow, TableauStep } from '../types';
+import { formatNumber } from './format';
+
+// Complete LaTeX document with the model in standard form, every tableau
+// (pivot boxed, entering column and leaving row marked), the row operations
+// between tableaux, the final result and the sensitivity report.
+
+const UNICODE_TO_LATEX: Record<string, string> = {
+  '≤': '$\\leq$', '≥': '$\\geq$', '−': '-', '→': '$\\rightarrow$', '←': '$\\leftarrow$',
+  '·': '$\\cdot$', '∞': '$\\infty$', '…': '\\ldots{}', '×': '$\\times$'
+};
+
+export const escapeLatex = (text: string) =>
+  text
+    .replace(/[\\{}$&#^_%~]/g, ch => ({
+      '\\': '\\textbackslash{}', '{': '\\{', '}': '\\}', '$': '\\$', '&': '\\&',
+      '#': '\\#', '^': '\\textasciicircum{}', '_': '\\_', '%': '\\%', '~': '\\textasciitilde{}'
+    }[ch]!))
+    .replace(/[≤≥−→←·∞…×]/g, ch => UNICODE_TO_LATEX[ch]);
+
+// "x12" -> "x_{12}", other names as upright text
+const latexVariable = (name: string) => {
+  // x1⁺, x1⁻, x1' come from free or bounded variables (see services/bounds)
+  const match = /^([A-Za-z])(\d+)([⁺⁻']?)$/.exec(name);
+  if (match) return `${match[1]}_{${match[2]}}${{ '⁺': '^{+}', '⁻': '^{-}', "'": "'", '': '' }[match[3]]}`;
+  return name.length === 1 ? name : `\\text{${escapeLatex(name)}}`;
+};
+
+const latexFraction = (f: FractionValue) => {
+  const negative = f.num.startsWith('-');
+  const num = negative ? f.num.slice(1) : f.num;
+  const body = f.den === '1' ? num : `\\frac{${num}}{${f.den}}`;
+  return negative ? `-${body}` : body;
+};
+
+const latexNumber = (num: number, fraction: FractionValue | undefined, useFractions: boolean) =>
+  useFractions && fraction ? latexFraction(fraction) : formatNumber(num);
+
+// Same cases as formatCell: plain value or symbolic "aM + b"
+const latexCell = (row: TableauRow, idx: number, useFractions: boolean) => {
+  const constant = latexNumber(row.coefficients[idx], row.fractions?.[idx], useFractions);
+  const m = row.mCoefficients?.[idx];
+  if (m === undefined || Math.abs(m) < 1e-9) return constant;
+  const mText = latexNumber(m, row.mFractions?.[idx], useFractions);
+  const negative = mText.startsWith('-');
+  const abs = negative ? mText.slice(1) : mText;
+  let text = `${negative ? '-' : ''}${abs === '1' ? '' : abs}M`;
+  if (constant !== '0') text += constant.startsWith('-') ? ` - ${constant.slice(1)}` : ` + ${constant}`;
+  return text;
+};
+
+const isZeroCell = (row: TableauRow, idx: number) =>
+  Math.abs(row.coefficients[idx]) < 1e-9 && Math.abs(row.mCoefficients?.[idx] ?? 0) < 1e-9;
+
+// Signed linear combination "3x_{1} - x_{2} + \frac{1}{2}s_{1}"
+const latexCombination = (terms: { value: string; name: string }[]) => {
+  const parts = terms
+    .filter(t => t.value !== '0')
+    .map((t, k) => {
+      const negative = t.value.startsWith('-');
+      const abs = negative ? t.value.slice(1) : t.value;
+      const coef = abs === '1' ? '' : /[+-]/.test(abs) ? `(${abs})` : abs;
+      const body = `${coef}${t.name}`;
+      if (k === 0) return negative ? `-${body}` : body;
+      return negative ? ` - ${body}` : ` + ${body}`;
+    });
+  return parts.length > 0 ? parts.join('') : '0';
+};
+
+const standardForm = (model: LinearModel, steps: TableauStep[], useFractions: boolean) => {
+  const first = steps[0];
+  const headers = first.headers;
+  const varCols = headers.map((h, i) => ({ h, i })).filter(({ i }) => i > 0 && i < headers.length - 1);
+  const artificials = varCols.filter(({ h }) => h.startsWith('a'));
+  const isBigM = steps.some(s => s.tableau.some(r => r.mCoefficients));
+  const isTwoPhase = steps.some(s => s.isPhase1);
+  const sense = model.type === 'MAX' ? '\\max' : '\\min';
+
+  const objTerms = model.objCoeffs.map((c, j) => ({ value: formatNumber(c), name: latexVariable(`x${j + 1}`) }));
+  let objective = latexCombination(objTerms);
+  if (isBigM && artificials.length > 0) {
+    // Penalize artificials against the direction of optimization
+    const penalty = artificials.map(({ h }) => latexVariable(h)).join(' + ');
+    objective += ` ${model.type === 'MAX' ? '-' : '+'} M(${penalty})`;
+  }
+
+  const rows = first.tableau.slice(1).map(row => {
+    const lhs = latexCombination(varCols.map(({ h, i }) => ({ value: latexCell(row, i, useFractions), name: latexVariable(h) })));
+    return `${lhs} &= ${latexCell(row, headers.length - 1, useFractions)}`;
+  });
+
+  const lines = [
+    '\\section*{Modelo en forma estándar}',
+    '\\begin{align*}',
+    `${sense}\\ Z &= ${objective} \\\\`,
+    '\\text{s.a.}\\quad',
+    rows.join(' \\\\\n'),
+    '\\end{align*}',
+    `con ${varCols.map(({ h }) => `$${latexVariable(h)}$`).join(', ')} $\\geq 0$.`
+  ];
+  if (varCols.some(({ h }) => /^[sea]\d+$/.test(h))) {
+    lines.push('', 'Las variables $s_i$ (holgura), $e_i$ (exceso) y $a_i$ (artificiales) fueron agregadas por el método.');
+  }
+  if (isTwoPhase && artificials.length > 0) {
+    lines.push('', `Fase 1: $\\min W = ${artificials.map(({ h }) => latexVariable(h)).join(' + ')}$.`);
+  }
+  const names = model.variableNames;
+  const renamed = (names ?? []).map((n, i) => ({ n, i })).filter(({ n, i }) => n !== `x${i + 1}`);
+  if (renamed.length > 0) {
+    lines.push('', `Donde ${renamed.map(({ n, i }) => `$x_{${i + 1}}$ = ${escapeLatex(n)}`).join(', ')}.`);
+  }
+  return lines.join('\n');
+};
+
+const tableauTable = (step: TableauStep, useFractions: boolean) => {
+  const rhsIdx = step.headers.length - 1;
+  const columns = step.headers.slice(0, -1);
+  const hasLeaving = step.leavingVar !== undefined && step.pivotRow !== undefined;
+  const header = [
+    'Base',
+    ...columns.map(h => `$${latexVariable(h)}${h === step.enteringVar ? '\\downarrow' : ''}$`),
+    'LD',
+    ...(hasLeaving ? [''] : [])
+  ];
+  const body = step.tableau.map((row, r) => {
+    const cells = [
+      `$${latexVariable(row.basicVar)}$`,
+      ...columns.map((_, c) => {
+        const value = latexCell(row, c, useFractions);
+        return r === step.pivotRow && c === step.pivotCol ? `$\\boxed{${value}}$` : `$${value}$`;
+      }),
+      `$${latexCell(row, rhsIdx, useFractions)}$`,
+      ...(hasLeaving ? [r === step.pivotRow ? '$\\leftarrow$' : ''] : [])
+    ];
+    return cells.join(' & ');
+  });
+  const spec = `c|${'c'.repeat(columns.length)}|c${hasLeaving ? 'l' : ''}`;
+  return [
+    '\\begin{center}',
+    '\\begin{adjustbox}{max width=\\textwidth}',
+    `\\begin{tabular}{${spec}}`,
+    `${header.join(' & ')} \\\\ \\hline`,
+    // Z row first, separated from the constraint rows
+    `${body[0]} \\\\ \\hline`,
+    ...body.slice(1).map(line => `${line} \\\\`),
+    '\\end{tabular}',
+    '\\end{adjustbox}',
+    '\\end{center}'
+  ].join('\n');
+};
+
+// Gauss-Jordan operations that turn this step's tableau into the next one
+const rowOperations = (step: TableauStep, useFractions: boolean) => {
+  if (step.pivotRow === undefined || step.pivotCol === undefined) return null;
+  const p = step.pivotRow;
+  const col = step.pivotCol;
+  const pivotRow = step.tableau[p];
+  const ops: string[] = [];
+
+  const pivot = latexCell(pivotRow, col, useFractions);
+  if (pivot !== '1') ops.push(`R_{${p}} &\\leftarrow R_{${p}} / ${pivot.startsWith('-') ? `(${pivot})` : pivot}`);
+
+  step.tableau.forEach((row, r) => {
+    if (r === p || isZeroCell(row, col)) return;
+    const factor = latexCell(row, col, useFractions);
+    const negative = factor.startsWith('-');
+    const abs = negative ? factor.slice(1) : factor;
+    const compound = /[+-]/.test(abs);
+    const coefficient = compound ? `(${factor})` : abs === '1' ? '' : abs;
+    const sign = compound ? '-' : negative ? '+' : '-';
+    ops.push(`R_{${r}} &\\leftarrow R_{${r}} ${sign} ${coefficient}R_{${p}}`);
+  });
+
+  return [
+    'Operaciones de fila ($R_0$ es la fila de $Z$):',
+    '\\begin{align*}',
+    ops.join(' \\\\\n'),
+    '\\end{align*}'
+  ].join('\n');
+};
+
+const finalResult = (model: LinearModel, result: SolveResult, useFractions: boolean) => {
+  const lines = ['\\section*{Resultado}'];
+  if (result.status !== 'OPTIMAL') {
+    lines.push(escapeLatex(result.errorMessage ?? 'No se encontró una solución óptima finita.'));
+    return lines.join('\n');
+  }
+  const values = model.objCoeffs.map((_, j) => {
+    const key = `x${j + 1}`;
+    return `${latexVariable(key)} &= ${latexNumber(result.finalValues[key] ?? 0, result.exactValues?.[key], useFractions)}`;
+  });
+  lines.push(
+    '\\begin{align*}',
+    [...values, `Z &= ${latexNumber(result.zValue, result.exactZValue, useFractions)}`].join(' \\\\\n'),
+    '\\end{align*}'
+  );
+  return lines.join('\n');
+};
+
+const latexLimit = (num: number) => (Number.isFinite(num) ? formatNumber(num) : '\\infty');
+
+const sensitivitySection = (result: SolveResult) => {
+  const report = result.sensitivity;
+  if (result.status !== 'OPTIMAL' || !report) return '';
+  const table = (spec: string, head: string[], rows: string[][]) => [
+    '\\begin{center}',
+    `\\begin{tabular}{${spec}}`,
+    `${head.join(' & ')} \\\\ \\hline`,
+    ...rows.map(r => `${r.join(' & ')} \\\\`),
+    '\\end{tabular}',
+    '\\end{center}'
+  ].join('\n');
+  const rangeRows = (ranges: NonNullable<SolveResult['sensitivity']>['objectiveRanges'], asVariable: boolean) =>
+    ranges.map(r => [
+      asVariable ? `$${latexVariable(r.name)}$` : escapeLatex(r.name),
+      `$${formatNumber(r.current)}$`,
+      `$${latexLimit(r.allowableIncrease)}$`,
+      `$${latexLimit(r.allowableDecrease)}$`
+    ]);
+
+  return [
+    '\\section*{Análisis de sensibilidad}',
+    '\\subsection*{Costos reducidos}',
+    table('c|cc', ['Variable', 'Valor', 'Costo reducido'], report.reducedCosts.map(r => [
+      `$${latexVariable(r.variable)}$`, `$${formatNumber(r.value)}$`, `$${formatNumber(r.reducedCost)}$`
+    ])),
+    '\\subsection*{Precios sombra}',
+    table('c|cc', ['Restricción', 'Precio sombra', 'Holgura'], report.shadowPrices.map(r => [
+      escapeLatex(r.constraint), `$${formatNumber(r.shadowPrice)}$`, `$${formatNumber(r.slack)}$`
+    ])),
+    '\\subsection*{Rangos de los coeficientes objetivo}',
+    table('c|ccc', ['Variable', 'Actual', 'Aumento permitido', 'Disminución permitida'], rangeRows(report.objectiveRanges, true)),
+    '\\subsection*{Rangos del lado derecho}',
+    table('c|ccc', ['Restricción', 'Actual', 'Aumento permitido', 'Disminución permitida'], rangeRows(report.rhsRanges, false))
+  ].join('\n\n');
+};
+
+export const buildLatexDocument = (
+  model: LinearModel,
+  result: SolveResult,
+  steps: TableauStep[] = result.steps,
+  useFractions = false
+) => {
+  const stepSections = steps.map((step, idx) => {
+    const parts = [`\\subsection*{Paso ${step.stepIndex}}`, escapeLatex(step.description), tableauTable(step, useFractions)];
+    // The operations only make sense when the next tableau is their result
+    const next = steps[idx + 1];
+    const ops = next && next.tableau.length === step.tableau.length ? rowOperations(step, useFractions) : null;
+    if (ops) parts.push(ops);
+    return parts.join('\n\n');
+  });
+
+  return [
+    '\\documentclass[11pt]{article}',
+    '\\usepackage[utf8]{inputenc}',
+    '\\usepackage[T1]{fontenc}',
+    '\\usepackage[spanish]{babel}',
+    '\\usepackage{amsmath}',
+    '\\usepackage{adjustbox}',
+    '\\usepackage[margin=2cm]{geometry}',
+    '',
+    '\\begin{document}',
+    '',
+    steps.length > 0 ? standardForm(model, steps, useFractions) : '',
+    '',
+    '\\section*{Iteraciones}',
+    '',
+    stepSections.join('\n\n'),
+    '',
+    finalResult(model, result, useFractions),
+    '',
+    sensitivitySection(result),
+    '',
+    '\\end{document}',
+    ''
+  ].join('\n');
+};
@@ -1,8 +1,47 @@
 export const INITIAL_VARS = 2;
 export const INITIAL_CONSTRAINTS = 2;
+// Largest model the input grid accepts. Bigger models come in as text or from an
+// .lp / .mps file and are solved with the revised simplex (see services/revised).
+export const MAX_GRID_SIZE = 10;
 
 export const METHOD_LABELS: Record<string, string> = {
   SIMPLEX: 'Método Simplex Estándar',
   BIG_M: 'Método de la Gran M',
-  TWO_PHASE: 'Método de Dos Fases'
+  TWO_PHASE: 'Método de Dos Fases',
+  DUAL_SIMPLEX: 'Método Simplex Dual',
+  REVISED: 'Simplex Revisado (forma producto)'
 };
+
+export const INTEGER_STRATEGY_LABELS: Record<string, string> = {
+  BRANCH_AND_BOUND: 'Ramificación y Acotamiento',
+  GOMORY: 'Cortes de Gomory (entero puro)'
+};
+
+export const PIVOT_RULE_LABELS: Record<string, string> = {
+  DANTZIG: 'Dantzig (costo reducido más negativo)',
+  BLAND: 'Bland (menor índice)',
+  LEXICOGRAPHIC: 'Razón mínima lexicográfica',
+  STEEPEST_EDGE: 'Arista más pronunciada (steepest edge)'
+};
+
+export const TRANSPORT_METHOD_LABELS: Record<string, string> = {
+  NORTHWEST_CORNER: 'Esquina Noroeste',
+  LEAST_COST: 'Costo Mínimo',
+  VOGEL: 'Aproximación de Vogel'
+};
+
+export const PROBLEM_TYPE_LABELS: Record<string, string> = {
+  LP: 'Programación Lineal',
+  TRANSPORTATION: 'Transporte',
+  ASSIGNMENT: 'Asignación',
+  GOAL: 'Programación por Metas'
+};
+
+export const GOAL_MODE_LABELS: Record<string, string> = {
+  PREEMPTIVE: 'Prioridades (lexicográfica)',
+  WEIGHTED: 'Ponderada'
+};
+
+export const INITIAL_ORIGINS = 3;
+export const INITIAL_DESTINATIONS = 3;
+export const INITIAL_ASSIGNMENT_SIZE = 3;
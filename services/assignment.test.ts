@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { solveAssignment } from './assignment';
+
+describe('solveAssignment', () => {
+  it('finds the minimum cost assignment', () => {
+    // Optimum 13: rows to columns 1, 0, 2, 3
+    const costs = [[9, 2, 7, 8], [6, 4, 3, 7], [5, 8, 1, 8], [7, 6, 9, 4]];
+    const result = solveAssignment({ type: 'MIN', costs });
+    expect(result.total).toBe(13);
+    expect(result.assignment).toEqual([1, 0, 2, 3]);
+    expect(result.steps[result.steps.length - 1].kind).toBe('ASSIGNMENT');
+  });
+
+  it('maximizes profits', () => {
+    const result = solveAssignment({ type: 'MAX', costs: [[1, 2], [3, 1]] });
+    expect(result.total).toBe(5);
+    expect(result.assignment).toEqual([1, 0]);
+  });
+
+  it('pads a rectangular matrix with dummy rows', () => {
+    const result = solveAssignment({ type: 'MIN', costs: [[1, 2, 3], [3, 1, 2]] });
+    expect(result.dummyRows).toBe(1);
+    expect(result.costs).toHaveLength(3);
+    expect(result.total).toBe(2);
+  });
+});
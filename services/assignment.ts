@@ -0,0 +1,175 @@
+import { AssignmentProblem, AssignmentResult, HungarianStep } from '../types';
+
+// Hungarian method on an n×n matrix, in its textbook form:
+//   1. pad to a square matrix with zero-cost dummy rows or columns;
+//   2. profits (MAX) become regrets: max − c_ij;
+//   3. subtract each row minimum, then each column minimum;
+//   4. cover every zero with the fewest lines; n lines mean an optimal assignment
+//      exists among the zeros;
+//   5. otherwise subtract the smallest uncovered value from the uncovered cells,
+//      add it where two lines cross, and go back to 4.
+// The fewest lines come from a maximum matching of the zeros (König's theorem),
+// which is also the final assignment.
+
+const EPS = 1e-9;
+
+const show = (v: number) => {
+  const text = String(parseFloat(Math.abs(v).toFixed(4)));
+  return v < -EPS ? `−${text}` : text;
+};
+
+const isZero = (v: number) => Math.abs(v) < EPS;
+
+// Keeps exact zeros after floating-point subtractions
+const clean = (matrix: number[][]) => matrix.map(row => row.map(v => (isZero(v) ? 0 : v)));
+
+// Maximum matching on the zero cells (Kuhn's augmenting paths): column of each row, or −1
+const matchZeros = (matrix: number[][]) => {
+  const n = matrix.length;
+  const rowOf: number[] = Array(n).fill(-1);
+  const colOf: number[] = Array(n).fill(-1);
+  const augment = (row: number, seen: boolean[]): boolean => {
+    for (let col = 0; col < n; col++) {
+      if (!isZero(matrix[row][col]) || seen[col]) continue;
+      seen[col] = true;
+      if (rowOf[col] === -1 || augment(rowOf[col], seen)) {
+        rowOf[col] = row;
+        colOf[row] = col;
+        return true;
+      }
+    }
+    return false;
+  };
+  for (let row = 0; row < n; row++) augment(row, Array(n).fill(false));
+  return colOf;
+};
+
+// Minimum line cover from a maximum matching: label the rows reachable from unmatched
+// rows by alternating paths; cover the unlabeled rows and the labeled columns.
+const coverZeros = (matrix: number[][], colOf: number[]) => {
+  const n = matrix.length;
+  const rowOf: number[] = Array(n).fill(-1);
+  colOf.forEach((col, row) => {
+    if (col >= 0) rowOf[col] = row;
+  });
+  const rowLabeled = colOf.map(col => col === -1);
+  const colLabeled: boolean[] = Array(n).fill(false);
+  const queue = rowLabeled.flatMap((labeled, row) => (labeled ? [row] : []));
+  while (queue.length > 0) {
+    const row = queue.shift()!;
+    for (let col = 0; col < n; col++) {
+      if (!isZero(matrix[row][col]) || colLabeled[col]) continue;
+      colLabeled[col] = true;
+      const next = rowOf[col];
+      if (next >= 0 && !rowLabeled[next]) {
+        rowLabeled[next] = true;
+        queue.push(next);
+      }
+    }
+  }
+  return { coveredRows: rowLabeled.map(l => !l), coveredCols: colLabeled };
+};
+
+const lineNames = (covered: boolean[], prefix: string) =>
+  covered.flatMap((c, k) => (c ? [`${prefix}${k + 1}`] : []));
+
+export const solveAssignment = (input: AssignmentProblem): AssignmentResult => {
+  const rows = input.costs.length;
+  const cols = input.costs[0]?.length ?? 0;
+  const n = Math.max(rows, cols);
+  const costs = Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => input.costs[i]?.[j] ?? 0));
+  const dummyRows = n - rows;
+  const dummyCols = n - cols;
+  const steps: HungarianStep[] = [];
+
+  const padding = dummyRows > 0
+    ? ` Se agregaron ${dummyRows} fila(s) ficticia(s) con costo 0 para hacerla cuadrada.`
+    : dummyCols > 0
+    ? ` Se agregaron ${dummyCols} columna(s) ficticia(s) con costo 0 para hacerla cuadrada.`
+    : '';
+  steps.push({
+    kind: 'INITIAL',
+    matrix: costs,
+    description: `Matriz de ${input.type === 'MAX' ? 'beneficios' : 'costos'} ${n}×${n}.${padding}`
+  });
+
+  let matrix = costs;
+  if (input.type === 'MAX') {
+    const max = Math.max(...costs.flat());
+    matrix = costs.map(row => row.map(v => max - v));
+    steps.push({
+      kind: 'MAX_CONVERSION',
+      matrix,
+      description: `Maximizar: cada beneficio se reemplaza por su costo de oportunidad ${show(max)} − cᵢⱼ (${show(max)} es el mayor beneficio), y se minimiza esa matriz.`
+    });
+  }
+
+  const rowMins = matrix.map(row => Math.min(...row));
+  matrix = clean(matrix.map((row, i) => row.map(v => v - rowMins[i])));
+  steps.push({
+    kind: 'ROW_REDUCTION',
+    matrix,
+    description: `Reducción por filas: se resta a cada fila su mínimo (${rowMins.map(show).join(', ')}).`
+  });
+
+  const colMins = matrix[0].map((_, j) => Math.min(...matrix.map(row => row[j])));
+  matrix = clean(matrix.map(row => row.map((v, j) => v - colMins[j])));
+  steps.push({
+    kind: 'COLUMN_REDUCTION',
+    matrix,
+    description: `Reducción por columnas: se resta a cada columna su mínimo (${colMins.map(show).join(', ')}).`
+  });
+
+  // Every adjustment adds at least one uncovered zero, so this bound is never reached in practice
+  for (let round = 0; round <= n * n; round++) {
+    const colOf = matchZeros(matrix);
+    const lines = colOf.filter(c => c >= 0).length;
+    const { coveredRows, coveredCols } = coverZeros(matrix, colOf);
+    const names = [...lineNames(coveredRows, 'F'), ...lineNames(coveredCols, 'C')].join(', ');
+
+    if (lines === n) {
+      steps.push({
+        kind: 'COVER',
+        matrix,
+        coveredRows,
+        coveredCols,
+        description: `Se necesitan ${n} líneas (${names}) para cubrir todos los ceros: hay una asignación óptima entre los ceros.`
+      });
+      break;
+    }
+
+    steps.push({
+      kind: 'COVER',
+      matrix,
+      coveredRows,
+      coveredCols,
+      description: `Bastan ${lines} líneas (${names}) para cubrir todos los ceros, menos que ${n}: la matriz debe ajustarse.`
+    });
+
+    const uncovered = matrix.flatMap((row, i) => row.filter((_, j) => !coveredRows[i] && !coveredCols[j]));
+    const k = Math.min(...uncovered);
+    matrix = clean(matrix.map((row, i) => row.map((v, j) => {
+      if (!coveredRows[i] && !coveredCols[j]) return v - k;
+      if (coveredRows[i] && coveredCols[j]) return v + k;
+      return v;
+    })));
+    steps.push({
+      kind: 'ADJUSTMENT',
+      matrix,
+      coveredRows,
+      coveredCols,
+      description: `El menor valor no cubierto es ${show(k)}: se resta a las celdas no cubiertas y se suma a las intersecciones de dos líneas.`
+    });
+  }
+
+  const assignment = matchZeros(matrix);
+  const total = assignment.reduce((sum, j, i) => sum + (i < rows && j < cols ? input.costs[i][j] : 0), 0);
+  steps.push({
+    kind: 'ASSIGNMENT',
+    matrix,
+    assignment,
+    description: `Asignación sobre los ceros, uno por fila y por columna. ${input.type === 'MAX' ? 'Beneficio' : 'Costo'} total con los datos originales: ${show(total)}.`
+  });
+
+  return { type: input.type, costs, dummyRows, dummyCols, steps, assignment, total };
+};
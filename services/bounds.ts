@@ -0,0 +1,206 @@
+import {
+  Constraint, FractionValue, OptimalityAnalysis, Relation, SolveResult, TableauStep, UnboundedRay, VariableBound
+} from '../types';
+import { addR, makeRational, mulR, rationalFromNumber, rationalToFraction } from './rational';
+
+// Variable bounds l ≤ x ≤ u (either side may be infinite) on top of a simplex
+// that only knows x ≥ 0. Each variable is substituted before solving:
+//   l finite:           x = l + x',  x' ≥ 0, plus the row x' ≤ u − l when u is finite
+//   l = −∞, u finite:   x = u − x',  x' ≥ 0
+//   free:               x = x⁺ − x⁻, x⁺, x⁻ ≥ 0
+// The substituted model is solved as usual and the result is mapped back to the
+// original variables; tableaux keep the substituted columns under their own names.
+
+export const DEFAULT_BOUND: VariableBound = { lower: 0, upper: null };
+
+export const isDefaultBound = (b: VariableBound | undefined) => !b || (b.lower === 0 && b.upper === null);
+
+export const hasCustomBounds = (bounds: VariableBound[] | undefined): bounds is VariableBound[] =>
+  !!bounds && bounds.some(b => !isDefaultBound(b));
+
+// The simplex expects b ≥ 0
+export const withNonNegativeRhs = (c: Constraint): Constraint => {
+  if (c.rhs >= 0) return c;
+  const flipped: Relation = c.relation === '<=' ? '>=' : c.relation === '>=' ? '<=' : '=';
+  return { ...c, coefficients: c.coefficients.map(v => -v), relation: flipped, rhs: -c.rhs };
+};
+
+// One column of the substituted model: x_{variable+1} gets sign·column
+interface BoundColumn {
+  variable: number;
+  sign: 1 | -1;
+  name: string;
+}
+
+export interface BoundedModel {
+  objCoeffs: number[];
+  constraints: Constraint[];
+  columns: BoundColumn[];
+  offsets: number[]; // x_j = offsets[j] + Σ sign·column over its columns
+  objConstant: number; // Z = Z' + objConstant
+}
+
+const columnsOf = (j: number, { lower, upper }: VariableBound): BoundColumn[] => {
+  const x = `x${j + 1}`;
+  if (lower === null && upper === null) {
+    return [{ variable: j, sign: 1, name: `${x}⁺` }, { variable: j, sign: -1, name: `${x}⁻` }];
+  }
+  if (lower === null) return [{ variable: j, sign: -1, name: `${x}'` }];
+  return [{ variable: j, sign: 1, name: lower === 0 ? x : `${x}'` }];
+};
+
+// Returns an error message instead when some lower bound exceeds its upper bound.
+export const substituteBounds = (
+  objCoeffs: number[],
+  constraints: Constraint[],
+  bounds: VariableBound[]
+): BoundedModel | string => {
+  const boundOf = (j: number) => bounds[j] ?? DEFAULT_BOUND;
+  for (let j = 0; j < objCoeffs.length; j++) {
+    const { lower, upper } = boundOf(j);
+    if (lower !== null && upper !== null && lower > upper) {
+      return `La cota inferior de x${j + 1} (${lower}) es mayor que su cota superior (${upper}).`;
+    }
+  }
+
+  const columns = objCoeffs.flatMap((_, j) => columnsOf(j, boundOf(j)));
+  const offsets = objCoeffs.map((_, j) => boundOf(j).lower ?? boundOf(j).upper ?? 0);
+  const shifted = constraints.map(c => withNonNegativeRhs({
+    ...c,
+    coefficients: columns.map(col => col.sign * c.coefficients[col.variable]),
+    rhs: c.rhs - c.coefficients.reduce((sum, a, j) => sum + a * offsets[j], 0)
+  }));
+  const upperRows: Constraint[] = [];
+  columns.forEach((col, k) => {
+    const { lower, upper } = boundOf(col.variable);
+    if (lower === null || upper === null) return;
+    upperRows.push({
+      id: `bound-${col.variable}`,
+      coefficients: columns.map((_, i) => (i === k ? 1 : 0)),
+      relation: '<=',
+      rhs: upper - lower
+    });
+  });
+
+  return {
+    objCoeffs: columns.map(col => col.sign * objCoeffs[col.variable]),
+    constraints: [...shifted, ...upperRows],
+    columns,
+    offsets,
+    objConstant: objCoeffs.reduce((sum, c, j) => sum + c * offsets[j], 0)
+  };
+};
+
+// "x1 ≥ 0", "x2 libre", "2 ≤ x3 ≤ 10"...
+export const describeBound = ({ lower, upper }: VariableBound, name: string) => {
+  if (lower === null && upper === null) return `${name} libre`;
+  if (lower === null) return `${name} ≤ ${upper}`;
+  if (upper === null) return `${name} ≥ ${lower}`;
+  return lower === upper ? `${name} = ${lower}` : `${lower} ≤ ${name} ≤ ${upper}`;
+};
+
+// How each variable with a non-default bound enters the tableau, e.g. "x1 libre: x1 = x1⁺ − x1⁻"
+export const describeSubstitutions = (bounds: VariableBound[], numVars: number) =>
+  Array.from({ length: numVars }, (_, j) => bounds[j] ?? DEFAULT_BOUND).flatMap((bound, j) => {
+    if (isDefaultBound(bound)) return [];
+    const x = `x${j + 1}`;
+    const { lower, upper } = bound;
+    let text: string;
+    if (lower === null && upper === null) text = `${x} = ${x}⁺ − ${x}⁻`;
+    else if (lower === null) text = `${x} = ${upper === 0 ? '' : `${upper} `}− ${x}'`;
+    else {
+      const column = lower === 0 ? x : `${x}'`;
+      const shift = lower === 0 ? [] : [`${x} = ${lower} + ${x}'`];
+      const row = upper === null ? [] : [`nueva fila ${column} ≤ ${upper - lower}`];
+      text = [...shift, ...row].join(', ');
+    }
+    return [`${describeBound(bound, x)}: ${text}`];
+  });
+
+const fromFraction = (f: FractionValue) => makeRational(BigInt(f.num), BigInt(f.den));
+
+// Decision variables of the substituted model back to the original ones; other entries
+// (slacks, surpluses, artificials) are kept as they are.
+const mapValues = (model: BoundedModel, values: Record<string, number>, withOffset: boolean) => {
+  const mapped: Record<string, number> = {};
+  model.offsets.forEach((offset, j) => {
+    mapped[`x${j + 1}`] = model.columns.reduce(
+      (sum, col, k) => (col.variable === j ? sum + col.sign * (values[`x${k + 1}`] ?? 0) : sum),
+      withOffset ? offset : 0
+    );
+  });
+  Object.entries(values).forEach(([key, v]) => {
+    if (!key.startsWith('x')) mapped[key] = v;
+  });
+  return mapped;
+};
+
+const mapExactValues = (model: BoundedModel, values: Record<string, FractionValue>) => {
+  const mapped: Record<string, FractionValue> = {};
+  model.offsets.forEach((offset, j) => {
+    let value = rationalFromNumber(offset);
+    model.columns.forEach((col, k) => {
+      const v = values[`x${k + 1}`];
+      if (col.variable === j && v) value = addR(value, mulR(rationalFromNumber(col.sign), fromFraction(v)));
+    });
+    mapped[`x${j + 1}`] = rationalToFraction(value);
+  });
+  Object.entries(values).forEach(([key, v]) => {
+    if (!key.startsWith('x')) mapped[key] = v;
+  });
+  return mapped;
+};
+
+// Relabels the variables a step mentions, e.g. substituted columns back to readable names
+export const renameStep = (rename: (text: string) => string, step: TableauStep): TableauStep => ({
+  ...step,
+  description: rename(step.description),
+  headers: step.headers.map(rename),
+  basicVars: step.basicVars.map(rename),
+  tableau: step.tableau.map(row => ({ ...row, basicVar: rename(row.basicVar) })),
+  enteringVar: step.enteringVar && rename(step.enteringVar),
+  leavingVar: step.leavingVar && rename(step.leavingVar),
+  ratioTest: step.ratioTest && {
+    ...step.ratioTest,
+    entries: step.ratioTest.entries.map(e => ({ ...e, label: rename(e.label) }))
+  }
+});
+
+export const restoreBounds = (model: BoundedModel, result: SolveResult): SolveResult => {
+  const rename = (text: string) => text.replace(/\bx(\d+)\b/g, (m, k: string) => model.columns[Number(k) - 1]?.name ?? m);
+  const renameSteps = (steps: TableauStep[]) => steps.map(step => renameStep(rename, step));
+  const solved = result.status === 'OPTIMAL';
+
+  const optimality: OptimalityAnalysis | undefined = result.optimality && {
+    zeroReducedCosts: result.optimality.zeroReducedCosts.map(rename),
+    degenerateVars: result.optimality.degenerateVars.map(rename),
+    alternatives: result.optimality.alternatives.map(alt => ({
+      values: mapValues(model, alt.values, true),
+      exactValues: alt.exactValues && mapExactValues(model, alt.exactValues),
+      steps: renameSteps(alt.steps)
+    })),
+    rays: result.optimality.rays.map(ray => ({
+      variable: rename(ray.variable),
+      direction: mapValues(model, ray.direction, false)
+    }))
+  };
+  const ray: UnboundedRay | undefined = result.unboundedRay && {
+    ...result.unboundedRay,
+    enteringVar: rename(result.unboundedRay.enteringVar),
+    point: mapValues(model, result.unboundedRay.point, true),
+    direction: mapValues(model, result.unboundedRay.direction, false)
+  };
+
+  return {
+    ...result,
+    steps: renameSteps(result.steps),
+    finalValues: solved ? mapValues(model, result.finalValues, true) : result.finalValues,
+    zValue: solved ? result.zValue + model.objConstant : result.zValue,
+    exactValues: result.exactValues && mapExactValues(model, result.exactValues),
+    exactZValue: result.exactZValue && rationalToFraction(addR(fromFraction(result.exactZValue), rationalFromNumber(model.objConstant))),
+    // Ranges of the substituted model (shifted right-hand sides, split columns) do not read back
+    sensitivity: undefined,
+    optimality,
+    unboundedRay: ray
+  };
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { farkasCertificate } from './certificates';
+import { solveLinearProgram } from './solver';
+import { row } from './fixtures';
+
+describe('certificates', () => {
+  it('gives a Farkas certificate restricted to the conflicting rows', () => {
+    // x1 + x2 ≤ 2 and x1 + x2 ≥ 5 contradict each other; x1 ≤ 10 is not involved
+    const constraints = [row([1, 1], '<=', 2, 0), row([1, 0], '<=', 10, 1), row([1, 1], '>=', 5, 2)];
+    const certificate = farkasCertificate(constraints, 2)!;
+    expect(certificate.conflict).toEqual([0, 2]);
+    expect(certificate.multipliers).toEqual([1, 0, -1]);
+    expect(certificate.combination).toEqual([0, 0]);
+    expect(certificate.rhs).toBeLessThan(0);
+  });
+
+  it('has no certificate for a feasible model', () => {
+    expect(farkasCertificate([row([1, 1], '<=', 4, 0), row([1, 0], '>=', 1, 1)], 2)).toBeNull();
+  });
+
+  it('attaches a feasible ray to an unbounded result', () => {
+    const result = solveLinearProgram('SIMPLEX', 'MAX', [1, 1], [row([1, -1], '<=', 2, 0)]);
+    expect(result.status).toBe('UNBOUNDED');
+    const ray = result.unboundedRay!;
+    expect(ray.zRate).toBeGreaterThan(0);
+    // Every point along the ray keeps x1 − x2 ≤ 2 and x ≥ 0
+    for (const t of [0, 1, 100]) {
+      const x1 = ray.point.x1 + t * ray.direction.x1;
+      const x2 = ray.point.x2 + t * ray.direction.x2;
+      expect(x1 - x2).toBeLessThanOrEqual(2 + 1e-9);
+      expect(Math.min(x1, x2)).toBeGreaterThanOrEqual(0);
+    }
+  });
+});
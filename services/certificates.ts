@@ -0,0 +1,82 @@
+import { Constraint, FarkasCertificate, Relation } from '../types';
+import { solveLinearProgram } from './solver';
+import { withNonNegativeRhs } from './bounds';
+
+// Farkas certificate and conflicting constraints of an infeasible LP
+//   A x (≤ | ≥ | =) b,  x ≥ 0.
+// By Farkas' lemma the system is infeasible exactly when some y with the sign
+// pattern of the rows (≥ 0 on ≤, ≤ 0 on ≥, free on =) has yᵀA ≥ 0 and yᵀb < 0.
+// Such a y is found with another LP, solved by the same simplex:
+//   min Σ|y_i|  s.a.  yᵀA ≥ 0,  −yᵀb ≥ 1
+// Its optimal vertex uses few rows; a deletion filter then trims them to an
+// irreducible infeasible subset (IIS): infeasible, but feasible without any one row.
+
+// Rows above this size skip the deletion filter (one extra solve per row)
+const MAX_FILTER_ROWS = 30;
+
+const ROW_SIGNS: Record<Relation, number[]> = { '<=': [1], '>=': [-1], '=': [1, -1] };
+
+const isFeasible = (constraints: Constraint[], numVars: number) =>
+  constraints.length === 0 ||
+  solveLinearProgram('TWO_PHASE', 'MAX', Array(numVars).fill(0), constraints.map(withNonNegativeRhs), { exact: true }).status !== 'INFEASIBLE';
+
+// Farkas multipliers using only the rows in `indices` (the rest get 0), or null if those rows are feasible.
+const farkasMultipliers = (constraints: Constraint[], indices: number[], numVars: number): number[] | null => {
+  // One nonnegative LP variable per sign a row's multiplier may take
+  const columns = indices.flatMap(i => ROW_SIGNS[constraints[i].relation].map(sign => ({ row: i, sign })));
+  const rows: Constraint[] = [
+    ...Array.from({ length: numVars }, (_, j) => ({
+      id: `farkas-${j}`,
+      coefficients: columns.map(({ row, sign }) => sign * constraints[row].coefficients[j]),
+      relation: '>=' as const,
+      rhs: 0
+    })),
+    {
+      id: 'farkas-b',
+      coefficients: columns.map(({ row, sign }) => -sign * constraints[row].rhs),
+      relation: '>=' as const,
+      rhs: 1
+    }
+  ];
+  const lp = solveLinearProgram('TWO_PHASE', 'MIN', columns.map(() => 1), rows, { exact: true });
+  if (lp.status !== 'OPTIMAL') return null;
+
+  const y = constraints.map(() => 0);
+  columns.forEach(({ row, sign }, k) => {
+    y[row] += sign * (lp.finalValues[`x${k + 1}`] ?? 0);
+  });
+  return y;
+};
+
+// Smallest factor (up to 1000) that makes every multiplier an integer, for readability
+const integerScale = (y: number[]) => {
+  for (let k = 1; k <= 1000; k++) {
+    if (y.every(v => Math.abs(v * k - Math.round(v * k)) < 1e-7)) return y.map(v => Math.round(v * k));
+  }
+  return y;
+};
+
+export const farkasCertificate = (constraints: Constraint[], numVars: number): FarkasCertificate | null => {
+  const all = constraints.map((_, i) => i);
+  const y = farkasMultipliers(constraints, all, numVars);
+  if (!y) return null;
+
+  let conflict = all.filter(i => Math.abs(y[i]) > 1e-9);
+  if (conflict.length <= MAX_FILTER_ROWS) {
+    for (const i of [...conflict]) {
+      const rest = conflict.filter(k => k !== i);
+      if (!isFeasible(rest.map(k => constraints[k]), numVars)) conflict = rest;
+    }
+  }
+
+  // Certificate restricted to the conflicting rows, so both tell the same story
+  const multipliers = integerScale(farkasMultipliers(constraints, conflict, numVars) ?? y);
+  return {
+    multipliers,
+    combination: Array.from({ length: numVars }, (_, j) =>
+      constraints.reduce((sum, c, i) => sum + multipliers[i] * c.coefficients[j], 0)
+    ),
+    rhs: constraints.reduce((sum, c, i) => sum + multipliers[i] * c.rhs, 0),
+    conflict
+  };
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeDuality, buildDualProblem } from './duality';
+import { solveLinearProgram } from './solver';
+import { row, wyndor } from './fixtures';
+
+describe('buildDualProblem', () => {
+  it('transposes a MAX primal into a MIN dual with ≥ rows', () => {
+    const dual = buildDualProblem('MAX', wyndor.objCoeffs, wyndor.constraints);
+    expect(dual.type).toBe('MIN');
+    expect(dual.objCoeffs).toEqual([4, 12, 18]);
+    expect(dual.constraints.map(c => [c.coefficients, c.relation, c.rhs])).toEqual([[[1, 0, 3], '>=', 3], [[0, 2, 2], '>=', 5]]);
+    expect(dual.variableSigns).toEqual(['>=0', '>=0', '>=0']);
+  });
+
+  it('follows the sign rules for ≥ and = rows', () => {
+    const dual = buildDualProblem('MAX', [1, 1], [row([1, 2], '>=', 1, 0), row([1, -1], '=', 0, 1)]);
+    expect(dual.variableSigns).toEqual(['<=0', 'free']);
+  });
+});
+
+describe('analyzeDuality', () => {
+  it('checks strong duality and complementary slackness', () => {
+    const primal = solveLinearProgram('SIMPLEX', 'MAX', wyndor.objCoeffs, wyndor.constraints);
+    const report = analyzeDuality('MAX', wyndor.objCoeffs, wyndor.constraints, primal);
+    expect(report.strongDuality).toBe(true);
+    expect(report.dualZ).toBeCloseTo(36);
+    expect(report.dualValues.map(v => Math.abs(v) < 1e-9 ? 0 : v)).toEqual([0, 1.5, 1]);
+    expect(report.slackness.every(s => s.holds)).toBe(true);
+  });
+});
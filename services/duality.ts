@@ -0,0 +1,132 @@
+import { Constraint, LinearModel, OptimizationType, Relation, SolveResult, SolverOptions } from '../types';
+import { solveLinearProgram } from './solver';
+import { effectiveMethod } from './revised';
+
+export type VariableSign = '>=0' | '<=0' | 'free';
+
+// objCoeffs are the primal RHS b; there is one constraint per primal variable (columns of A).
+export interface DualProblem extends LinearModel {
+  variableSigns: VariableSign[]; // One per primal constraint
+}
+
+export interface SlacknessCheck {
+  label: string; // e.g. "y1 · (b1 − a1·x)"
+  product: number;
+  holds: boolean;
+}
+
+export interface DualityReport {
+  primal: LinearModel;
+  dual: DualProblem;
+  dualResult: SolveResult;
+  dualValues: number[]; // y_i in the dual's own variables
+  primalZ?: number;
+  dualZ?: number;
+  strongDuality: boolean; // Both optimal with equal objective values
+  slackness: SlacknessCheck[];
+}
+
+const TOL = 1e-6;
+
+// Primal/dual sign rules:
+//   MAX primal: "<=" row -> y >= 0, ">=" row -> y <= 0, "=" row -> y free; dual rows are ">= c_j".
+//   MIN primal: ">=" row -> y >= 0, "<=" row -> y <= 0, "=" row -> y free; dual rows are "<= c_j".
+export const buildDualProblem = (
+  type: OptimizationType,
+  objCoeffs: number[],
+  constraints: Constraint[]
+): DualProblem => {
+  const natural: Relation = type === 'MAX' ? '<=' : '>=';
+
+  const variableSigns: VariableSign[] = constraints.map(c =>
+    c.relation === '=' ? 'free' : c.relation === natural ? '>=0' : '<=0'
+  );
+
+  const dualConstraints: Constraint[] = objCoeffs.map((c, j) => ({
+    id: `d-${j}`,
+    coefficients: constraints.map(row => row.coefficients[j] ?? 0),
+    relation: type === 'MAX' ? '>=' : '<=',
+    rhs: c
+  }));
+
+  return {
+    type: type === 'MAX' ? 'MIN' : 'MAX',
+    objCoeffs: constraints.map(c => c.rhs),
+    constraints: dualConstraints,
+    variableSigns
+  };
+};
+
+// Solves the dual with the regular solver. The solver only knows y >= 0, so
+// y <= 0 is replaced by -y' and free y by y⁺ - y⁻; rows with negative RHS are flipped.
+const solveDual = (dual: DualProblem, options: SolverOptions) => {
+  const columns: { index: number; sign: number }[] = [];
+  dual.variableSigns.forEach((s, i) => {
+    if (s === '>=0') columns.push({ index: i, sign: 1 });
+    if (s === '<=0') columns.push({ index: i, sign: -1 });
+    if (s === 'free') columns.push({ index: i, sign: 1 }, { index: i, sign: -1 });
+  });
+
+  const objCoeffs = columns.map(col => col.sign * dual.objCoeffs[col.index]);
+  const constraints: Constraint[] = dual.constraints.map(c => {
+    const coefficients = columns.map(col => col.sign * c.coefficients[col.index]);
+    if (c.rhs >= 0) return { ...c, coefficients };
+    const flipped: Relation = c.relation === '<=' ? '>=' : c.relation === '>=' ? '<=' : '=';
+    return { ...c, coefficients: coefficients.map(v => -v), relation: flipped, rhs: -c.rhs };
+  });
+
+  // Duals of large models are as large as the primal: same switch to the revised simplex
+  const method = effectiveMethod('TWO_PHASE', objCoeffs.length, constraints.length);
+  const result = solveLinearProgram(method, dual.type, objCoeffs, constraints, options);
+
+  const values = dual.variableSigns.map(() => 0);
+  if (result.status === 'OPTIMAL') {
+    columns.forEach((col, k) => {
+      values[col.index] += col.sign * (result.finalValues[`x${k + 1}`] ?? 0);
+    });
+  }
+  return { result, values };
+};
+
+// Builds and solves the dual, then checks strong duality and complementary slackness
+// against the primal solution.
+export const analyzeDuality = (
+  type: OptimizationType,
+  objCoeffs: number[],
+  constraints: Constraint[],
+  primal: SolveResult,
+  options: SolverOptions = {}
+): DualityReport => {
+  const dual = buildDualProblem(type, objCoeffs, constraints);
+  const { result: dualResult, values: y } = solveDual(dual, options);
+
+  const bothOptimal = primal.status === 'OPTIMAL' && dualResult.status === 'OPTIMAL';
+  const slackness: SlacknessCheck[] = [];
+
+  if (bothOptimal) {
+    const x = objCoeffs.map((_, j) => primal.finalValues[`x${j + 1}`] ?? 0);
+
+    constraints.forEach((c, i) => {
+      const slack = c.rhs - c.coefficients.reduce((acc, a, j) => acc + a * x[j], 0);
+      const product = y[i] * slack;
+      slackness.push({ label: `y${i + 1} · (b${i + 1} − a${i + 1}·x)`, product, holds: Math.abs(product) < TOL });
+    });
+
+    objCoeffs.forEach((c, j) => {
+      const surplus = constraints.reduce((acc, row, i) => acc + row.coefficients[j] * y[i], 0) - c;
+      const product = x[j] * surplus;
+      slackness.push({ label: `x${j + 1} · (Aᵀy − c)${j + 1}`, product, holds: Math.abs(product) < TOL });
+    });
+  }
+
+  return {
+    primal: { type, objCoeffs, constraints },
+    dual,
+    dualResult,
+    dualValues: y,
+    primalZ: primal.status === 'OPTIMAL' ? primal.zValue : undefined,
+    dualZ: dualResult.status === 'OPTIMAL' ? dualResult.zValue : undefined,
+    strongDuality: bothOptimal && Math.abs(primal.zValue - dualResult.zValue) < TOL * Math.max(1, Math.abs(primal.zValue)),
+    slackness
+  };
+};
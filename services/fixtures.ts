@@ -0,0 +1,12 @@
+import { Constraint } from '../types';
+
+// Models shared by the test files
+
+export const row = (coefficients: number[], relation: Constraint['relation'], rhs: number, i = 0): Constraint =>
+  ({ id: `c-${i}`, coefficients, relation, rhs });
+
+// Wyndor Glass: max 3x1 + 5x2, optimum z = 36 at (2, 6)
+export const wyndor = {
+  objCoeffs: [3, 5],
+  constraints: [row([1, 0], '<=', 4, 0), row([0, 2], '<=', 12, 1), row([3, 2], '<=', 18, 2)]
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { GoalConstraint, GoalMode } from '../types';
+import { solveGoalProgram } from './goals';
+
+// Hard x1 + x2 ≤ 8; goals x1 ≥ 6 (priority 1) and x2 ≥ 5 (priority 2): 3 units short either way
+const constraints: GoalConstraint[] = [
+  { id: 'c-0', coefficients: [1, 1], relation: '<=', rhs: 8, isGoal: false, priority: 1, weight: 1 },
+  { id: 'c-1', coefficients: [1, 0], relation: '>=', rhs: 6, isGoal: true, priority: 1, weight: 1 },
+  { id: 'c-2', coefficients: [0, 1], relation: '>=', rhs: 5, isGoal: true, priority: 2, weight: 1 }
+];
+const solve = (mode: GoalMode) => solveGoalProgram({ mode, method: 'TWO_PHASE', numVars: 2, constraints });
+
+describe('solveGoalProgram', () => {
+  it('meets the higher priority first in preemptive mode', () => {
+    const result = solve('PREEMPTIVE');
+    expect(result.status).toBe('OPTIMAL');
+    expect(result.stages.map(s => s.priority)).toEqual([1, 2]);
+    expect(result.values[0]).toBeCloseTo(6);
+    expect(result.values[1]).toBeCloseTo(2);
+    expect(result.goals.map(g => g.met)).toEqual([true, false]);
+    expect(result.goals[1].under).toBeCloseTo(3);
+  });
+
+  it('minimizes the total weighted deviation in one LP', () => {
+    const result = solve('WEIGHTED');
+    expect(result.status).toBe('OPTIMAL');
+    expect(result.stages).toHaveLength(1);
+    expect(result.stages[0].deviation).toBeCloseTo(3);
+    expect(result.values[0] + result.values[1]).toBeCloseTo(8);
+  });
+});
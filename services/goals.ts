@@ -0,0 +1,117 @@
+import { Constraint, GoalAchievement, GoalConstraint, GoalProgram, GoalResult, GoalStage } from '../types';
+import { solveLinearProgram } from './solver';
+import { renameStep, withNonNegativeRhs } from './bounds';
+
+// Goal programming on top of the simplex. Every goal row gets its own deviation pair:
+//   Σ a_j·x_j + d⁻ − d⁺ = b,   d⁻, d⁺ ≥ 0
+// and the LP minimizes the weighted unwanted deviations. Preemptive problems solve one
+// LP per priority level; each level keeps the earlier ones at their optimum through a
+// row  Σ w·d ≤ (optimum of that level).
+// The LPs use x1..xn followed by d⁻/d⁺ of each goal; tableaux show them as d1⁻, d1⁺…
+// numbered after the constraint row they belong to.
+
+const EPS = 1e-9;
+
+const show = (v: number) => {
+  const text = String(parseFloat(Math.abs(v).toFixed(4)));
+  return v < -EPS ? `−${text}` : text;
+};
+
+// Deviation columns a goal penalizes, as offsets into its d⁻/d⁺ pair
+const unwanted = (goal: GoalConstraint): (0 | 1)[] =>
+  goal.relation === '>=' ? [0] : goal.relation === '<=' ? [1] : [0, 1];
+
+export const solveGoalProgram = (program: GoalProgram): GoalResult => {
+  const { mode, method, numVars: n, constraints } = program;
+  const goalRows = constraints.flatMap((c, i) => (c.isGoal ? [i] : []));
+  const width = n + 2 * goalRows.length;
+  const empty = { mode, stages: [], values: Array(n).fill(0), goals: [] };
+  if (goalRows.length === 0) {
+    return { ...empty, status: 'ERROR', errorMessage: 'Marque al menos una restricción como meta.' };
+  }
+
+  const names = [
+    ...Array.from({ length: n }, (_, j) => `x${j + 1}`),
+    ...goalRows.flatMap(i => [`d${i + 1}⁻`, `d${i + 1}⁺`])
+  ];
+  const column = (goal: number, side: 0 | 1) => n + 2 * goalRows.indexOf(goal) + side;
+  const rename = (text: string) => text.replace(/\bx(\d+)\b/g, (m, k: string) => names[Number(k) - 1] ?? m);
+
+  const rows: Constraint[] = constraints.map((c, i) => {
+    const coefficients = Array.from({ length: width }, (_, j) => (j < n ? c.coefficients[j] ?? 0 : 0));
+    if (!c.isGoal) return { id: c.id, coefficients, relation: c.relation, rhs: c.rhs };
+    coefficients[column(i, 0)] = 1;
+    coefficients[column(i, 1)] = -1;
+    return { id: c.id, coefficients, relation: '=', rhs: c.rhs };
+  });
+
+  // Weighted sum of the unwanted deviations of some goals
+  const penalty = (goals: number[]) => {
+    const coeffs: number[] = Array(width).fill(0);
+    const terms: string[] = [];
+    goals.forEach(i => {
+      const w = constraints[i].weight;
+      unwanted(constraints[i]).forEach(side => {
+        coeffs[column(i, side)] += w;
+        terms.push(`${w === 1 ? '' : `${show(w)}·`}${names[column(i, side)]}`);
+      });
+    });
+    return { coeffs, text: terms.join(' + ') };
+  };
+
+  const levels = mode === 'WEIGHTED'
+    ? [{ priority: undefined, goals: goalRows }]
+    : [...new Set(goalRows.map(i => constraints[i].priority))]
+        .sort((a, b) => a - b)
+        .map(priority => ({ priority, goals: goalRows.filter(i => constraints[i].priority === priority) }));
+
+  const stages: GoalStage[] = [];
+  const locks: Constraint[] = [];
+  const lockTexts: string[] = [];
+  let finalValues: Record<string, number> = {};
+
+  for (const level of levels) {
+    const { coeffs, text } = penalty(level.goals);
+    const result = solveLinearProgram(method, 'MIN', coeffs, [...rows, ...locks].map(withNonNegativeRhs));
+    const deviation = Math.abs(result.zValue) < EPS ? 0 : result.zValue;
+    stages.push({
+      priority: level.priority,
+      objective: text,
+      locks: [...lockTexts],
+      status: result.status,
+      errorMessage: result.errorMessage,
+      deviation,
+      steps: result.steps.map(step => renameStep(rename, step))
+    });
+
+    if (result.status !== 'OPTIMAL') {
+      const errorMessage = result.status === 'INFEASIBLE' && stages.length === 1
+        ? 'Las restricciones rígidas no tienen solución factible: ninguna combinación de metas puede cumplirlas.'
+        : result.errorMessage;
+      return { ...empty, status: result.status, errorMessage, stages };
+    }
+
+    finalValues = result.finalValues;
+    locks.push({ id: `lock-${level.priority}`, coefficients: coeffs, relation: '<=', rhs: deviation });
+    lockTexts.push(`${text} ≤ ${show(deviation)}`);
+  }
+
+  const values = Array.from({ length: n }, (_, j) => finalValues[`x${j + 1}`] ?? 0);
+  const goals: GoalAchievement[] = goalRows.map(i => {
+    const c = constraints[i];
+    const value = c.coefficients.reduce((sum, a, j) => sum + a * (values[j] ?? 0), 0);
+    const under = Math.max(0, c.rhs - value);
+    const over = Math.max(0, value - c.rhs);
+    const missed = unwanted(c).reduce((sum, side) => sum + (side === 0 ? under : over), 0);
+    return {
+      row: i,
+      target: c.rhs,
+      value,
+      under: under < EPS ? 0 : under,
+      over: over < EPS ? 0 : over,
+      met: missed < EPS
+    };
+  });
+
+  return { mode, status: 'OPTIMAL', stages, values, goals };
+};
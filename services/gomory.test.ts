@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { solveIntegerProgram } from './integer';
+import { row } from './fixtures';
+
+// max 5x1 + 8x2, x1 + x2 ≤ 6, 5x1 + 9x2 ≤ 45: LP optimum 41.25, integer optimum 40 at (0, 5)
+const rows = [row([1, 1], '<=', 6, 0), row([5, 9], '<=', 45, 1)];
+
+describe('Gomory cuts', () => {
+  it('cuts the LP optimum down to the integer optimum', () => {
+    const result = solveIntegerProgram('SIMPLEX', 'MAX', [5, 8], rows, ['integer', 'integer'], { exact: true }, 'GOMORY');
+    expect(result.status).toBe('OPTIMAL');
+    expect(result.zValue).toBeCloseTo(40);
+    expect(result.finalValues.x2).toBeCloseTo(5);
+    expect(result.steps.some(s => s.cutIndex === 1)).toBe(true);
+  });
+
+  it('requires a pure integer program', () => {
+    const result = solveIntegerProgram('SIMPLEX', 'MAX', [5, 8], rows, ['integer', 'continuous'], {}, 'GOMORY');
+    expect(result.status).toBe('ERROR');
+  });
+});
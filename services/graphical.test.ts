@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { cornerPoints, plotBoxFor, simplexPath } from './graphical';
+import { solveLinearProgram } from './solver';
+import { wyndor } from './fixtures';
+
+const model = { type: 'MAX' as const, ...wyndor };
+
+describe('graphical method', () => {
+  it('lists the corner points of the feasible region with their Z', () => {
+    const corners = cornerPoints(model, plotBoxFor(model.constraints))
+      .map(p => [+p.x.toFixed(6), +p.y.toFixed(6), +p.z.toFixed(6)])
+      .sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+    expect(corners).toEqual([[0, 0, 0], [0, 6, 30], [2, 6, 36], [4, 0, 12], [4, 3, 27]]);
+  });
+
+  it('traces the simplex path across the vertices', () => {
+    const { steps } = solveLinearProgram('SIMPLEX', 'MAX', model.objCoeffs, model.constraints);
+    expect(simplexPath(steps)).toEqual([{ x: 0, y: 0 }, { x: 0, y: 6 }, { x: 2, y: 6 }]);
+  });
+});
@@ -0,0 +1,142 @@
+import { Constraint, LinearModel, TableauStep } from '../types';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface PlotBox {
+  width: number; // x1 range [0, width]
+  height: number; // x2 range [0, height]
+}
+
+export interface CornerPoint extends Point {
+  z: number;
+}
+
+const EPS = 1e-7;
+
+// Half-plane a·p (rel) b as "keep p when value(p) >= 0".
+const halfPlaneValue = (c: Constraint, p: Point, flip: boolean) => {
+  const lhs = c.coefficients[0] * p.x + c.coefficients[1] * p.y;
+  return flip ? lhs - c.rhs : c.rhs - lhs;
+};
+
+// Sutherland-Hodgman clipping of a convex polygon by one half-plane.
+const clip = (polygon: Point[], value: (p: Point) => number): Point[] => {
+  const out: Point[] = [];
+  polygon.forEach((current, i) => {
+    const prev = polygon[(i + polygon.length - 1) % polygon.length];
+    const vc = value(current);
+    const vp = value(prev);
+    if (vc >= -EPS) {
+      if (vp < -EPS) out.push(intersect(prev, current, vp, vc));
+      out.push(current);
+    } else if (vp >= -EPS) {
+      out.push(intersect(prev, current, vp, vc));
+    }
+  });
+  return out;
+};
+
+const intersect = (a: Point, b: Point, va: number, vb: number): Point => {
+  const t = va / (va - vb);
+  return { x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) };
+};
+
+const boxPolygon = (box: PlotBox): Point[] => [
+  { x: 0, y: 0 }, { x: box.width, y: 0 }, { x: box.width, y: box.height }, { x: 0, y: box.height }
+];
+
+// The feasible side of one constraint inside the box ("=" keeps both sides' boundary only).
+export const constraintRegion = (c: Constraint, box: PlotBox): Point[] => {
+  let region = boxPolygon(box);
+  if (c.relation !== '>=') region = clip(region, p => halfPlaneValue(c, p, false));
+  if (c.relation !== '<=') region = clip(region, p => halfPlaneValue(c, p, true));
+  return region;
+};
+
+// Feasible polygon (x1, x2 >= 0 and every constraint) clipped to the box.
+export const feasibleRegion = (constraints: Constraint[], box: PlotBox): Point[] => {
+  let region = boxPolygon(box);
+  constraints.forEach(c => {
+    if (c.relation !== '>=') region = clip(region, p => halfPlaneValue(c, p, false));
+    if (c.relation !== '<=') region = clip(region, p => halfPlaneValue(c, p, true));
+  });
+  return region;
+};
+
+// Segment of a·p = b inside the box, if it crosses it.
+export const lineInBox = (a: [number, number], b: number, box: PlotBox): [Point, Point] | null => {
+  const [a1, a2] = a;
+  const candidates: Point[] = [];
+  if (Math.abs(a2) > EPS) {
+    candidates.push({ x: 0, y: b / a2 }, { x: box.width, y: (b - a1 * box.width) / a2 });
+  }
+  if (Math.abs(a1) > EPS) {
+    candidates.push({ x: b / a1, y: 0 }, { x: (b - a2 * box.height) / a1, y: box.height });
+  }
+  const inside = candidates.filter(p =>
+    p.x >= -EPS && p.x <= box.width + EPS && p.y >= -EPS && p.y <= box.height + EPS
+  );
+  if (inside.length < 2) return null;
+  // Farthest pair, in case a corner was hit twice
+  let best: [Point, Point] = [inside[0], inside[1]];
+  let bestDist = -1;
+  inside.forEach(p => inside.forEach(q => {
+    const d = (p.x - q.x) ** 2 + (p.y - q.y) ** 2;
+    if (d > bestDist) {
+      bestDist = d;
+      best = [p, q];
+    }
+  }));
+  return best;
+};
+
+// Box large enough to show every intersection of the constraint lines and the axes.
+export const plotBoxFor = (constraints: Constraint[]): PlotBox => {
+  const lines: { a: [number, number]; b: number }[] = [
+    { a: [1, 0], b: 0 },
+    { a: [0, 1], b: 0 },
+    ...constraints.map(c => ({ a: [c.coefficients[0], c.coefficients[1]] as [number, number], b: c.rhs }))
+  ];
+  let maxX = 0;
+  let maxY = 0;
+  lines.forEach((l1, i) => lines.slice(i + 1).forEach(l2 => {
+    const det = l1.a[0] * l2.a[1] - l1.a[1] * l2.a[0];
+    if (Math.abs(det) < EPS) return;
+    const x = (l1.b * l2.a[1] - l1.a[1] * l2.b) / det;
+    const y = (l1.a[0] * l2.b - l1.b * l2.a[0]) / det;
+    if (x < -EPS || y < -EPS) return;
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  }));
+  return { width: maxX > 0 ? maxX * 1.25 : 10, height: maxY > 0 ? maxY * 1.25 : 10 };
+};
+
+// Corner points of the feasible region, leaving out those created only by the box edges.
+export const cornerPoints = (model: LinearModel, box: PlotBox): CornerPoint[] => {
+  const region = feasibleRegion(model.constraints, box);
+  const corners: CornerPoint[] = [];
+  region.forEach(p => {
+    if (Math.abs(p.x - box.width) < EPS * box.width || Math.abs(p.y - box.height) < EPS * box.height) return;
+    if (corners.some(q => Math.abs(q.x - p.x) < 1e-6 && Math.abs(q.y - p.y) < 1e-6)) return;
+    corners.push({ ...p, z: model.objCoeffs[0] * p.x + model.objCoeffs[1] * p.y });
+  });
+  return corners;
+};
+
+// (x1, x2) of the basic solution in each tableau, skipping consecutive repeats.
+export const simplexPath = (steps: TableauStep[]): Point[] => {
+  const path: Point[] = [];
+  steps.forEach(step => {
+    const valueOf = (name: string) => {
+      const row = step.tableau.find((r, i) => i > 0 && r.basicVar === name);
+      return row ? row.rhs : 0;
+    };
+    const p = { x: valueOf('x1'), y: valueOf('x2') };
+    const last = path[path.length - 1];
+    if (!last || Math.abs(last.x - p.x) > 1e-9 || Math.abs(last.y - p.y) > 1e-9) path.push(p);
+  });
+  return path;
+};
@@ -0,0 +1,38 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SolveResult } from '../types';
+import { solveIntegerProgram } from './integer';
+import { row } from './fixtures';
+
+// Lets a test make every LP relaxation stop short, as the dense engine does at its iteration limit
+const stub = vi.hoisted(() => ({ result: null as SolveResult | null }));
+vi.mock('./solver', async importOriginal => {
+  const actual = await importOriginal<typeof import('./solver')>();
+  return { ...actual, solveLinearProgram: (...args: Parameters<typeof actual.solveLinearProgram>) => stub.result ?? actual.solveLinearProgram(...args) };
+});
+
+afterEach(() => { stub.result = null; });
+
+describe('branch and bound', () => {
+  it('finds the integer optimum', () => {
+    // max 5x1 + 8x2, x1 + x2 ≤ 6, 5x1 + 9x2 ≤ 45: LP optimum 41.25, integer optimum 40 at (0, 5)
+    const rows = [row([1, 1], '<=', 6, 0), row([5, 9], '<=', 45, 1)];
+    const result = solveIntegerProgram('SIMPLEX', 'MAX', [5, 8], rows, ['integer', 'integer']);
+    expect(result.status).toBe('OPTIMAL');
+    expect(result.zValue).toBeCloseTo(40);
+    expect(result.branchAndBound?.some(n => n.pruned === 'INTEGER')).toBe(true);
+  });
+
+  it('stops the whole search on an unbounded relaxation', () => {
+    const result = solveIntegerProgram('SIMPLEX', 'MAX', [1, 1], [row([1, -1], '<=', 2)], ['integer', 'integer']);
+    expect(result.status).toBe('UNBOUNDED');
+    expect(result.branchAndBound?.[0].pruned).toBe('UNBOUNDED');
+  });
+
+  it('reports an unfinished LP instead of pruning it as unbounded', () => {
+    stub.result = { status: 'ITERATION_LIMIT', steps: [], finalValues: {}, zValue: 0 };
+    const result = solveIntegerProgram('SIMPLEX', 'MAX', [1, 1], [row([1, 1], '<=', 3)], ['integer', 'integer']);
+    expect(result.status).toBe('ITERATION_LIMIT');
+    expect(result.branchAndBound?.[0].pruned).toBe('INCOMPLETE');
+    expect(result.errorMessage).toContain('nodo 0');
+  });
+});
@@ -0,0 +1,214 @@
+import {
+  BranchAndBoundNode, BranchBound, Constraint, IntegerStrategy, OptimizationType, SolveResult, SolverMethod,
+  SolverOptions, VariableKind
+} from '../types';
+import { solveLinearProgram } from './solver';
+import { fitsDenseTableau } from './revised';
+
+const INT_TOL = 1e-6;
+const MAX_NODES = 200;
+
+const isIntegral = (v: number) => Math.abs(v - Math.round(v)) < INT_TOL;
+
+// Binary variables are integers with an extra x ≤ 1 row.
+const withBinaryBounds = (objCoeffs: number[], constraints: Constraint[], kinds: VariableKind[]) => {
+  const rows: Constraint[] = [...constraints];
+  kinds.forEach((k, j) => {
+    if (k === 'binary') {
+      rows.push({
+        id: `bin-${j}`,
+        coefficients: objCoeffs.map((_, i) => i === j ? 1 : 0),
+        relation: '<=',
+        rhs: 1
+      });
+    }
+  });
+  return rows;
+};
+
+// Entry point for models with integer or binary variables.
+export const solveIntegerProgram = (
+  method: SolverMethod,
+  type: OptimizationType,
+  objCoeffs: number[],
+  constraints: Constraint[],
+  kinds: VariableKind[],
+  options: SolverOptions = {},
+  strategy: IntegerStrategy = 'BRANCH_AND_BOUND'
+): SolveResult => {
+  return strategy === 'GOMORY'
+    ? solveWithCuttingPlanes(method, type, objCoeffs, constraints, kinds, options)
+    : branchAndBound(method, type, objCoeffs, constraints, kinds, options);
+};
+
+// Gomory cuts assume every variable, slacks included, is integral: all decision
+// variables integer and all constraint data integer.
+const solveWithCuttingPlanes = (
+  method: SolverMethod,
+  type: OptimizationType,
+  objCoeffs: number[],
+  constraints: Constraint[],
+  kinds: VariableKind[],
+  options: SolverOptions
+): SolveResult => {
+  if (kinds.some(k => k === 'continuous')) {
+    return { status: 'ERROR', steps: [], finalValues: {}, zValue: 0, errorMessage: 'Los cortes de Gomory requieren un problema entero puro: todas las variables deben ser enteras o binarias.' };
+  }
+  if (constraints.some(c => !Number.isInteger(c.rhs) || c.coefficients.some(a => !Number.isInteger(a)))) {
+    return { status: 'ERROR', steps: [], finalValues: {}, zValue: 0, errorMessage: 'Los cortes de Gomory requieren coeficientes y lados derechos enteros en las restricciones.' };
+  }
+  // Shifting by a fractional bound would make the substituted variables fractional
+  if (options.bounds?.some(b => [b.lower, b.upper].some(v => v !== null && !Number.isInteger(v)))) {
+    return { status: 'ERROR', steps: [], finalValues: {}, zValue: 0, errorMessage: 'Los cortes de Gomory requieren cotas enteras en las variables.' };
+  }
+  return solveLinearProgram(method, type, objCoeffs, withBinaryBounds(objCoeffs, constraints, kinds), { ...options, gomoryCuts: true });
+};
+
+// Branch and bound over the existing simplex. Each node is the LP relaxation plus
+// the bound rows accumulated on its path; the tree is explored depth first,
+// "≤ floor" child before "≥ ceil" child.
+const branchAndBound = (
+  method: SolverMethod,
+  type: OptimizationType,
+  objCoeffs: number[],
+  constraints: Constraint[],
+  kinds: VariableKind[],
+  options: SolverOptions
+): SolveResult => {
+  // Bound rows are ">=" half the time, so subproblems need artificials. Past the tableau
+  // limit they go to the revised simplex, which has no 50-pivot cap.
+  const subMethod: SolverMethod = method === 'REVISED' || !fitsDenseTableau(objCoeffs.length, constraints.length)
+    ? 'REVISED'
+    : method === 'BIG_M' ? 'BIG_M' : 'TWO_PHASE';
+  const isMax = type === 'MAX';
+  const better = (a: number, b: number) => isMax ? a > b + INT_TOL : a < b - INT_TOL;
+  const baseConstraints = withBinaryBounds(objCoeffs, constraints, kinds);
+
+  const nodes: BranchAndBoundNode[] = [];
+  let incumbent: { node: BranchAndBoundNode; result: SolveResult } | null = null;
+  // First node whose LP stopped short: its subtree was never explored
+  let unfinished: { node: BranchAndBoundNode; result: SolveResult } | null = null;
+  // Every node runs the same engine with the same options
+  let ignoredSettings: SolveResult['ignoredSettings'];
+  const stack: { parentId?: number; bounds: BranchBound[] }[] = [{ bounds: [] }];
+
+  while (stack.length > 0) {
+    const { parentId, bounds } = stack.pop()!;
+
+    if (nodes.length >= MAX_NODES) {
+      nodes.push({ id: nodes.length, parentId, depth: bounds.length, bounds, lpStatus: 'ERROR', pruned: 'NODE_LIMIT', steps: [] });
+      break;
+    }
+
+    const boundRows: Constraint[] = bounds.map((b, k) => ({
+      id: `bb-${k}`,
+      coefficients: objCoeffs.map((_, i) => i === b.varIndex ? 1 : 0),
+      relation: b.relation,
+      rhs: b.value
+    }));
+    const lp = solveLinearProgram(subMethod, type, objCoeffs, [...baseConstraints, ...boundRows], options);
+    ignoredSettings ??= lp.ignoredSettings;
+
+    const node: BranchAndBoundNode = {
+      id: nodes.length,
+      parentId,
+      depth: bounds.length,
+      bounds,
+      lpStatus: lp.status,
+      steps: lp.steps
+    };
+    nodes.push(node);
+
+    if (lp.status === 'INFEASIBLE') {
+      node.pruned = 'INFEASIBLE';
+      continue;
+    }
+    // An unbounded relaxation means the integer program has no finite optimum either
+    if (lp.status === 'UNBOUNDED') {
+      node.pruned = 'UNBOUNDED';
+      return { status: 'UNBOUNDED', steps: lp.steps, finalValues: {}, zValue: 0, branchAndBound: nodes, ignoredSettings };
+    }
+    if (lp.status !== 'OPTIMAL') {
+      node.pruned = 'INCOMPLETE';
+      unfinished = unfinished ?? { node, result: lp };
+      continue;
+    }
+
+    node.lpBound = lp.zValue;
+    node.solution = Object.fromEntries(objCoeffs.map((_, j) => [`x${j + 1}`, lp.finalValues[`x${j + 1}`] ?? 0]));
+
+    if (incumbent && !better(lp.zValue, incumbent.result.zValue)) {
+      node.pruned = 'BOUND';
+      continue;
+    }
+
+    // Most fractional integer variable
+    let branchIdx = -1;
+    let bestFrac = 0;
+    kinds.forEach((k, j) => {
+      if (k === 'continuous') return;
+      const v = lp.finalValues[`x${j + 1}`] ?? 0;
+      if (isIntegral(v)) return;
+      const frac = Math.abs(v - Math.floor(v) - 0.5);
+      if (branchIdx === -1 || frac < bestFrac) {
+        branchIdx = j;
+        bestFrac = frac;
+      }
+    });
+
+    if (branchIdx === -1) {
+      node.pruned = 'INTEGER';
+      incumbent = { node, result: lp };
+      continue;
+    }
+
+    const value = lp.finalValues[`x${branchIdx + 1}`];
+    node.branchVar = `x${branchIdx + 1}`;
+    node.branchValue = value;
+    stack.push({ parentId: node.id, bounds: [...bounds, { varIndex: branchIdx, relation: '>=', value: Math.ceil(value) }] });
+    stack.push({ parentId: node.id, bounds: [...bounds, { varIndex: branchIdx, relation: '<=', value: Math.floor(value) }] });
+  }
+
+  // A subtree left unexplored means neither optimality nor infeasibility is proven
+  if (unfinished) {
+    const { node, result } = unfinished;
+    const reason = `El LP del nodo ${node.id} no terminó (${result.errorMessage ?? result.status})`;
+    return {
+      status: result.status,
+      steps: incumbent?.result.steps ?? result.steps,
+      finalValues: incumbent?.result.finalValues ?? {},
+      zValue: incumbent?.result.zValue ?? 0,
+      errorMessage: incumbent
+        ? `${reason}: la mejor solución entera encontrada (Z = ${incumbent.result.zValue}) podría no ser óptima.`
+        : `${reason}: no se puede afirmar que no exista una solución entera.`,
+      branchAndBound: nodes,
+      ignoredSettings
+    };
+  }
+
+  if (!incumbent) {
+    return {
+      status: 'INFEASIBLE',
+      steps: nodes[0]?.steps ?? [],
+      finalValues: {},
+      zValue: 0,
+      errorMessage: 'Ningún nodo del árbol produjo una solución entera factible.',
+      branchAndBound: nodes,
+      ignoredSettings
+    };
+  }
+
+  incumbent.node.isIncumbent = true;
+  const hitLimit = nodes.some(n => n.pruned === 'NODE_LIMIT');
+  return {
+    status: 'OPTIMAL',
+    steps: incumbent.result.steps,
+    finalValues: incumbent.result.finalValues,
+    zValue: incumbent.result.zValue,
+    exactValues: incumbent.result.exactValues,
+    exactZValue: incumbent.result.exactZValue,
+    errorMessage: hitLimit ? `Se alcanzó el límite de ${MAX_NODES} nodos: la mejor solución entera encontrada podría no ser óptima.` : undefined,
+    branchAndBound: nodes,
+    ignoredSettings
+  };
+};
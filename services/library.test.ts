@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createProblem, duplicateProblem, exportLibrary, importLibrary, nextProblemName, renameProblem, summarizeResult
+} from './library';
+import { solveLinearProgram } from './solver';
+import { wyndor } from './fixtures';
+
+const fields = {
+  method: 'SIMPLEX' as const,
+  pivotRule: 'DANTZIG' as const,
+  integerStrategy: 'BRANCH_AND_BOUND' as const,
+  exact: false,
+  model: { type: 'MAX' as const, ...wyndor },
+  variableKinds: ['continuous' as const, 'continuous' as const]
+};
+
+describe('problem library', () => {
+  it('names, renames and duplicates problems', () => {
+    const first = createProblem('Problema 1', fields);
+    let library = [first, createProblem('Wyndor', fields)];
+    expect(nextProblemName(library)).toBe('Problema 2');
+    library = renameProblem(library, first.id, '   ');
+    expect(library[0].name).toBe('Problema 1');
+    library = duplicateProblem(library, first.id);
+    expect(library.map(p => p.name)).toEqual(['Problema 1', 'Wyndor', 'Problema 1 (copia)']);
+    expect(new Set(library.map(p => p.id)).size).toBe(3);
+  });
+
+  it('summarizes a solve with the decision variables only', () => {
+    const summary = summarizeResult(solveLinearProgram('SIMPLEX', 'MAX', wyndor.objCoeffs, wyndor.constraints));
+    expect(summary.status).toBe('OPTIMAL');
+    expect(summary.zValue).toBeCloseTo(36);
+    expect(Object.keys(summary.values).sort()).toEqual(['x1', 'x2']);
+  });
+
+  it('imports an export as copies when the ids clash', () => {
+    const library = [createProblem('Problema 1', fields)];
+    const merged = importLibrary(library, exportLibrary(library));
+    expect(merged).toHaveLength(2);
+    expect(merged[1].id).not.toBe(library[0].id);
+    expect(merged[1].model).toEqual(library[0].model);
+    expect(() => importLibrary(library, '{"problems": []}')).toThrow('problemas válidos');
+  });
+});
@@ -0,0 +1,118 @@
+import {
+  IntegerStrategy, LinearModel, PivotRule, SolveResult, SolverMethod, VariableKind
+} from '../types';
+
+// Saved problems, persisted in localStorage so they survive a page reload.
+
+export interface SolveSummary {
+  status: SolveResult['status'];
+  zValue: number;
+  values: Record<string, number>; // Decision variables only
+  iterations: number;
+}
+
+export interface SavedProblem {
+  id: string;
+  name: string;
+  createdAt: number; // ms since epoch
+  updatedAt: number;
+  method: SolverMethod;
+  pivotRule: PivotRule;
+  integerStrategy: IntegerStrategy;
+  exact: boolean;
+  model: LinearModel;
+  variableKinds: VariableKind[];
+  summary?: SolveSummary; // Last solve of this model
+}
+
+const STORAGE_KEY = 'calcupl.library.v1';
+const EXPORT_VERSION = 1;
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const summarizeResult = (result: SolveResult): SolveSummary => ({
+  status: result.status,
+  zValue: result.zValue,
+  values: Object.fromEntries(Object.entries(result.finalValues).filter(([k]) => k.startsWith('x'))),
+  // Large models solved with the revised simplex keep no tableaux
+  iterations: result.revised?.iterations.length ?? result.steps.length
+});
+
+const isSavedProblem = (p: unknown): p is SavedProblem => {
+  const o = p as SavedProblem;
+  return !!o && typeof o.id === 'string' && typeof o.name === 'string' && typeof o.createdAt === 'number' &&
+    !!o.model && Array.isArray(o.model.objCoeffs) && Array.isArray(o.model.constraints) &&
+    Array.isArray(o.variableKinds);
+};
+
+export const loadLibrary = (): SavedProblem[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const data = raw ? JSON.parse(raw) : [];
+    return Array.isArray(data) ? data.filter(isSavedProblem) : [];
+  } catch {
+    // Corrupt or inaccessible storage: start with an empty library
+    return [];
+  }
+};
+
+export const storeLibrary = (problems: SavedProblem[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(problems));
+  } catch (e) {
+    // Quota exceeded or storage disabled; the library still works for this session
+    console.error(e);
+  }
+};
+
+export const createProblem = (
+  name: string,
+  fields: Omit<SavedProblem, 'id' | 'name' | 'createdAt' | 'updatedAt'>
+): SavedProblem => {
+  const now = Date.now();
+  return { ...fields, id: newId(), name, createdAt: now, updatedAt: now };
+};
+
+// "Problema 4" for the next unnamed problem
+export const nextProblemName = (problems: SavedProblem[]) => {
+  const used = problems
+    .map(p => /^Problema (\d+)$/.exec(p.name))
+    .filter((m): m is RegExpExecArray => m !== null)
+    .map(m => parseInt(m[1], 10));
+  return `Problema ${used.length > 0 ? Math.max(...used) + 1 : problems.length + 1}`;
+};
+
+export const updateProblem = (problems: SavedProblem[], id: string, changes: Partial<Omit<SavedProblem, 'id' | 'createdAt'>>) =>
+  problems.map(p => (p.id === id ? { ...p, ...changes, updatedAt: Date.now() } : p));
+
+export const renameProblem = (problems: SavedProblem[], id: string, name: string) =>
+  updateProblem(problems, id, { name: name.trim() || problems.find(p => p.id === id)?.name || '' });
+
+export const duplicateProblem = (problems: SavedProblem[], id: string) => {
+  const original = problems.find(p => p.id === id);
+  if (!original) return problems;
+  const { id: _id, name, createdAt: _c, updatedAt: _u, ...fields } = original;
+  return [...problems, createProblem(`${name} (copia)`, fields)];
+};
+
+export const deleteProblem = (problems: SavedProblem[], id: string) => problems.filter(p => p.id !== id);
+
+export const exportLibrary = (problems: SavedProblem[]) =>
+  JSON.stringify({ version: EXPORT_VERSION, exportedAt: new Date().toISOString(), problems }, null, 2);
+
+// Merges an exported library into the current one. Entries whose id already
+// exists are imported as new copies instead of overwriting local work.
+export const importLibrary = (problems: SavedProblem[], json: string): SavedProblem[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('El archivo no es un JSON válido.');
+  }
+  const incoming = (data as { problems?: unknown })?.problems;
+  if (!Array.isArray(incoming)) throw new Error('El archivo no contiene una biblioteca de problemas.');
+  const valid = incoming.filter(isSavedProblem);
+  if (valid.length === 0) throw new Error('El archivo no contiene problemas válidos.');
+  const ids = new Set(problems.map(p => p.id));
+  return [...problems, ...valid.map(p => (ids.has(p.id) ? { ...p, id: newId() } : p))];
+};
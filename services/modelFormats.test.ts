@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { LinearModel, VariableKind } from '../types';
+import { exportModelFile, importModelFile, ModelFileFormat } from './modelFormats';
+import { ModelParseError } from './modelParser';
+
+const model: LinearModel = {
+  type: 'MIN',
+  objCoeffs: [2, -3, 1.5],
+  constraints: [
+    { id: 'c-0', coefficients: [1, 1, 0], relation: '>=', rhs: 4 },
+    { id: 'c-1', coefficients: [1, -1, 2], relation: '=', rhs: 1 },
+    { id: 'c-2', coefficients: [0, 4, 1], relation: '<=', rhs: 12 }
+  ],
+  variableNames: ['x1', 'x2', 'x3'],
+  variableBounds: [{ lower: 0, upper: null }, { lower: null, upper: null }, { lower: -2, upper: 5 }]
+};
+const kinds: VariableKind[] = ['integer', 'continuous', 'continuous'];
+
+describe('model files', () => {
+  it.each<[ModelFileFormat, string]>([['LP', 'model.lp'], ['MPS', 'model.mps']])('round trips a model through %s', (format, fileName) => {
+    const imported = importModelFile(fileName, exportModelFile(format, model, kinds));
+    expect(imported.warnings).toEqual([]);
+    expect(imported.type).toBe('MIN');
+    expect(imported.variableNames).toEqual(model.variableNames);
+    expect(imported.objCoeffs).toEqual(model.objCoeffs);
+    expect(imported.constraints.map(c => [c.coefficients, c.relation, c.rhs]))
+      .toEqual(model.constraints.map(c => [c.coefficients, c.relation, c.rhs]));
+    expect(imported.variableBounds).toEqual(model.variableBounds);
+    expect(imported.variableKinds).toEqual(kinds);
+  });
+
+  it('rejects unknown extensions', () => {
+    expect(() => importModelFile('model.txt', '')).toThrow(ModelParseError);
+  });
+});
@@ -0,0 +1,651 @@
+import { Constraint, LinearModel, OptimizationType, Relation, VariableBound, VariableKind } from '../types';
+import { ModelParseError, ParsedModel, defaultVariableNames } from './modelParser';
+import { DEFAULT_BOUND, isDefaultBound } from './bounds';
+
+// Reading and writing of CPLEX LP and MPS (fixed and free) files.
+//
+// Variable bounds map to the model's variableBounds (free, negative and fixed
+// included). Anything that cannot be represented (ranges on the objective, SOS,
+// semi-continuous...) is skipped with a warning instead of failing the whole import.
+
+export interface ImportedModel extends ParsedModel {
+  warnings: string[];
+}
+
+export type ModelFileFormat = 'LP' | 'MPS';
+
+interface Bound {
+  lower: number;
+  upper: number;
+}
+
+// Accumulates what a file declares before it is turned into a ParsedModel.
+interface ModelBuilder {
+  type: OptimizationType;
+  names: string[];
+  objective: Map<string, number>;
+  rows: { name: string; terms: Map<string, number>; relation: Relation; rhs: number }[];
+  bounds: Map<string, Bound>;
+  kinds: Map<string, VariableKind>;
+  warnings: string[];
+}
+
+const createBuilder = (): ModelBuilder => ({
+  type: 'MIN',
+  names: [],
+  objective: new Map(),
+  rows: [],
+  bounds: new Map(),
+  kinds: new Map(),
+  warnings: []
+});
+
+const noteVariable = (b: ModelBuilder, name: string) => {
+  if (!b.names.includes(name)) b.names.push(name);
+};
+
+const boundOf = (b: ModelBuilder, name: string) => {
+  noteVariable(b, name);
+  if (!b.bounds.has(name)) b.bounds.set(name, { lower: 0, upper: Infinity });
+  return b.bounds.get(name)!;
+};
+
+const finishModel = (b: ModelBuilder): ImportedModel => {
+  if (b.names.length === 0) throw new ModelParseError('el archivo no declara variables', 1, 1);
+  const vector = (terms: Map<string, number>) => b.names.map(n => terms.get(n) ?? 0);
+
+  const constraints: Constraint[] = b.rows.map(r => ({
+    id: '',
+    coefficients: vector(r.terms),
+    relation: r.relation,
+    rhs: r.rhs
+  }));
+
+  const variableBounds = b.names.map((name): VariableBound => {
+    const bound = b.bounds.get(name);
+    if (!bound) return DEFAULT_BOUND;
+    // Binary variables already carry x <= 1 in the integer solver
+    const upper = b.kinds.get(name) === 'binary' && bound.upper === 1 ? Infinity : bound.upper;
+    return {
+      lower: Number.isFinite(bound.lower) ? bound.lower : null,
+      upper: Number.isFinite(upper) ? upper : null
+    };
+  });
+
+  if (constraints.length === 0) throw new ModelParseError('el archivo no contiene restricciones', 1, 1);
+
+  return {
+    type: b.type,
+    objCoeffs: vector(b.objective),
+    constraints: constraints.map((c, i) => ({ ...c, id: `c-${i}` })),
+    variableNames: b.names,
+    variableKinds: b.names.map(n => b.kinds.get(n) ?? 'continuous'),
+    variableBounds,
+    warnings: b.warnings
+  };
+};
+
+const parseNumber = (text: string, line: number, column: number) => {
+  const lower = text.toLowerCase();
+  if (/^[+-]?(inf|infinity)$/.test(lower)) return lower.startsWith('-') ? -Infinity : Infinity;
+  const value = Number(text);
+  if (text.trim() === '' || Number.isNaN(value)) throw new ModelParseError(`número inválido "${text}"`, line, column);
+  return value;
+};
+
+// ---------------------------------------------------------------------------
+// CPLEX LP
+
+type LpSection = 'OBJECTIVE' | 'CONSTRAINTS' | 'BOUNDS' | 'GENERAL' | 'BINARY' | 'IGNORED' | 'END';
+
+const LP_SECTIONS: { pattern: RegExp; section: LpSection; sense?: OptimizationType }[] = [
+  { pattern: /^(maximize|maximise|maximum|max)\b/i, section: 'OBJECTIVE', sense: 'MAX' },
+  { pattern: /^(minimize|minimise|minimum|min)\b/i, section: 'OBJECTIVE', sense: 'MIN' },
+  { pattern: /^(subject\s+to|such\s+that|s\.t\.|st)\b:?/i, section: 'CONSTRAINTS' },
+  { pattern: /^(bounds|bound)\b/i, section: 'BOUNDS' },
+  { pattern: /^(generals|general|gen)\b/i, section: 'GENERAL' },
+  { pattern: /^(binaries|binary|bin)\b/i, section: 'BINARY' },
+  { pattern: /^(semi-continuous|semis|semi|sos|pwl|general constraints|lazy constraints|user cuts)\b/i, section: 'IGNORED' },
+  { pattern: /^end\b/i, section: 'END' }
+];
+
+interface LpToken {
+  kind: 'number' | 'name' | 'sign' | 'rel' | 'colon';
+  text: string;
+  line: number;
+  column: number;
+}
+
+const LP_RELATIONS: Record<string, Relation> = {
+  '<=': '<=', '=<': '<=', '<': '<=', '>=': '>=', '=>': '>=', '>': '>=', '=': '='
+};
+
+const LP_NAME = /^[A-Za-z_!"#$%&()/,.;?@'`{}|~][\w!"#$%&()/,.;?@'`{}|~[\]^]*/;
+
+const tokenizeLp = (text: string, line: number, offset: number): LpToken[] => {
+  const tokens: LpToken[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    const column = offset + i + 1;
+    const rest = text.slice(i);
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    const number = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(rest);
+    const infinity = /^(infinity|inf)\b/i.exec(rest);
+    if (number) {
+      tokens.push({ kind: 'number', text: number[0], line, column });
+      i += number[0].length;
+    } else if (infinity) {
+      tokens.push({ kind: 'number', text: infinity[0], line, column });
+      i += infinity[0].length;
+    } else if (ch === '+' || ch === '-') {
+      tokens.push({ kind: 'sign', text: ch, line, column });
+      i++;
+    } else if (ch === '<' || ch === '>' || ch === '=') {
+      const two = text.slice(i, i + 2);
+      const rel = LP_RELATIONS[two] ? two : ch;
+      tokens.push({ kind: 'rel', text: rel, line, column });
+      i += rel.length;
+    } else if (ch === ':') {
+      tokens.push({ kind: 'colon', text: ch, line, column });
+      i++;
+    } else if (ch === '[') {
+      throw new ModelParseError('los términos cuadráticos no están soportados', line, column);
+    } else {
+      const name = LP_NAME.exec(rest);
+      if (!name) throw new ModelParseError(`carácter inesperado "${ch}"`, line, column);
+      tokens.push({ kind: 'name', text: name[0], line, column });
+      i += name[0].length;
+    }
+  }
+  return tokens;
+};
+
+// Reads "[name:] ±coef var ± ..." from tokens[i] until a relation or the end.
+const readLpExpression = (tokens: LpToken[], start: number) => {
+  const terms = new Map<string, number>();
+  const order: string[] = [];
+  let constant = 0;
+  let i = start;
+  while (i < tokens.length && tokens[i].kind !== 'rel') {
+    let sign = 1;
+    while (tokens[i]?.kind === 'sign') {
+      if (tokens[i].text === '-') sign = -sign;
+      i++;
+    }
+    const t = tokens[i];
+    if (!t) {
+      const last = tokens[i - 1];
+      throw new ModelParseError('expresión incompleta', last.line, last.column);
+    }
+    // A label starting a new constraint ends the current expression
+    if (t.kind === 'name' && tokens[i + 1]?.kind === 'colon') break;
+    let coefficient = 1;
+    if (t.kind === 'number') {
+      coefficient = parseNumber(t.text, t.line, t.column);
+      i++;
+      if (tokens[i]?.kind !== 'name' || tokens[i + 1]?.kind === 'colon') {
+        constant += sign * coefficient;
+        continue;
+      }
+    } else if (t.kind !== 'name') {
+      throw new ModelParseError(`"${t.text}" inesperado`, t.line, t.column);
+    }
+    const name = tokens[i].text;
+    if (!terms.has(name)) order.push(name);
+    terms.set(name, (terms.get(name) ?? 0) + sign * coefficient);
+    i++;
+  }
+  return { terms, order, constant, next: i };
+};
+
+const readLpLabel = (tokens: LpToken[], i: number) =>
+  tokens[i]?.kind === 'name' && tokens[i + 1]?.kind === 'colon' ? { label: tokens[i].text, next: i + 2 } : { label: '', next: i };
+
+const readSignedNumber = (tokens: LpToken[], i: number) => {
+  let sign = 1;
+  while (tokens[i]?.kind === 'sign') {
+    if (tokens[i].text === '-') sign = -sign;
+    i++;
+  }
+  const t = tokens[i];
+  if (!t || t.kind !== 'number') {
+    const at = t ?? tokens[i - 1];
+    throw new ModelParseError('se esperaba un número', at.line, at.column + (t ? 0 : at.text.length));
+  }
+  return { value: sign * parseNumber(t.text, t.line, t.column), next: i + 1 };
+};
+
+const parseLpBoundLine = (b: ModelBuilder, tokens: LpToken[]) => {
+  const head = tokens[0];
+  // "x free"
+  if (tokens.length === 2 && tokens[0].kind === 'name' && /^free$/i.test(tokens[1].text)) {
+    boundOf(b, head.text).lower = -Infinity;
+    return;
+  }
+  // "[l <=] x [<= u]" or "x >= l" or "x = v"
+  let i = 0;
+  let lower: { value: number; rel: Relation } | null = null;
+  if (tokens[0].kind !== 'name') {
+    const value = readSignedNumber(tokens, 0);
+    const rel = tokens[value.next];
+    if (!rel || rel.kind !== 'rel') throw new ModelParseError('se esperaba una relación', head.line, head.column);
+    lower = { value: value.value, rel: LP_RELATIONS[rel.text] };
+    i = value.next + 1;
+  }
+  const variable = tokens[i];
+  if (!variable || variable.kind !== 'name') throw new ModelParseError('se esperaba el nombre de una variable', head.line, head.column);
+  const bound = boundOf(b, variable.text);
+  if (lower) {
+    // "l <= x" is a lower bound, "u >= x" an upper bound
+    if (lower.rel === '<=') bound.lower = lower.value;
+    else if (lower.rel === '>=') bound.upper = lower.value;
+    else bound.lower = bound.upper = lower.value;
+  }
+  i++;
+  if (i < tokens.length) {
+    const rel = tokens[i];
+    if (rel.kind !== 'rel') throw new ModelParseError(`"${rel.text}" inesperado`, rel.line, rel.column);
+    const value = readSignedNumber(tokens, i + 1);
+    const relation = LP_RELATIONS[rel.text];
+    if (relation === '<=') bound.upper = value.value;
+    else if (relation === '>=') bound.lower = value.value;
+    else bound.lower = bound.upper = value.value;
+  }
+};
+
+export const parseLpFile = (text: string): ImportedModel => {
+  const b = createBuilder();
+  const sectionTokens: Record<'OBJECTIVE' | 'CONSTRAINTS', LpToken[]> = { OBJECTIVE: [], CONSTRAINTS: [] };
+  let section: LpSection | null = null;
+  let sawObjective = false;
+  // Read after the rows so variables keep the order in which the model uses them
+  const boundLines: LpToken[][] = [];
+  const declarations: { name: string; kind: VariableKind }[] = [];
+
+  for (const [idx, raw] of text.split(/\r?\n/).entries()) {
+    const line = idx + 1;
+    let content = raw.replace(/\\.*$/, '');
+    let offset = 0;
+    if (section === 'END' || !content.trim()) continue;
+
+    const trimmed = content.trimStart();
+    const header = LP_SECTIONS.find(s => s.pattern.test(trimmed));
+    // A bare "max"/"min" inside the constraints would be a variable name, not a header
+    if (header && (header.section !== 'OBJECTIVE' || !sawObjective)) {
+      const match = header.pattern.exec(trimmed)!;
+      offset = content.length - trimmed.length + match[0].length;
+      content = content.slice(offset);
+      section = header.section;
+      if (header.sense) {
+        b.type = header.sense;
+        sawObjective = true;
+      }
+      if (header.section === 'IGNORED') {
+        b.warnings.push(`Línea ${line}: la sección "${match[0]}" no está soportada y se ignoró.`);
+      }
+      if (!content.trim()) continue;
+    }
+
+    if (section === null) throw new ModelParseError('el archivo debe comenzar con "Maximize" o "Minimize"', line, 1);
+    const tokens = tokenizeLp(content, line, offset);
+
+    switch (section) {
+      case 'OBJECTIVE':
+      case 'CONSTRAINTS':
+        sectionTokens[section].push(...tokens);
+        break;
+      case 'BOUNDS':
+        boundLines.push(tokens);
+        break;
+      case 'GENERAL':
+      case 'BINARY': {
+        const kind = section === 'BINARY' ? 'binary' : 'integer';
+        tokens.forEach(t => {
+          if (t.kind !== 'name') throw new ModelParseError(`se esperaba el nombre de una variable, no "${t.text}"`, t.line, t.column);
+          declarations.push({ name: t.text, kind });
+        });
+        break;
+      }
+      case 'IGNORED':
+        break;
+    }
+  }
+
+  if (!sawObjective) throw new ModelParseError('falta la sección "Maximize" o "Minimize"', 1, 1);
+
+  // Objective: "[name:] expression"
+  const objTokens = sectionTokens.OBJECTIVE;
+  const objective = readLpExpression(objTokens, readLpLabel(objTokens, 0).next);
+  if (objective.next < objTokens.length) {
+    const t = objTokens[objective.next];
+    throw new ModelParseError(`"${t.text}" inesperado en la función objetivo`, t.line, t.column);
+  }
+  if (objective.constant !== 0) b.warnings.push('Se ignoró el término constante de la función objetivo.');
+  objective.order.forEach(n => noteVariable(b, n));
+  b.objective = objective.terms;
+
+  // Constraints: "[name:] expression rel rhs", possibly spanning several lines
+  const rowTokens = sectionTokens.CONSTRAINTS;
+  let i = 0;
+  while (i < rowTokens.length) {
+    const { label, next } = readLpLabel(rowTokens, i);
+    const lhs = readLpExpression(rowTokens, next);
+    const rel = rowTokens[lhs.next];
+    if (!rel || rel.kind !== 'rel') {
+      const at = rowTokens[lhs.next] ?? rowTokens[lhs.next - 1];
+      throw new ModelParseError(`la restricción ${label || b.rows.length + 1} no tiene relación`, at.line, at.column);
+    }
+    const rhs = readSignedNumber(rowTokens, lhs.next + 1);
+    lhs.order.forEach(n => noteVariable(b, n));
+    b.rows.push({ name: label, terms: lhs.terms, relation: LP_RELATIONS[rel.text], rhs: rhs.value - lhs.constant });
+    i = rhs.next;
+  }
+
+  boundLines.forEach(tokens => parseLpBoundLine(b, tokens));
+  declarations.forEach(({ name, kind }) => {
+    noteVariable(b, name);
+    b.kinds.set(name, kind);
+  });
+
+  return finishModel(b);
+};
+
+const lpNumber = (v: number) => String(v);
+
+const lpExpression = (coeffs: number[], names: string[]) => {
+  const parts: string[] = [];
+  coeffs.forEach((c, i) => {
+    if (c === 0) return;
+    const sign = c < 0 ? '-' : '+';
+    const abs = Math.abs(c);
+    const term = abs === 1 ? names[i] : `${lpNumber(abs)} ${names[i]}`;
+    parts.push(parts.length === 0 && c > 0 ? term : `${sign} ${term}`);
+  });
+  // LP needs at least one term; a zero coefficient keeps the row valid
+  return parts.length > 0 ? parts.join(' ') : `0 ${names[0]}`;
+};
+
+export const writeLpFile = (model: LinearModel, kinds: VariableKind[] = []) => {
+  const names = model.variableNames ?? defaultVariableNames(model.objCoeffs.length);
+  const lines = [
+    '\\ Modelo exportado desde Calcu PL',
+    model.type === 'MAX' ? 'Maximize' : 'Minimize',
+    ` obj: ${lpExpression(model.objCoeffs, names)}`,
+    'Subject To',
+    ...model.constraints.map((c, i) => ` c${i + 1}: ${lpExpression(c.coefficients, names)} ${c.relation} ${lpNumber(c.rhs)}`)
+  ];
+  const bounds = (model.variableBounds ?? []).flatMap(({ lower, upper }, i) => {
+    if (isDefaultBound({ lower, upper })) return [];
+    if (lower === null && upper === null) return [` ${names[i]} free`];
+    if (lower === upper) return [` ${names[i]} = ${lpNumber(upper!)}`];
+    if (upper === null) return [` ${names[i]} >= ${lpNumber(lower!)}`];
+    return [` ${lower === null ? '-inf' : lpNumber(lower)} <= ${names[i]} <= ${lpNumber(upper)}`];
+  });
+  if (bounds.length > 0) lines.push('Bounds', ...bounds);
+  const integers = names.filter((_, i) => kinds[i] === 'integer');
+  const binaries = names.filter((_, i) => kinds[i] === 'binary');
+  if (integers.length > 0) lines.push('General', ` ${integers.join(' ')}`);
+  if (binaries.length > 0) lines.push('Binary', ` ${binaries.join(' ')}`);
+  lines.push('End');
+  return lines.join('\n') + '\n';
+};
+
+// ---------------------------------------------------------------------------
+// MPS
+
+type MpsSection = 'NAME' | 'OBJSENSE' | 'ROWS' | 'COLUMNS' | 'RHS' | 'RANGES' | 'BOUNDS' | 'ENDATA';
+
+const MPS_SECTIONS: MpsSection[] = ['NAME', 'OBJSENSE', 'ROWS', 'COLUMNS', 'RHS', 'RANGES', 'BOUNDS', 'ENDATA'];
+
+// Fixed MPS field positions (1-based, inclusive): fields 1..6
+const FIXED_FIELDS: [number, number][] = [[2, 3], [5, 12], [15, 22], [25, 36], [40, 47], [50, 61]];
+
+const fixedFields = (line: string) =>
+  FIXED_FIELDS.map(([from, to]) => line.slice(from - 1, to).trim()).filter((f, i, all) =>
+    f !== '' || all.slice(i + 1).some(g => g !== '')
+  );
+
+// Names in fixed MPS may contain spaces, so a line that does not split into a
+// sensible number of fields is read by column position instead.
+const splitMpsLine = (line: string, section: MpsSection, fixed: boolean) => {
+  const free = line.trim().split(/\s+/);
+  if (!fixed) return free;
+  const expected: Partial<Record<MpsSection, number[]>> = {
+    ROWS: [2], COLUMNS: [3, 5], RHS: [2, 3, 4, 5], RANGES: [2, 3, 4, 5], BOUNDS: [3, 4]
+  };
+  const counts = expected[section];
+  if (!counts || counts.includes(free.length) || free.includes("'MARKER'")) return free;
+  return fixedFields(line);
+};
+
+export const parseMpsFile = (text: string, fixed = true): ImportedModel => {
+  const b = createBuilder();
+  const rowTypes = new Map<string, 'N' | 'L' | 'G' | 'E'>();
+  const rowOrder: string[] = [];
+  const rowTerms = new Map<string, Map<string, number>>();
+  const rhs = new Map<string, number>();
+  const ranges = new Map<string, number>();
+  let objectiveRow: string | null = null;
+  let section: MpsSection | null = null;
+  let integerMarker = false;
+  let ended = false;
+
+  for (const [idx, raw] of text.split(/\r?\n/).entries()) {
+    const line = idx + 1;
+    if (ended || !raw.trim() || raw.startsWith('*')) continue;
+
+    // Section headers start in column 1
+    if (!/^\s/.test(raw)) {
+      const [keyword, ...rest] = raw.trim().split(/\s+/);
+      const upper = keyword.toUpperCase() as MpsSection;
+      if (!MPS_SECTIONS.includes(upper)) {
+        b.warnings.push(`Línea ${line}: la sección "${keyword}" no está soportada y se ignoró.`);
+        section = null;
+        continue;
+      }
+      section = upper;
+      if (upper === 'ENDATA') ended = true;
+      // "OBJSENSE MAX" on a single line (free MPS)
+      if (upper === 'OBJSENSE' && rest.length > 0) b.type = /^MAX/i.test(rest[0]) ? 'MAX' : 'MIN';
+      continue;
+    }
+
+    if (section === null) continue; // Inside an unsupported section
+    const fields = splitMpsLine(raw, section, fixed);
+
+    switch (section) {
+      case 'NAME':
+        break;
+      case 'OBJSENSE':
+        b.type = /^MAX/i.test(fields[0]) ? 'MAX' : 'MIN';
+        break;
+      case 'ROWS': {
+        const [type, name] = fields;
+        const upperType = type?.toUpperCase();
+        if (!name || !['N', 'L', 'G', 'E'].includes(upperType)) {
+          throw new ModelParseError(`fila mal formada en ROWS: "${raw.trim()}"`, line, 1);
+        }
+        if (upperType === 'N') {
+          if (objectiveRow) b.warnings.push(`Línea ${line}: la fila libre "${name}" se ignoró; solo se usa la primera como objetivo.`);
+          else objectiveRow = name;
+        } else {
+          rowOrder.push(name);
+        }
+        rowTypes.set(name, upperType as 'N' | 'L' | 'G' | 'E');
+        rowTerms.set(name, new Map());
+        break;
+      }
+      case 'COLUMNS': {
+        if (fields.includes("'MARKER'")) {
+          if (fields.some(f => f.includes('INTORG'))) integerMarker = true;
+          if (fields.some(f => f.includes('INTEND'))) integerMarker = false;
+          break;
+        }
+        const [column, ...pairs] = fields;
+        if (pairs.length !== 2 && pairs.length !== 4) {
+          throw new ModelParseError(`línea de COLUMNS mal formada: "${raw.trim()}"`, line, 1);
+        }
+        noteVariable(b, column);
+        if (integerMarker && !b.kinds.has(column)) b.kinds.set(column, 'integer');
+        for (let k = 0; k < pairs.length; k += 2) {
+          const row = pairs[k];
+          const terms = rowTerms.get(row);
+          if (!terms) throw new ModelParseError(`la fila "${row}" no está declarada en ROWS`, line, raw.indexOf(row) + 1);
+          terms.set(column, (terms.get(column) ?? 0) + parseNumber(pairs[k + 1], line, raw.indexOf(pairs[k + 1]) + 1));
+        }
+        break;
+      }
+      case 'RHS':
+      case 'RANGES': {
+        // The set name is optional in free MPS
+        const pairs = fields.length % 2 === 1 ? fields.slice(1) : fields;
+        const target = section === 'RHS' ? rhs : ranges;
+        for (let k = 0; k < pairs.length; k += 2) {
+          const row = pairs[k];
+          if (!rowTypes.has(row)) throw new ModelParseError(`la fila "${row}" no está declarada en ROWS`, line, raw.indexOf(row) + 1);
+          const value = parseNumber(pairs[k + 1], line, raw.indexOf(pairs[k + 1]) + 1);
+          if (row === objectiveRow) {
+            b.warnings.push(`Línea ${line}: se ignoró el ${section === 'RHS' ? 'término constante' : 'rango'} de la fila objetivo.`);
+            continue;
+          }
+          target.set(row, value);
+        }
+        break;
+      }
+      case 'BOUNDS': {
+        const type = fields[0].toUpperCase();
+        // "UP BND x 4" or, without set name, "UP x 4"
+        const hasValue = !['FR', 'MI', 'PL', 'BV'].includes(type);
+        const rest = fields.slice(1);
+        const column = hasValue ? rest[rest.length - 2] : rest[rest.length - 1];
+        const value = hasValue ? parseNumber(rest[rest.length - 1], line, raw.lastIndexOf(rest[rest.length - 1]) + 1) : 0;
+        if (!column) throw new ModelParseError(`cota mal formada: "${raw.trim()}"`, line, 1);
+        const bound = boundOf(b, column);
+        switch (type) {
+          case 'UP': bound.upper = value; break;
+          case 'LO': bound.lower = value; break;
+          case 'FX': bound.lower = bound.upper = value; break;
+          case 'FR': bound.lower = -Infinity; break;
+          case 'MI': bound.lower = -Infinity; break;
+          case 'PL': bound.upper = Infinity; break;
+          case 'BV': b.kinds.set(column, 'binary'); bound.upper = 1; break;
+          case 'LI': b.kinds.set(column, 'integer'); bound.lower = value; break;
+          case 'UI': b.kinds.set(column, 'integer'); bound.upper = value; break;
+          default:
+            b.warnings.push(`Línea ${line}: el tipo de cota "${type}" no está soportado y se ignoró.`);
+        }
+        break;
+      }
+    }
+  }
+
+  if (!objectiveRow) throw new ModelParseError('falta una fila N (función objetivo) en ROWS', 1, 1);
+  b.objective = rowTerms.get(objectiveRow)!;
+
+  const RELATION_OF: Record<'L' | 'G' | 'E', Relation> = { L: '<=', G: '>=', E: '=' };
+  rowOrder.forEach(name => {
+    const type = rowTypes.get(name) as 'L' | 'G' | 'E';
+    const value = rhs.get(name) ?? 0;
+    const terms = rowTerms.get(name)!;
+    b.rows.push({ name, terms, relation: RELATION_OF[type], rhs: value });
+
+    // A range R turns the row into an interval; the second side becomes its own row
+    const range = ranges.get(name);
+    if (range === undefined) return;
+    if (type === 'L') b.rows.push({ name, terms, relation: '>=', rhs: value - Math.abs(range) });
+    else if (type === 'G') b.rows.push({ name, terms, relation: '<=', rhs: value + Math.abs(range) });
+    else {
+      const row = b.rows[b.rows.length - 1];
+      row.relation = range > 0 ? '>=' : '<=';
+      b.rows.push({ name, terms, relation: range > 0 ? '<=' : '>=', rhs: value + range });
+    }
+  });
+
+  return finishModel(b);
+};
+
+const padField = (text: string, width: number) => text.padEnd(width);
+
+export const writeMpsFile = (model: LinearModel, kinds: VariableKind[] = []) => {
+  const names = model.variableNames ?? defaultVariableNames(model.objCoeffs.length);
+  const rowNames = model.constraints.map((_, i) => `c${i + 1}`);
+  // Fixed columns only fit 8-character names; longer ones need the free format
+  const bounds = model.variableBounds ?? [];
+  const numbers = [
+    ...model.objCoeffs,
+    ...model.constraints.flatMap(c => [...c.coefficients, c.rhs]),
+    ...bounds.flatMap(b => [b.lower ?? 0, b.upper ?? 0])
+  ].map(String);
+  const fixed = names.every(n => n.length <= 8 && !/\s/.test(n)) && numbers.every(v => v.length <= 12);
+  const record = (f1: string, f2: string, f3 = '', f4 = '', f5 = '', f6 = '') => {
+    if (!fixed) return ` ${[f1, f2, f3, f4, f5, f6].filter(f => f !== '').join(' ')}`;
+    const line = ` ${padField(f1, 2)} ${padField(f2, 8)}  ${padField(f3, 8)}  ${padField(f4, 12)}   ${padField(f5, 8)}  ${f6}`;
+    return line.trimEnd();
+  };
+  const REL_TYPE: Record<Relation, string> = { '<=': 'L', '>=': 'G', '=': 'E' };
+
+  const lines = ['NAME          CALCUPL'];
+  if (model.type === 'MAX') lines.push('OBJSENSE', '    MAX');
+  lines.push('ROWS', record('N', 'obj'));
+  model.constraints.forEach((c, i) => lines.push(record(REL_TYPE[c.relation], rowNames[i])));
+
+  lines.push('COLUMNS');
+  let inInteger = false;
+  let markers = 0;
+  names.forEach((name, j) => {
+    const isInteger = kinds[j] === 'integer' || kinds[j] === 'binary';
+    if (isInteger !== inInteger) {
+      lines.push(record('', `MARKER${markers++}`, "'MARKER'", '', isInteger ? "'INTORG'" : "'INTEND'"));
+      inInteger = isInteger;
+    }
+    const entries: [string, number][] = [['obj', model.objCoeffs[j]]];
+    model.constraints.forEach((c, i) => entries.push([rowNames[i], c.coefficients[j]]));
+    const nonZero = entries.filter(([, v]) => v !== 0);
+    // A column with no entries would be dropped by readers
+    if (nonZero.length === 0) nonZero.push(['obj', 0]);
+    nonZero.forEach(([row, v]) => lines.push(record('', name, row, String(v))));
+  });
+  if (inInteger) lines.push(record('', `MARKER${markers}`, "'MARKER'", '', "'INTEND'"));
+
+  lines.push('RHS');
+  model.constraints.forEach((c, i) => {
+    if (c.rhs !== 0) lines.push(record('', 'RHS', rowNames[i], String(c.rhs)));
+  });
+
+  const boundRecords = names.flatMap((name, j) => {
+    if (kinds[j] === 'binary') return [record('BV', 'BND', name)];
+    const { lower, upper } = bounds[j] ?? DEFAULT_BOUND;
+    if (isDefaultBound({ lower, upper })) return [];
+    if (lower === null && upper === null) return [record('FR', 'BND', name)];
+    if (lower !== null && lower === upper) return [record('FX', 'BND', name, String(lower))];
+    return [
+      lower === null ? record('MI', 'BND', name) : lower !== 0 ? record('LO', 'BND', name, String(lower)) : null,
+      upper === null ? null : record('UP', 'BND', name, String(upper))
+    ].filter((r): r is string => r !== null);
+  });
+  if (boundRecords.length > 0) lines.push('BOUNDS', ...boundRecords);
+  lines.push('ENDATA');
+  return lines.join('\n') + '\n';
+};
+
+// ---------------------------------------------------------------------------
+
+export const formatOfFile = (fileName: string): ModelFileFormat | null => {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'lp') return 'LP';
+  if (ext === 'mps' || ext === 'fixmps' || ext === 'freemps') return 'MPS';
+  return null;
+};
+
+export const importModelFile = (fileName: string, text: string): ImportedModel => {
+  const format = formatOfFile(fileName);
+  if (!format) throw new ModelParseError(`formato no reconocido para "${fileName}" (use .lp o .mps)`, 1, 1);
+  return format === 'LP' ? parseLpFile(text) : parseMpsFile(text, !fileName.toLowerCase().endsWith('.freemps'));
+};
+
+export const exportModelFile = (format: ModelFileFormat, model: LinearModel, kinds: VariableKind[] = []) =>
+  format === 'LP' ? writeLpFile(model, kinds) : writeMpsFile(model, kinds);
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { formatModel, ModelParseError, parseModel } from './modelParser';
+
+describe('parseModel', () => {
+  it('reads objective, constraints, domains and bounds', () => {
+    const model = parseModel('max z = 3x1 + 5x2\ns.t.\nx1 <= 4\n2*x2 + 1 <= 13\n3x1 + 2x2 <= 18\nint x1\nbound 2 <= x2 <= 10');
+    expect(model.type).toBe('MAX');
+    expect(model.objCoeffs).toEqual([3, 5]);
+    expect(model.constraints.map(c => [c.coefficients, c.relation, c.rhs])).toEqual([
+      [[1, 0], '<=', 4], [[0, 2], '<=', 12], [[3, 2], '<=', 18]
+    ]);
+    expect(model.variableKinds).toEqual(['integer', 'continuous']);
+    expect(model.variableBounds[1]).toEqual({ lower: 2, upper: 10 });
+  });
+
+  it('reads exponent notation in coefficients', () => {
+    const model = parseModel('min 1e3x1 + 2.5E-1 x2\ns.t.\nx1 + x2 >= 1e2');
+    expect(model.objCoeffs).toEqual([1000, 0.25]);
+    expect(model.variableNames).toEqual(['x1', 'x2']);
+    expect(model.constraints[0].rhs).toBe(100);
+  });
+
+  it.each(['x0', 'x01'])('rejects %s instead of dropping it', name => {
+    const parse = () => parseModel(`max x1 + ${name}\ns.t.\nx1 <= 4`);
+    expect(parse).toThrow(ModelParseError);
+    expect(parse).toThrow(`Línea 1, columna 10: "${name}"`);
+  });
+
+  it.each(['<', '>'])('rejects the strict inequality %s', rel => {
+    expect(() => parseModel(`max x1\ns.t.\nx1 + x2 ${rel} 4`)).toThrow(`Línea 3, columna 9: desigualdad estricta "${rel}"`);
+  });
+
+  it('points at the offending token', () => {
+    expect(() => parseModel('max 3x1\ns.t.\nx1 <= 4 $')).toThrow('Línea 3, columna 9');
+  });
+
+  it('round trips through formatModel', () => {
+    const text = 'max z = 3x1 + 5x2\ns.t.\nx1 <= 4\n3x1 + 2x2 <= 18\nfree x2';
+    const model = parseModel(text);
+    expect(parseModel(formatModel(model))).toEqual(model);
+  });
+});
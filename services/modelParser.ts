@@ -0,0 +1,411 @@
+import { Constraint, LinearModel, OptimizationType, Relation, VariableBound, VariableKind } from '../types';
+import { DEFAULT_BOUND, isDefaultBound } from './bounds';
+
+// Text form of a model:
+//
+//   max z = 3x1 + 5x2
+//   s.t.
+//   x1 <= 4
+//   3x1 + 2x2 <= 18
+//   int x1            (optional domain lines: int / bin)
+//   free x2           (optional bound lines: free / bound)
+//   bound 2 <= x3 <= 10
+//
+// Both sides of a constraint may hold variables and constants. Lines such as
+// "x1, x2 >= 0" only restate nonnegativity and are skipped. A bound line sets
+// only the sides it names: the other keeps its default (x ≥ 0), and "-inf"
+// removes a side, as in "bound -inf <= x4 <= 0". Numbers may use exponent
+// notation, so "1e3x1" is 1000·x1; write "1 e3x1" or "1*e3x1" for a variable
+// named e3x1.
+
+export interface ParsedModel extends LinearModel {
+  variableNames: string[];
+  variableKinds: VariableKind[];
+  variableBounds: VariableBound[];
+}
+
+export class ModelParseError extends Error {
+  constructor(message: string, public line: number, public column: number) {
+    super(`Línea ${line}, columna ${column}: ${message}`);
+    this.name = 'ModelParseError';
+  }
+}
+
+type TokenKind = 'number' | 'ident' | 'op' | 'rel' | 'comma' | 'colon';
+
+interface Token {
+  kind: TokenKind;
+  text: string;
+  column: number; // 1-based
+}
+
+const OBJECTIVE_KEYWORDS: Record<string, OptimizationType> = {
+  max: 'MAX', maximize: 'MAX', maximizar: 'MAX', maximise: 'MAX',
+  min: 'MIN', minimize: 'MIN', minimizar: 'MIN', minimise: 'MIN'
+};
+
+const SUBJECT_TO = /^(s\.?\s*t\.?|s\.?\s*a\.?|subject\s+to|sujeto\s+a)\s*:?$/i;
+
+const KIND_KEYWORDS: Record<string, VariableKind> = {
+  int: 'integer', integer: 'integer', entera: 'integer', enteras: 'integer',
+  bin: 'binary', binary: 'binary', binaria: 'binary', binarias: 'binary'
+};
+
+const FREE_KEYWORDS = ['free', 'libre', 'libres'];
+const BOUND_KEYWORDS = ['bound', 'cota'];
+const INFINITY_WORDS = ['inf', 'infinity', 'infinito'];
+
+// A lone "<" or ">" is rejected in tokenize: the simplex has no strict inequalities
+const RELATIONS: Record<string, Relation> = {
+  '<=': '<=', '=<': '<=', '≤': '<=',
+  '>=': '>=', '=>': '>=', '≥': '>=',
+  '=': '=', '==': '='
+};
+
+const DEFAULT_NAME = /^x(\d+)$/;
+
+const tokenize = (text: string, line: number): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    const column = i + 1;
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (/[0-9.]/.test(ch)) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(text.slice(i));
+      if (!match) throw new ModelParseError(`número mal formado "${ch}"`, line, column);
+      tokens.push({ kind: 'number', text: match[0], column });
+      i += match[0].length;
+    } else if (/[A-Za-z_À-ɏ]/.test(ch)) {
+      const match = /^[A-Za-z_À-ɏ][\wÀ-ɏ]*/.exec(text.slice(i))!;
+      tokens.push({ kind: 'ident', text: match[0], column });
+      i += match[0].length;
+    } else if (ch === '+' || ch === '-' || ch === '−' || ch === '*' || ch === '·') {
+      tokens.push({ kind: 'op', text: ch === '−' ? '-' : ch === '·' ? '*' : ch, column });
+      i++;
+    } else if (ch === '<' || ch === '>' || ch === '=' || ch === '≤' || ch === '≥') {
+      const two = text.slice(i, i + 2);
+      const rel = RELATIONS[two] ? two : ch;
+      if (!RELATIONS[rel]) {
+        throw new ModelParseError(`desigualdad estricta "${rel}": use "${rel}=" (el simplex solo trabaja con ≤, ≥ o =)`, line, column);
+      }
+      tokens.push({ kind: 'rel', text: rel, column });
+      i += rel.length;
+    } else if (ch === ',') {
+      tokens.push({ kind: 'comma', text: ch, column });
+      i++;
+    } else if (ch === ':') {
+      tokens.push({ kind: 'colon', text: ch, column });
+      i++;
+    } else {
+      throw new ModelParseError(`carácter inesperado "${ch}"`, line, column);
+    }
+  }
+  return tokens;
+};
+
+interface LinearExpression {
+  terms: Map<string, number>;
+  constant: number;
+}
+
+// Parses "3x1 - 2*x2 + 5" from tokens[start] up to the end or the first relation.
+const parseExpression = (tokens: Token[], start: number, line: number, lineLength: number) => {
+  const expr: LinearExpression = { terms: new Map(), constant: 0 };
+  const order: string[] = [];
+  let i = start;
+  let first = true;
+
+  while (i < tokens.length && tokens[i].kind !== 'rel') {
+    let sign = 1;
+    if (tokens[i].kind === 'op' && (tokens[i].text === '+' || tokens[i].text === '-')) {
+      sign = tokens[i].text === '-' ? -1 : 1;
+      i++;
+    } else if (!first) {
+      throw new ModelParseError(`se esperaba "+" o "-" antes de "${tokens[i].text}"`, line, tokens[i].column);
+    }
+    first = false;
+
+    const termStart = tokens[i];
+    if (!termStart || termStart.kind === 'rel') {
+      throw new ModelParseError('falta un término después del signo', line, termStart ? termStart.column : lineLength + 1);
+    }
+
+    let coefficient = 1;
+    let hasNumber = false;
+    if (termStart.kind === 'number') {
+      coefficient = parseFloat(termStart.text);
+      hasNumber = true;
+      i++;
+      if (tokens[i]?.kind === 'op' && tokens[i].text === '*') {
+        i++;
+        if (tokens[i]?.kind !== 'ident') {
+          throw new ModelParseError('se esperaba una variable después de "*"', line, tokens[i] ? tokens[i].column : lineLength + 1);
+        }
+      }
+    }
+
+    if (tokens[i]?.kind === 'ident') {
+      const name = tokens[i].text;
+      if (!expr.terms.has(name)) order.push(name);
+      expr.terms.set(name, (expr.terms.get(name) ?? 0) + sign * coefficient);
+      i++;
+    } else if (hasNumber) {
+      expr.constant += sign * coefficient;
+    } else {
+      throw new ModelParseError(`término inesperado "${termStart.text}"`, line, termStart.column);
+    }
+  }
+
+  if (first) {
+    const at = tokens[start];
+    throw new ModelParseError('expresión vacía', line, at ? at.column : lineLength + 1);
+  }
+  return { expr, order, next: i };
+};
+
+const isNonNegativity = (tokens: Token[]) => {
+  // "x1, x2, x3 >= 0"
+  const relIndex = tokens.findIndex(t => t.kind === 'rel');
+  if (relIndex < 1 || RELATIONS[tokens[relIndex].text] !== '>=') return false;
+  const rhs = tokens.slice(relIndex + 1);
+  if (rhs.length !== 1 || rhs[0].kind !== 'number' || parseFloat(rhs[0].text) !== 0) return false;
+  return tokens.slice(0, relIndex).every((t, i) => (i % 2 === 0 ? t.kind === 'ident' : t.kind === 'comma'));
+};
+
+// "x1, x2, x3" after a declaration keyword
+const declaredNames = (tokens: Token[], line: number) =>
+  tokens.slice(1).flatMap((t, i) => {
+    const expected = i % 2 === 0 ? 'ident' : 'comma';
+    if (t.kind !== expected) {
+      throw new ModelParseError(expected === 'ident' ? 'se esperaba un nombre de variable' : 'se esperaba ","', line, t.column);
+    }
+    return t.kind === 'ident' ? [t.text] : [];
+  });
+
+// A variable, a number or a signed number/inf: "bound - x1 <= 3" stays a constraint on a variable named "bound"
+const startsBound = (t?: Token, next?: Token) =>
+  t?.kind === 'ident' || t?.kind === 'number' ||
+  (t?.kind === 'op' && (next?.kind === 'number' || (next?.kind === 'ident' && INFINITY_WORDS.includes(next.text.toLowerCase()))));
+
+// "bound 2 <= x3 <= 10", "bound x3 >= 2", "bound x3 = 5"; ±inf becomes null
+const parseBoundLine = (tokens: Token[], line: number, lineLength: number, bounds: Map<string, VariableBound>) => {
+  const readValue = (i: number) => {
+    let sign = 1;
+    if (tokens[i]?.kind === 'op' && (tokens[i].text === '+' || tokens[i].text === '-')) {
+      sign = tokens[i].text === '-' ? -1 : 1;
+      i++;
+    }
+    const t = tokens[i];
+    if (t?.kind === 'number') return { value: sign * parseFloat(t.text), next: i + 1 };
+    if (t?.kind === 'ident' && INFINITY_WORDS.includes(t.text.toLowerCase())) return { value: sign * Infinity, next: i + 1 };
+    throw new ModelParseError('se esperaba un número o "inf"', line, t ? t.column : lineLength + 1);
+  };
+  const readRelation = (i: number) => {
+    if (tokens[i]?.kind !== 'rel') throw new ModelParseError('falta la relación (<=, >= o =)', line, tokens[i] ? tokens[i].column : lineLength + 1);
+    return RELATIONS[tokens[i].text];
+  };
+  const finite = (v: number) => (Number.isFinite(v) ? v : null);
+
+  // Normalized to a list of "name relation value" pieces
+  const pieces: { relation: Relation; value: number }[] = [];
+  let name: Token;
+  if (tokens[1]?.kind === 'ident' && !INFINITY_WORDS.includes(tokens[1].text.toLowerCase())) {
+    name = tokens[1];
+    const relation = readRelation(2);
+    const { value, next } = readValue(3);
+    pieces.push({ relation, value });
+    if (next < tokens.length) throw new ModelParseError(`"${tokens[next].text}" inesperado`, line, tokens[next].column);
+  } else {
+    const first = readValue(1);
+    const relation = readRelation(first.next);
+    // "l <= x" reads as "x >= l"
+    pieces.push({ relation: relation === '<=' ? '>=' : relation === '>=' ? '<=' : '=', value: first.value });
+    name = tokens[first.next + 1];
+    if (name?.kind !== 'ident') throw new ModelParseError('se esperaba un nombre de variable', line, name ? name.column : lineLength + 1);
+    if (first.next + 2 < tokens.length) {
+      const second = readRelation(first.next + 2);
+      const { value, next } = readValue(first.next + 3);
+      pieces.push({ relation: second, value });
+      if (next < tokens.length) throw new ModelParseError(`"${tokens[next].text}" inesperado`, line, tokens[next].column);
+    }
+  }
+
+  const bound = { ...(bounds.get(name.text) ?? DEFAULT_BOUND) };
+  pieces.forEach(({ relation, value }) => {
+    if (relation !== '<=') bound.lower = finite(value);
+    if (relation !== '>=') bound.upper = finite(value);
+  });
+  bounds.set(name.text, bound);
+  return name.text;
+};
+
+export const parseModel = (text: string): ParsedModel => {
+  const lines = text.split(/\r?\n/);
+  let type: OptimizationType | null = null;
+  let objective: LinearExpression | null = null;
+  const rows: { expr: LinearExpression; relation: Relation; rhs: number }[] = [];
+  const appearance: string[] = [];
+  const kinds = new Map<string, VariableKind>();
+  const bounds = new Map<string, VariableBound>();
+  const noteNames = (names: string[]) => names.forEach(n => {
+    if (!appearance.includes(n)) appearance.push(n);
+  });
+  // Where each identifier first shows up, to point errors found after parsing at it
+  const firstSeen = new Map<string, { line: number; column: number }>();
+
+  for (const [idx, raw] of lines.entries()) {
+    const line = idx + 1;
+    const content = raw.replace(/(#|\/\/).*$/, '');
+    const trimmed = content.trim();
+    if (!trimmed || SUBJECT_TO.test(trimmed)) continue;
+
+    const tokens = tokenize(content, line);
+    const head = tokens[0];
+    tokens.forEach(t => {
+      if (t.kind === 'ident' && !firstSeen.has(t.text)) firstSeen.set(t.text, { line, column: t.column });
+    });
+
+    // Objective
+    if (head.kind === 'ident' && OBJECTIVE_KEYWORDS[head.text.toLowerCase()]) {
+      if (objective) throw new ModelParseError('la función objetivo ya fue definida', line, head.column);
+      type = OBJECTIVE_KEYWORDS[head.text.toLowerCase()];
+      let start = 1;
+      if (tokens[start]?.kind === 'colon') start++;
+      // Optional "z =" in front of the expression
+      if (tokens[start]?.kind === 'ident' && tokens[start + 1]?.kind === 'rel' && tokens[start + 1].text === '=') start += 2;
+      const { expr, order, next } = parseExpression(tokens, start, line, content.length);
+      if (next < tokens.length) {
+        throw new ModelParseError(`"${tokens[next].text}" no puede aparecer en la función objetivo`, line, tokens[next].column);
+      }
+      if (expr.constant !== 0) {
+        throw new ModelParseError('la función objetivo no admite términos constantes', line, tokens[start]?.column ?? head.column);
+      }
+      objective = expr;
+      noteNames(order);
+      continue;
+    }
+
+    if (!objective) {
+      throw new ModelParseError('el modelo debe comenzar con "max" o "min"', line, head.column);
+    }
+
+    // Domain declarations: "int x1, x2" / "bin y"
+    if (head.kind === 'ident' && KIND_KEYWORDS[head.text.toLowerCase()] && tokens[1]?.kind === 'ident') {
+      const kind = KIND_KEYWORDS[head.text.toLowerCase()];
+      const names = declaredNames(tokens, line);
+      names.forEach(n => kinds.set(n, kind));
+      noteNames(names);
+      continue;
+    }
+
+    // Bound declarations: "free x2" / "bound 2 <= x3 <= 10"
+    if (head.kind === 'ident' && FREE_KEYWORDS.includes(head.text.toLowerCase()) && tokens[1]?.kind === 'ident') {
+      const names = declaredNames(tokens, line);
+      names.forEach(n => bounds.set(n, { lower: null, upper: null }));
+      noteNames(names);
+      continue;
+    }
+    if (head.kind === 'ident' && BOUND_KEYWORDS.includes(head.text.toLowerCase()) && startsBound(tokens[1], tokens[2])) {
+      noteNames([parseBoundLine(tokens, line, content.length, bounds)]);
+      continue;
+    }
+
+    if (isNonNegativity(tokens)) continue;
+
+    // Constraint, with an optional "label:" that is discarded
+    let start = 0;
+    if (head.kind === 'ident' && tokens[1]?.kind === 'colon') start = 2;
+    const left = parseExpression(tokens, start, line, content.length);
+    const relToken = tokens[left.next];
+    if (!relToken) {
+      throw new ModelParseError('falta la relación (<=, >= o =)', line, content.length + 1);
+    }
+    const relation = RELATIONS[relToken.text];
+    const right = parseExpression(tokens, left.next + 1, line, content.length);
+    if (right.next < tokens.length) {
+      throw new ModelParseError(`"${tokens[right.next].text}" inesperado`, line, tokens[right.next].column);
+    }
+
+    // Move every variable to the left and every constant to the right
+    const terms = new Map(left.expr.terms);
+    right.expr.terms.forEach((v, name) => terms.set(name, (terms.get(name) ?? 0) - v));
+    rows.push({ expr: { terms, constant: 0 }, relation, rhs: right.expr.constant - left.expr.constant });
+    noteNames([...left.order, ...right.order]);
+  }
+
+  if (!objective || !type) throw new ModelParseError('falta la función objetivo ("max ..." o "min ...")', 1, 1);
+  if (rows.length === 0) throw new ModelParseError('el modelo no tiene restricciones', lines.length, 1);
+
+  // x1..xn keep their index (a missing xk becomes a zero column); other names follow first appearance
+  let variableNames: string[];
+  if (appearance.every(n => DEFAULT_NAME.test(n))) {
+    // x0 would have no column, and x01 would silently share x1's
+    const stray = appearance.find(n => n.startsWith('x0'));
+    if (stray) {
+      const at = firstSeen.get(stray)!;
+      throw new ModelParseError(`"${stray}" no es válido: los índices de variable comienzan en x1, sin ceros a la izquierda`, at.line, at.column);
+    }
+    const count = Math.max(...appearance.map(n => parseInt(DEFAULT_NAME.exec(n)![1], 10)));
+    variableNames = Array.from({ length: count }, (_, i) => `x${i + 1}`);
+  } else {
+    variableNames = appearance;
+  }
+
+  const toVector = (terms: Map<string, number>) => variableNames.map(n => terms.get(n) ?? 0);
+  return {
+    type,
+    objCoeffs: toVector(objective.terms),
+    constraints: rows.map((r, i): Constraint => ({
+      id: `c-${i}`,
+      coefficients: toVector(r.expr.terms),
+      relation: r.relation,
+      rhs: r.rhs
+    })),
+    variableNames,
+    variableKinds: variableNames.map(n => kinds.get(n) ?? 'continuous'),
+    variableBounds: variableNames.map(n => bounds.get(n) ?? DEFAULT_BOUND)
+  };
+};
+
+export const defaultVariableNames = (count: number) => Array.from({ length: count }, (_, i) => `x${i + 1}`);
+
+const formatExpression = (coeffs: number[], names: string[]) => {
+  const parts: string[] = [];
+  coeffs.forEach((c, i) => {
+    if (c === 0) return;
+    const abs = Math.abs(c);
+    const sign = c < 0 ? '-' : '+';
+    const glue = DEFAULT_NAME.test(names[i]) ? '' : ' ';
+    const term = abs === 1 ? names[i] : `${abs}${glue}${names[i]}`;
+    parts.push(parts.length === 0 ? (c < 0 ? `-${term}` : term) : `${sign} ${term}`);
+  });
+  return parts.length > 0 ? parts.join(' ') : '0';
+};
+
+// Inverse of parseModel, used to fill the text view from the grid.
+export const formatModel = (model: LinearModel, kinds: VariableKind[] = []) => {
+  const names = model.variableNames ?? defaultVariableNames(model.objCoeffs.length);
+  const lines = [
+    `${model.type === 'MAX' ? 'max' : 'min'} z = ${formatExpression(model.objCoeffs, names)}`,
+    's.t.',
+    ...model.constraints.map(c => `${formatExpression(c.coefficients, names)} ${c.relation} ${c.rhs}`)
+  ];
+  const declare = (kind: VariableKind, keyword: string) => {
+    const list = names.filter((_, i) => kinds[i] === kind);
+    if (list.length > 0) lines.push(`${keyword} ${list.join(', ')}`);
+  };
+  declare('integer', 'int');
+  declare('binary', 'bin');
+  const free = names.filter((_, i) => model.variableBounds?.[i]?.lower === null && model.variableBounds[i].upper === null);
+  if (free.length > 0) lines.push(`free ${free.join(', ')}`);
+  model.variableBounds?.forEach(({ lower, upper }, i) => {
+    if (isDefaultBound({ lower, upper }) || (lower === null && upper === null)) return;
+    if (lower === upper) lines.push(`bound ${names[i]} = ${lower}`);
+    else if (upper === null) lines.push(`bound ${names[i]} >= ${lower}`);
+    else if (lower === 0) lines.push(`bound ${names[i]} <= ${upper}`);
+    else lines.push(`bound ${lower ?? '-inf'} <= ${names[i]} <= ${upper}`);
+  });
+  return lines.join('\n');
+};
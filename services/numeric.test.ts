@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { bigMField, floatField } from './numeric';
+import { solveLinearProgram } from './solver';
+import { row } from './fixtures';
+
+describe('bigMField', () => {
+  const F = bigMField(floatField);
+  const M = F.bigM!;
+
+  it('orders values by their M part first', () => {
+    // 4 − M < −1000 < M − 10⁶
+    const fourMinusM = F.sub(F.fromNumber(4), M);
+    expect(F.compare(fourMinusM, F.fromNumber(-1000))).toBeLessThan(0);
+    expect(F.sign(F.sub(M, F.fromNumber(1e6)))).toBe(1);
+    expect(F.mCoefficient!(F.mul(F.fromNumber(3), fourMinusM))).toBe(-3);
+  });
+});
+
+describe('symbolic Big M', () => {
+  it('solves models whose coefficients dwarf a numeric M', () => {
+    // min 200000x1 + 300000x2, x1 + x2 ≥ 4, x1 − x2 = 1: optimum at (2.5, 1.5)
+    const rows = [row([1, 1], '>=', 4, 0), row([1, -1], '=', 1, 1)];
+    const result = solveLinearProgram('BIG_M', 'MIN', [200000, 300000], rows);
+    expect(result.status).toBe('OPTIMAL');
+    expect(result.zValue).toBeCloseTo(950000);
+    // Row 0 of the first tableau shows the M parts separately
+    expect(result.steps[0].tableau[0].mCoefficients?.slice(1, 3)).toEqual([-2, 0]);
+  });
+});
@@ -0,0 +1,112 @@
+import { FractionValue } from '../types';
+import {
+  Rational, RATIONAL_ONE, RATIONAL_ZERO, addR, compareR, divR, floorR, mulR, negR,
+  rationalFromNumber, rationalToFraction, rationalToNumber, signR, subR
+} from './rational';
+
+// Arithmetic used by the pivot loop. The solver is written against this
+// interface so the same code runs with doubles or with exact fractions.
+export interface NumericField<T> {
+  exact: boolean;
+  zero: T;
+  one: T;
+  fromNumber: (n: number) => T;
+  add: (a: T, b: T) => T;
+  sub: (a: T, b: T) => T;
+  mul: (a: T, b: T) => T;
+  div: (a: T, b: T) => T;
+  neg: (a: T) => T;
+  floor: (a: T) => T;
+  // Sign with the field's tolerance (doubles treat |x| < 1e-9 as zero).
+  sign: (a: T) => -1 | 0 | 1;
+  compare: (a: T, b: T) => number;
+  toNumber: (a: T) => number;
+  toFraction?: (a: T) => FractionValue;
+  // Only symbolic Big M fields: the M constant and the M part of a value
+  // (toNumber/toFraction then return the constant part).
+  bigM?: T;
+  mCoefficient?: (a: T) => number;
+  mFraction?: (a: T) => FractionValue;
+}
+
+const EPS = 1e-9;
+
+export const floatField: NumericField<number> = {
+  exact: false,
+  zero: 0,
+  one: 1,
+  fromNumber: n => n,
+  add: (a, b) => a + b,
+  sub: (a, b) => a - b,
+  mul: (a, b) => a * b,
+  div: (a, b) => a / b,
+  neg: a => -a,
+  // Values within tolerance of an integer count as that integer
+  floor: a => Math.abs(a - Math.round(a)) <= EPS ? Math.round(a) : Math.floor(a),
+  sign: a => (a > EPS ? 1 : a < -EPS ? -1 : 0),
+  compare: (a, b) => (Math.abs(a - b) <= EPS ? 0 : a < b ? -1 : 1),
+  toNumber: a => a
+};
+
+export const rationalField: NumericField<Rational> = {
+  exact: true,
+  zero: RATIONAL_ZERO,
+  one: RATIONAL_ONE,
+  fromNumber: rationalFromNumber,
+  add: addR,
+  sub: subR,
+  mul: mulR,
+  div: divR,
+  neg: negR,
+  floor: floorR,
+  sign: signR,
+  compare: compareR,
+  toNumber: rationalToNumber,
+  toFraction: rationalToFraction
+};
+
+// Value of the form a + m·M, with M an arbitrarily large positive constant.
+export interface LinearM<T> {
+  a: T;
+  m: T;
+}
+
+// Wraps a field so that row 0 can hold symbolic Big M entries. Comparison is
+// lexicographic: the M part decides, the constant only breaks ties.
+// Pivot elements always come from constraint rows, which never carry M, so
+// products of two M terms and divisions by M terms cannot occur.
+export const bigMField = <T>(F: NumericField<T>): NumericField<LinearM<T>> => {
+  const lift = (a: T): LinearM<T> => ({ a, m: F.zero });
+  const sign = (x: LinearM<T>) => F.sign(x.m) !== 0 ? F.sign(x.m) : F.sign(x.a);
+  const sub = (x: LinearM<T>, y: LinearM<T>) => ({ a: F.sub(x.a, y.a), m: F.sub(x.m, y.m) });
+
+  return {
+    exact: F.exact,
+    zero: lift(F.zero),
+    one: lift(F.one),
+    fromNumber: n => lift(F.fromNumber(n)),
+    add: (x, y) => ({ a: F.add(x.a, y.a), m: F.add(x.m, y.m) }),
+    sub,
+    mul: (x, y) => {
+      if (F.sign(x.m) !== 0 && F.sign(y.m) !== 0) throw new Error('Producto M·M no soportado');
+      return {
+        a: F.mul(x.a, y.a),
+        m: F.add(F.mul(x.a, y.m), F.mul(x.m, y.a))
+      };
+    },
+    div: (x, y) => {
+      if (F.sign(y.m) !== 0) throw new Error('División por un término en M no soportada');
+      return { a: F.div(x.a, y.a), m: F.div(x.m, y.a) };
+    },
+    neg: x => ({ a: F.neg(x.a), m: F.neg(x.m) }),
+    // Only meaningful on constraint rows, which carry no M part
+    floor: x => lift(F.floor(x.a)),
+    sign,
+    compare: (x, y) => sign(sub(x, y)),
+    toNumber: x => F.toNumber(x.a),
+    toFraction: F.toFraction ? (x => F.toFraction!(x.a)) : undefined,
+    bigM: { a: F.zero, m: F.one },
+    mCoefficient: x => F.toNumber(x.m),
+    mFraction: F.toFraction ? (x => F.toFraction!(x.m)) : undefined
+  };
+};
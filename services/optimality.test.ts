@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { solveLinearProgram } from './solver';
+import { row, wyndor } from './fixtures';
+
+describe('optimality analysis', () => {
+  it('finds the other end of an optimal edge', () => {
+    const result = solveLinearProgram('SIMPLEX', 'MAX', [2, 4], [row([1, 2], '<=', 8, 0), row([1, 0], '<=', 4, 1)]);
+    expect(result.zValue).toBeCloseTo(16);
+    const optimality = result.optimality!;
+    expect(optimality.zeroReducedCosts.length).toBeGreaterThan(0);
+    expect(optimality.alternatives).toHaveLength(1);
+    const points = [result.finalValues, optimality.alternatives[0].values]
+      .map(v => [v.x1, v.x2].map(Math.round).join(','))
+      .sort();
+    expect(points).toEqual(['0,4', '4,2']);
+    expect(optimality.degenerateVars).toEqual([]);
+  });
+
+  it('reports a zero basic variable when the optimum is over-determined', () => {
+    const constraints = [...wyndor.constraints, row([1, 1], '<=', 8, 3)];
+    const result = solveLinearProgram('SIMPLEX', 'MAX', wyndor.objCoeffs, constraints);
+    expect(result.zValue).toBeCloseTo(36);
+    expect(result.optimality!.degenerateVars).toHaveLength(1);
+    expect(result.optimality!.alternatives).toEqual([]);
+  });
+
+  it('gives a ray when Z stays optimal along an unbounded edge', () => {
+    const result = solveLinearProgram('SIMPLEX', 'MAX', [0, 1], [row([0, 1], '<=', 3, 0), row([-1, 1], '<=', 1, 1)]);
+    expect(result.status).toBe('OPTIMAL');
+    expect(result.optimality!.rays.map(r => r.direction.x1)).toEqual([1]);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { LinearModel } from '../types';
+import { parametricAnalysis } from './parametric';
+import { row, wyndor as wyndorModel } from './fixtures';
+
+const wyndor: LinearModel = { type: 'MAX', ...wyndorModel };
+
+describe('parametricAnalysis', () => {
+  it('finds where c₁(θ) = 3 + θ changes the optimal vertex', () => {
+    const result = parametricAnalysis(wyndor, 'SIMPLEX', 'DANTZIG', { target: 'OBJECTIVE', direction: [1, 0], thetaMin: 0, thetaMax: 10 });
+    expect(result.criticalThetas).toEqual([4.5]);
+    const [first, second] = result.intervals;
+    expect(first.z).toEqual({ constant: 36, slope: 2 });
+    expect(first.values.x1.constant).toBeCloseTo(2);
+    expect(second.values.x1.constant).toBeCloseTo(4);
+    expect(second.values.x2.constant).toBeCloseTo(3);
+    expect(result.stop).toBeUndefined();
+  });
+
+  it('follows b₃(θ) = 18 + θ across its breakpoints', () => {
+    const result = parametricAnalysis(wyndor, 'SIMPLEX', 'DANTZIG', { target: 'RHS', direction: [0, 0, 1], thetaMin: -10, thetaMax: 20 });
+    expect(result.criticalThetas).toEqual([-6, 6]);
+    expect(result.intervals.map(i => i.z.slope)).toEqual([2.5, 1, 0]);
+  });
+
+  it.each(['BIG_M', 'TWO_PHASE', 'SIMPLEX'] as const)('sweeps a model with a ">=" row under %s', method => {
+    // min (2 + θ)x1 + 3x2, x1 + x2 ≥ 4, x1 ≤ 3: x1 stops paying off at θ = 1
+    const model: LinearModel = {
+      type: 'MIN',
+      objCoeffs: [2, 3],
+      constraints: [row([1, 1], '>=', 4, 0), row([1, 0], '<=', 3, 1)]
+    };
+    const result = parametricAnalysis(model, method, 'DANTZIG', { target: 'OBJECTIVE', direction: [1, 0], thetaMin: 0, thetaMax: 5 });
+    expect(result.stop).toBeUndefined();
+    expect(result.criticalThetas).toEqual([1]);
+    expect(result.intervals.map(i => i.z)).toEqual([{ constant: 9, slope: 3 }, { constant: 12, slope: 0 }]);
+  });
+
+  it('ignores M when an artificial stays basic at 0 under Big M', () => {
+    // x2 + x3 ≥ 0 starts a4 at 0 and Big M can end with it still basic, leaving M in row 0
+    const model: LinearModel = {
+      type: 'MIN',
+      objCoeffs: [0, -1, -1],
+      constraints: [
+        row([0, 2, 0], '<=', 2, 0),
+        row([1, 0, 2], '<=', 4, 1),
+        row([1, 2, 2], '<=', 4, 2),
+        row([0, 1, 1], '>=', 0, 3)
+      ]
+    };
+    const spec = { target: 'OBJECTIVE' as const, direction: [0, 1, 0], thetaMin: 0, thetaMax: 4 };
+    // x2 stops paying off as soon as θ > 0; from then on z = −2 with x3 = 2
+    const result = parametricAnalysis(model, 'BIG_M', 'DANTZIG', spec);
+    expect(result.criticalThetas).toEqual([0]);
+    expect(result.intervals.map(i => i.z)).toEqual([{ constant: -2, slope: 1 }, { constant: -2, slope: 0 }]);
+  });
+
+  it('stops where the model turns infeasible', () => {
+    // b₃ = 18 − θ becomes negative past θ = 18
+    const result = parametricAnalysis(wyndor, 'SIMPLEX', 'DANTZIG', { target: 'RHS', direction: [0, 0, -1], thetaMin: 0, thetaMax: 25 });
+    expect(result.stop?.theta).toBeCloseTo(18);
+    expect(result.stop?.status).toBe('INFEASIBLE');
+  });
+});
@@ -0,0 +1,242 @@
+import {
+  LinearModel, ParametricInterval, ParametricResult, ParametricSpec, PivotRule, SolverMethod, TableauStep, ThetaLinear
+} from '../types';
+import { floatField } from './numeric';
+import { chooseLeavingRow, dualSimplexPivot, pivotInPlace, simplexPivot, snapshotTableau, solveLinearProgram } from './solver';
+import { withNonNegativeRhs } from './bounds';
+
+// Parametric programming from one optimal tableau. The LP is solved once at θ = thetaMin;
+// then θ grows and only the parametric part of the tableau moves:
+//   c(θ): row 0 changes by θ·Δ(z_j − c_j), where Δ(z_j − c_j) = Δc_B·B⁻¹a_j − Δc_j.
+//         A nonbasic reduced cost reaching 0 is a critical θ: that column enters with a
+//         primal pivot (no leaving row: unbounded beyond it).
+//   b(θ): the LD column changes by θ·B⁻¹Δb, read from the columns that started as the
+//         identity. A basic variable reaching 0 is a critical θ: its row leaves with a
+//         dual simplex pivot (no negative entry: infeasible beyond it).
+// The solver only supplies the optimal basis. Its last tableau is not reused: under Big M
+// row 0 carries M, which the float copy would lose. The tableau for that basis is rebuilt
+// from the model's own rows by pivoting the starting identity onto it. Every pivot goes
+// through the solver's own pivot functions on the float field.
+
+const EPS = 1e-9;
+const MAX_BREAKPOINTS = 50;
+
+const F = floatField;
+
+const show = (v: number) => {
+  const text = String(parseFloat(Math.abs(v).toFixed(4)));
+  return v < -EPS ? `−${text}` : text;
+};
+
+const clean = (v: number) => (Math.abs(v) < EPS ? 0 : v);
+
+export const parametricAnalysis = (
+  model: LinearModel,
+  method: SolverMethod,
+  pivotRule: PivotRule,
+  spec: ParametricSpec
+): ParametricResult => {
+  const { target, direction, thetaMin, thetaMax } = spec;
+  const isObjective = target === 'OBJECTIVE';
+  const n = model.objCoeffs.length;
+  const isMin = model.type === 'MIN';
+  const sign = isMin ? -1 : 1; // Z = sign·Z', the tableau maximizes Z'
+
+  // The model at θ = thetaMin, with every right-hand side made nonnegative
+  const objCoeffs = model.objCoeffs.map((c, j) => (isObjective ? c + thetaMin * (direction[j] ?? 0) : c));
+  const shifted = model.constraints.map((c, i) => ({
+    ...c,
+    rhs: isObjective ? c.rhs : c.rhs + thetaMin * (direction[i] ?? 0)
+  }));
+  const flipped = shifted.map(c => c.rhs < 0);
+  const rows = shifted.map(withNonNegativeRhs);
+
+  // The dual simplex starts from negated and split rows, and the revised simplex keeps no
+  // tableau; any other method keeps one identity column per constraint (its slack or its artificial)
+  const start = method === 'DUAL_SIMPLEX' || method === 'REVISED' ? 'TWO_PHASE' : method;
+  const solved = solveLinearProgram(start, model.type, objCoeffs, rows, { pivotRule });
+  const steps: TableauStep[] = [];
+  const intervals: ParametricInterval[] = [];
+  const criticalThetas: number[] = [];
+  if (solved.status !== 'OPTIMAL') {
+    return {
+      spec,
+      intervals,
+      criticalThetas,
+      steps: solved.steps,
+      stop: {
+        theta: thetaMin,
+        status: solved.status,
+        message: `En θ = ${show(thetaMin)} el problema no tiene óptimo (${solved.errorMessage ?? solved.status}). Elija otro θ inicial.`
+      }
+    };
+  }
+
+  const last = solved.steps[solved.steps.length - 1];
+  const headers = last.headers;
+  const RHS_COL = headers.length - 1;
+  const blocked = headers.flatMap((h, c) => (h.startsWith('a') ? [c] : []));
+  const unitCols = rows.map((c, i) => headers.indexOf(c.relation === '<=' ? `s${i + 1}` : `a${i + 1}`));
+
+  // Starting tableau of the model at thetaMin, row 0 in max form with zero cost beyond x
+  const columnEntry = (name: string, i: number) => {
+    const kind = name[0];
+    if (kind === 'x') return rows[i].coefficients[Number(name.slice(1)) - 1] ?? 0;
+    if (Number(name.slice(1)) !== i + 1) return 0;
+    return kind === 'e' ? -1 : 1;
+  };
+  const matrix: number[][] = [
+    headers.map((_, col) => (col === 0 ? 1 : col >= 1 && col <= n ? -sign * objCoeffs[col - 1] : 0)),
+    ...rows.map((c, i) => headers.map((h, col) => (col === 0 ? 0 : col === RHS_COL ? c.rhs : columnEntry(h, i))))
+  ];
+  const basis = [...unitCols];
+
+  // Pivot each optimal basic column in, in place of a starting column it does not keep
+  const optimalBasis = last.basicVars.map(v => headers.indexOf(v));
+  for (const col of optimalBasis) {
+    if (basis.includes(col)) continue;
+    let row = -1;
+    basis.forEach((b, r) => {
+      if (optimalBasis.includes(b)) return;
+      if (row === -1 || Math.abs(matrix[r + 1][col]) > Math.abs(matrix[row][col])) row = r + 1;
+    });
+    pivotInPlace(F, matrix, basis, row, col);
+  }
+
+  // Δc in the tableau's max form, by column
+  const costChange = (col: number) => (col >= 1 && col <= n ? sign * (direction[col - 1] ?? 0) : 0);
+  // Δ(z_j − c_j) for every column of row 0, the LD column included (ΔZ')
+  const rowZeroRate = () => matrix[0].map((_, col) =>
+    basis.reduce((sum, b, r) => sum + costChange(b) * matrix[r + 1][col], -costChange(col)));
+  // B⁻¹Δb for every row, row 0 included (ΔZ')
+  const rhsRate = () => matrix.map(row =>
+    unitCols.reduce((sum, col, i) => sum + (flipped[i] ? -1 : 1) * (direction[i] ?? 0) * row[col], 0));
+
+  const basicValue = (col: number, source: number[]) => {
+    const r = basis.indexOf(col);
+    return r === -1 ? 0 : source[r + 1];
+  };
+  const toLinear = (value: number, rate: number, theta: number): ThetaLinear =>
+    ({ constant: clean(value - theta * rate), slope: clean(rate) });
+  const basisText = () => `{${basis.map(c => headers[c]).join(', ')}}`;
+
+  const pushStep = (description: string, extra: Partial<TableauStep> = {}) => {
+    steps.push({
+      stepIndex: steps.length + 1,
+      description,
+      tableau: snapshotTableau(F, matrix, headers, basis, 0),
+      headers,
+      basicVars: basis.map(c => headers[c]),
+      phase: 0,
+      ...extra
+    });
+  };
+
+  const functionText = isObjective ? 'c(θ)' : 'b(θ)';
+  let theta = thetaMin;
+  pushStep(`Tableau óptimo en θ = ${show(theta)} para ${functionText}: base ${basisText()}.`);
+
+  for (let k = 0; k <= MAX_BREAKPOINTS; k++) {
+    if (k === MAX_BREAKPOINTS) {
+      return {
+        spec, intervals, criticalThetas, steps,
+        stop: { theta, status: 'ITERATION_LIMIT', message: `Se alcanzó el límite de ${MAX_BREAKPOINTS} cambios de base.` }
+      };
+    }
+
+    const rate = isObjective ? rowZeroRate() : rhsRate();
+    const rhs = matrix.map(row => row[RHS_COL]);
+    const rhsSlope = isObjective ? matrix.map(() => 0) : rate;
+
+    // Next critical θ: the first reduced cost (c) or basic value (b) that reaches 0
+    let best = -1;
+    let bestStep = Infinity;
+    if (isObjective) {
+      for (let col = 1; col < RHS_COL; col++) {
+        if (basis.includes(col) || blocked.includes(col) || rate[col] >= -EPS) continue;
+        const t = Math.max(0, matrix[0][col]) / -rate[col];
+        if (t < bestStep - EPS || (Math.abs(t - bestStep) <= EPS && rate[col] < rate[best])) {
+          best = col;
+          bestStep = t;
+        }
+      }
+    } else {
+      for (let r = 1; r < matrix.length; r++) {
+        if (rate[r] >= -EPS) continue;
+        const t = Math.max(0, rhs[r]) / -rate[r];
+        if (t < bestStep - EPS || (Math.abs(t - bestStep) <= EPS && rate[r] < rate[best])) {
+          best = r;
+          bestStep = t;
+        }
+      }
+    }
+    const next = Math.min(theta + bestStep, thetaMax);
+
+    if (next - theta > EPS || intervals.length === 0) {
+      intervals.push({
+        from: theta,
+        to: next,
+        basis: basis.map(c => headers[c]),
+        values: Object.fromEntries(Array.from({ length: n }, (_, j) => [
+          `x${j + 1}`,
+          toLinear(basicValue(j + 1, rhs), basicValue(j + 1, rhsSlope), theta)
+        ])),
+        z: toLinear(sign * rhs[0], sign * (isObjective ? rate[RHS_COL] : rate[0]), theta),
+        stepIndex: steps.length - 1
+      });
+    }
+    if (best === -1 || theta + bestStep >= thetaMax - EPS) break;
+
+    // Move the tableau to the critical θ
+    const delta = next - theta;
+    if (isObjective) {
+      matrix[0] = matrix[0].map((v, col) => clean(v + delta * rate[col]));
+    } else {
+      matrix.forEach((row, r) => { row[RHS_COL] = clean(row[RHS_COL] + delta * rate[r]); });
+    }
+    theta = next;
+    if (criticalThetas.length === 0 || Math.abs(criticalThetas[criticalThetas.length - 1] - theta) > EPS) {
+      criticalThetas.push(theta);
+    }
+
+    if (isObjective) {
+      const entering = headers[best];
+      const leaving = chooseLeavingRow(F, matrix, basis, best, 'DANTZIG', []);
+      if (leaving.row === -1) {
+        const message = `Para θ > ${show(theta)} el problema es no acotado: ${entering} mejora Z sin límite.`;
+        pushStep(`θ = ${show(theta)}: el costo reducido de ${entering} llega a 0, pero su columna no tiene coeficientes positivos. ${message}`, { enteringVar: entering });
+        return { spec, intervals, criticalThetas, steps, stop: { theta, status: 'UNBOUNDED', message } };
+      }
+      const leavingVar = headers[basis[leaving.row - 1]];
+      pushStep(
+        `θ = ${show(theta)}: el costo reducido de ${entering} llega a 0 y después sería negativo. Entra ${entering}, Sale ${leavingVar} (razón mínima).`,
+        simplexPivot(F, matrix, headers, basis, leaving.row, best)
+      );
+    } else {
+      const leavingVar = headers[basis[best - 1]];
+      let entering = -1;
+      let minRatio = Infinity;
+      for (let col = 1; col < RHS_COL; col++) {
+        const a = matrix[best][col];
+        if (basis.includes(col) || blocked.includes(col) || a >= -EPS) continue;
+        const ratio = matrix[0][col] / -a;
+        if (ratio < minRatio - EPS) {
+          entering = col;
+          minRatio = ratio;
+        }
+      }
+      if (entering === -1) {
+        const message = `Para θ > ${show(theta)} el problema es infactible: ${leavingVar} tendría que ser negativa.`;
+        pushStep(`θ = ${show(theta)}: ${leavingVar} llega a 0, pero su fila no tiene coeficientes negativos. ${message}`, { pivotRow: best, leavingVar, dual: true });
+        return { spec, intervals, criticalThetas, steps, stop: { theta, status: 'INFEASIBLE', message } };
+      }
+      pushStep(
+        `θ = ${show(theta)}: ${leavingVar} llega a 0 y después sería negativa. Sale ${leavingVar}, Entra ${headers[entering]} (razón dual mínima).`,
+        { dual: true, ...dualSimplexPivot(F, matrix, headers, basis, best, entering, blocked) }
+      );
+    }
+    pushStep(`Nueva base óptima desde θ = ${show(theta)}: ${basisText()}.`);
+  }
+
+  return { spec, intervals, criticalThetas, steps };
+};
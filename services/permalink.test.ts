@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { SolverMethod } from '../types';
+import { decodePermalink, encodePermalink, PermalinkState } from './permalink';
+import { wyndor } from './fixtures';
+
+const state = (method: SolverMethod): PermalinkState => ({
+  step: 'RESULT',
+  problem: {
+    method,
+    pivotRule: 'BLAND',
+    integerStrategy: 'BRANCH_AND_BOUND',
+    exact: true,
+    model: { type: 'MAX', ...wyndor, variableNames: ['mesas', 'sillas'] },
+    variableKinds: ['integer', 'continuous']
+  }
+});
+
+describe('permalinks', () => {
+  it('writes the model compactly into the hash', () => {
+    expect(encodePermalink(state('SIMPLEX'))).toBe(
+      'result?o=max&m=simplex&p=bland&x=1&c=3,5&r=1,0L4;0,2L12;3,2L18&k=ic&n=mesas,sillas'
+    );
+  });
+
+  it.each<SolverMethod>(['SIMPLEX', 'BIG_M', 'TWO_PHASE', 'DUAL_SIMPLEX', 'REVISED'])('round trips with %s', method => {
+    const decoded = decodePermalink(`#${encodePermalink(state(method))}`);
+    expect(decoded?.problem.method).toBe(method);
+    expect(decoded?.problem.pivotRule).toBe('BLAND');
+    expect(decoded?.problem.exact).toBe(true);
+    expect(decoded?.problem.model.constraints).toEqual(wyndor.constraints);
+    expect(decoded?.problem.model.variableNames).toEqual(['mesas', 'sillas']);
+    expect(decoded?.problem.variableKinds).toEqual(['integer', 'continuous']);
+  });
+
+  it('keeps only the dimensions at the setup step', () => {
+    const decoded = decodePermalink('#setup?o=min&m=big_m&d=3,2');
+    expect(decoded?.step).toBe('SETUP');
+    expect(decoded?.dimensions).toEqual([3, 2]);
+  });
+
+  it('rejects malformed links', () => {
+    expect(decodePermalink('#result?m=newton&c=1&r=1L1')).toBeNull();
+    expect(decodePermalink('#result?c=1,2&r=1L4')).toBeNull();
+    expect(decodePermalink('#elsewhere')).toBeNull();
+  });
+});
@@ -0,0 +1,155 @@
+import {
+  Constraint, IntegerStrategy, OptimizationType, PivotRule, Relation, SolverMethod, VariableBound, VariableKind
+} from '../types';
+import { SavedProblem } from './library';
+import { defaultVariableNames } from './modelParser';
+import { DEFAULT_BOUND, hasCustomBounds } from './bounds';
+
+// The app state written into the URL hash, e.g.
+//
+//   #result?o=max&m=simplex&c=3,5&r=1,0L4;0,2L12;3,2L18
+//
+// Everything needed to solve again travels in the link itself, so it works
+// offline and without a server. Optional fields are only written when they
+// differ from the defaults (p: pivot rule, x: exact, g: integer strategy,
+// k: variable kinds as c/i/b letters, b: variable bounds as lower:upper pairs with
+// an empty side for ±∞, n: variable names, d: setup dimensions).
+
+export type AppStep = 'SETUP' | 'INPUT' | 'RESULT';
+
+export type SharedProblem = Pick<SavedProblem, 'method' | 'pivotRule' | 'integerStrategy' | 'exact' | 'model' | 'variableKinds'>;
+
+export interface PermalinkState {
+  step: AppStep;
+  problem: SharedProblem;
+  dimensions?: [number, number]; // SETUP only: variables, constraints
+}
+
+const METHODS: SolverMethod[] = ['SIMPLEX', 'BIG_M', 'TWO_PHASE', 'DUAL_SIMPLEX', 'REVISED'];
+const PIVOT_RULES: PivotRule[] = ['DANTZIG', 'BLAND', 'LEXICOGRAPHIC', 'STEEPEST_EDGE'];
+const STRATEGIES: IntegerStrategy[] = ['BRANCH_AND_BOUND', 'GOMORY'];
+
+const RELATION_CODES: Record<Relation, string> = { '<=': 'L', '>=': 'G', '=': 'E' };
+const KIND_CODES: Record<VariableKind, string> = { continuous: 'c', integer: 'i', binary: 'b' };
+
+const invert = <K extends string>(map: Record<K, string>) =>
+  Object.fromEntries(Object.entries(map).map(([k, v]) => [v, k])) as Record<string, K>;
+
+const RELATION_OF = invert(RELATION_CODES);
+const KIND_OF = invert(KIND_CODES);
+
+const numberList = (values: number[]) => values.map(String).join(',');
+
+export const encodePermalink = ({ step, problem, dimensions }: PermalinkState) => {
+  const { model } = problem;
+  const params: [string, string][] = [
+    ['o', model.type.toLowerCase()],
+    ['m', problem.method.toLowerCase()]
+  ];
+  if (problem.pivotRule !== 'DANTZIG') params.push(['p', problem.pivotRule.toLowerCase()]);
+  if (problem.exact) params.push(['x', '1']);
+  if (problem.integerStrategy !== 'BRANCH_AND_BOUND') params.push(['g', problem.integerStrategy.toLowerCase()]);
+
+  if (step === 'SETUP') {
+    if (dimensions) params.push(['d', numberList(dimensions)]);
+  } else {
+    params.push(['c', numberList(model.objCoeffs)]);
+    params.push(['r', model.constraints.map(c => `${numberList(c.coefficients)}${RELATION_CODES[c.relation]}${c.rhs}`).join(';')]);
+    if (problem.variableKinds.some(k => k !== 'continuous')) {
+      params.push(['k', problem.variableKinds.map(k => KIND_CODES[k]).join('')]);
+    }
+    if (hasCustomBounds(model.variableBounds)) {
+      params.push(['b', model.variableBounds.map(b => `${b.lower ?? ''}:${b.upper ?? ''}`).join(',')]);
+    }
+    const names = model.variableNames;
+    if (names && names.some((n, i) => n !== `x${i + 1}`)) {
+      params.push(['n', names.map(encodeURIComponent).join(',')]);
+    }
+  }
+  return `${step.toLowerCase()}?${params.map(([k, v]) => `${k}=${v}`).join('&')}`;
+};
+
+const parseNumbers = (text: string) => {
+  const values = text.split(',').map(Number);
+  return values.some(v => !Number.isFinite(v)) ? null : values;
+};
+
+const pick = <T extends string>(options: T[], value: string | undefined, fallback: T) => {
+  if (value === undefined) return fallback;
+  const upper = value.toUpperCase() as T;
+  return options.includes(upper) ? upper : null;
+};
+
+// Returns null for an empty or malformed hash; the app then starts from scratch.
+export const decodePermalink = (hash: string): PermalinkState | null => {
+  const [path, query = ''] = hash.replace(/^#/, '').split('?');
+  const step = path.toUpperCase() as AppStep;
+  if (!['SETUP', 'INPUT', 'RESULT'].includes(step)) return null;
+
+  const params = new Map<string, string>();
+  query.split('&').filter(Boolean).forEach(pair => {
+    const eq = pair.indexOf('=');
+    if (eq > 0) params.set(pair.slice(0, eq), pair.slice(eq + 1));
+  });
+
+  const type = pick<OptimizationType>(['MAX', 'MIN'], params.get('o'), 'MAX');
+  const method = pick(METHODS, params.get('m'), 'SIMPLEX');
+  const pivotRule = pick(PIVOT_RULES, params.get('p'), 'DANTZIG');
+  const integerStrategy = pick(STRATEGIES, params.get('g'), 'BRANCH_AND_BOUND');
+  if (!type || !method || !pivotRule || !integerStrategy) return null;
+  const exact = params.get('x') === '1';
+
+  if (step === 'SETUP') {
+    const dims = params.has('d') ? parseNumbers(params.get('d')!) : null;
+    const dimensions = dims && dims.length === 2 && dims.every(d => Number.isInteger(d) && d >= 1)
+      ? dims as [number, number]
+      : undefined;
+    return {
+      step,
+      problem: { method, pivotRule, integerStrategy, exact, model: { type, objCoeffs: [], constraints: [] }, variableKinds: [] },
+      dimensions
+    };
+  }
+
+  const objCoeffs = params.has('c') ? parseNumbers(params.get('c')!) : null;
+  if (!objCoeffs || objCoeffs.length === 0) return null;
+  const n = objCoeffs.length;
+
+  const constraints: Constraint[] = [];
+  for (const [i, row] of (params.get('r') ?? '').split(';').filter(Boolean).entries()) {
+    const match = /^(.*)([LGE])([^LGE]+)$/.exec(row);
+    const coefficients = match ? parseNumbers(match[1]) : null;
+    const rhs = match ? Number(match[3]) : NaN;
+    if (!match || !coefficients || coefficients.length !== n || !Number.isFinite(rhs)) return null;
+    constraints.push({ id: `c-${i}`, coefficients, relation: RELATION_OF[match[2]], rhs });
+  }
+  if (constraints.length === 0) return null;
+
+  const kindCodes = params.get('k') ?? 'c'.repeat(n);
+  if (kindCodes.length !== n || [...kindCodes].some(c => !KIND_OF[c])) return null;
+  const variableKinds = [...kindCodes].map(c => KIND_OF[c]);
+
+  let variableBounds: VariableBound[] = Array(n).fill(DEFAULT_BOUND);
+  if (params.has('b')) {
+    const pairs = params.get('b')!.split(',').map(pair => pair.split(':'));
+    if (pairs.length !== n || pairs.some(p => p.length !== 2)) return null;
+    const side = (text: string) => (text === '' ? null : Number(text));
+    variableBounds = pairs.map(([lower, upper]) => ({ lower: side(lower), upper: side(upper) }));
+    if (variableBounds.some(b => [b.lower, b.upper].some(v => v !== null && !Number.isFinite(v)))) return null;
+  }
+
+  let variableNames = defaultVariableNames(n);
+  if (params.has('n')) {
+    try {
+      variableNames = params.get('n')!.split(',').map(decodeURIComponent);
+    } catch {
+      return null;
+    }
+    if (variableNames.length !== n) return null;
+  }
+
+  return {
+    step,
+    problem: { method, pivotRule, integerStrategy, exact, model: { type, objCoeffs, constraints, variableNames, variableBounds }, variableKinds }
+  };
+};
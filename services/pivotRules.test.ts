@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { PivotRule } from '../types';
+import { solveLinearProgram } from './solver';
+import { row, wyndor } from './fixtures';
+
+// Beale's example: Dantzig's rule with the first minimum ratio cycles; optimum z = 1.25
+const bealeObjective = [0.75, -20, 0.5, -6];
+const beale = [
+  row([0.25, -8, -1, 9], '<=', 0, 0),
+  row([0.5, -12, -0.5, 3], '<=', 0, 1),
+  row([0, 0, 1, 0], '<=', 1, 2)
+];
+
+describe('pivot rules', () => {
+  it('reports cycling instead of running into the iteration limit', () => {
+    const result = solveLinearProgram('SIMPLEX', 'MAX', bealeObjective, beale, { pivotRule: 'DANTZIG' });
+    expect(result.status).toBe('CYCLING');
+  });
+
+  it.each<PivotRule>(['BLAND', 'LEXICOGRAPHIC'])('%s reaches the optimum of a cycling model', pivotRule => {
+    const result = solveLinearProgram('SIMPLEX', 'MAX', bealeObjective, beale, { pivotRule });
+    expect(result.status).toBe('OPTIMAL');
+    expect(result.zValue).toBeCloseTo(1.25);
+  });
+
+  it.each<PivotRule>(['DANTZIG', 'BLAND', 'LEXICOGRAPHIC', 'STEEPEST_EDGE'])('%s solves Wyndor', pivotRule => {
+    const result = solveLinearProgram('SIMPLEX', 'MAX', wyndor.objCoeffs, wyndor.constraints, { pivotRule });
+    expect(result.zValue).toBeCloseTo(36);
+  });
+});
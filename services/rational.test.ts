@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { addR, divR, makeRational, rationalFromNumber, rationalToFraction } from './rational';
+import { solveLinearProgram } from './solver';
+import { row, wyndor } from './fixtures';
+
+describe('rational arithmetic', () => {
+  it('keeps fractions reduced with a positive denominator', () => {
+    expect(makeRational(6n, -4n)).toEqual({ num: -3n, den: 2n });
+    expect(addR(makeRational(1n, 3n), makeRational(1n, 6n))).toEqual({ num: 1n, den: 2n });
+    expect(divR(makeRational(2n), makeRational(3n))).toEqual({ num: 2n, den: 3n });
+  });
+
+  it('reads numbers as the decimals the user typed', () => {
+    expect(rationalFromNumber(0.1)).toEqual({ num: 1n, den: 10n });
+    expect(rationalFromNumber(-2.5e-3)).toEqual({ num: -1n, den: 400n });
+  });
+});
+
+describe('exact mode', () => {
+  it('returns exact fractions next to the float values', () => {
+    // max x1 + x2, 3x1 + x2 ≤ 1, x1 + 3x2 ≤ 1: optimum at (1/4, 1/4)
+    const result = solveLinearProgram('SIMPLEX', 'MAX', [1, 1], [row([3, 1], '<=', 1, 0), row([1, 3], '<=', 1, 1)], { exact: true });
+    expect(result.exactZValue).toEqual(rationalToFraction(makeRational(1n, 2n)));
+    expect(result.exactValues?.x2).toEqual({ num: '1', den: '4' });
+    expect(result.zValue).toBe(0.5);
+  });
+
+  it('agrees with the float solver', () => {
+    const exact = solveLinearProgram('SIMPLEX', 'MAX', wyndor.objCoeffs, wyndor.constraints, { exact: true });
+    expect(exact.exactZValue).toEqual({ num: '36', den: '1' });
+    expect(exact.finalValues).toEqual(solveLinearProgram('SIMPLEX', 'MAX', wyndor.objCoeffs, wyndor.constraints).finalValues);
+  });
+});
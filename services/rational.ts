@@ -0,0 +1,73 @@
+import { FractionValue } from '../types';
+
+// Exact rational number backed by BigInt.
+// Always kept normalized: den > 0 and gcd(|num|, den) = 1.
+export interface Rational {
+  num: bigint;
+  den: bigint;
+}
+
+const absBig = (a: bigint) => (a < 0n ? -a : a);
+
+const gcd = (a: bigint, b: bigint): bigint => {
+  a = absBig(a);
+  b = absBig(b);
+  while (b !== 0n) {
+    [a, b] = [b, a % b];
+  }
+  return a;
+};
+
+export const makeRational = (num: bigint, den: bigint = 1n): Rational => {
+  if (den === 0n) throw new Error('División por cero en aritmética racional');
+  if (den < 0n) {
+    num = -num;
+    den = -den;
+  }
+  const g = gcd(num, den);
+  return g > 1n ? { num: num / g, den: den / g } : { num, den };
+};
+
+export const RATIONAL_ZERO: Rational = { num: 0n, den: 1n };
+export const RATIONAL_ONE: Rational = { num: 1n, den: 1n };
+
+// Converts a JS number to the exact fraction of its decimal representation
+// (what the user typed), so 0.1 becomes 1/10 and not the binary approximation.
+export const rationalFromNumber = (n: number): Rational => {
+  if (!Number.isFinite(n)) throw new Error('Valor no finito en aritmética racional');
+  if (Number.isInteger(n) && Math.abs(n) <= Number.MAX_SAFE_INTEGER) return { num: BigInt(n), den: 1n };
+
+  const text = n.toString().toLowerCase();
+  const [mantissa, expPart] = text.split('e');
+  const exponent = expPart ? parseInt(expPart, 10) : 0;
+  const negative = mantissa.startsWith('-');
+  const [intPart, fracPart = ''] = mantissa.replace('-', '').split('.');
+
+  let num = BigInt(intPart + fracPart);
+  let den = 10n ** BigInt(fracPart.length);
+  if (exponent > 0) num *= 10n ** BigInt(exponent);
+  if (exponent < 0) den *= 10n ** BigInt(-exponent);
+  return makeRational(negative ? -num : num, den);
+};
+
+export const addR = (a: Rational, b: Rational) => makeRational(a.num * b.den + b.num * a.den, a.den * b.den);
+export const subR = (a: Rational, b: Rational) => makeRational(a.num * b.den - b.num * a.den, a.den * b.den);
+export const mulR = (a: Rational, b: Rational) => makeRational(a.num * b.num, a.den * b.den);
+export const divR = (a: Rational, b: Rational) => makeRational(a.num * b.den, a.den * b.num);
+export const negR = (a: Rational): Rational => ({ num: -a.num, den: a.den });
+
+export const floorR = (a: Rational): Rational => {
+  // BigInt division truncates toward zero
+  const q = a.num / a.den;
+  return { num: a.num < 0n && q * a.den !== a.num ? q - 1n : q, den: 1n };
+};
+
+export const signR = (a: Rational): -1 | 0 | 1 => (a.num > 0n ? 1 : a.num < 0n ? -1 : 0);
+export const compareR = (a: Rational, b: Rational) => signR(subR(a, b));
+
+export const rationalToNumber = (a: Rational) => Number(a.num) / Number(a.den);
+
+export const rationalToFraction = (a: Rational): FractionValue => ({
+  num: a.num.toString(),
+  den: a.den.toString()
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { Constraint } from '../types';
+import { solveRevisedSimplex } from './revised';
+import { solveLinearProgram } from './solver';
+import { solveIntegerProgram } from './integer';
+
+// Deterministic pseudo-random data (linear congruential), so failures reproduce
+const generator = (seed: number) => () => {
+  seed = (seed * 1103515245 + 12345) % 2147483648;
+  return seed / 2147483648;
+};
+
+// max c·x over a·x ≤ b with positive data: feasible (x = 0) and bounded
+const randomModel = (n: number, m: number, seed: number) => {
+  const rand = generator(seed);
+  const objCoeffs = Array.from({ length: n }, () => 1 + Math.floor(rand() * 20));
+  const constraints: Constraint[] = Array.from({ length: m }, (_, i) => ({
+    id: `c-${i}`,
+    coefficients: Array.from({ length: n }, () => 1 + Math.floor(rand() * 9)),
+    relation: '<=',
+    rhs: 50 + Math.floor(rand() * 100)
+  }));
+  return { objCoeffs, constraints };
+};
+
+const dot = (a: number[], x: number[]) => a.reduce((sum, v, j) => sum + v * x[j], 0);
+
+describe('solveRevisedSimplex', () => {
+  it('solves a model past the tableau limit, with matching duals', () => {
+    const { objCoeffs, constraints } = randomModel(18, 14, 7);
+    const result = solveRevisedSimplex('MAX', objCoeffs, constraints);
+    expect(result.status).toBe('OPTIMAL');
+    expect(result.revised?.detailed).toBe(false);
+
+    const x = objCoeffs.map((_, j) => result.finalValues[`x${j + 1}`] ?? 0);
+    constraints.forEach(c => expect(dot(c.coefficients, x)).toBeLessThanOrEqual(c.rhs + 1e-7));
+    expect(dot(objCoeffs, x)).toBeCloseTo(result.zValue, 6);
+    // Strong duality: Z = b·y
+    const y = result.sensitivity!.shadowPrices.map(p => p.shadowPrice);
+    expect(dot(constraints.map(c => c.rhs), y)).toBeCloseTo(result.zValue, 6);
+    // The dense engine agrees once its iteration budget scales with the model
+    expect(solveLinearProgram('TWO_PHASE', 'MAX', objCoeffs, constraints).zValue).toBeCloseTo(result.zValue, 6);
+  });
+
+  it('solves a model with hundreds of variables and ">=" rows', () => {
+    // 300 × 200 needs Phase 1 and well over a thousand pivots
+    const { objCoeffs, constraints } = randomModel(300, 200, 5);
+    constraints.forEach((c, i) => {
+      if (i % 3 === 0) Object.assign(c, { relation: '>=', rhs: Math.floor(c.rhs / 10) });
+    });
+    const result = solveRevisedSimplex('MAX', objCoeffs, constraints);
+    expect(result.status).toBe('OPTIMAL');
+    expect(result.revised!.iterations.length).toBeGreaterThan(1000);
+
+    const x = objCoeffs.map((_, j) => result.finalValues[`x${j + 1}`] ?? 0);
+    constraints.forEach(c => {
+      const lhs = dot(c.coefficients, x);
+      if (c.relation === '<=') expect(lhs).toBeLessThanOrEqual(c.rhs + 1e-6);
+      else expect(lhs).toBeGreaterThanOrEqual(c.rhs - 1e-6);
+    });
+    const y = result.sensitivity!.shadowPrices.map(p => p.shadowPrice);
+    expect(dot(constraints.map(c => c.rhs), y)).toBeCloseTo(result.zValue, 4);
+  }, 20000);
+
+  it('records B⁻¹ per iteration on small models', () => {
+    const { objCoeffs, constraints } = randomModel(4, 3, 11);
+    const result = solveRevisedSimplex('MAX', objCoeffs, constraints);
+    expect(result.revised?.detailed).toBe(true);
+    expect(result.revised?.iterations[0].inverse).toHaveLength(3);
+    expect(result.zValue).toBeCloseTo(solveLinearProgram('SIMPLEX', 'MAX', objCoeffs, constraints).zValue, 9);
+  });
+
+  it('reports the settings it does not apply', () => {
+    const { objCoeffs, constraints } = randomModel(4, 3, 11);
+    const result = solveLinearProgram('REVISED', 'MAX', objCoeffs, constraints, { exact: true, pivotRule: 'STEEPEST_EDGE' });
+    expect(result.ignoredSettings).toEqual(['EXACT', 'STEEPEST_EDGE']);
+    expect(solveLinearProgram('REVISED', 'MAX', objCoeffs, constraints, { pivotRule: 'BLAND' }).ignoredSettings).toBeUndefined();
+  });
+
+  it('runs branch and bound subproblems on large models', () => {
+    const { objCoeffs, constraints } = randomModel(12, 11, 3);
+    const relaxation = solveRevisedSimplex('MAX', objCoeffs, constraints);
+    const result = solveIntegerProgram('TWO_PHASE', 'MAX', objCoeffs, constraints, objCoeffs.map(() => 'integer'), { exact: true });
+    expect(result.status).toBe('OPTIMAL');
+    expect(result.zValue).toBeLessThanOrEqual(relaxation.zValue + 1e-7);
+    Object.entries(result.finalValues)
+      .filter(([name]) => /^x\d+$/.test(name))
+      .forEach(([, v]) => expect(Math.abs(v - Math.round(v))).toBeLessThan(1e-6));
+    expect(result.ignoredSettings).toEqual(['EXACT']);
+  });
+});
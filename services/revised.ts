@@ -0,0 +1,395 @@
+import {
+  Constraint, IgnoredSetting, OptimizationType, PivotRule, RevisedIteration, RevisedReport, SolveResult, SolverMethod, TableauStep
+} from '../types';
+import { floatField } from './numeric';
+import { RowOrigin, computeSensitivity } from './sensitivity';
+import { analyzeOptimality, simplexPivot, snapshotTableau } from './solver';
+import { withNonNegativeRhs } from './bounds';
+
+// Revised simplex in product form. Instead of updating a dense tableau, every pivot
+// appends an eta matrix E (the identity with the pivot column replaced) and
+//   B⁻¹ = E_k···E_2·E_1
+// Each iteration only needs:
+//   BTRAN   y = c_B·B⁻¹               (simplex multipliers)
+//   pricing d_j = c_j − y·a_j          (nonbasic columns, on demand from the sparse A)
+//   FTRAN   α = B⁻¹a_q                 (entering column, for the ratio test)
+// Every REFACTOR_INTERVAL pivots the eta file is rebuilt from the basis columns, which
+// bounds its length and the rounding error it accumulates. Phase 1 uses artificials
+// like the Two-Phase method, and the columns keep the tableau's names (x, s, e, a).
+// Models up to DENSE_TABLEAU_LIMIT × DENSE_TABLEAU_LIMIT also record B⁻¹ per iteration
+// and the equivalent dense tableaux, so both views of the method can be compared.
+
+const EPS = 1e-9;
+const DROP = 1e-12; // Eta entries below this are not stored
+const REFACTOR_INTERVAL = 32;
+const DEGENERATE_LIMIT = 50; // Consecutive degenerate pivots before falling back to Bland
+const DENSE_TABLEAU_LIMIT = 10;
+// The solve runs on the page's main thread. A pivot on a 500 × 400 model takes about a
+// millisecond and such models can need thousands of pivots (Phase 1 with many ">=" rows),
+// so past this many the run stops with ITERATION_LIMIT instead of freezing the page.
+const MAX_PIVOTS = 5000;
+
+const F = floatField;
+
+export const fitsDenseTableau = (numVars: number, numConstraints: number) =>
+  numVars <= DENSE_TABLEAU_LIMIT && numConstraints <= DENSE_TABLEAU_LIMIT;
+
+// The tableau methods print every tableau, so past 10×10 the revised simplex takes over
+export const effectiveMethod = (method: SolverMethod, numVars: number, numConstraints: number): SolverMethod =>
+  fitsDenseTableau(numVars, numConstraints) ? method : 'REVISED';
+
+// The revised simplex pivots on floats and prices with Dantzig or Bland only
+export const revisedIgnores = (rule: PivotRule = 'DANTZIG', exact = false): IgnoredSetting[] => [
+  ...(exact ? ['EXACT' as const] : []),
+  ...(rule === 'LEXICOGRAPHIC' || rule === 'STEEPEST_EDGE' ? [rule] : [])
+];
+
+interface SparseColumn {
+  rows: number[];
+  values: number[];
+}
+
+// One pivot of the product form: α = B⁻¹a_q, split into its pivot entry and the rest
+interface Eta {
+  row: number;
+  pivot: number;
+  rows: number[];
+  values: number[];
+}
+
+type Outcome = 'OPTIMAL' | 'UNBOUNDED' | 'ITERATION_LIMIT';
+
+const clean = (v: number) => (Math.abs(v) < EPS ? 0 : v);
+
+export const solveRevisedSimplex = (
+  type: OptimizationType,
+  objCoeffs: number[],
+  constraints: Constraint[],
+  rule: PivotRule = 'DANTZIG'
+): SolveResult => {
+  const isMin = type === 'MIN';
+  const n = objCoeffs.length;
+  const m = constraints.length;
+  const detailed = fitsDenseTableau(n, m);
+
+  // Rows with b < 0 are negated first; sensitivity reads them back through the sign
+  const rowOrigins: RowOrigin[] = constraints.map((c, i) => ({ index: i, sign: c.rhs < 0 ? -1 : 1 }));
+  const rows = constraints.map(withNonNegativeRhs);
+  const b = rows.map(c => c.rhs);
+
+  // Standard form, by columns, in the order of the dense tableau: x, s, e, a
+  const names = objCoeffs.map((_, j) => `x${j + 1}`);
+  const columns: SparseColumn[] = names.map(() => ({ rows: [], values: [] }));
+  rows.forEach((c, i) => c.coefficients.forEach((v, j) => {
+    if (v === 0 || j >= n) return;
+    columns[j].rows.push(i);
+    columns[j].values.push(v);
+  }));
+  const addColumn = (name: string, row: number, value: number) => {
+    names.push(name);
+    columns.push({ rows: [row], values: [value] });
+    return columns.length - 1;
+  };
+  const basis: number[] = Array(m).fill(-1);
+  rows.forEach((c, i) => { if (c.relation === '<=') basis[i] = addColumn(`s${i + 1}`, i, 1); });
+  rows.forEach((c, i) => { if (c.relation === '>=') addColumn(`e${i + 1}`, i, -1); });
+  rows.forEach((c, i) => { if (c.relation !== '<=') basis[i] = addColumn(`a${i + 1}`, i, 1); });
+  // The slack or artificial of each row: the identity B starts from
+  const unitCols = [...basis];
+  const N = names.length;
+  const artificial = names.map(h => h.startsWith('a'));
+  const headers = ['Z', ...names, 'LD'];
+
+  const cost = names.map((_, j) => (j < n ? (isMin ? -objCoeffs[j] : objCoeffs[j]) : 0));
+  const phase1Cost = names.map((_, j) => (artificial[j] ? -1 : 0));
+  const inBasis = names.map((_, j) => basis.includes(j));
+
+  let etas: Eta[] = [];
+  let updates = 0; // Etas appended since the last refactorization
+  let xB = [...b];
+  let refactorizations = 0;
+  const iterations: RevisedIteration[] = [];
+  const steps: TableauStep[] = [];
+  const iterationLimit = Math.min(50 + 10 * (m + N), MAX_PIVOTS);
+
+  // v ← B⁻¹v, applying E_1 first
+  const ftran = (v: number[]) => {
+    for (const eta of etas) {
+      const t = v[eta.row];
+      if (t === 0) continue;
+      const x = t / eta.pivot;
+      v[eta.row] = x;
+      for (let k = 0; k < eta.rows.length; k++) v[eta.rows[k]] -= eta.values[k] * x;
+    }
+    return v;
+  };
+  // u ← u·B⁻¹, applying E_k first; each eta only changes the entry of its pivot row
+  const btran = (u: number[]) => {
+    for (let e = etas.length - 1; e >= 0; e--) {
+      const eta = etas[e];
+      let sum = u[eta.row];
+      for (let k = 0; k < eta.rows.length; k++) sum -= u[eta.rows[k]] * eta.values[k];
+      u[eta.row] = sum / eta.pivot;
+    }
+    return u;
+  };
+  const denseColumn = (j: number) => {
+    const v: number[] = Array(m).fill(0);
+    columns[j].rows.forEach((r, k) => { v[r] = columns[j].values[k]; });
+    return v;
+  };
+  const unit = (i: number) => {
+    const v: number[] = Array(m).fill(0);
+    v[i] = 1;
+    return v;
+  };
+  const dot = (y: number[], j: number) => {
+    const { rows: rs, values } = columns[j];
+    let sum = 0;
+    for (let k = 0; k < rs.length; k++) sum += y[rs[k]] * values[k];
+    return sum;
+  };
+  const pushEta = (row: number, alpha: number[]) => {
+    const eta: Eta = { row, pivot: alpha[row], rows: [], values: [] };
+    alpha.forEach((v, i) => {
+      if (i === row || Math.abs(v) < DROP) return;
+      eta.rows.push(i);
+      eta.values.push(v);
+    });
+    etas.push(eta);
+    updates++;
+  };
+
+  // Rebuilds the eta file from the basis columns. Unit columns take their own row for
+  // free; every other column is pivoted in, in its current row unless that entry is
+  // much smaller than the largest one still available (threshold partial pivoting).
+  const refactor = () => {
+    const previous = [...basis];
+    etas = [];
+    basis.fill(-1);
+    const pending: number[] = [];
+    previous.forEach(col => {
+      const row = unitCols.indexOf(col);
+      if (row === -1) pending.push(col);
+      else basis[row] = col;
+    });
+    pending.forEach(col => {
+      const alpha = ftran(denseColumn(col));
+      const free = basis.flatMap((c, r) => (c === -1 ? [r] : []));
+      const largest = free.reduce((a, r) => (Math.abs(alpha[r]) > Math.abs(alpha[a]) ? r : a));
+      const old = previous.indexOf(col);
+      const row = basis[old] === -1 && Math.abs(alpha[old]) >= 0.1 * Math.abs(alpha[largest]) ? old : largest;
+      pushEta(row, alpha);
+      basis[row] = col;
+    });
+    xB = ftran([...b]).map(clean);
+    updates = 0;
+    refactorizations++;
+  };
+
+  const objectiveOf = (c: number[]) => basis.reduce((sum, col, i) => sum + c[col] * xB[i], 0);
+
+  // B⁻¹ column by column
+  const inverse = () => {
+    const inv = basis.map(() => Array(m).fill(0));
+    for (let r = 0; r < m; r++) ftran(unit(r)).forEach((v, i) => { inv[i][r] = clean(v); });
+    return inv;
+  };
+
+  // The dense tableau of the current basis, as the tableau methods would hold it:
+  // row 0 is y·A − c with Z' = c_B·x_B, rows 1..m are B⁻¹A | x_B
+  const denseTableau = (c: number[]) => {
+    const inv = inverse();
+    const y = btran(basis.map(col => c[col]));
+    const row0 = [1, ...names.map((_, j) => dot(y, j) - c[j]), objectiveOf(c)];
+    const body = inv.map((invRow, i) => [0, ...names.map((_, j) => dot(invRow, j)), xB[i]]);
+    return [row0, ...body].map(row => row.map(clean));
+  };
+  const denseBasis = () => basis.map(col => col + 1);
+
+  const recordStep = (description: string, phase: number, c: number[], pivot?: { row: number; col: number }) => {
+    const matrix = denseTableau(c);
+    const tableauBasis = denseBasis();
+    steps.push({
+      stepIndex: steps.length + 1,
+      description,
+      tableau: snapshotTableau(F, matrix, headers, tableauBasis, phase),
+      headers,
+      basicVars: basis.map(col => names[col]),
+      isPhase1: phase === 1,
+      phase,
+      // The pivot annotations come from pivoting a throwaway copy of the dense tableau
+      ...(pivot ? simplexPivot(F, matrix, headers, tableauBasis, pivot.row + 1, pivot.col + 1) : {})
+    });
+  };
+
+  const pivotOn = (row: number, col: number, alpha: number[]) => {
+    const theta = Math.max(0, xB[row] / alpha[row]);
+    xB = xB.map((v, i) => clean(i === row ? theta : v - theta * alpha[i]));
+    inBasis[basis[row]] = false;
+    inBasis[col] = true;
+    basis[row] = col;
+    pushEta(row, alpha);
+    return theta;
+  };
+
+  let count = 0;
+  const iterate = (phase: number, c: number[], blocked: boolean[]): { status: Outcome; col?: number; alpha?: number[] } => {
+    let degenerateRun = 0;
+    for (;;) {
+      if (count >= iterationLimit) return { status: 'ITERATION_LIMIT' };
+      const refactored = updates >= REFACTOR_INTERVAL;
+      if (refactored) refactor();
+
+      const y = btran(basis.map(col => c[col]));
+      const objective = objectiveOf(c);
+      const record: RevisedIteration = {
+        iteration: iterations.length + 1,
+        phase,
+        basis: basis.map(col => names[col]),
+        objective: clean(phase === 1 || !isMin ? objective : -objective),
+        etaCount: etas.length,
+        refactored: refactored || undefined
+      };
+      if (detailed) {
+        record.inverse = inverse();
+        record.duals = y.map(clean);
+        record.basisValues = [...xB];
+      }
+      iterations.push(record);
+
+      // Pricing: Dantzig takes the largest d_j, Bland the first positive one
+      const bland = rule === 'BLAND' || degenerateRun >= DEGENERATE_LIMIT;
+      let q = -1;
+      let best = EPS;
+      for (let j = 0; j < N; j++) {
+        if (inBasis[j] || blocked[j]) continue;
+        const d = c[j] - dot(y, j);
+        if (d > best) {
+          q = j;
+          best = d;
+          if (bland) break;
+        }
+      }
+      const phaseText = phase > 0 ? `Fase ${phase}` : 'Final';
+      if (q === -1) {
+        if (detailed) recordStep(`Solución Óptima encontrada (${phaseText}): ningún costo reducido c_j − y·a_j es positivo.`, phase, c);
+        return { status: 'OPTIMAL' };
+      }
+
+      const alpha = ftran(denseColumn(q));
+      record.enteringVar = names[q];
+      record.reducedCost = best;
+      if (detailed) record.enteringColumn = alpha.map(clean);
+
+      // Ratio test on x_B / α; ties go to the smallest index (Bland) or the largest pivot
+      let r = -1;
+      let ratio = Infinity;
+      alpha.forEach((a, i) => {
+        if (a <= EPS) return;
+        const t = xB[i] / a;
+        const tie = Math.abs(t - ratio) <= EPS;
+        if (t < ratio - EPS || (tie && (bland ? basis[i] < basis[r] : a > alpha[r]))) {
+          r = i;
+          ratio = t;
+        }
+      });
+      if (r === -1) {
+        if (detailed) recordStep(`Solución no acotada detectada. Variable entrante ${names[q]} no tiene pivote positivo.`, phase, c);
+        return { status: 'UNBOUNDED', col: q, alpha };
+      }
+
+      record.leavingVar = names[basis[r]];
+      record.stepLength = Math.max(0, ratio);
+      if (detailed) {
+        recordStep(
+          `Iteración ${count + 1}: Entra ${names[q]}, Sale ${names[basis[r]]}. Pivote en fila ${r + 1}, col ${q + 1}.`,
+          phase, c, { row: r, col: q }
+        );
+      }
+      const theta = pivotOn(r, q, alpha);
+      degenerateRun = theta === 0 ? degenerateRun + 1 : 0;
+      count++;
+    }
+  };
+
+  const report = (): RevisedReport => ({
+    rows: m,
+    columns: N,
+    nonzeros: columns.reduce((sum, col) => sum + col.rows.length, 0),
+    refactorizations,
+    detailed,
+    iterations
+  });
+  const stopped = (status: SolveResult['status'], errorMessage?: string): SolveResult =>
+    ({ status, steps, finalValues: {}, zValue: 0, errorMessage, revised: report() });
+  const limitMessage = `Se alcanzó el límite de ${iterationLimit} iteraciones sin llegar al óptimo.`;
+
+  try {
+    const hasArtificials = artificial.some(Boolean);
+    if (hasArtificials) {
+      const phase1 = iterate(1, phase1Cost, names.map(() => false));
+      if (phase1.status === 'ITERATION_LIMIT') return stopped('ITERATION_LIMIT', limitMessage);
+      if (objectiveOf(phase1Cost) < -EPS * Math.max(1, ...b)) return stopped('INFEASIBLE');
+
+      // Artificials still basic at 0 leave through any nonzero entry of their row of
+      // B⁻¹A; a row without one is redundant and keeps its artificial at 0 for good
+      basis.forEach((col, i) => {
+        if (!artificial[col]) return;
+        const rho = btran(unit(i));
+        const j = names.findIndex((_, k) => !inBasis[k] && !artificial[k] && Math.abs(dot(rho, k)) > EPS);
+        if (j === -1) return;
+        const alpha = ftran(denseColumn(j));
+        if (detailed) {
+          recordStep(
+            `Fase 1: ${names[col]} sigue en la base con valor 0. Pivote degenerado: Entra ${names[j]}, Sale ${names[col]}.`,
+            1, phase1Cost, { row: i, col: j }
+          );
+        }
+        pivotOn(i, j, alpha);
+      });
+    }
+
+    const final = iterate(hasArtificials ? 2 : 0, cost, artificial);
+    if (final.status === 'ITERATION_LIMIT') return stopped('ITERATION_LIMIT', limitMessage);
+
+    const values: number[] = Array(N).fill(0);
+    basis.forEach((col, i) => { values[col] = xB[i]; });
+
+    if (final.status === 'UNBOUNDED') {
+      const q = final.col!;
+      const direction = Object.fromEntries(objCoeffs.map((_, j) => [`x${j + 1}`, j === q ? 1 : 0]));
+      basis.forEach((col, i) => { if (col < n) direction[names[col]] = clean(-final.alpha![i]); });
+      return {
+        ...stopped('UNBOUNDED'),
+        unboundedRay: {
+          enteringVar: names[q],
+          point: Object.fromEntries(objCoeffs.map((_, j) => [`x${j + 1}`, values[j]])),
+          direction,
+          zRate: objCoeffs.reduce((sum, c, j) => sum + c * direction[`x${j + 1}`], 0)
+        }
+      };
+    }
+
+    // A fresh factorization keeps the final readout short and accurate
+    refactor();
+    basis.forEach((col, i) => { values[col] = xB[i]; });
+    const matrix = denseTableau(cost);
+    const zPrime = objectiveOf(cost);
+    return {
+      status: 'OPTIMAL',
+      steps,
+      finalValues: Object.fromEntries(names.map((h, j) => [h, values[j]])),
+      zValue: clean(isMin ? -zPrime : zPrime),
+      sensitivity: computeSensitivity(
+        F, matrix, headers, denseBasis(), unitCols.map(col => col + 1), rowOrigins, objCoeffs, constraints, isMin
+      ),
+      // The alternative optima are shown as dense tableaux
+      optimality: detailed ? analyzeOptimality(F, matrix, headers, denseBasis()) : undefined,
+      revised: report()
+    };
+  } catch (e) {
+    console.error(e);
+    return stopped('ERROR', 'Error interno de cálculo');
+  }
+};
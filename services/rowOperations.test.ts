@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { solveLinearProgram } from './solver';
+import { wyndor } from './fixtures';
+
+describe('row operations', () => {
+  const { steps } = solveLinearProgram('SIMPLEX', 'MAX', wyndor.objCoeffs, wyndor.constraints, { exact: true });
+
+  it('lists the elementary operations that lead to the next tableau', () => {
+    expect(steps.map(s => s.rowOperations?.map(op => op.text))).toEqual([
+      ['R2 ← R2 / 2', 'R0 ← R0 + 5·R2', 'R3 ← R3 − 2·R2'],
+      ['R3 ← R3 / 3', 'R0 ← R0 + 3·R3', 'R1 ← R1 − R3'],
+      undefined
+    ]);
+  });
+
+  it('records the ratio test behind each leaving row', () => {
+    const first = steps[0].ratioTest!.entries;
+    expect(first.map(e => e.ratio ?? e.excluded)).toEqual(['coeficiente ≤ 0', '6', '9']);
+    expect(first.find(e => e.chosen)?.label).toBe('s2');
+    expect(steps[1].ratioTest!.entries.find(e => e.chosen)?.label).toBe('s3');
+  });
+});
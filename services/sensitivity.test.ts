@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { solveLinearProgram } from './solver';
+import { wyndor } from './fixtures';
+
+describe('sensitivity report', () => {
+  const report = solveLinearProgram('SIMPLEX', 'MAX', wyndor.objCoeffs, wyndor.constraints).sensitivity!;
+
+  it('gives shadow prices and slacks per constraint', () => {
+    expect(report.shadowPrices.map(p => p.shadowPrice)).toEqual([0, 1.5, 1]);
+    expect(report.shadowPrices.map(p => p.slack)).toEqual([2, 0, 0]);
+  });
+
+  it('ranges the objective coefficients', () => {
+    // c1 ∈ [0, 7.5], c2 ≥ 2
+    const [c1, c2] = report.objectiveRanges;
+    expect([c1.allowableDecrease, c1.allowableIncrease]).toEqual([3, 4.5]);
+    expect([c2.allowableDecrease, c2.allowableIncrease]).toEqual([3, Infinity]);
+  });
+
+  it('ranges the right-hand sides', () => {
+    // b1 ≥ 2, b2 ∈ [6, 18], b3 ∈ [12, 24]
+    expect(report.rhsRanges.map(r => [r.allowableDecrease, r.allowableIncrease])).toEqual([[2, Infinity], [6, 6], [6, 6]]);
+  });
+});
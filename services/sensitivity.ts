@@ -0,0 +1,113 @@
+import { Constraint, SensitivityRange, SensitivityReport } from '../types';
+import { NumericField } from './numeric';
+
+// Which model constraint a tableau row comes from, and with which sign
+// (the dual simplex negates ">=" rows and splits "=" rows in two).
+export interface RowOrigin {
+  index: number;
+  sign: 1 | -1;
+}
+
+// Smallest of the candidate ratios, Infinity when there is no limit.
+const minOf = <T>(F: NumericField<T>, values: T[]) => {
+  if (values.length === 0) return Infinity;
+  return F.toNumber(values.reduce((a, b) => F.compare(b, a) < 0 ? b : a));
+};
+
+// Ranging from the optimal tableau. The matrix is in "max Z'" form (Z' = -Z for MIN),
+// so row 0 holds z_j - c'_j >= 0; results are translated back to the user's objective.
+// unitCols[r] is the column that started as the identity column of tableau row r+1,
+// hence its current values are the matching column of B^-1.
+export function computeSensitivity<T>(
+  F: NumericField<T>,
+  matrix: T[][],
+  headers: string[],
+  basis: number[],
+  unitCols: number[],
+  rowOrigins: RowOrigin[],
+  objCoeffs: number[],
+  constraints: Constraint[],
+  isMin: boolean
+): SensitivityReport {
+  const RHS_COL = matrix[0].length - 1;
+  const row0 = matrix[0];
+  const rowOfBasic = new Map(basis.map((col, i) => [col, i + 1]));
+
+  // Artificial columns are not real variables: they never re-enter the basis.
+  const nonbasicCols = headers
+    .map((h, c) => c)
+    .filter(c => c > 0 && c < RHS_COL && !rowOfBasic.has(c) && !headers[c].startsWith('a'));
+
+  const value = (col: number) => {
+    const row = rowOfBasic.get(col);
+    return row === undefined ? 0 : F.toNumber(matrix[row][RHS_COL]);
+  };
+
+  const reducedCosts = objCoeffs.map((_, j) => ({
+    variable: headers[j + 1],
+    value: value(j + 1),
+    reducedCost: rowOfBasic.has(j + 1) ? 0 : F.toNumber(row0[j + 1])
+  }));
+
+  // Objective coefficient ranging. Raising c'_j by d changes row 0 by -d in column j
+  // when x_j is nonbasic, and by d·a_rk in every nonbasic column k when x_j is basic in row r.
+  const objectiveRanges: SensitivityRange[] = objCoeffs.map((c, j) => {
+    const col = j + 1;
+    const row = rowOfBasic.get(col);
+    let up: number;
+    let down: number;
+    if (row === undefined) {
+      up = F.toNumber(row0[col]);
+      down = Infinity;
+    } else {
+      const a = matrix[row];
+      up = minOf(F, nonbasicCols.filter(k => F.sign(a[k]) < 0).map(k => F.div(row0[k], F.neg(a[k]))));
+      down = minOf(F, nonbasicCols.filter(k => F.sign(a[k]) > 0).map(k => F.div(row0[k], a[k])));
+    }
+    // c' = -c for MIN, so increases and decreases swap
+    return {
+      name: headers[col],
+      current: c,
+      allowableIncrease: isMin ? down : up,
+      allowableDecrease: isMin ? up : down
+    };
+  });
+
+  const shadowPrices: SensitivityReport['shadowPrices'] = [];
+  const rhsRanges: SensitivityRange[] = [];
+
+  constraints.forEach((c, i) => {
+    const parts = rowOrigins
+      .map((origin, r) => ({ ...origin, col: unitCols[r] }))
+      .filter(origin => origin.index === i);
+
+    // Dual value: dZ'/db_i read from row 0 under the identity columns
+    let dual = F.zero;
+    parts.forEach(p => {
+      dual = p.sign > 0 ? F.add(dual, row0[p.col]) : F.sub(dual, row0[p.col]);
+    });
+    const shadowPrice = F.toNumber(isMin ? F.neg(dual) : dual);
+
+    // d = B^-1 e_i: how each basic value moves per unit of b_i
+    const direction = matrix.slice(1).map(row => parts.reduce(
+      (acc, p) => p.sign > 0 ? F.add(acc, row[p.col]) : F.sub(acc, row[p.col]),
+      F.zero
+    ));
+    const rhsValues = matrix.slice(1).map(row => row[RHS_COL]);
+    const increase = minOf(F, direction
+      .map((d, r) => ({ d, r }))
+      .filter(({ d }) => F.sign(d) < 0)
+      .map(({ d, r }) => F.div(rhsValues[r], F.neg(d))));
+    const decrease = minOf(F, direction
+      .map((d, r) => ({ d, r }))
+      .filter(({ d }) => F.sign(d) > 0)
+      .map(({ d, r }) => F.div(rhsValues[r], d)));
+
+    const name = `R${i + 1}`;
+    const lhs = c.coefficients.reduce((acc, coef, j) => acc + coef * value(j + 1), 0);
+    shadowPrices.push({ constraint: name, shadowPrice, slack: Math.abs(c.rhs - lhs) });
+    rhsRanges.push({ name, current: c.rhs, allowableIncrease: increase, allowableDecrease: decrease });
+  });
+
+  return { reducedCosts, shadowPrices, objectiveRanges, rhsRanges };
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { SolverMethod } from '../types';
+import { solveLinearProgram } from './solver';
+import { row, wyndor } from './fixtures';
+
+describe('solveLinearProgram', () => {
+  it.each<SolverMethod>(['SIMPLEX', 'BIG_M', 'TWO_PHASE', 'DUAL_SIMPLEX', 'REVISED'])('solves Wyndor with %s', method => {
+    const result = solveLinearProgram(method, 'MAX', wyndor.objCoeffs, wyndor.constraints);
+    expect(result.status).toBe('OPTIMAL');
+    expect(result.zValue).toBeCloseTo(36);
+    expect(result.finalValues.x1).toBeCloseTo(2);
+    expect(result.finalValues.x2).toBeCloseTo(6);
+  });
+
+  it('keeps exact fractions in exact mode', () => {
+    // max x1 + x2, 3x1 + x2 ≤ 1, x1 + 3x2 ≤ 1: optimum at (1/4, 1/4)
+    const result = solveLinearProgram('SIMPLEX', 'MAX', [1, 1], [row([3, 1], '<=', 1, 0), row([1, 3], '<=', 1, 1)], { exact: true });
+    expect(result.exactZValue).toEqual({ num: '1', den: '2' });
+    expect(result.exactValues?.x1).toEqual({ num: '1', den: '4' });
+  });
+
+  it.each<SolverMethod>(['BIG_M', 'TWO_PHASE', 'REVISED'])('handles ≥ and = rows with %s', method => {
+    // min 2x1 + 3x2, x1 + x2 ≥ 4, x1 − x2 = 1: optimum z = 9.5 at (2.5, 1.5)
+    const rows = [row([1, 1], '>=', 4, 0), row([1, -1], '=', 1, 1)];
+    const result = solveLinearProgram(method, 'MIN', [2, 3], rows, { exact: method !== 'REVISED' });
+    expect(result.status).toBe('OPTIMAL');
+    expect(result.zValue).toBeCloseTo(9.5);
+  });
+
+  it('reports infeasible and unbounded models', () => {
+    const infeasible = [row([1, 1], '<=', 2, 0), row([1, 1], '>=', 5, 1)];
+    expect(solveLinearProgram('TWO_PHASE', 'MAX', [1, 1], infeasible).status).toBe('INFEASIBLE');
+    expect(solveLinearProgram('BIG_M', 'MAX', [1, 1], infeasible).status).toBe('INFEASIBLE');
+
+    const unbounded = solveLinearProgram('SIMPLEX', 'MAX', [1, 1], [row([1, -1], '<=', 2)]);
+    expect(unbounded.status).toBe('UNBOUNDED');
+    expect(unbounded.unboundedRay).toBeDefined();
+  });
+
+  it('does not pass an infeasible SIMPLEX point off as optimal after bound substitution', () => {
+    // max x1 − x2 + 2x3, x1 + x2 + x3 ≤ 10, x1 − x2 ≤ 3, x1 free, x2 ≥ −5, 2 ≤ x3 ≤ 4:
+    // shifting x2 turns the second row into a "≥" row; optimum z = 11 at (−1, −4, 4)
+    const rows = [row([1, 1, 1], '<=', 10, 0), row([1, -1, 0], '<=', 3, 1)];
+    const bounds = [{ lower: null, upper: null }, { lower: -5, upper: null }, { lower: 2, upper: 4 }];
+    const result = solveLinearProgram('SIMPLEX', 'MAX', [1, -1, 2], rows, { bounds });
+    expect(result.status).toBe('OPTIMAL');
+    expect(result.zValue).toBeCloseTo(11);
+    expect(result.finalValues.x1 - result.finalValues.x2).toBeLessThanOrEqual(3 + 1e-9);
+  });
+
+  it('hands SIMPLEX over to Two-Phase when a row needs an artificial', () => {
+    // max x2, x1 + x2 ≤ 4, x1 ≥ 1: optimum z = 3 at (1, 3)
+    const result = solveLinearProgram('SIMPLEX', 'MAX', [0, 1], [row([1, 1], '<=', 4, 0), row([1, 0], '>=', 1, 1)]);
+    expect(result.status).toBe('OPTIMAL');
+    expect(result.zValue).toBeCloseTo(3);
+    expect(result.finalValues.x1).toBeCloseTo(1);
+    expect(result.steps.some(step => step.phase === 1)).toBe(true);
+  });
+
+  it('never lets an artificial back into the basis in Phase 2', () => {
+    // x2 stays capped at 3 by the = row only while a1 is kept out of the basis
+    const rows = [row([1, 1], '=', 3, 0), row([1, 0], '<=', 2, 1)];
+    const result = solveLinearProgram('TWO_PHASE', 'MAX', [0, 1], rows);
+    expect(result.status).toBe('OPTIMAL');
+    expect(result.zValue).toBeCloseTo(3);
+    expect(result.finalValues.a1 ?? 0).toBeCloseTo(0);
+  });
+});
+
+describe('dual simplex rows', () => {
+  it('names slacks after the user constraint, with primes on split = rows', () => {
+    // min x1 + x2, x1 ≥ 1, x1 + x2 = 3, x2 ≤ 5
+    const rows = [row([1, 0], '>=', 1, 0), row([1, 1], '=', 3, 1), row([0, 1], '<=', 5, 2)];
+    const result = solveLinearProgram('DUAL_SIMPLEX', 'MIN', [1, 1], rows);
+    expect(result.status).toBe('OPTIMAL');
+    expect(result.zValue).toBeCloseTo(3);
+    expect(result.steps[0].headers).toEqual(['Z', 'x1', 'x2', 's1', 's2′', 's2″', 's3', 'LD']);
+    expect(result.sensitivity?.shadowPrices.map(p => p.constraint)).toEqual(['R1', 'R2', 'R3']);
+  });
+});
@@ -1,8 +1,11 @@
-import { Constraint, OptimizationType, SolveResult, SolverMethod, TableauRow, TableauStep } from '../types';
-
-// A large number to represent M. 
-// In a purely numerical solver without symbolic algebra, we use a sufficiently large number.
-const M_VAL = 100000;
+import {
+  AlternativeOptimum, Constraint, FractionValue, OptimalityAnalysis, OptimizationType, PivotRule, RatioTest, RowOperation,
+  SolveResult, SolverMethod, SolverOptions, TableauRow, TableauStep, UnboundedRay
+} from '../types';
+import { NumericField, bigMField, floatField, rationalField } from './numeric';
+import { RowOrigin, computeSensitivity } from './sensitivity';
+import { hasCustomBounds, restoreBounds, substituteBounds } from './bounds';
+import { fitsDenseTableau, revisedIgnores, solveRevisedSimplex } from './revised';
 
 interface InternalTableau {
   rows: number[][]; // Row 0 is objective function
@@ -12,413 +15,1220 @@ interface InternalTableau {
   numConstraints: number;
 }
 
-const cloneMatrix = (matrix: number[][]) => matrix.map(row => [...row]);
-
 export const solveLinearProgram = (
   method: SolverMethod,
   type: OptimizationType,
   objCoeffs: number[],
-  constraints: Constraint[]
+  constraints: Constraint[],
+  options: SolverOptions = {}
 ): SolveResult => {
-
+  // Bounds other than x ≥ 0: solve the substituted model, then read it back
+  if (hasCustomBounds(options.bounds)) {
+    const bounded = substituteBounds(objCoeffs, constraints, options.bounds);
+    if (typeof bounded === 'string') return { status: 'INFEASIBLE', steps: [], finalValues: {}, zValue: 0, errorMessage: bounded };
+    const result = solveLinearProgram(method, type, bounded.objCoeffs, bounded.constraints, { ...options, bounds: undefined });
+    return restoreBounds(bounded, result);
+  }
+  // A ">=" or "=" row has no slack to start the basis with: the plain simplex would
+  // need an artificial that nothing drives out, so it hands over to Two-Phase
+  if (method === 'SIMPLEX' && constraints.some(c => c.relation !== '<=')) method = 'TWO_PHASE';
+  // The revised simplex has its own float data structures; Gomory cuts need the dense
+  // tableau, so they keep the Two-Phase method
+  if (method === 'REVISED') {
+    if (!options.gomoryCuts) {
+      const ignored = revisedIgnores(options.pivotRule, options.exact);
+      const result = solveRevisedSimplex(type, objCoeffs, constraints, options.pivotRule);
+      return ignored.length > 0 ? { ...result, ignoredSettings: ignored } : result;
+    }
+    method = 'TWO_PHASE';
+  }
   try {
-    // 1. Normalize Problem
-    // Convert MIN Z to MAX -Z for standard solving, then flip result back.
-    const isMin = type === 'MIN';
-    const numDecisionVars = objCoeffs.length;
-    
-    // Setup variables for columns
-    let headers = ['Z'];
-    for (let i = 1; i <= numDecisionVars; i++) headers.push(`x${i}`);
-
-    // Identify requirements for Slacks, Surplus, Artificials
-    const slackVars: string[] = [];
-    const surplusVars: string[] = [];
-    const artificialVars: string[] = [];
-
-    // We need to track which constraint generated which variable to set initial basis
-    const initialBasis: number[] = []; // Indices in the full header list
-
-    // Pre-scan constraints to build headers
-    constraints.forEach((c, i) => {
-      if (c.relation === '<=') {
-        slackVars.push(`s${i + 1}`);
-      } else if (c.relation === '>=') {
-        surplusVars.push(`e${i + 1}`);
-        artificialVars.push(`a${i + 1}`);
-      } else if (c.relation === '=') {
-        artificialVars.push(`a${i + 1}`);
+    // Exact mode runs the very same pivot code over BigInt fractions.
+    // Big M keeps M symbolic: every entry becomes a + b·M on top of that arithmetic.
+    if (options.exact) {
+      return method === 'BIG_M'
+        ? solveWithField(bigMField(rationalField), method, type, objCoeffs, constraints, options)
+        : solveWithField(rationalField, method, type, objCoeffs, constraints, options);
+    }
+    return method === 'BIG_M'
+      ? solveWithField(bigMField(floatField), method, type, objCoeffs, constraints, options)
+      : solveWithField(floatField, method, type, objCoeffs, constraints, options);
+  } catch (e) {
+    console.error(e);
+    return { status: 'ERROR', steps: [], finalValues: {}, zValue: 0, errorMessage: 'Error interno de cálculo' };
+  }
+};
+
+function solveWithField<T>(
+  F: NumericField<T>,
+  method: SolverMethod,
+  type: OptimizationType,
+  objCoeffs: number[],
+  constraints: Constraint[],
+  options: SolverOptions
+): SolveResult {
+  const rule = options.pivotRule ?? 'DANTZIG';
+  const limit = iterationLimit(objCoeffs.length, constraints.length);
+
+  // 1. Normalize Problem
+  // The dual simplex starts from an all-slack basis: ">=" rows are multiplied by -1
+  // and "=" rows split into a "<=" and a ">=" row, so the RHS may be negative.
+  const modelConstraints = constraints;
+  let rowOrigins: RowOrigin[] = constraints.map((_, i) => ({ index: i, sign: 1 }));
+  if (method === 'DUAL_SIMPLEX') {
+    rowOrigins = [];
+    constraints = constraints.flatMap((c, i) => {
+      const negated = { ...c, coefficients: c.coefficients.map(v => -v), relation: '<=' as const, rhs: -c.rhs };
+      if (c.relation === '>=') {
+        rowOrigins.push({ index: i, sign: -1 });
+        return [negated];
       }
+      if (c.relation === '=') {
+        rowOrigins.push({ index: i, sign: 1 }, { index: i, sign: -1 });
+        return [{ ...c, relation: '<=' as const }, negated];
+      }
+      rowOrigins.push({ index: i, sign: 1 });
+      return [c];
     });
+  }
 
-    // Combine headers
-    headers = [...headers, ...slackVars, ...surplusVars, ...artificialVars, 'LD'];
-    
-    // Map variable names to column indices
-    const colCount = headers.length;
-    const Z_COL = 0;
-    const RHS_COL = colCount - 1;
-
-    // Initialize Matrix
-    // Row 0 is Z. Rows 1..m are constraints.
-    const numRows = constraints.length + 1;
-    let matrix: number[][] = Array(numRows).fill(0).map(() => Array(colCount).fill(0));
-
-    // Fill Constraints
-    let currentSlackIdx = 1 + numDecisionVars;
-    let currentSurplusIdx = currentSlackIdx + slackVars.length;
-    let currentArtificialIdx = currentSurplusIdx + surplusVars.length;
-
-    constraints.forEach((c, rowIdx) => {
-      const matrixRow = rowIdx + 1;
-      
-      // Decision variables
-      c.coefficients.forEach((coef, colIdx) => {
-        matrix[matrixRow][colIdx + 1] = coef;
-      });
+  // Convert MIN Z to MAX -Z for standard solving, then flip result back.
+  const isMin = type === 'MIN';
+  const numDecisionVars = objCoeffs.length;
+  
+  // Setup variables for columns
+  let headers = ['Z'];
+  for (let i = 1; i <= numDecisionVars; i++) headers.push(`x${i}`);
 
-      // RHS
-      matrix[matrixRow][RHS_COL] = c.rhs;
-
-      // Slack/Surplus/Artificial logic
-      if (c.relation === '<=') {
-        matrix[matrixRow][currentSlackIdx] = 1;
-        initialBasis[rowIdx] = currentSlackIdx;
-        currentSlackIdx++;
-      } else if (c.relation === '>=') {
-        matrix[matrixRow][currentSurplusIdx] = -1;
-        matrix[matrixRow][currentArtificialIdx] = 1;
-        initialBasis[rowIdx] = currentArtificialIdx;
-        currentSurplusIdx++;
-        currentArtificialIdx++;
-      } else if (c.relation === '=') {
-        matrix[matrixRow][currentArtificialIdx] = 1;
-        initialBasis[rowIdx] = currentArtificialIdx;
-        currentArtificialIdx++;
-      }
+  // Identify requirements for Slacks, Surplus, Artificials
+  const slackVars: string[] = [];
+  const surplusVars: string[] = [];
+  const artificialVars: string[] = [];
+
+  // We need to track which constraint generated which variable to set initial basis
+  const initialBasis: number[] = []; // Indices in the full header list
+
+  // Slacks are numbered after the user's constraint; the two halves of an "=" row
+  // split by the dual simplex are told apart as s2′ (≤ half) and s2″ (≥ half)
+  const slackName = (i: number) => {
+    const { index, sign } = rowOrigins[i];
+    const split = rowOrigins.filter(o => o.index === index).length > 1;
+    return `s${index + 1}${split ? (sign > 0 ? '′' : '″') : ''}`;
+  };
+
+  // Pre-scan constraints to build headers
+  constraints.forEach((c, i) => {
+    if (c.relation === '<=') {
+      slackVars.push(slackName(i));
+    } else if (c.relation === '>=') {
+      surplusVars.push(`e${i + 1}`);
+      artificialVars.push(`a${i + 1}`);
+    } else if (c.relation === '=') {
+      artificialVars.push(`a${i + 1}`);
+    }
+  });
+
+  // Combine headers
+  headers = [...headers, ...slackVars, ...surplusVars, ...artificialVars, 'LD'];
+  
+  // Map variable names to column indices
+  const colCount = headers.length;
+  const Z_COL = 0;
+  const RHS_COL = colCount - 1;
+
+  // Initialize Matrix
+  // Row 0 is Z. Rows 1..m are constraints.
+  const numRows = constraints.length + 1;
+  let matrix: T[][] = Array(numRows).fill(0).map(() => Array(colCount).fill(F.zero));
+
+  // Fill Constraints
+  let currentSlackIdx = 1 + numDecisionVars;
+  let currentSurplusIdx = currentSlackIdx + slackVars.length;
+  let currentArtificialIdx = currentSurplusIdx + surplusVars.length;
+
+  constraints.forEach((c, rowIdx) => {
+    const matrixRow = rowIdx + 1;
+    
+    // Decision variables
+    c.coefficients.forEach((coef, colIdx) => {
+      matrix[matrixRow][colIdx + 1] = F.fromNumber(coef);
     });
 
-    // Setup Objective Function (Row 0)
-    matrix[0][Z_COL] = 1;
+    // RHS
+    matrix[matrixRow][RHS_COL] = F.fromNumber(c.rhs);
+
+    // Slack/Surplus/Artificial logic
+    if (c.relation === '<=') {
+      matrix[matrixRow][currentSlackIdx] = F.one;
+      initialBasis[rowIdx] = currentSlackIdx;
+      currentSlackIdx++;
+    } else if (c.relation === '>=') {
+      matrix[matrixRow][currentSurplusIdx] = F.neg(F.one);
+      matrix[matrixRow][currentArtificialIdx] = F.one;
+      initialBasis[rowIdx] = currentArtificialIdx;
+      currentSurplusIdx++;
+      currentArtificialIdx++;
+    } else if (c.relation === '=') {
+      matrix[matrixRow][currentArtificialIdx] = F.one;
+      initialBasis[rowIdx] = currentArtificialIdx;
+      currentArtificialIdx++;
+    }
+  });
+
+  // The starting basis columns form an identity: their final values are B^-1
+  const unitCols = [...initialBasis];
+
+  // Setup Objective Function (Row 0)
+  matrix[0][Z_COL] = F.one;
+  
+  // Standard Simplex: Z - c1x1 - ... = 0
+  // If MAX Z: coefficients are negative in tableau.
+  // If MIN Z: we solve for MAX (-Z), so original coeffs are reversed.
+  // BUT we simplify: Always solve MAX Z'. 
+  // If User Max: Z' = Z. Row 0: Z - CjXj = 0 -> Coeffs are -Cj.
+  // If User Min: Z' = -Z. Row 0: (-Z) - (-Cj)Xj = 0 -> (-Z) + CjXj = 0. 
+  // Wait, easier logic:
+  // Standard form: Max Z. Row 0 stores (Cj - Zj). Optimality reached when all row 0 (non-basic) <= 0.
+  // Let's stick to: Row 0 contains coefficients of equation: Z + (-c1)x1 + ... = 0
+  
+  objCoeffs.forEach((coef, idx) => {
+    // If Max: Z - (coef)x = 0 -> put -coef
+    // If Min: Min Z equiv Max (-Z). Let Z' = -Z. Z = -Z'. -Z' = coef*x -> Z' + coef*x = 0. put coef.
+    matrix[0][idx + 1] = F.fromNumber(isMin ? coef : -coef);
+  });
+
+  // METHOD SPECIFIC ADJUSTMENTS
+  const steps: TableauStep[] = [];
+
+  // Iterations that stopped short of the optimum. An unbounded stop leaves the
+  // tableau on a feasible vertex with the ray column, which is kept as evidence.
+  const stopped = (status: IterationStatus): SolveResult => {
+    const result = failedResult(status, steps);
+    const entering = steps[steps.length - 1]?.enteringVar;
+    if (status !== 'UNBOUNDED' || !entering) return result;
+    const ray = unboundedRay(F, matrix, headers, initialBasis, headers.indexOf(entering), objCoeffs);
+    return ray ? { ...result, unboundedRay: ray } : result;
+  };
+  const isBigM = method === 'BIG_M';
+  const isTwoPhase = method === 'TWO_PHASE';
+
+  // --- TWO PHASE HANDLING ---
+  let phase = 1;
+  if (isTwoPhase && artificialVars.length > 0) {
+    // PHASE 1: Maximize Z* = -Sum(Artificials)  => Max Z* + Sum(A) = 0
+    // Temporarily replace Row 0.
+    // We need to store original Row 0 to restore it later.
+    const originalObjRow = [...matrix[0]];
     
-    // Standard Simplex: Z - c1x1 - ... = 0
-    // If MAX Z: coefficients are negative in tableau.
-    // If MIN Z: we solve for MAX (-Z), so original coeffs are reversed.
-    // BUT we simplify: Always solve MAX Z'. 
-    // If User Max: Z' = Z. Row 0: Z - CjXj = 0 -> Coeffs are -Cj.
-    // If User Min: Z' = -Z. Row 0: (-Z) - (-Cj)Xj = 0 -> (-Z) + CjXj = 0. 
-    // Wait, easier logic:
-    // Standard form: Max Z. Row 0 stores (Cj - Zj). Optimality reached when all row 0 (non-basic) <= 0.
-    // Let's stick to: Row 0 contains coefficients of equation: Z + (-c1)x1 + ... = 0
+    // Reset Row 0 for Phase 1
+    matrix[0] = Array(colCount).fill(F.zero);
+    matrix[0][Z_COL] = F.one; // This is W (or Z*), phase 1 objective
+
+    // Obj: Minimize Sum(Ai) -> Maximize -Sum(Ai) -> Z* = -A1 - A2... -> Z* + A1 + A2 = 0
+    // Initial Row 0 should have +1 for all Artificial columns.
+    // BUT, artificials are basic variables. We must eliminate them from Row 0 by row operations.
+    // Effectively: NewRow0 = Sum(Constraint Rows where Artificial exists)
+    // Actually, formally: Z* + A1 + ... = 0. 
+    // In the table, we put 0 for non-artificials, and 0 for artificials AFTER we pivot them out.
+    // Easier way to construct starting Phase 1 tableau:
+    // Start with Row 0 having '1's at artificial columns. Then subtract constraint rows to make artificials 0 in Row 0.
+    // Or simpler: Initial Row 0 = Sum (all rows with artificials) * -1 (to move to LHS?)
+    // Let's do standard operations.
+    // Start: Z* = -A1 - A2... => Z* + A1 + A2 ... = 0.
+    // So matrix[0][artIdx] = 1.
+    const artIndices: number[] = [];
+    headers.forEach((h, i) => {
+      if (h.startsWith('a')) {
+         matrix[0][i] = F.one; 
+         artIndices.push(i);
+      }
+    });
     
-    objCoeffs.forEach((coef, idx) => {
-      // If Max: Z - (coef)x = 0 -> put -coef
-      // If Min: Min Z equiv Max (-Z). Let Z' = -Z. Z = -Z'. -Z' = coef*x -> Z' + coef*x = 0. put coef.
-      matrix[0][idx + 1] = isMin ? coef : -coef;
+    // Now eliminate these 1s from the basis columns by row operations.
+    // For each artificial variable, find its row (where it is 1) and subtract that row from Row 0.
+    artIndices.forEach(artCol => {
+      // Find row where this artificial is the basis (coefficient 1)
+      for(let r=1; r<numRows; r++) {
+        if(F.compare(matrix[r][artCol], F.one) === 0) {
+           // Row 0 = Row 0 - 1 * Row r
+           for(let c=0; c<colCount; c++) {
+             matrix[0][c] = F.sub(matrix[0][c], matrix[r][c]);
+           }
+        }
+      }
     });
 
-    // METHOD SPECIFIC ADJUSTMENTS
-    const steps: TableauStep[] = [];
-    const isBigM = method === 'BIG_M';
-    const isTwoPhase = method === 'TWO_PHASE';
-
-    // --- TWO PHASE HANDLING ---
-    let phase = 1;
-    if (isTwoPhase && artificialVars.length > 0) {
-      // PHASE 1: Maximize Z* = -Sum(Artificials)  => Max Z* + Sum(A) = 0
-      // Temporarily replace Row 0.
-      // We need to store original Row 0 to restore it later.
-      const originalObjRow = [...matrix[0]];
-      
-      // Reset Row 0 for Phase 1
-      matrix[0] = Array(colCount).fill(0);
-      matrix[0][Z_COL] = 1; // This is W (or Z*), phase 1 objective
-
-      // Obj: Minimize Sum(Ai) -> Maximize -Sum(Ai) -> Z* = -A1 - A2... -> Z* + A1 + A2 = 0
-      // Initial Row 0 should have +1 for all Artificial columns.
-      // BUT, artificials are basic variables. We must eliminate them from Row 0 by row operations.
-      // Effectively: NewRow0 = Sum(Constraint Rows where Artificial exists)
-      // Actually, formally: Z* + A1 + ... = 0. 
-      // In the table, we put 0 for non-artificials, and 0 for artificials AFTER we pivot them out.
-      // Easier way to construct starting Phase 1 tableau:
-      // Start with Row 0 having '1's at artificial columns. Then subtract constraint rows to make artificials 0 in Row 0.
-      // Or simpler: Initial Row 0 = Sum (all rows with artificials) * -1 (to move to LHS?)
-      // Let's do standard operations.
-      // Start: Z* = -A1 - A2... => Z* + A1 + A2 ... = 0.
-      // So matrix[0][artIdx] = 1.
-      const artIndices: number[] = [];
-      headers.forEach((h, i) => {
-        if (h.startsWith('a')) {
-           matrix[0][i] = 1; 
-           artIndices.push(i);
-        }
-      });
-      
-      // Now eliminate these 1s from the basis columns by row operations.
-      // For each artificial variable, find its row (where it is 1) and subtract that row from Row 0.
-      artIndices.forEach(artCol => {
-        // Find row where this artificial is the basis (coefficient 1)
-        for(let r=1; r<numRows; r++) {
-          if(matrix[r][artCol] === 1) {
-             // Row 0 = Row 0 - 1 * Row r
-             for(let c=0; c<colCount; c++) {
-               matrix[0][c] -= matrix[r][c];
-             }
-          }
-        }
+    // SOLVE PHASE 1
+    const phase1Result = runSimplexIterations(F, matrix, headers, initialBasis, steps, 1, rule, limit);
+    if (phase1Result !== 'OPTIMAL') return failedResult(phase1Result, steps);
+
+    // CHECK FEASIBILITY
+    // If Min Z* (Phase 1 obj) is not 0 (or very close), then infeasible.
+    // Note: In our setup Max (-Sum A), optimal should be 0.
+    if (F.sign(matrix[0][RHS_COL]) !== 0) {
+       return { status: 'INFEASIBLE', steps, finalValues: {}, zValue: 0 };
+    }
+
+    // Artificials still basic at zero level must leave now: their column is blocked
+    // in Phase 2, but as basic variables they could still grow. A degenerate pivot on
+    // any non-artificial entry of their row swaps them out without changing the solution.
+    initialBasis.forEach((basisCol, rowMinus1) => {
+      if (!headers[basisCol].startsWith('a')) return;
+      const row = rowMinus1 + 1;
+      const col = headers.findIndex((h, c) => c > 0 && c < RHS_COL && !h.startsWith('a') && F.sign(matrix[row][c]) !== 0);
+      // No candidate: the row is redundant and the artificial stays at 0 for good
+      if (col === -1) return;
+      steps.push({
+        stepIndex: steps.length + 1,
+        description: `Fase 1: ${headers[basisCol]} sigue en la base con valor 0. Pivote degenerado: Entra ${headers[col]}, Sale ${headers[basisCol]}.`,
+        tableau: snapshotTableau(F, matrix, headers, initialBasis, 1),
+        headers,
+        basicVars: initialBasis.map(i => headers[i]),
+        pivotRow: row,
+        pivotCol: col,
+        enteringVar: headers[col],
+        leavingVar: headers[basisCol],
+        isPhase1: true,
+        phase: 1,
+        rowOperations: describeRowOperations(F, matrix, row, col)
       });
+      pivotInPlace(F, matrix, initialBasis, row, col);
+    });
+
+    // PREPARE PHASE 2
+    phase = 2;
+    
+    // Restore original objective function
+    // We need to take originalObjRow and apply the same row operations that were applied to the basis variables to zero them out?
+    // No, easier: Replace Row 0 with original coeffs, then perform row ops to zero out current basic variables.
+    matrix[0] = originalObjRow;
+    
+    // Artificials were driven out above (except on redundant rows), and their
+    // columns are blocked below, which is equivalent to removing them.
+    // We will just zero out the basic variables in the new Row 0.
+    initialBasis.forEach((basisCol, rowMinus1) => {
+      const row = rowMinus1 + 1;
+      const basisCoeffInObj = matrix[0][basisCol];
+      if (F.sign(basisCoeffInObj) !== 0) {
+         // Row 0 = Row 0 - basisCoeff * Row 'row'
+         for(let c=0; c<colCount; c++) {
+           matrix[0][c] = F.sub(matrix[0][c], F.mul(basisCoeffInObj, matrix[row][c]));
+         }
+      }
+    });
 
-      // SOLVE PHASE 1
-      const phase1Result = runSimplexIterations(matrix, headers, initialBasis, steps, 1);
-      if (phase1Result === 'UNBOUNDED') return { status: 'UNBOUNDED', steps, finalValues: {}, zValue: 0 };
+    // Continue solving Phase 2
+    // Artificial columns may no longer enter the basis, otherwise Phase 2 undoes Phase 1.
+    const artificialCols = headers.map((h, i) => h.startsWith('a') ? i : -1).filter(i => i >= 0);
+     const phase2Result = runSimplexIterations(F, matrix, headers, initialBasis, steps, 2, rule, limit, artificialCols);
+     if (phase2Result !== 'OPTIMAL') return stopped(phase2Result);
 
-      // CHECK FEASIBILITY
-      // If Min Z* (Phase 1 obj) is not 0 (or very close), then infeasible.
-      // Note: In our setup Max (-Sum A), optimal should be 0.
-      if (Math.abs(matrix[0][RHS_COL]) > 1e-5) {
-         return { status: 'INFEASIBLE', steps, finalValues: {}, zValue: 0 };
+  } else if (isBigM && artificialVars.length > 0) {
+    // --- BIG M METHOD ---
+    // Modify Obj Row: 
+    // Max Z -> Subtract M*Ai.  => Z - CjXj + M*Ai = 0.
+    // Min Z -> Add M*Ai. => Min Z equiv Max -Z. Let Z' = -Z. Z = -Z'. -Z' + CjXj + M*Ai = 0? 
+    // Standard: Maximize Z - sum(M * Ai).
+    // Z - C X + M A = 0 ? No.
+    // Obj: Z = C X - M A  => Z - C X + M A = 0.
+    // So coeff of A in row 0 is +M.
+    // Then eliminate A from basis.
+    
+    // If Min: Min Z = C X + M A => Max Z' = -C X - M A. 
+    // Z' + C X + M A = 0. Coeff of A is +M.
+    
+    // So in both cases (normalized), coeff of A in Row 0 is +M, kept symbolic.
+    const M = F.bigM;
+    if (!M) throw new Error('El método de la Gran M requiere aritmética simbólica');
+    
+    const artIndices: number[] = [];
+    headers.forEach((h, i) => {
+      if (h.startsWith('a')) {
+         matrix[0][i] = M; 
+         artIndices.push(i);
       }
+    });
 
-      // PREPARE PHASE 2
-      phase = 2;
-      
-      // Restore original objective function
-      // We need to take originalObjRow and apply the same row operations that were applied to the basis variables to zero them out?
-      // No, easier: Replace Row 0 with original coeffs, then perform row ops to zero out current basic variables.
-      matrix[0] = originalObjRow;
-      
-      // If artificials are still in basis (at zero level), we technically should drive them out, 
-      // but for this simple solver, we can just ignore their columns or keep them.
-      // Standard Two-Phase removes artificial columns.
-      // We will just zero out the basic variables in the new Row 0.
-      initialBasis.forEach((basisCol, rowMinus1) => {
-        const row = rowMinus1 + 1;
-        const basisCoeffInObj = matrix[0][basisCol];
-        if (Math.abs(basisCoeffInObj) > 1e-9) {
-           // Row 0 = Row 0 - basisCoeff * Row 'row'
+    // Zero out artificials in Row 0
+    artIndices.forEach(artCol => {
+      for(let r=1; r<numRows; r++) {
+        if(F.compare(matrix[r][artCol], F.one) === 0) {
+           // Row 0 = Row 0 - M * Row r
            for(let c=0; c<colCount; c++) {
-             matrix[0][c] -= basisCoeffInObj * matrix[row][c];
+             matrix[0][c] = F.sub(matrix[0][c], F.mul(M, matrix[r][c]));
            }
         }
-      });
+      }
+    });
 
-      // Continue solving Phase 2
-       const phase2Result = runSimplexIterations(matrix, headers, initialBasis, steps, 2);
-       if (phase2Result !== 'OPTIMAL') return { status: phase2Result, steps, finalValues: {}, zValue: 0 };
-
-    } else if (isBigM && artificialVars.length > 0) {
-      // --- BIG M METHOD ---
-      // Modify Obj Row: 
-      // Max Z -> Subtract M*Ai.  => Z - CjXj + M*Ai = 0.
-      // Min Z -> Add M*Ai. => Min Z equiv Max -Z. Let Z' = -Z. Z = -Z'. -Z' + CjXj + M*Ai = 0? 
-      // Standard: Maximize Z - sum(M * Ai).
-      // Z - C X + M A = 0 ? No.
-      // Obj: Z = C X - M A  => Z - C X + M A = 0.
-      // So coeff of A in row 0 is +M.
-      // Then eliminate A from basis.
-      
-      // If Min: Min Z = C X + M A => Max Z' = -C X - M A. 
-      // Z' + C X + M A = 0. Coeff of A is +M.
-      
-      // So in both cases (normalized), coeff of A in Row 0 is +M (or +LargeVal).
-      
-      const artIndices: number[] = [];
-      headers.forEach((h, i) => {
-        if (h.startsWith('a')) {
-           matrix[0][i] = M_VAL; 
-           artIndices.push(i);
-        }
-      });
+    const res = runSimplexIterations(F, matrix, headers, initialBasis, steps, 0, rule, limit);
+    if (res !== 'OPTIMAL') return stopped(res);
 
-      // Zero out artificials in Row 0
-      artIndices.forEach(artCol => {
-        for(let r=1; r<numRows; r++) {
-          if(matrix[r][artCol] === 1) {
-             // Row 0 = Row 0 - M * Row r
-             for(let c=0; c<colCount; c++) {
-               matrix[0][c] -= M_VAL * matrix[r][c];
-             }
-          }
-        }
-      });
+    // Check feasibility for Big M
+    // If any artificial variable is in the basis with a positive value, it's infeasible.
+    const artInBasis = initialBasis.some((colIdx, i) => {
+       const name = headers[colIdx];
+       const val = matrix[i+1][RHS_COL];
+       return name.startsWith('a') && F.sign(val) > 0;
+    });
+    if (artInBasis) return { status: 'INFEASIBLE', steps, finalValues: {}, zValue: 0 };
 
-      const res = runSimplexIterations(matrix, headers, initialBasis, steps, 0);
-      if (res !== 'OPTIMAL') return { status: res, steps, finalValues: {}, zValue: 0 };
+  } else if (method === 'DUAL_SIMPLEX') {
+    // --- DUAL SIMPLEX ---
+    // Needs row 0 >= 0 (dual feasible). Once every RHS is >= 0 the tableau is optimal;
+    // if the start was primal feasible instead, the primal loop below finishes the job.
+    const rhsNegative = matrix.slice(1).some(row => F.sign(row[RHS_COL]) < 0);
+    const row0Negative = matrix[0].slice(1, -1).some(v => F.sign(v) < 0);
+    if (rhsNegative && row0Negative) {
+      return failedResult('ERROR', steps, 'El tableau inicial no es dual factible (hay costos reducidos negativos). El Simplex Dual requiere, p. ej., minimizar con costos no negativos.');
+    }
 
-      // Check feasibility for Big M
-      // If any artificial variable is in the basis with a positive value, it's infeasible.
-      const artInBasis = initialBasis.some((colIdx, i) => {
-         const name = headers[colIdx];
-         const val = matrix[i+1][RHS_COL];
-         return name.startsWith('a') && val > 1e-5;
-      });
-      if (artInBasis) return { status: 'INFEASIBLE', steps, finalValues: {}, zValue: 0 };
-
-    } else {
-      // --- STANDARD SIMPLEX ---
-      // If user selected Simplex but we have artificial vars needed (>= or =),
-      // strictly speaking simplex doesn't start. 
-      // But if we treat them as slacks? No, math breaks.
-      // We'll assume standard simplex is only used for <= constraints. 
-      // If constraints required artificials but method is SIMPLEX, it might fail or act weird.
-      // We'll just run it.
-       const res = runSimplexIterations(matrix, headers, initialBasis, steps, 0);
-       if (res !== 'OPTIMAL') return { status: res, steps, finalValues: {}, zValue: 0 };
+    const dualRes = runDualSimplexIterations(F, matrix, headers, initialBasis, steps, rule, limit);
+    if (dualRes === 'INFEASIBLE') {
+      return failedResult('INFEASIBLE', steps, 'Una fila con LD negativo no tiene coeficientes negativos: no existe solución factible.');
     }
+    if (dualRes !== 'FEASIBLE') return failedResult(dualRes, steps);
 
-    // EXTRACT RESULTS
-    const finalValues: Record<string, number> = {};
-    // Initialize all vars to 0
-    headers.slice(1, -1).forEach(h => finalValues[h] = 0);
-    
-    // Read basis
-    initialBasis.forEach((colIdx, rowIdx) => {
-      const varName = headers[colIdx];
-      finalValues[varName] = matrix[rowIdx+1][RHS_COL];
-    });
+    const res = runSimplexIterations(F, matrix, headers, initialBasis, steps, 0, rule, limit);
+    if (res !== 'OPTIMAL') return stopped(res);
+
+  } else {
+    // --- STANDARD SIMPLEX ---
+    // Only "<=" rows get here (see solveLinearProgram): the slacks are a feasible start.
+     const res = runSimplexIterations(F, matrix, headers, initialBasis, steps, 0, rule, limit);
+     if (res !== 'OPTIMAL') return stopped(res);
+  }
 
-    let zValue = matrix[0][RHS_COL];
-    // If Max, Z is correct. If Min, we optimized -Z, so Z = -Z'. 
-    // However, note the row 0 equation: Z + ... = RHS. 
-    // In Min case (Max -Z), variable is Z' = -Z. So RHS is Z'. Real Z = -RHS.
-    if (isMin) {
-      zValue = -zValue;
+  // --- GOMORY CUTS ---
+  // Pure integer programs: keep cutting off the fractional LP optimum.
+  if (options.gomoryCuts) {
+    const artificialCols = headers.map((h, i) => h.startsWith('a') ? i : -1).filter(i => i >= 0);
+    const cuts = addGomoryCuts(F, matrix, headers, initialBasis, steps, rule, limit, artificialCols);
+    if (cuts.status === 'INFEASIBLE') {
+      return failedResult('INFEASIBLE', steps, 'Tras agregar los cortes de Gomory no queda ninguna solución entera factible.');
     }
+    if (cuts.status !== 'OPTIMAL') return failedResult(cuts.status, steps, cuts.message);
+    headers = cuts.headers;
+  }
+
+  // EXTRACT RESULTS
+  // (cuts may have added columns, so the RHS is looked up again)
+  const finalRhsCol = matrix[0].length - 1;
+  const basicValues = basicSolution(F, matrix, initialBasis);
+
+  const finalValues: Record<string, number> = {};
+  headers.slice(1, -1).forEach((h, i) => finalValues[h] = F.toNumber(basicValues[i + 1]));
+
+  let zExact = matrix[0][finalRhsCol];
+  // If Max, Z is correct. If Min, we optimized -Z, so Z = -Z'. 
+  // However, note the row 0 equation: Z + ... = RHS. 
+  // In Min case (Max -Z), variable is Z' = -Z. So RHS is Z'. Real Z = -RHS.
+  if (isMin) {
+    zExact = F.neg(zExact);
+  }
 
+  const result: SolveResult = {
+    status: 'OPTIMAL',
+    steps,
+    finalValues,
+    zValue: F.toNumber(zExact),
+    // Ranging describes the LP basis, which cuts no longer represent
+    sensitivity: options.gomoryCuts ? undefined : computeSensitivity(
+      F, matrix, headers, initialBasis, unitCols, rowOrigins, objCoeffs, modelConstraints, isMin
+    ),
+    optimality: options.gomoryCuts ? undefined : analyzeOptimality(F, matrix, headers, initialBasis)
+  };
+
+  if (F.toFraction) {
+    const toFraction = F.toFraction;
+    const exactValues: Record<string, FractionValue> = {};
+    headers.slice(1, -1).forEach((h, i) => exactValues[h] = toFraction(basicValues[i + 1]));
+    result.exactValues = exactValues;
+    result.exactZValue = toFraction(zExact);
+  }
+
+  return result;
+}
+
+// Copies the live matrix into display rows (numbers, plus fractions in exact mode).
+export function snapshotTableau<T>(
+  F: NumericField<T>,
+  matrix: T[][],
+  headers: string[],
+  basis: number[],
+  phase: number
+): TableauRow[] {
+  const RHS_COL = matrix[0].length - 1;
+  return matrix.map((row, r) => {
+    const mCoefficients = F.mCoefficient ? row.map(F.mCoefficient) : undefined;
+    const hasM = mCoefficients?.some(m => m !== 0);
     return {
-      status: 'OPTIMAL',
-      steps,
-      finalValues,
-      zValue
+      basicVar: r === 0 ? (phase === 1 ? 'W' : 'Z') : headers[basis[r-1]],
+      coefficients: row.map(F.toNumber),
+      rhs: F.toNumber(row[RHS_COL]),
+      fractions: F.toFraction ? row.map(F.toFraction) : undefined,
+      mCoefficients: hasM ? mCoefficients : undefined,
+      mFractions: hasM && F.mFraction ? row.map(F.mFraction) : undefined
     };
+  });
+}
 
-  } catch (e) {
-    console.error(e);
-    return { status: 'ERROR', steps: [], finalValues: {}, zValue: 0, errorMessage: 'Error interno de cálculo' };
+// Value of every column (Z and RHS positions included, as 0) in the current basic solution.
+function basicSolution<T>(F: NumericField<T>, matrix: T[][], basis: number[]): T[] {
+  const RHS_COL = matrix[0].length - 1;
+  const values: T[] = matrix[0].map(() => F.zero);
+  basis.forEach((colIdx, rowIdx) => {
+    values[colIdx] = matrix[rowIdx+1][RHS_COL];
+  });
+  return values;
+}
+
+// Ray of an unbounded tableau: the entering column has no positive entry, so raising
+// it by t moves each basic variable by −a_ic·t and never hits a bound. Big M can stop
+// with an artificial still positive; that vertex is not feasible, so no ray is given
+// (nor when a negative RHS left the start infeasible).
+function unboundedRay<T>(
+  F: NumericField<T>,
+  matrix: T[][],
+  headers: string[],
+  basis: number[],
+  col: number,
+  objCoeffs: number[]
+): UnboundedRay | undefined {
+  const values = basicSolution(F, matrix, basis);
+  if (basis.some(b => F.sign(values[b]) < 0 || (headers[b].startsWith('a') && F.sign(values[b]) > 0))) return undefined;
+
+  const decision = objCoeffs.map((_, j) => `x${j + 1}`);
+  const direction: Record<string, number> = Object.fromEntries(decision.map(x => [x, 0]));
+  if (headers[col].startsWith('x')) direction[headers[col]] = 1;
+  basis.forEach((b, i) => {
+    if (headers[b].startsWith('x')) direction[headers[b]] = -F.toNumber(matrix[i+1][col]);
+  });
+
+  return {
+    enteringVar: headers[col],
+    point: Object.fromEntries(decision.map((x, j) => [x, F.toNumber(values[j + 1])])),
+    direction,
+    zRate: objCoeffs.reduce((sum, c, j) => sum + c * direction[decision[j]], 0)
+  };
+}
+
+const MAX_ALTERNATIVE_BASES = 12;
+
+// Alternative optima and degeneracy of an optimal tableau. A nonbasic column with
+// reduced cost 0 can enter without changing Z: pivoting on a copy of the tableau
+// reaches another optimal basis, and from there possibly more. Bases that give the
+// same point (degenerate pivots) are explored but not reported twice. A zero-cost
+// column with no positive entry is a ray: the optimal set is unbounded along it.
+// Artificial columns never enter (they are blocked after Phase 1 or priced at M).
+export function analyzeOptimality<T>(
+  F: NumericField<T>,
+  matrix: T[][],
+  headers: string[],
+  basis: number[]
+): OptimalityAnalysis {
+  const RHS_COL = matrix[0].length - 1;
+  const candidates = (m: T[][], b: number[]) => {
+    const cols: number[] = [];
+    for(let c=1; c<RHS_COL; c++) {
+      if (!b.includes(c) && !headers[c].startsWith('a') && F.sign(m[0][c]) === 0) cols.push(c);
+    }
+    return cols;
+  };
+  const pointKey = (b: number[], m: T[][]) =>
+    basicSolution(F, m, b).slice(1, -1).map(v => describeValue(F, v)).join(',');
+  const basisKey = (b: number[]) => [...b].sort((x, y) => x - y).join(',');
+
+  const rays: OptimalityAnalysis['rays'] = [];
+  const alternatives: AlternativeOptimum[] = [];
+  const seenBases = new Set([basisKey(basis)]);
+  const seenPoints = new Set([pointKey(basis, matrix)]);
+  const queue = [{ matrix: matrix.map(row => [...row]), basis: [...basis] }];
+
+  while (queue.length > 0 && seenBases.size < MAX_ALTERNATIVE_BASES) {
+    const node = queue.shift()!;
+    for (const col of candidates(node.matrix, node.basis)) {
+      const leaving = chooseLeavingRow(F, node.matrix, node.basis, col, 'BLAND', []);
+      if (leaving.row === -1) {
+        if (rays.some(r => r.variable === headers[col])) continue;
+        const direction: Record<string, number> = {};
+        if (headers[col].startsWith('x')) direction[headers[col]] = 1;
+        node.basis.forEach((b, i) => {
+          const a = node.matrix[i+1][col];
+          if (headers[b].startsWith('x') && F.sign(a) !== 0) direction[headers[b]] = -F.toNumber(a);
+        });
+        rays.push({ variable: headers[col], direction });
+        continue;
+      }
+
+      const next = { matrix: node.matrix.map(row => [...row]), basis: [...node.basis] };
+      const tableau = snapshotTableau(F, node.matrix, headers, node.basis, 0);
+      const basicVars = node.basis.map(i => headers[i]);
+      const annotation = simplexPivot(F, next.matrix, headers, next.basis, leaving.row, col);
+      if (seenBases.has(basisKey(next.basis))) continue;
+      seenBases.add(basisKey(next.basis));
+      queue.push(next);
+
+      const key = pointKey(next.basis, next.matrix);
+      if (seenPoints.has(key)) continue;
+      seenPoints.add(key);
+      const values = basicSolution(F, next.matrix, next.basis);
+      const alternative: AlternativeOptimum = {
+        values: Object.fromEntries(headers.slice(1, -1).map((h, i) => [h, F.toNumber(values[i + 1])])),
+        steps: [
+          {
+            stepIndex: 1,
+            description: `Entra ${headers[col]} (costo reducido 0), Sale ${annotation.leavingVar}. Z no cambia.`,
+            tableau,
+            headers,
+            basicVars,
+            phase: 0,
+            ...annotation
+          },
+          {
+            stepIndex: 2,
+            description: `Óptimo alternativo ${alternatives.length + 1}.`,
+            tableau: snapshotTableau(F, next.matrix, headers, next.basis, 0),
+            headers,
+            basicVars: next.basis.map(i => headers[i]),
+            phase: 0
+          }
+        ]
+      };
+      if (F.toFraction) {
+        const toFraction = F.toFraction;
+        alternative.exactValues = Object.fromEntries(headers.slice(1, -1).map((h, i) => [h, toFraction(values[i + 1])]));
+      }
+      alternatives.push(alternative);
+    }
+  }
+
+  return {
+    zeroReducedCosts: candidates(matrix, basis).map(c => headers[c]),
+    alternatives,
+    rays,
+    degenerateVars: basis.filter((_, i) => F.sign(matrix[i+1][RHS_COL]) === 0).map(b => headers[b])
+  };
+}
+
+const MAX_ITERATIONS = 50;
+
+// Tableau-size models stop at MAX_ITERATIONS pivots. Larger ones (Gomory cuts past the
+// tableau limit, for one) get a budget that grows with the model, as in the revised simplex.
+const iterationLimit = (numVars: number, numConstraints: number) =>
+  fitsDenseTableau(numVars, numConstraints) ? MAX_ITERATIONS : MAX_ITERATIONS + 10 * (numVars + 2 * numConstraints);
+
+type IterationStatus = 'OPTIMAL' | 'UNBOUNDED' | 'ITERATION_LIMIT' | 'CYCLING';
+
+const STATUS_MESSAGES: Partial<Record<SolveResult['status'], string>> = {
+  ITERATION_LIMIT: 'Se alcanzó el límite de iteraciones sin llegar al óptimo.',
+  CYCLING: 'La base se repitió: el método cicla. Pruebe la regla de Bland o la lexicográfica.'
+};
+
+const failedResult = (status: SolveResult['status'], steps: TableauStep[], errorMessage?: string): SolveResult => ({
+  status,
+  steps,
+  finalValues: {},
+  zValue: 0,
+  errorMessage: errorMessage ?? STATUS_MESSAGES[status]
+});
+
+// Entering column according to the pivot rule, plus every column tied with it.
+export function chooseEnteringColumn<T>(
+  F: NumericField<T>,
+  matrix: T[][],
+  rule: PivotRule,
+  blockedCols: number[]
+): { col: number; ties: number[] } {
+  const colCount = matrix[0].length;
+  const candidates: number[] = [];
+  for(let c=1; c<colCount-1; c++) {
+    if (!blockedCols.includes(c) && F.sign(matrix[0][c]) < 0) candidates.push(c);
+  }
+  if (candidates.length === 0) return { col: -1, ties: [] };
+
+  // Bland: the candidate with the smallest index, no ties possible.
+  if (rule === 'BLAND') return { col: candidates[0], ties: [] };
+
+  // Dantzig (and lexicographic, which only changes the ratio test): most negative reduced cost.
+  // Steepest edge: most negative reduced cost per unit length of the edge direction.
+  const score = (c: number) => {
+    if (rule !== 'STEEPEST_EDGE') return matrix[0][c];
+    let norm = 1;
+    for(let r=1; r<matrix.length; r++) norm += F.toNumber(matrix[r][c]) ** 2;
+    return F.div(matrix[0][c], F.fromNumber(Math.sqrt(norm)));
+  };
+
+  let best = candidates[0];
+  let bestScore = score(best);
+  let ties: number[] = [best];
+  candidates.slice(1).forEach(c => {
+    const cmp = F.compare(score(c), bestScore);
+    if (cmp < 0) {
+      best = c;
+      bestScore = score(c);
+      ties = [c];
+    } else if (cmp === 0) {
+      ties.push(c);
+    }
+  });
+  return { col: best, ties: ties.length > 1 ? ties : [] };
+}
+
+// Minimum ratio test. Returns the leaving row (-1 if unbounded), the rows tied
+// at the minimum ratio before tie-breaking, and whether the pivot is degenerate.
+export function chooseLeavingRow<T>(
+  F: NumericField<T>,
+  matrix: T[][],
+  basis: number[],
+  enteringCol: number,
+  rule: PivotRule,
+  lexOrder: number[]
+): { row: number; ties: number[]; degenerate: boolean } {
+  const RHS_COL = matrix[0].length - 1;
+  let minRatio: T | null = null;
+  let tied: number[] = [];
+
+  for(let r=1; r<matrix.length; r++) {
+    const pivotVal = matrix[r][enteringCol];
+    if (F.sign(pivotVal) > 0) {
+      const ratio = F.div(matrix[r][RHS_COL], pivotVal);
+      const cmp = minRatio === null ? -1 : F.compare(ratio, minRatio);
+      if (cmp < 0) {
+        minRatio = ratio;
+        tied = [r];
+      } else if (cmp === 0) {
+        tied.push(r);
+      }
+    }
   }
+
+  if (minRatio === null) return { row: -1, ties: [], degenerate: false };
+
+  let row = tied[0];
+  if (tied.length > 1 && rule === 'BLAND') {
+    // Leaving variable with the smallest index.
+    row = tied.reduce((a, b) => basis[b-1] < basis[a-1] ? b : a);
+  } else if (tied.length > 1 && rule === 'LEXICOGRAPHIC') {
+    // Compare the tied rows divided by their pivot, column by column in lexOrder.
+    row = tied.reduce((a, b) => {
+      for (const c of lexOrder) {
+        const cmp = F.compare(
+          F.div(matrix[b][c], matrix[b][enteringCol]),
+          F.div(matrix[a][c], matrix[a][enteringCol])
+        );
+        if (cmp !== 0) return cmp < 0 ? b : a;
+      }
+      return a;
+    });
+  }
+
+  return { row, ties: tied.length > 1 ? tied : [], degenerate: F.sign(minRatio) === 0 };
+}
+
+// Short text for a tableau value inside step descriptions: "3/2", "0.3333", "2M − 1".
+export const describeValue = <T>(F: NumericField<T>, v: T) => {
+  const text = (num: number, fraction?: FractionValue) => fraction
+    ? (fraction.den === '1' ? fraction.num : `${fraction.num}/${fraction.den}`)
+    : parseFloat(num.toFixed(4)).toString();
+  const constant = text(F.toNumber(v), F.toFraction?.(v));
+  const m = F.mCoefficient?.(v) ?? 0;
+  if (Math.abs(m) < 1e-9) return constant;
+  const mText = text(m, F.mFraction?.(v));
+  const negative = mText.startsWith('-');
+  const abs = negative ? mText.slice(1) : mText;
+  let result = `${negative ? '−' : ''}${abs === '1' ? '' : abs}M`;
+  if (constant !== '0') result += constant.startsWith('-') ? ` − ${constant.slice(1)}` : ` + ${constant}`;
+  return result;
 };
 
+// The operations pivotInPlace is about to apply, described on the current tableau.
+// Eliminations use the pivot row after scaling, so each factor is the entry of
+// its row in the pivot column.
+function describeRowOperations<T>(
+  F: NumericField<T>,
+  matrix: T[][],
+  pivotRow: number,
+  pivotCol: number
+): RowOperation[] {
+  const ops: RowOperation[] = [];
+  const pivotValue = matrix[pivotRow][pivotCol];
+  if (F.compare(pivotValue, F.one) !== 0) {
+    const factorText = describeValue(F, pivotValue);
+    ops.push({
+      kind: 'SCALE',
+      target: pivotRow,
+      factor: F.toNumber(pivotValue),
+      factorText,
+      text: `R${pivotRow} ← R${pivotRow} / ${/^[\d.]+$/.test(factorText) ? factorText : `(${factorText})`}`
+    });
+  }
+
+  for(let r=0; r<matrix.length; r++) {
+    const factor = matrix[r][pivotCol];
+    if (r === pivotRow || F.sign(factor) === 0) continue;
+    const factorText = describeValue(F, factor);
+    const negative = F.sign(factor) < 0;
+    const magnitude = negative ? describeValue(F, F.neg(factor)) : factorText;
+    // "aM + b" terms go in parentheses with their own signs
+    const compound = / [+−] /.test(magnitude);
+    const multiple = compound ? `(${factorText})·` : magnitude === '1' ? '' : `${magnitude}·`;
+    ops.push({
+      kind: 'ELIMINATE',
+      target: r,
+      source: pivotRow,
+      factor: F.toNumber(factor),
+      factorText,
+      text: `R${r} ← R${r} ${negative && !compound ? '+' : '−'} ${multiple}R${pivotRow}`
+    });
+  }
+  return ops;
+}
+
+// Minimum ratio test LD_i / a_ij over the rows with a positive entry in the entering column.
+function primalRatioTest<T>(
+  F: NumericField<T>,
+  matrix: T[][],
+  headers: string[],
+  basis: number[],
+  enteringCol: number,
+  chosenRow: number
+): RatioTest {
+  const RHS_COL = matrix[0].length - 1;
+  const entries = matrix.slice(1).map((row, i) => {
+    const a = row[enteringCol];
+    const entry = {
+      index: i + 1,
+      label: headers[basis[i]],
+      numerator: describeValue(F, row[RHS_COL]),
+      denominator: describeValue(F, a)
+    };
+    if (F.sign(a) <= 0) return { ...entry, excluded: 'coeficiente ≤ 0' };
+    return { ...entry, ratio: describeValue(F, F.div(row[RHS_COL], a)), chosen: i + 1 === chosenRow };
+  });
+  return { entries };
+}
+
+// Dual ratio test |c_j / a_rj| over the nonbasic columns with a negative entry in the leaving row.
+function dualRatioTest<T>(
+  F: NumericField<T>,
+  matrix: T[][],
+  headers: string[],
+  basis: number[],
+  leavingRow: number,
+  chosenCol: number,
+  blockedCols: number[]
+): RatioTest {
+  const entries: RatioTest['entries'] = [];
+  for(let c=1; c<matrix[0].length-1; c++) {
+    if (basis.includes(c) || blockedCols.includes(c)) continue;
+    const a = matrix[leavingRow][c];
+    const entry = {
+      index: c,
+      label: headers[c],
+      numerator: describeValue(F, matrix[0][c]),
+      denominator: describeValue(F, a)
+    };
+    entries.push(F.sign(a) >= 0
+      ? { ...entry, excluded: 'coeficiente ≥ 0' }
+      : { ...entry, ratio: describeValue(F, F.div(matrix[0][c], F.neg(a))), chosen: c === chosenCol });
+  }
+  return { dual: true, entries };
+}
+
+// Gauss-Jordan pivot on (pivotRow, pivotCol) and basis update.
+export function pivotInPlace<T>(
+  F: NumericField<T>,
+  matrix: T[][],
+  basis: number[],
+  pivotRow: number,
+  pivotCol: number
+) {
+  const colCount = matrix[0].length;
+
+  // a) Normalize pivot row
+  const pivotValue = matrix[pivotRow][pivotCol];
+  for(let c=0; c<colCount; c++) {
+    matrix[pivotRow][c] = F.div(matrix[pivotRow][c], pivotValue);
+  }
+
+  // b) Eliminate other rows
+  for(let r=0; r<matrix.length; r++) {
+    if (r !== pivotRow) {
+      const factor = matrix[r][pivotCol];
+      if (F.sign(factor) !== 0) {
+        for(let c=0; c<colCount; c++) {
+          matrix[r][c] = F.sub(matrix[r][c], F.mul(factor, matrix[pivotRow][c]));
+        }
+      }
+    }
+  }
+
+  // Update Basis
+  basis[pivotRow-1] = pivotCol;
+}
+
+// One primal simplex pivot on (pivotRow, pivotCol): records the ratio test and the
+// row operations against the current tableau, then pivots matrix and basis in place.
+// The returned fields annotate the step holding the tableau before the pivot.
+// Shared by the automatic loop and the tutor mode, where the user picks the pivot.
+export function simplexPivot<T>(
+  F: NumericField<T>,
+  matrix: T[][],
+  headers: string[],
+  basis: number[],
+  pivotRow: number,
+  pivotCol: number
+): Pick<TableauStep, 'pivotRow' | 'pivotCol' | 'enteringVar' | 'leavingVar' | 'rowOperations' | 'ratioTest'> {
+  const annotation = {
+    pivotRow,
+    pivotCol,
+    enteringVar: headers[pivotCol],
+    leavingVar: headers[basis[pivotRow-1]],
+    rowOperations: describeRowOperations(F, matrix, pivotRow, pivotCol),
+    ratioTest: primalRatioTest(F, matrix, headers, basis, pivotCol, pivotRow)
+  };
+  pivotInPlace(F, matrix, basis, pivotRow, pivotCol);
+  return annotation;
+}
+
+// Dual simplex counterpart of simplexPivot: the ratio test runs along the leaving row.
+// Shared by the dual loop and the parametric analysis of b(θ).
+export function dualSimplexPivot<T>(
+  F: NumericField<T>,
+  matrix: T[][],
+  headers: string[],
+  basis: number[],
+  pivotRow: number,
+  pivotCol: number,
+  blockedCols: number[] = []
+): Pick<TableauStep, 'pivotRow' | 'pivotCol' | 'enteringVar' | 'leavingVar' | 'rowOperations' | 'ratioTest'> {
+  const annotation = {
+    pivotRow,
+    pivotCol,
+    enteringVar: headers[pivotCol],
+    leavingVar: headers[basis[pivotRow-1]],
+    rowOperations: describeRowOperations(F, matrix, pivotRow, pivotCol),
+    ratioTest: dualRatioTest(F, matrix, headers, basis, pivotRow, pivotCol, blockedCols)
+  };
+  pivotInPlace(F, matrix, basis, pivotRow, pivotCol);
+  return annotation;
+}
+
 // The Iteration Loop
-function runSimplexIterations(
-  matrix: number[][], 
+function runSimplexIterations<T>(
+  F: NumericField<T>,
+  matrix: T[][], 
   headers: string[], 
   basis: number[], 
   steps: TableauStep[],
-  phase: number
-): 'OPTIMAL' | 'UNBOUNDED' | 'INFEASIBLE' {
+  phase: number,
+  rule: PivotRule,
+  limit: number,
+  blockedCols: number[] = []
+): IterationStatus {
   
-  const maxIter = 50;
   let iter = 0;
   const colCount = matrix[0].length;
-  const rowCount = matrix.length;
   const RHS_COL = colCount - 1;
 
-  while (iter < maxIter) {
+  // Lexicographic order: RHS first, then the starting basis columns (an identity,
+  // so every row starts lexicographically positive), then the remaining columns.
+  const lexOrder = [RHS_COL, ...basis];
+  for(let c=1; c<colCount-1; c++) if (!lexOrder.includes(c)) lexOrder.push(c);
+
+  // Bases already visited in this phase, to tell cycling apart from a slow solve.
+  const visited = new Map<string, number>();
+
+  while (iter < limit) {
     // 1. Save current step
-    const currentTableauRows: TableauRow[] = [];
-    for(let r=0; r<rowCount; r++) {
-       currentTableauRows.push({
-         basicVar: r === 0 ? (phase === 1 ? 'W' : 'Z') : headers[basis[r-1]],
-         coefficients: matrix[r],
-         rhs: matrix[r][RHS_COL]
-       });
+    const currentTableauRows = snapshotTableau(F, matrix, headers, basis, phase);
+    const stepBase = {
+      tableau: currentTableauRows,
+      headers,
+      basicVars: basis.map(i => headers[i]),
+      isPhase1: phase === 1,
+      phase
+    };
+
+    const basisKey = [...basis].sort((a, b) => a - b).join(',');
+    const seenAt = visited.get(basisKey);
+    if (seenAt !== undefined) {
+      steps.push({
+        ...stepBase,
+        stepIndex: steps.length + 1,
+        description: `Ciclado detectado: la base {${basis.map(i => headers[i]).join(', ')}} ya se visitó en la iteración ${seenAt + 1}.`
+      });
+      return 'CYCLING';
     }
+    visited.set(basisKey, iter);
     
     // 2. Check Optimality
-    // Look for most negative coefficient in Row 0 (for maximization standard form)
-    let enteringCol = -1;
-    let minVal = -1e-9; // tolerance
-
-    for(let c=1; c<colCount-1; c++) {
-       if (matrix[0][c] < minVal) {
-         minVal = matrix[0][c];
-         enteringCol = c;
-       }
-    }
+    // Look for a negative coefficient in Row 0 (for maximization standard form)
+    const entering = chooseEnteringColumn(F, matrix, rule, blockedCols);
+    const enteringCol = entering.col;
 
     // If no negative coefficients, we are optimal
     if (enteringCol === -1) {
       steps.push({
+        ...stepBase,
         stepIndex: steps.length + 1,
-        description: `Solución Óptima encontrada (${phase > 0 ? 'Fase ' + phase : 'Final'}).`,
-        tableau: currentTableauRows,
-        headers,
-        basicVars: basis.map(i => headers[i]),
-        isPhase1: phase === 1,
-        phase
+        description: `Solución Óptima encontrada (${phase > 0 ? 'Fase ' + phase : 'Final'}).`
       });
       return 'OPTIMAL';
     }
 
     // 3. Determine Leaving Variable (Ratio Test)
-    let leavingRow = -1;
-    let minRatio = Infinity;
-
-    for(let r=1; r<rowCount; r++) {
-      const pivotVal = matrix[r][enteringCol];
-      if (pivotVal > 1e-9) {
-        const ratio = matrix[r][RHS_COL] / pivotVal;
-        if (ratio < minRatio) {
-          minRatio = ratio;
-          leavingRow = r;
-        }
-      }
-    }
+    const leaving = chooseLeavingRow(F, matrix, basis, enteringCol, rule, lexOrder);
+    const leavingRow = leaving.row;
 
     const enteringVarName = headers[enteringCol];
     
     if (leavingRow === -1) {
       steps.push({
+        ...stepBase,
         stepIndex: steps.length + 1,
         description: `Solución no acotada detectada. Variable entrante ${enteringVarName} no tiene pivote positivo.`,
-        tableau: currentTableauRows,
-        headers,
-        basicVars: basis.map(i => headers[i]),
-        isPhase1: phase === 1,
-        phase
+        enteringVar: enteringVarName,
+        ratioTest: primalRatioTest(F, matrix, headers, basis, enteringCol, -1)
       });
       return 'UNBOUNDED';
     }
 
     const leavingVarName = headers[basis[leavingRow-1]];
 
+    const notes: string[] = [];
+    if (entering.ties.length > 0) {
+      notes.push(`Empate al elegir la entrante entre ${entering.ties.map(c => headers[c]).join(', ')}.`);
+    }
+    if (leaving.ties.length > 0) {
+      notes.push(`Empate en la razón mínima entre las filas ${leaving.ties.join(', ')}.`);
+    }
+    if (leaving.degenerate) {
+      notes.push('Pivote degenerado: la razón mínima es 0 y Z no mejora.');
+    }
+
+    // 4. Pivot Operations
     steps.push({
+      ...stepBase,
       stepIndex: steps.length + 1,
-      description: `Iteración ${iter + 1}: Entra ${enteringVarName}, Sale ${leavingVarName}. Pivote en fila ${leavingRow}, col ${enteringCol}.`,
-      tableau: currentTableauRows,
+      description: [
+        `Iteración ${iter + 1}: Entra ${enteringVarName}, Sale ${leavingVarName}. Pivote en fila ${leavingRow}, col ${enteringCol}.`,
+        ...notes
+      ].join(' '),
+      ...simplexPivot(F, matrix, headers, basis, leavingRow, enteringCol)
+    });
+
+    iter++;
+  }
+
+  steps.push({
+    stepIndex: steps.length + 1,
+    description: `Se detuvo el método tras ${limit} iteraciones sin alcanzar el óptimo.`,
+    tableau: snapshotTableau(F, matrix, headers, basis, phase),
+    headers,
+    basicVars: basis.map(i => headers[i]),
+    isPhase1: phase === 1,
+    phase
+  });
+  return 'ITERATION_LIMIT';
+}
+
+// The Dual Simplex Loop: leaving row first (most negative RHS), then the entering
+// column by the dual ratio test. Stops as soon as the basis is primal feasible.
+function runDualSimplexIterations<T>(
+  F: NumericField<T>,
+  matrix: T[][],
+  headers: string[],
+  basis: number[],
+  steps: TableauStep[],
+  rule: PivotRule,
+  limit: number,
+  blockedCols: number[] = []
+): 'FEASIBLE' | 'INFEASIBLE' | 'ITERATION_LIMIT' | 'CYCLING' {
+
+  let iter = 0;
+  const colCount = matrix[0].length;
+  const RHS_COL = colCount - 1;
+  const visited = new Map<string, number>();
+
+  while (iter < limit) {
+    const stepBase = {
+      tableau: snapshotTableau(F, matrix, headers, basis, 0),
       headers,
       basicVars: basis.map(i => headers[i]),
-      pivotRow: leavingRow,
-      pivotCol: enteringCol,
-      enteringVar: enteringVarName,
-      leavingVar: leavingVarName,
-      isPhase1: phase === 1,
-      phase
-    });
+      phase: 0,
+      dual: true
+    };
 
-    // 4. Pivot Operations
-    // a) Normalize pivot row
-    const pivotValue = matrix[leavingRow][enteringCol];
-    for(let c=0; c<colCount; c++) {
-      matrix[leavingRow][c] /= pivotValue;
+    const basisKey = [...basis].sort((a, b) => a - b).join(',');
+    const seenAt = visited.get(basisKey);
+    if (seenAt !== undefined) {
+      steps.push({
+        ...stepBase,
+        stepIndex: steps.length + 1,
+        description: `Ciclado detectado: la base {${basis.map(i => headers[i]).join(', ')}} ya se visitó en la iteración ${seenAt + 1}.`
+      });
+      return 'CYCLING';
     }
+    visited.set(basisKey, iter);
 
-    // b) Eliminate other rows
-    for(let r=0; r<rowCount; r++) {
-      if (r !== leavingRow) {
-        const factor = matrix[r][enteringCol];
-        if (Math.abs(factor) > 1e-9) {
-          for(let c=0; c<colCount; c++) {
-            matrix[r][c] -= factor * matrix[leavingRow][c];
-          }
-        }
+    // 1. Leaving row: most negative RHS (Bland: smallest basic variable index)
+    let leavingRow = -1;
+    const tiedRows: number[] = [];
+    for(let r=1; r<matrix.length; r++) {
+      if (F.sign(matrix[r][RHS_COL]) >= 0) continue;
+      const cmp = leavingRow === -1 ? -1
+        : rule === 'BLAND' ? basis[r-1] - basis[leavingRow-1]
+        : F.compare(matrix[r][RHS_COL], matrix[leavingRow][RHS_COL]);
+      if (cmp < 0) {
+        leavingRow = r;
+        tiedRows.length = 0;
       }
+      if (cmp === 0) tiedRows.push(r);
     }
 
-    // Update Basis
-    basis[leavingRow-1] = enteringCol;
-    
+    // Every RHS >= 0: primal feasible, hence optimal since row 0 stayed dual feasible
+    if (leavingRow === -1) return 'FEASIBLE';
+
+    const leavingVarName = headers[basis[leavingRow-1]];
+
+    // 2. Entering column: min |row0_j / a_rj| over a_rj < 0
+    let enteringCol = -1;
+    let minRatio: T | null = null;
+    const tiedCols: number[] = [];
+    for(let c=1; c<colCount-1; c++) {
+      const a = matrix[leavingRow][c];
+      if (F.sign(a) >= 0 || blockedCols.includes(c)) continue;
+      const ratio = F.div(matrix[0][c], F.neg(a));
+      const cmp = minRatio === null ? -1 : F.compare(ratio, minRatio);
+      if (cmp < 0) {
+        minRatio = ratio;
+        enteringCol = c;
+        tiedCols.length = 0;
+      }
+      if (cmp === 0) tiedCols.push(c);
+    }
+
+    if (enteringCol === -1) {
+      steps.push({
+        ...stepBase,
+        stepIndex: steps.length + 1,
+        description: `Problema infactible: la fila de ${leavingVarName} tiene LD negativo y ningún coeficiente negativo para la razón dual.`,
+        pivotRow: leavingRow,
+        leavingVar: leavingVarName,
+        ratioTest: dualRatioTest(F, matrix, headers, basis, leavingRow, -1, blockedCols)
+      });
+      return 'INFEASIBLE';
+    }
+
+    const enteringVarName = headers[enteringCol];
+    const notes: string[] = [];
+    if (tiedRows.length > 0) {
+      notes.push(`Empate en el LD más negativo entre las filas ${[leavingRow, ...tiedRows].join(', ')}.`);
+    }
+    if (tiedCols.length > 0) {
+      notes.push(`Empate en la razón dual entre ${[enteringCol, ...tiedCols].map(c => headers[c]).join(', ')}.`);
+    }
+    if (minRatio !== null && F.sign(minRatio) === 0) {
+      notes.push('Pivote dual degenerado: la razón dual es 0 y Z no cambia.');
+    }
+
+    steps.push({
+      ...stepBase,
+      stepIndex: steps.length + 1,
+      description: [
+        `Iteración dual ${iter + 1}: Sale ${leavingVarName} (LD más negativo), Entra ${enteringVarName} (razón dual mínima). Pivote en fila ${leavingRow}, col ${enteringCol}.`,
+        ...notes
+      ].join(' '),
+      ...dualSimplexPivot(F, matrix, headers, basis, leavingRow, enteringCol, blockedCols)
+    });
+
     iter++;
   }
-  return 'UNBOUNDED'; // Hit max iterations
-}
\ No newline at end of file
+
+  steps.push({
+    stepIndex: steps.length + 1,
+    description: `Se detuvo el método tras ${limit} iteraciones sin alcanzar el óptimo.`,
+    tableau: snapshotTableau(F, matrix, headers, basis, 0),
+    headers,
+    basicVars: basis.map(i => headers[i]),
+    phase: 0,
+    dual: true
+  });
+  return 'ITERATION_LIMIT';
+}
+
+const MAX_CUTS = 30;
+
+// Gomory fractional cuts on an optimal tableau. The row with the largest fractional
+// RHS gives sum(frac(a_rj)·x_j) >= frac(b_r) over its nonbasic columns. The cut is
+// appended as -sum(frac(a_rj)·x_j) + g_k = -frac(b_r), with its slack g_k basic, and
+// the dual simplex restores feasibility. Valid only when every variable, slacks
+// included, must be integral (integer data).
+function addGomoryCuts<T>(
+  F: NumericField<T>,
+  matrix: T[][],
+  headers: string[],
+  basis: number[],
+  steps: TableauStep[],
+  rule: PivotRule,
+  limit: number,
+  blockedCols: number[]
+): { status: IterationStatus | 'INFEASIBLE'; headers: string[]; message?: string } {
+  const frac = (v: T) => F.sub(v, F.floor(v));
+
+  for (let k = 1; k <= MAX_CUTS; k++) {
+    const RHS_COL = matrix[0].length - 1;
+
+    // Source row: largest fractional part of the RHS
+    let source = -1;
+    let f0: T | null = null;
+    for(let r=1; r<matrix.length; r++) {
+      const f = frac(matrix[r][RHS_COL]);
+      if (F.sign(f) > 0 && (f0 === null || F.compare(f, f0) > 0)) {
+        f0 = f;
+        source = r;
+      }
+    }
+    if (source === -1 || f0 === null) return { status: 'OPTIMAL', headers };
+
+    const basic = new Set(basis);
+    const cutCoeffs = matrix[source].slice(0, RHS_COL).map((v, c) =>
+      c === 0 || basic.has(c) || blockedCols.includes(c) ? F.zero : frac(v)
+    );
+    const terms = cutCoeffs
+      .map((f, c) => ({ f, c }))
+      .filter(t => F.sign(t.f) !== 0)
+      .map(t => `${describeValue(F, t.f)}·${headers[t.c]}`);
+
+    // New slack column right before the RHS. Earlier steps keep their own headers array.
+    const slackName = `g${k}`;
+    headers = [...headers.slice(0, RHS_COL), slackName, 'LD'];
+    matrix.forEach(row => row.splice(RHS_COL, 0, F.zero));
+    matrix.push([...cutCoeffs.map(F.neg), F.one, F.neg(f0)]);
+    basis.push(RHS_COL);
+
+    steps.push({
+      stepIndex: steps.length + 1,
+      description: `Corte de Gomory ${k} (de la fila de ${headers[basis[source-1]]}): ${terms.join(' + ')} ≥ ${describeValue(F, f0)}. Se agrega como fila nueva con la holgura ${slackName} en la base.`,
+      tableau: snapshotTableau(F, matrix, headers, basis, 0),
+      headers,
+      basicVars: basis.map(i => headers[i]),
+      phase: 0,
+      cutIndex: k
+    });
+
+    const dualRes = runDualSimplexIterations(F, matrix, headers, basis, steps, rule, limit, blockedCols);
+    if (dualRes !== 'FEASIBLE') return { status: dualRes, headers };
+
+    const res = runSimplexIterations(F, matrix, headers, basis, steps, 0, rule, limit, blockedCols);
+    if (res !== 'OPTIMAL') return { status: res, headers };
+  }
+
+  return {
+    status: 'ITERATION_LIMIT',
+    headers,
+    message: `Se agregaron ${MAX_CUTS} cortes de Gomory sin llegar a una solución entera.`
+  };
+}
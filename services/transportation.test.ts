@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { TransportInitialMethod } from '../types';
+import { solveTransportation } from './transportation';
+
+// Classic 3×4 example: optimal cost 743
+const problem = {
+  costs: [[19, 30, 50, 10], [70, 30, 40, 60], [40, 8, 70, 20]],
+  supply: [7, 9, 18],
+  demand: [5, 8, 7, 14]
+};
+
+describe('solveTransportation', () => {
+  it.each<TransportInitialMethod>(['NORTHWEST_CORNER', 'LEAST_COST', 'VOGEL'])('reaches the optimum from %s', method => {
+    const result = solveTransportation(problem, method);
+    expect(result.status).toBe('OPTIMAL');
+    expect(result.totalCost).toBeCloseTo(743);
+    result.allocation.forEach((row, i) => expect(row.reduce((a, b) => a + b, 0)).toBeCloseTo(problem.supply[i]));
+    problem.demand.forEach((d, j) => expect(result.allocation.reduce((a, row) => a + row[j], 0)).toBeCloseTo(d));
+  });
+
+  it('balances excess supply with a dummy destination', () => {
+    const result = solveTransportation({ costs: [[4, 6], [5, 3]], supply: [10, 10], demand: [6, 8] }, 'VOGEL');
+    expect(result.dummy).toBe('COLUMN');
+    expect(result.problem.demand).toEqual([6, 8, 6]);
+    expect(result.totalCost).toBeCloseTo(6 * 4 + 8 * 3);
+  });
+});
@@ -0,0 +1,262 @@
+import {
+  TransportAllocationStep, TransportCell, TransportInitialMethod, TransportIteration, TransportationProblem,
+  TransportationResult
+} from '../types';
+
+// Transportation problems solved on the cost matrix instead of a simplex tableau.
+// A basic solution has m + n − 1 basic cells forming a spanning tree of the
+// origins and destinations. The heuristics below cross out exactly one line per
+// allocation, so a degenerate step leaves a basic cell holding 0 and the count
+// is always right. MODI (u-v) prices the nonbasic cells; the entering cell closes
+// one stepping-stone loop in the tree, and θ units are moved around it.
+
+const EPS = 1e-9;
+const MAX_ITERATIONS = 50;
+
+const show = (v: number) => {
+  const text = String(parseFloat(Math.abs(v).toFixed(4)));
+  return v < -EPS ? `−${text}` : text;
+};
+const cellName = ({ row, col }: TransportCell) => `(O${row + 1}, D${col + 1})`;
+const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+// Adds a zero-cost dummy destination (excess supply) or origin (excess demand).
+export const balanceProblem = (p: TransportationProblem): { problem: TransportationProblem; dummy?: 'ROW' | 'COLUMN' } => {
+  const gap = sum(p.supply) - sum(p.demand);
+  if (Math.abs(gap) < EPS) return { problem: p };
+  if (gap > 0) {
+    return {
+      problem: { costs: p.costs.map(row => [...row, 0]), supply: p.supply, demand: [...p.demand, gap] },
+      dummy: 'COLUMN'
+    };
+  }
+  return {
+    problem: { costs: [...p.costs, p.demand.map(() => 0)], supply: [...p.supply, -gap], demand: p.demand },
+    dummy: 'ROW'
+  };
+};
+
+// Difference between the two cheapest costs of a line, over the lines still open
+const penalty = (costs: number[]) => {
+  if (costs.length < 2) return null;
+  const [a, b] = [...costs].sort((x, y) => x - y);
+  return b - a;
+};
+
+export const initialSolution = (p: TransportationProblem, method: TransportInitialMethod) => {
+  const m = p.supply.length;
+  const n = p.demand.length;
+  const supply = [...p.supply];
+  const demand = [...p.demand];
+  const openRows = new Set(Array.from({ length: m }, (_, i) => i));
+  const openCols = new Set(Array.from({ length: n }, (_, j) => j));
+  const allocation: (number | null)[][] = p.costs.map(row => row.map(() => null));
+  const steps: TransportAllocationStep[] = [];
+
+  const cheapest = (cells: TransportCell[]) => cells.reduce((best, c) => {
+    const diff = p.costs[c.row][c.col] - p.costs[best.row][best.col];
+    // Ties: the cell that ships more, then the first one
+    if (diff < -EPS) return c;
+    if (diff > EPS) return best;
+    return Math.min(supply[c.row], demand[c.col]) > Math.min(supply[best.row], demand[best.col]) + EPS ? c : best;
+  });
+  const openCells = () => [...openRows].flatMap(row => [...openCols].map(col => ({ row, col })));
+
+  while (openRows.size > 0 && openCols.size > 0) {
+    let cell: TransportCell;
+    let reason: string;
+    let rowPenalties: (number | null)[] | undefined;
+    let colPenalties: (number | null)[] | undefined;
+
+    if (method === 'NORTHWEST_CORNER') {
+      cell = { row: Math.min(...openRows), col: Math.min(...openCols) };
+      reason = 'esquina noroeste de la tabla restante';
+    } else if (method === 'LEAST_COST') {
+      cell = cheapest(openCells());
+      reason = `menor costo restante (${show(p.costs[cell.row][cell.col])})`;
+    } else {
+      rowPenalties = p.supply.map((_, i) => (openRows.has(i) ? penalty([...openCols].map(j => p.costs[i][j])) : null));
+      colPenalties = p.demand.map((_, j) => (openCols.has(j) ? penalty([...openRows].map(i => p.costs[i][j])) : null));
+      // Largest penalty, rows before columns on ties
+      let chosen: { line: 'ROW' | 'COL'; index: number; value: number } | null = null;
+      for (const [i, v] of rowPenalties.entries()) {
+        if (v !== null && (!chosen || v > chosen.value + EPS)) chosen = { line: 'ROW', index: i, value: v };
+      }
+      for (const [j, v] of colPenalties.entries()) {
+        if (v !== null && (!chosen || v > chosen.value + EPS)) chosen = { line: 'COL', index: j, value: v };
+      }
+      if (chosen) {
+        const line = chosen.line === 'ROW'
+          ? [...openCols].map(col => ({ row: chosen.index, col }))
+          : [...openRows].map(row => ({ row, col: chosen.index }));
+        cell = cheapest(line);
+        reason = `mayor penalización ${show(chosen.value)} en ${chosen.line === 'ROW' ? `O${chosen.index + 1}` : `D${chosen.index + 1}`}, celda de menor costo de esa línea`;
+      } else {
+        // A single line is left open: its cells are forced
+        cell = cheapest(openCells());
+        reason = 'única línea restante';
+      }
+    }
+
+    const amount = Math.min(supply[cell.row], demand[cell.col]);
+    allocation[cell.row][cell.col] = amount;
+    supply[cell.row] -= amount;
+    demand[cell.col] -= amount;
+
+    // Cross out one line only; when both run out the other keeps a remaining 0
+    let crossed: string;
+    if (supply[cell.row] < EPS && openRows.size > 1) {
+      openRows.delete(cell.row);
+      crossed = `se agota la oferta de O${cell.row + 1}`;
+    } else {
+      openCols.delete(cell.col);
+      crossed = `se cubre la demanda de D${cell.col + 1}`;
+    }
+    const degenerate = amount < EPS ? ' (asignación degenerada: la celda queda básica con 0)' : '';
+    steps.push({
+      cell,
+      amount,
+      description: `${cellName(cell)}: ${reason}. Se asignan ${show(amount)} unidades y ${crossed}.${degenerate}`,
+      rowPenalties,
+      colPenalties
+    });
+  }
+  return { allocation, steps };
+};
+
+const basicCells = (allocation: (number | null)[][]) =>
+  allocation.flatMap((row, i) => row.flatMap((v, j) => (v === null ? [] : [{ row: i, col: j }])));
+
+// u_i + v_j = c_ij on every basic cell, starting from u_1 = 0
+const potentials = (costs: number[][], basis: TransportCell[]) => {
+  const m = costs.length;
+  const n = costs[0].length;
+  const u: (number | null)[] = Array(m).fill(null);
+  const v: (number | null)[] = Array(n).fill(null);
+  u[0] = 0;
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const { row, col } of basis) {
+      if (u[row] !== null && v[col] === null) {
+        v[col] = costs[row][col] - u[row]!;
+        changed = true;
+      } else if (v[col] !== null && u[row] === null) {
+        u[row] = costs[row][col] - v[col]!;
+        changed = true;
+      }
+    }
+  }
+  return { u: u.map(x => x ?? 0), v: v.map(x => x ?? 0) };
+};
+
+// Closed loop through the entering cell and basic cells: the path from the entering
+// destination back to its origin in the basis tree, turning at every cell.
+const findLoop = (basis: TransportCell[], entering: TransportCell, m: number): TransportCell[] => {
+  // Nodes 0..m−1 are origins, m.. are destinations
+  const edges = new Map<number, { to: number; cell: TransportCell }[]>();
+  const link = (a: number, b: number, cell: TransportCell) => {
+    if (!edges.has(a)) edges.set(a, []);
+    edges.get(a)!.push({ to: b, cell });
+  };
+  basis.forEach(cell => {
+    link(cell.row, m + cell.col, cell);
+    link(m + cell.col, cell.row, cell);
+  });
+
+  const start = m + entering.col;
+  const target = entering.row;
+  const via = new Map<number, { from: number; cell: TransportCell }>();
+  const queue = [start];
+  const seen = new Set([start]);
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    if (node === target) break;
+    for (const { to, cell } of edges.get(node) ?? []) {
+      if (seen.has(to)) continue;
+      seen.add(to);
+      via.set(to, { from: node, cell });
+      queue.push(to);
+    }
+  }
+
+  // Walk back from the origin: the cells come out in loop order after the entering one
+  const path: TransportCell[] = [];
+  for (let node = target; node !== start; node = via.get(node)!.from) path.unshift(via.get(node)!.cell);
+  return [entering, ...path];
+};
+
+const totalCost = (costs: number[][], allocation: (number | null)[][]) =>
+  sum(allocation.flatMap((row, i) => row.map((v, j) => (v ?? 0) * costs[i][j])));
+
+export const solveTransportation = (
+  input: TransportationProblem,
+  initialMethod: TransportInitialMethod
+): TransportationResult => {
+  const { problem, dummy } = balanceProblem(input);
+  const { costs } = problem;
+  const m = costs.length;
+  const { allocation: start, steps: initialSteps } = initialSolution(problem, initialMethod);
+
+  let allocation = start;
+  const iterations: TransportIteration[] = [];
+  let status: TransportationResult['status'] = 'ITERATION_LIMIT';
+  let alternativeOptima = false;
+
+  for (let k = 1; k <= MAX_ITERATIONS; k++) {
+    const basis = basicCells(allocation);
+    const { u, v } = potentials(costs, basis);
+    const reducedCosts = allocation.map((row, i) => row.map((a, j) => (a === null ? costs[i][j] - u[i] - v[j] : null)));
+    const cost = totalCost(costs, allocation);
+
+    let entering: TransportCell | undefined;
+    reducedCosts.forEach((row, i) => row.forEach((d, j) => {
+      if (d !== null && d < -EPS && (!entering || d < reducedCosts[entering.row][entering.col]! - EPS)) entering = { row: i, col: j };
+    }));
+
+    if (!entering) {
+      alternativeOptima = reducedCosts.some(row => row.some(d => d !== null && Math.abs(d) < EPS));
+      iterations.push({
+        allocation, u, v, reducedCosts, cost,
+        description: `Iteración ${k}: todos los costos reducidos son ≥ 0, la solución es óptima con costo total ${show(cost)}.` +
+          (alternativeOptima ? ' Hay celdas no básicas con costo reducido 0: existen soluciones óptimas alternativas.' : '')
+      });
+      status = 'OPTIMAL';
+      break;
+    }
+
+    const loop = findLoop(basis, entering, m);
+    // Odd positions of the loop lose θ; the smallest of them leaves
+    const minus = loop.filter((_, idx) => idx % 2 === 1);
+    const leaving = minus.reduce((best, c) => (allocation[c.row][c.col]! < allocation[best.row][best.col]! - EPS ? c : best));
+    const theta = allocation[leaving.row][leaving.col]!;
+    const dCost = reducedCosts[entering.row][entering.col]!;
+
+    iterations.push({
+      allocation, u, v, reducedCosts, cost, entering, loop, theta, leaving,
+      description: `Iteración ${k}: entra ${cellName(entering)} con costo reducido ${show(dCost)}. ` +
+        `Circuito ${loop.map((c, idx) => `${idx % 2 === 0 ? '+' : '−'}${cellName(c)}`).join(' ')}; ` +
+        `θ = ${show(theta)}, sale ${cellName(leaving)}. El costo cambia en ${show(dCost)}·${show(theta)} = ${show(dCost * theta)}.`
+    });
+
+    const next = allocation.map(row => [...row]);
+    loop.forEach((c, idx) => {
+      next[c.row][c.col] = (next[c.row][c.col] ?? 0) + (idx % 2 === 0 ? theta : -theta);
+    });
+    next[leaving.row][leaving.col] = null;
+    allocation = next;
+  }
+
+  const final = allocation.map(row => row.map(v => v ?? 0));
+  return {
+    status,
+    problem,
+    dummy,
+    initialMethod,
+    initialSteps,
+    iterations,
+    allocation: final,
+    totalCost: totalCost(costs, allocation),
+    alternativeOptima
+  };
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { chooseColumn, chooseRow, startTutor } from './tutor';
+import { solveLinearProgram } from './solver';
+import { wyndor } from './fixtures';
+
+// Columns: Z, x1, x2, s1, s2, s3, LD; rows: Z, s1, s2, s3
+const start = () => {
+  const { steps } = solveLinearProgram('SIMPLEX', 'MAX', wyndor.objCoeffs, wyndor.constraints, { exact: true });
+  return startTutor(steps[0], 'DANTZIG');
+};
+
+describe('tutor mode', () => {
+  it('rejects columns that do not improve Z and rows that fail the ratio test', () => {
+    let state = chooseColumn(start(), 3, 'DANTZIG');
+    expect(state.feedback?.valid).toBe(false);
+    expect(state.enteringCol).toBeNull();
+
+    state = chooseColumn(state, 1, 'DANTZIG');
+    expect(state.feedback?.valid).toBe(true);
+    expect(state.feedback?.message).toContain('tomaría x2');
+
+    state = chooseRow(state, 3, 'DANTZIG');
+    expect(state.feedback?.valid).toBe(false);
+    expect(state.feedback?.message).toContain('la mínima es 4');
+    expect([state.correct, state.mistakes]).toEqual([1, 2]);
+  });
+
+  it('pivots on valid choices until the tableau is optimal', () => {
+    let state = start();
+    state = chooseRow(chooseColumn(state, 2, 'DANTZIG'), 2, 'DANTZIG');
+    expect(state.status).toBe('PLAYING');
+    state = chooseRow(chooseColumn(state, 1, 'DANTZIG'), 3, 'DANTZIG');
+    expect(state.status).toBe('OPTIMAL');
+    expect(state.mistakes).toBe(0);
+    const last = state.steps[state.steps.length - 1];
+    expect(last.tableau[0].rhs).toBe(36);
+    expect(last.basicVars).toEqual(['s1', 'x2', 'x1']);
+  });
+});
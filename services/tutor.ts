@@ -0,0 +1,191 @@
+import { FractionValue, PivotRule, TableauStep } from '../types';
+import { NumericField, bigMField, floatField, rationalField } from './numeric';
+import { RATIONAL_ZERO, makeRational } from './rational';
+import {
+  chooseEnteringColumn, chooseLeavingRow, describeValue, simplexPivot, snapshotTableau
+} from './solver';
+
+// Tutor mode: the user picks the entering column and the leaving row by hand.
+// Each choice is checked against the optimality rule and the ratio test, and
+// valid pivots go through the same simplexPivot as the automatic solver.
+// The state only holds plain TableauSteps; every check rebuilds the matrix in
+// the field the tableau was computed with, so exact and Big M values stay exact.
+
+export interface TutorFeedback {
+  valid: boolean;
+  message: string;
+}
+
+export interface TutorState {
+  steps: TableauStep[]; // Tableaux pivoted so far; the last one is the live tableau
+  enteringCol: number | null; // Column accepted, waiting for the leaving row
+  status: 'PLAYING' | 'OPTIMAL' | 'UNBOUNDED';
+  correct: number;
+  mistakes: number;
+  feedback: TutorFeedback | null;
+}
+
+const fromFraction = (f: FractionValue) => makeRational(BigInt(f.num), BigInt(f.den));
+
+function withStepMatrix<R>(
+  step: TableauStep,
+  fn: <T>(F: NumericField<T>, matrix: T[][], basis: number[]) => R
+): R {
+  const basis = step.basicVars.map(v => step.headers.indexOf(v));
+  const isBigM = step.tableau.some(r => r.mCoefficients);
+  if (step.tableau.every(r => r.fractions)) {
+    const rows = step.tableau.map(r => r.fractions!.map(fromFraction));
+    if (!isBigM) return fn(rationalField, rows, basis);
+    return fn(bigMField(rationalField), rows.map((row, i) => row.map((a, c) => {
+      const m = step.tableau[i].mFractions?.[c];
+      return { a, m: m ? fromFraction(m) : RATIONAL_ZERO };
+    })), basis);
+  }
+  const rows = step.tableau.map(r => [...r.coefficients]);
+  if (!isBigM) return fn(floatField, rows, basis);
+  return fn(bigMField(floatField), rows.map((row, i) => row.map((a, c) => ({
+    a, m: step.tableau[i].mCoefficients?.[c] ?? 0
+  }))), basis);
+}
+
+// Artificial columns may not re-enter in Phase 2
+const blockedColumns = (step: TableauStep) =>
+  step.phase === 2 ? step.headers.map((h, i) => (h.startsWith('a') ? i : -1)).filter(i => i >= 0) : [];
+
+const objectiveName = (step: TableauStep) => (step.isPhase1 ? 'W' : 'Z');
+
+const isOptimal = (step: TableauStep, rule: PivotRule) =>
+  withStepMatrix(step, (F, matrix) => chooseEnteringColumn(F, matrix, rule, blockedColumns(step)).col === -1);
+
+export const startTutor = (initial: TableauStep, rule: PivotRule): TutorState => {
+  // Start from the bare tableau: drop the solver's pivot annotations
+  const { pivotRow: _r, pivotCol: _c, enteringVar: _e, leavingVar: _l, rowOperations: _o, ratioTest: _t, ...tableau } = initial;
+  const first = { ...tableau, stepIndex: 1, description: 'Tableau inicial.' };
+  return {
+    steps: [first],
+    enteringCol: null,
+    status: isOptimal(first, rule) ? 'OPTIMAL' : 'PLAYING',
+    correct: 0,
+    mistakes: 0,
+    feedback: null
+  };
+};
+
+const withFeedback = (state: TutorState, feedback: TutorFeedback): TutorState => ({
+  ...state,
+  correct: state.correct + (feedback.valid ? 1 : 0),
+  mistakes: state.mistakes + (feedback.valid ? 0 : 1),
+  feedback
+});
+
+export const chooseColumn = (state: TutorState, col: number, rule: PivotRule): TutorState => {
+  if (state.status !== 'PLAYING') return state;
+  const step = state.steps[state.steps.length - 1];
+  const name = step.headers[col];
+  const z = objectiveName(step);
+
+  return withStepMatrix(step, (F, matrix) => {
+    if (col <= 0 || col >= matrix[0].length - 1) {
+      return withFeedback(state, { valid: false, message: 'Elija la columna de una variable.' });
+    }
+    if (blockedColumns(step).includes(col)) {
+      return withFeedback(state, { valid: false, message: `${name} es artificial y ya no puede volver a entrar en la Fase 2.` });
+    }
+    const reducedCost = matrix[0][col];
+    if (F.sign(reducedCost) >= 0) {
+      const basic = step.basicVars.includes(name);
+      return withFeedback(state, {
+        valid: false,
+        message: basic
+          ? `${name} ya es básica: su coeficiente en la fila ${z} es 0.`
+          : `El coeficiente de ${name} en la fila ${z} es ${describeValue(F, reducedCost)} ≥ 0: si entra, ${z} no mejora. Busque un coeficiente negativo.`
+      });
+    }
+
+    const suggested = chooseEnteringColumn(F, matrix, rule, blockedColumns(step)).col;
+    const hint = suggested === col ? '' : ` La regla de pivoteo elegida tomaría ${step.headers[suggested]}, pero cualquier coeficiente negativo mejora ${z}.`;
+
+    // No row limits the increase: the pivot choice ends in an unbounded ray
+    if (!matrix.slice(1).some(row => F.sign(row[col]) > 0)) {
+      return {
+        ...withFeedback(state, {
+          valid: true,
+          message: `Correcto: ${name} mejora ${z}, pero ninguna fila tiene coeficiente positivo en su columna. ${name} puede crecer sin límite: el problema es no acotado.${hint}`
+        }),
+        status: 'UNBOUNDED',
+        enteringCol: col
+      };
+    }
+
+    return {
+      ...withFeedback(state, {
+        valid: true,
+        message: `Correcto: ${name} tiene coeficiente ${describeValue(F, reducedCost)} en la fila ${z}.${hint} Ahora elija la fila que sale con la prueba de la razón mínima.`
+      }),
+      enteringCol: col
+    };
+  });
+};
+
+export const chooseRow = (state: TutorState, row: number, rule: PivotRule): TutorState => {
+  if (state.status !== 'PLAYING' || state.enteringCol === null) return state;
+  const step = state.steps[state.steps.length - 1];
+  const col = state.enteringCol;
+  const entering = step.headers[col];
+
+  return withStepMatrix(step, (F, matrix, basis) => {
+    if (row <= 0) {
+      return withFeedback(state, { valid: false, message: `La fila ${objectiveName(step)} no sale de la base: elija una fila de restricción.` });
+    }
+    const RHS_COL = matrix[0].length - 1;
+    const basicVar = step.headers[basis[row-1]];
+    const a = matrix[row][col];
+    if (F.sign(a) <= 0) {
+      return withFeedback(state, {
+        valid: false,
+        message: `El coeficiente de ${entering} en la fila de ${basicVar} es ${describeValue(F, a)} ≤ 0: esa fila no limita el aumento de ${entering}.`
+      });
+    }
+
+    const lexOrder = [RHS_COL, ...basis];
+    for(let c=1; c<RHS_COL; c++) if (!lexOrder.includes(c)) lexOrder.push(c);
+    const leaving = chooseLeavingRow(F, matrix, basis, col, rule, lexOrder);
+    const ratio = F.div(matrix[row][RHS_COL], a);
+    const minRatio = F.div(matrix[leaving.row][RHS_COL], matrix[leaving.row][col]);
+    if (F.compare(ratio, minRatio) > 0) {
+      return withFeedback(state, {
+        valid: false,
+        message: `La razón de la fila de ${basicVar} es ${describeValue(F, ratio)}, pero la mínima es ${describeValue(F, minRatio)} (fila de ${step.headers[basis[leaving.row-1]]}). Pivotar ahí dejaría lados derechos negativos.`
+      });
+    }
+
+    const pivoted = {
+      ...step,
+      description: `Pivote ${state.steps.length}: Entra ${entering}, Sale ${basicVar}. Pivote en fila ${row}, col ${col}.`,
+      ...simplexPivot(F, matrix, step.headers, basis, row, col)
+    };
+    const next: TableauStep = {
+      stepIndex: step.stepIndex + 1,
+      description: '',
+      tableau: snapshotTableau(F, matrix, step.headers, basis, step.phase ?? 0),
+      headers: step.headers,
+      basicVars: basis.map(i => step.headers[i]),
+      isPhase1: step.isPhase1,
+      phase: step.phase
+    };
+    const optimal = isOptimal(next, rule);
+    const tie = leaving.ties.length > 0 ? ' Había un empate en la razón mínima; cualquiera de las filas empatadas es válida.' : '';
+
+    return {
+      ...withFeedback(state, {
+        valid: true,
+        message: optimal
+          ? `Correcto: razón mínima ${describeValue(F, ratio)}.${tie} El nuevo tableau es óptimo: ningún coeficiente de la fila ${objectiveName(step)} es negativo.`
+          : `Correcto: razón mínima ${describeValue(F, ratio)}.${tie} Elija la siguiente columna que entra.`
+      }),
+      steps: [...state.steps.slice(0, -1), pivoted, next],
+      enteringCol: null,
+      status: optimal ? 'OPTIMAL' : 'PLAYING'
+    };
+  });
+};
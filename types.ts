@@ -2,6 +2,9 @@ export type OptimizationType = 'MAX' | 'MIN';
 
 export type Relation = '<=' | '>=' | '=';
 
+// Domain of a decision variable; integer and binary ones go through branch and bound.
+export type VariableKind = 'continuous' | 'integer' | 'binary';
+
 export type Constraint = {
   id: string;
   coefficients: number[];
@@ -9,7 +12,40 @@ export type Constraint = {
   rhs: number;
 };
 
-export type SolverMethod = 'SIMPLEX' | 'BIG_M' | 'TWO_PHASE';
+// A linear program as entered by the user (decision variables x1..xn >= 0).
+export interface LinearModel {
+  type: OptimizationType;
+  objCoeffs: number[];
+  constraints: Constraint[];
+  variableNames?: string[]; // Display names from text input; defaults to x1..xn
+  variableBounds?: VariableBound[]; // Defaults to x ≥ 0 for every variable
+}
+
+// lower ≤ x ≤ upper; null stands for −∞ / +∞. The usual x ≥ 0 is { lower: 0, upper: null }.
+export interface VariableBound {
+  lower: number | null;
+  upper: number | null;
+}
+
+export type SolverMethod = 'SIMPLEX' | 'BIG_M' | 'TWO_PHASE' | 'DUAL_SIMPLEX' | 'REVISED';
+
+// Entering/leaving variable selection. Bland and lexicographic never cycle.
+export type PivotRule = 'DANTZIG' | 'BLAND' | 'LEXICOGRAPHIC' | 'STEEPEST_EDGE';
+
+export interface SolverOptions {
+  exact?: boolean; // Pivot with BigInt fractions instead of doubles
+  pivotRule?: PivotRule; // Defaults to DANTZIG
+  gomoryCuts?: boolean; // Pure integer programs: add Gomory cuts after the LP optimum
+  bounds?: VariableBound[]; // One per decision variable; missing means x ≥ 0
+}
+
+export type IntegerStrategy = 'BRANCH_AND_BOUND' | 'GOMORY';
+
+// Numerator/denominator pair of an exact value, kept as strings so results stay JSON-safe.
+export interface FractionValue {
+  num: string;
+  den: string;
+}
 
 export interface Variable {
   name: string;
@@ -21,6 +57,37 @@ export interface TableauRow {
   basicVar: string;
   coefficients: number[]; // Includes Z column, decision vars, slack/surplus/artificial
   rhs: number;
+  fractions?: FractionValue[]; // Exact mode only, aligned with coefficients
+  mCoefficients?: number[]; // Big M only: entry = coefficients[i] + mCoefficients[i]·M
+  mFractions?: FractionValue[]; // Big M in exact mode, aligned with coefficients
+}
+
+// Elementary row operation of a pivot, on the tableau of the step that holds it.
+// SCALE: R_target ← R_target / factor. ELIMINATE: R_target ← R_target − factor·R_source.
+export interface RowOperation {
+  kind: 'SCALE' | 'ELIMINATE';
+  target: number; // Row index, 0 is the objective row
+  source?: number; // ELIMINATE only: the pivot row, already scaled
+  factor: number;
+  factorText: string; // Exact value as the solver computed it ("3/2", "2M − 1")
+  text: string; // "R2 ← R2 / 3", "R0 ← R0 + 5·R2"
+}
+
+// One candidate of the ratio test. Primal steps list rows (LD / a_ij over a_ij > 0);
+// dual steps list columns (|c_j / a_rj| over a_rj < 0).
+export interface RatioTestEntry {
+  index: number; // Row or column of the tableau
+  label: string; // Basic variable of the row, or variable of the column
+  numerator: string;
+  denominator: string;
+  ratio?: string; // Missing when the entry is excluded
+  excluded?: string; // Why the entry is not a candidate
+  chosen?: boolean;
+}
+
+export interface RatioTest {
+  dual?: boolean;
+  entries: RatioTestEntry[];
 }
 
 export interface TableauStep {
@@ -35,12 +102,307 @@ export interface TableauStep {
   leavingVar?: string;
   isPhase1?: boolean;
   phase?: number;
+  dual?: boolean; // Dual simplex pivot: leaving row chosen before the entering column
+  cutIndex?: number; // Step that appends the k-th Gomory cut as the last row
+  rowOperations?: RowOperation[]; // How the next tableau follows from this one
+  ratioTest?: RatioTest; // Ratio test that chose the pivot
 }
 
+// Range of a coefficient within which the current basis stays optimal.
+// Limits are Infinity when the value can move freely in that direction.
+export interface SensitivityRange {
+  name: string;
+  current: number;
+  allowableIncrease: number;
+  allowableDecrease: number;
+}
+
+export interface SensitivityReport {
+  reducedCosts: { variable: string; value: number; reducedCost: number }[];
+  shadowPrices: { constraint: string; shadowPrice: number; slack: number }[];
+  objectiveRanges: SensitivityRange[];
+  rhsRanges: SensitivityRange[];
+}
+
+// Extra bound added on the path to a branch-and-bound node: x_{varIndex+1} (<= | >=) value.
+export interface BranchBound {
+  varIndex: number;
+  relation: '<=' | '>=';
+  value: number;
+}
+
+// Why a node was not branched further. INTEGER means its LP optimum was already integral.
+// INCOMPLETE: the node's LP stopped without an answer (iteration limit, cycling or error)
+export type PruneReason = 'INFEASIBLE' | 'UNBOUNDED' | 'BOUND' | 'INTEGER' | 'NODE_LIMIT' | 'INCOMPLETE';
+
+export interface BranchAndBoundNode {
+  id: number;
+  parentId?: number;
+  depth: number;
+  bounds: BranchBound[];
+  lpStatus: SolveResult['status'];
+  lpBound?: number; // Optimal Z of the node's LP relaxation
+  solution?: Record<string, number>; // Decision variables of that relaxation
+  branchVar?: string;
+  branchValue?: number;
+  pruned?: PruneReason;
+  isIncumbent?: boolean; // Node holding the best integer solution
+  steps: TableauStep[];
+}
+
+// Another optimal vertex, reached by entering a nonbasic variable whose reduced cost is 0.
+export interface AlternativeOptimum {
+  values: Record<string, number>; // Every variable, like SolveResult.finalValues
+  exactValues?: Record<string, FractionValue>;
+  steps: TableauStep[]; // The pivot on the optimal tableau it comes from, then its own tableau
+}
+
+// Zero-cost direction of the optimal set: increasing `variable` keeps Z optimal forever.
+export interface OptimalRay {
+  variable: string;
+  direction: Record<string, number>; // Change of each decision variable per unit of `variable`
+}
+
+// What the final tableau says beyond the optimum itself.
+export interface OptimalityAnalysis {
+  zeroReducedCosts: string[]; // Nonbasic variables with reduced cost 0
+  alternatives: AlternativeOptimum[]; // Other optimal vertices (distinct points only)
+  rays: OptimalRay[];
+  degenerateVars: string[]; // Basic variables at 0
+}
+
+// Evidence of an unbounded LP: point + t·direction stays feasible for every t ≥ 0
+// while Z changes by zRate per unit of t (grows for MAX, falls for MIN).
+export interface UnboundedRay {
+  enteringVar: string; // Variable whose column has no positive entry
+  point: Record<string, number>; // Decision variables of a feasible basic solution
+  direction: Record<string, number>;
+  zRate: number;
+}
+
+// Farkas certificate of an infeasible LP: multipliers y (y ≥ 0 on ≤ rows, y ≤ 0 on ≥ rows,
+// free on = rows) with yᵀA ≥ 0 and yᵀb < 0. Adding up the constraints with these weights
+// gives yᵀA·x ≤ yᵀb, impossible for x ≥ 0.
+export interface FarkasCertificate {
+  multipliers: number[]; // One per model constraint
+  combination: number[]; // yᵀA, one entry per decision variable
+  rhs: number; // yᵀb
+  conflict: number[]; // Indices of an irreducible infeasible subset of the constraints
+}
+
+// One iteration of the revised simplex: prices the nonbasic columns with y = c_B·B⁻¹,
+// then computes only the entering column B⁻¹a_q for the ratio test.
+export interface RevisedIteration {
+  iteration: number;
+  phase: number; // 1 while the artificials are driven to 0, 2 afterwards, 0 without Phase 1
+  basis: string[]; // Basic variable of each row
+  objective: number; // W in Phase 1, Z of the user's objective otherwise
+  enteringVar?: string;
+  leavingVar?: string;
+  reducedCost?: number; // c_q − y·a_q of the entering column, in max form
+  stepLength?: number; // Minimum ratio: how far the entering variable moves
+  etaCount: number; // Eta matrices in the product form of B⁻¹ when the iteration starts
+  refactored?: boolean; // B⁻¹ was rebuilt from the basis columns before this iteration
+  // Small models only (see RevisedReport.detailed)
+  inverse?: number[][]; // B⁻¹
+  duals?: number[]; // c_B·B⁻¹
+  basisValues?: number[]; // x_B = B⁻¹b
+  enteringColumn?: number[]; // B⁻¹a_q
+}
+
+export interface RevisedReport {
+  rows: number; // Constraints of the standard form
+  columns: number; // Decision, slack, surplus and artificial variables
+  nonzeros: number; // Stored entries of the constraint matrix
+  refactorizations: number;
+  detailed: boolean; // Small model: B⁻¹ per iteration, and the dense tableaux in steps
+  iterations: RevisedIteration[];
+}
+
+// A requested option the engine that ran does not implement: exact arithmetic or a pivot rule
+export type IgnoredSetting = 'EXACT' | PivotRule;
+
 export interface SolveResult {
   steps: TableauStep[];
   finalValues: Record<string, number>;
   zValue: number;
-  status: 'OPTIMAL' | 'UNBOUNDED' | 'INFEASIBLE' | 'ERROR';
+  status: 'OPTIMAL' | 'UNBOUNDED' | 'INFEASIBLE' | 'ITERATION_LIMIT' | 'CYCLING' | 'ERROR';
+  errorMessage?: string;
+  exactValues?: Record<string, FractionValue>;
+  exactZValue?: FractionValue;
+  sensitivity?: SensitivityReport; // Only when status is 'OPTIMAL'
+  branchAndBound?: BranchAndBoundNode[]; // Integer programs: every node explored, in order
+  optimality?: OptimalityAnalysis; // Only when status is 'OPTIMAL' (LP solves without cuts)
+  unboundedRay?: UnboundedRay; // Only when status is 'UNBOUNDED'
+  farkas?: FarkasCertificate; // Only when status is 'INFEASIBLE' and the LP relaxation is infeasible
+  revised?: RevisedReport; // Revised simplex only
+  ignoredSettings?: IgnoredSetting[]; // Requested but not applied by the engine that ran
+}
+
+// Parametric programming: c(θ) = c + θ·Δc on the objective, or b(θ) = b + θ·Δb on the
+// right-hand sides, swept over [thetaMin, thetaMax].
+export type ParametricTarget = 'OBJECTIVE' | 'RHS';
+
+export interface ParametricSpec {
+  target: ParametricTarget;
+  direction: number[]; // Δc (one per variable) or Δb (one per constraint)
+  thetaMin: number;
+  thetaMax: number;
+}
+
+// constant + slope·θ
+export interface ThetaLinear {
+  constant: number;
+  slope: number;
+}
+
+// A θ range over which one basis stays optimal.
+export interface ParametricInterval {
+  from: number;
+  to: number;
+  basis: string[];
+  values: Record<string, ThetaLinear>; // Decision variables; constant when c varies
+  z: ThetaLinear;
+  stepIndex: number; // Index in ParametricResult.steps of the tableau at θ = from
+}
+
+export interface ParametricResult {
+  spec: ParametricSpec;
+  intervals: ParametricInterval[];
+  criticalThetas: number[]; // Where the optimal basis changes
+  steps: TableauStep[]; // Each interval's tableau, and the pivot at each critical θ
+  // The sweep ended before thetaMax: from this θ on there is no optimum
+  stop?: { theta: number; status: SolveResult['status']; message: string };
+}
+
+// Which kind of model the app is editing: a general LP or one of the specialized models.
+export type ProblemType = 'LP' | 'TRANSPORTATION' | 'ASSIGNMENT' | 'GOAL';
+
+export type TransportInitialMethod = 'NORTHWEST_CORNER' | 'LEAST_COST' | 'VOGEL';
+
+// Minimize Σ c_ij·x_ij shipping supply[i] from each origin to cover demand[j] at each destination.
+export interface TransportationProblem {
+  costs: number[][]; // costs[i][j]: origin i to destination j
+  supply: number[];
+  demand: number[];
+}
+
+export interface TransportCell {
+  row: number;
+  col: number;
+}
+
+// One allocation of the initial-solution heuristic.
+export interface TransportAllocationStep {
+  cell: TransportCell;
+  amount: number;
+  description: string;
+  rowPenalties?: (number | null)[]; // Vogel only: null for crossed-out or single-cell lines
+  colPenalties?: (number | null)[];
+}
+
+// A basic solution and the MODI test on it. Allocations are null off the basis;
+// a basic cell may hold 0 when the solution is degenerate.
+export interface TransportIteration {
+  allocation: (number | null)[][];
+  u: number[];
+  v: number[];
+  reducedCosts: (number | null)[][]; // c_ij − u_i − v_j on nonbasic cells
+  cost: number;
+  entering?: TransportCell;
+  loop?: TransportCell[]; // Stepping-stone loop from the entering cell, signs alternate +, −, +...
+  theta?: number;
+  leaving?: TransportCell;
+  description: string;
+}
+
+export interface TransportationResult {
+  status: 'OPTIMAL' | 'ITERATION_LIMIT';
+  problem: TransportationProblem; // Balanced: may include a dummy origin or destination
+  dummy?: 'ROW' | 'COLUMN';
+  initialMethod: TransportInitialMethod;
+  initialSteps: TransportAllocationStep[];
+  iterations: TransportIteration[]; // The last one passes the optimality test (when OPTIMAL)
+  allocation: number[][];
+  totalCost: number;
+  alternativeOptima: boolean; // Some nonbasic cell has reduced cost 0 at the optimum
+}
+
+// Assign rows (agents) to columns (tasks) one-to-one; the matrix may be rectangular.
+export interface AssignmentProblem {
+  type: OptimizationType; // MIN for costs, MAX for profits
+  costs: number[][];
+}
+
+export type HungarianStepKind =
+  | 'INITIAL' | 'MAX_CONVERSION' | 'ROW_REDUCTION' | 'COLUMN_REDUCTION' | 'COVER' | 'ADJUSTMENT' | 'ASSIGNMENT';
+
+// One matrix of the Hungarian method, with the lines covering its zeros when relevant.
+export interface HungarianStep {
+  kind: HungarianStepKind;
+  matrix: number[][];
+  description: string;
+  coveredRows?: boolean[];
+  coveredCols?: boolean[];
+  assignment?: number[]; // ASSIGNMENT only: column of each row
+}
+
+export interface AssignmentResult {
+  type: OptimizationType;
+  costs: number[][]; // Square: padded with dummy rows or columns of 0
+  dummyRows: number;
+  dummyCols: number;
+  steps: HungarianStep[];
+  assignment: number[]; // Column of each row of the padded matrix
+  total: number; // Sum of the original costs (or profits) of the real pairs
+}
+
+// Preemptive: priority levels are optimized one after the other, each locking the levels
+// above it. Weighted: one LP minimizing the weighted sum of every unwanted deviation.
+export type GoalMode = 'PREEMPTIVE' | 'WEIGHTED';
+
+// A goal turns Σ a_j·x_j (rel) b into Σ a_j·x_j + d⁻ − d⁺ = b. Its relation names the unwanted
+// deviation: ≥ penalizes d⁻ (falling short), ≤ penalizes d⁺ (going over), = both.
+// Rows with isGoal false stay hard constraints.
+export interface GoalConstraint extends Constraint {
+  isGoal: boolean;
+  priority: number; // 1 is the highest
+  weight: number;
+}
+
+export interface GoalProgram {
+  mode: GoalMode;
+  method: SolverMethod;
+  numVars: number;
+  constraints: GoalConstraint[];
+}
+
+// One LP of the sequence: the single one when weighted, one per priority level when preemptive.
+export interface GoalStage {
+  priority?: number; // Preemptive only
+  objective: string; // "2·d1⁻ + d3⁺"
+  locks: string[]; // Earlier levels held at their optimum: "d1⁻ ≤ 0"
+  status: SolveResult['status'];
+  errorMessage?: string;
+  deviation: number; // Optimal weighted deviation of this stage
+  steps: TableauStep[]; // Deviation columns named d1⁻, d1⁺… instead of x's
+}
+
+// How far the final solution lands from one goal's target.
+export interface GoalAchievement {
+  row: number; // Index in GoalProgram.constraints
+  target: number;
+  value: number; // Σ a_j·x_j at the solution
+  under: number; // d⁻
+  over: number; // d⁺
+  met: boolean; // The unwanted deviation is 0
+}
+
+export interface GoalResult {
+  mode: GoalMode;
+  status: SolveResult['status'];
   errorMessage?: string;
+  stages: GoalStage[];
+  values: number[]; // Decision variables x1..xn
+  goals: GoalAchievement[];
 }